@@ -50,7 +50,10 @@ vi.mock('$lib/stores', async () => {
 
 vi.mock('$lib/domain/worker.service', () => ({
 	runGeneration: vi.fn(),
-	cancelGeneration: vi.fn()
+	cancelGeneration: vi.fn(),
+	resumeGeneration: vi.fn(),
+	listResumableGenerations: vi.fn().mockResolvedValue([]),
+	discardGeneration: vi.fn()
 }));
 
 vi.mock('$lib/utils/error-handling', () => ({
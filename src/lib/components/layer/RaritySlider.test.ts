@@ -111,4 +111,24 @@ describe('RaritySlider', () => {
 		const rarityValue3 = container3.querySelector('[data-testid="rarity-value"]');
 		expect(rarityValue3?.textContent).toContain('Epic');
 	});
+
+	it('hides the tier slider for weights outside the tiers', () => {
+		render(RaritySlider, {
+			props: { rarityWeight: 2.7, traitId: mockTraitId, layerId: mockLayerId }
+		});
+
+		expect(screen.getByTestId('rarity-value')).toHaveTextContent('Near Epic');
+		expect(screen.queryByTestId('rarity-tier-slider')).toBeNull();
+		expect(screen.getByTestId('rarity-custom-weight')).toBeInTheDocument();
+	});
+
+	it('shows the tier slider for whole weights from 1 to 5', () => {
+		render(RaritySlider, {
+			props: { rarityWeight: 4, traitId: mockTraitId, layerId: mockLayerId }
+		});
+
+		expect(screen.getByTestId('rarity-value')).toHaveTextContent('Rare');
+		expect(screen.getByTestId('rarity-tier-slider')).toBeInTheDocument();
+		expect(screen.queryByTestId('rarity-custom-weight')).toBeNull();
+	});
 });
@@ -23,6 +23,17 @@ const mockProjectActions = vi.hoisted(() => ({
 	removeTrait: vi.fn(),
 	updateTraitName: vi.fn(),
 	updateTraitRarity: vi.fn(),
+	updateTraitSupply: vi.fn(),
+	updateTraitRenderOverride: vi.fn(),
+	updateTraitBlending: vi.fn(),
+	updateLayerBlending: vi.fn(),
+	updateTraitPlacement: vi.fn(),
+	updateTraitMetadata: vi.fn(),
+	addColorVariant: vi.fn(),
+	updateColorVariant: vi.fn(),
+	ensureColorVariantImage: vi.fn(),
+	linkTraits: vi.fn(),
+	unlinkTraits: vi.fn(),
 	updateTraitRulerRules: vi.fn()
 }));
 
@@ -33,6 +44,17 @@ vi.mock('$lib/stores', () => ({
 	removeTrait: mockProjectActions.removeTrait,
 	updateTraitName: mockProjectActions.updateTraitName,
 	updateTraitRarity: mockProjectActions.updateTraitRarity,
+	updateTraitSupply: mockProjectActions.updateTraitSupply,
+	updateTraitRenderOverride: mockProjectActions.updateTraitRenderOverride,
+	updateTraitBlending: mockProjectActions.updateTraitBlending,
+	updateLayerBlending: mockProjectActions.updateLayerBlending,
+	updateTraitPlacement: mockProjectActions.updateTraitPlacement,
+	updateTraitMetadata: mockProjectActions.updateTraitMetadata,
+	addColorVariant: mockProjectActions.addColorVariant,
+	updateColorVariant: mockProjectActions.updateColorVariant,
+	ensureColorVariantImage: mockProjectActions.ensureColorVariantImage,
+	linkTraits: mockProjectActions.linkTraits,
+	unlinkTraits: mockProjectActions.unlinkTraits,
 	updateTraitRulerRules: mockProjectActions.updateTraitRulerRules
 }));
 
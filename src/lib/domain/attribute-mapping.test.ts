@@ -0,0 +1,231 @@
+import { describe, expect, it } from 'vite-plus/test';
+import type { ExtraAttribute } from '$lib/types/project';
+import {
+	buildExtraAttributes,
+	buildTraitAttributes,
+	findAttributeMappingProblem,
+	findShadowingLayers,
+	mapLayerAttributes,
+	needsRarityRank,
+	rankByRarity,
+	unmapLayerAttributes
+} from './attribute-mapping';
+
+const layers = [
+	{ name: 'Background', attributeName: 'Backdrop' },
+	{ name: 'Shadow', hideAttribute: true },
+	{ name: 'Hat' }
+];
+
+const attributes = [
+	{ trait_type: 'Background', value: 'Blue' },
+	{ trait_type: 'Shadow', value: 'Soft' },
+	{ trait_type: 'Hat', value: 'None' }
+];
+
+function extra(source: ExtraAttribute['source'], fields: Partial<ExtraAttribute> = {}) {
+	return { id: source, traitType: source, source, ...fields } as ExtraAttribute;
+}
+
+describe('attribute mapping', () => {
+	it('renames and hides layer attributes', () => {
+		expect(mapLayerAttributes(attributes, layers)).toEqual([
+			{ trait_type: 'Backdrop', value: 'Blue' },
+			{ trait_type: 'Hat', value: 'None' }
+		]);
+		// 1-of-1 attributes that match no layer pass through
+		expect(mapLayerAttributes([{ trait_type: 'Artist', value: 'Ana' }], layers)).toEqual([
+			{ trait_type: 'Artist', value: 'Ana' }
+		]);
+	});
+
+	it('maps metadata back to layer names and drops extra attributes', () => {
+		const extras = [extra('static', { traitType: 'Season', value: '1' })];
+
+		expect(
+			unmapLayerAttributes(
+				[
+					{ trait_type: 'Backdrop', value: 'Blue' },
+					{ trait_type: 'Season', value: '1' }
+				],
+				layers,
+				extras
+			)
+		).toEqual([{ trait_type: 'Background', value: 'Blue' }]);
+	});
+
+	it('writes metadata values and merges trait attributes', () => {
+		const traitLayers = [
+			{
+				name: 'Body',
+				traits: [
+					{
+						name: 'body_gold_v2',
+						metadataValue: 'Gold',
+						attributes: [
+							{ trait_type: 'Element', value: 'Fire' },
+							{ trait_type: 'Power', value: '3' }
+						]
+					}
+				]
+			},
+			{
+				name: 'Hat',
+				traits: [{ name: 'Crown', attributes: [{ trait_type: 'Power', value: '7' }] }]
+			},
+			{
+				name: 'Aura',
+				hideAttribute: true,
+				traits: [{ name: 'Glow', attributes: [{ trait_type: 'Luck', value: '1' }] }]
+			}
+		];
+		const token = [
+			{ trait_type: 'Body', value: 'body_gold_v2' },
+			{ trait_type: 'Hat', value: 'Crown' },
+			{ trait_type: 'Aura', value: 'Glow' }
+		];
+
+		expect(mapLayerAttributes(token, traitLayers)).toEqual([
+			{ trait_type: 'Body', value: 'Gold' },
+			{ trait_type: 'Hat', value: 'Crown' }
+		]);
+		// The upper layer's Power wins; hidden layers and taken trait types add nothing
+		expect(buildTraitAttributes(token, traitLayers, ['Element'])).toEqual([
+			{ trait_type: 'Power', value: '7' }
+		]);
+		expect(
+			unmapLayerAttributes(
+				[
+					{ trait_type: 'Body', value: 'Gold' },
+					{ trait_type: 'Power', value: '7' }
+				],
+				traitLayers
+			)
+		).toEqual([{ trait_type: 'Body', value: 'body_gold_v2' }]);
+	});
+
+	it('reports trait attributes that upper layers overwrite', () => {
+		const power = (value: string) => [{ trait_type: 'Power', value }];
+		const traitLayers = [
+			{
+				name: 'Body',
+				traits: [
+					{ name: 'Gold', attributes: [...power('3'), { trait_type: 'Element', value: 'Fire' }] },
+					// Traits of one layer never meet on a token
+					{ name: 'Silver', attributes: power('2') }
+				]
+			},
+			{ name: 'Aura', hideAttribute: true, traits: [{ name: 'Glow', attributes: power('9') }] },
+			{ name: 'Hat', traits: [{ name: 'Crown', attributes: power('7') }] },
+			{ name: 'Weapon', traits: [{ name: 'Sword', attributes: power('5') }] }
+		];
+
+		expect(findShadowingLayers(traitLayers, 'Body')).toEqual(
+			new Map([['Power', ['Hat', 'Weapon']]])
+		);
+		expect(findShadowingLayers(traitLayers, 'Hat')).toEqual(new Map([['Power', ['Weapon']]]));
+		expect(findShadowingLayers(traitLayers, 'Weapon')).toEqual(new Map());
+		// Hidden layers write no trait attributes, so they neither lose nor win
+		expect(findShadowingLayers(traitLayers, 'Aura')).toEqual(new Map());
+
+		// The top layer's value is the one written
+		const token = [
+			{ trait_type: 'Body', value: 'Gold' },
+			{ trait_type: 'Aura', value: 'Glow' },
+			{ trait_type: 'Hat', value: 'Crown' },
+			{ trait_type: 'Weapon', value: 'Sword' }
+		];
+		expect(buildTraitAttributes(token, traitLayers)).toEqual([
+			{ trait_type: 'Power', value: '5' },
+			{ trait_type: 'Element', value: 'Fire' }
+		]);
+	});
+
+	it('computes extra attributes for a token', () => {
+		const mapped = mapLayerAttributes(attributes, layers);
+		const context = {
+			traits: [
+				{ layer: 'Background', value: 'Blue', tier: 'Uncommon' },
+				{ layer: 'Shadow', value: 'Soft', tier: 'Legendary' },
+				{ layer: 'Hat', value: 'None', tier: '' }
+			],
+			rarityRank: 3
+		};
+
+		expect(
+			buildExtraAttributes(
+				[
+					extra('static', { traitType: 'Season', value: '1' }),
+					extra('static', { traitType: 'Level', value: '5', displayType: 'number', maxValue: 10 }),
+					extra('trait-count', { traitType: 'Trait Count' }),
+					extra('rarity-rank', { traitType: 'Rarity Rank' }),
+					extra('rarity-tier', { traitType: 'Rarity Tier' })
+				],
+				mapped,
+				layers,
+				context
+			)
+		).toEqual([
+			{ trait_type: 'Season', value: '1' },
+			{ trait_type: 'Level', value: 5, display_type: 'number', max_value: 10 },
+			{ trait_type: 'Trait Count', value: 1 },
+			{ trait_type: 'Rarity Rank', value: 3 },
+			// The hidden shadow's tier does not count
+			{ trait_type: 'Rarity Tier', value: 'Uncommon' }
+		]);
+		expect(buildExtraAttributes([extra('rarity-rank')], mapped, layers, { traits: [] })).toEqual(
+			[]
+		);
+	});
+
+	it('ranks the rarest token first, counting earlier tokens too', () => {
+		const blue = [{ trait_type: 'Background', value: 'Blue' }];
+		const red = [{ trait_type: 'Background', value: 'Red' }];
+
+		expect(rankByRarity([blue, red, blue])).toEqual([2, 1, 3]);
+		expect(rankByRarity([blue], [red, red])).toEqual([1]);
+		expect(needsRarityRank([extra('trait-count'), extra('rarity-rank')])).toBe(true);
+		expect(needsRarityRank()).toBe(false);
+	});
+
+	it('finds clashing trait types and invalid extra attributes', () => {
+		expect(findAttributeMappingProblem(layers, [extra('trait-count')])).toBeNull();
+		expect(findAttributeMappingProblem([...layers, { name: 'Backdrop' }])).toBe(
+			'Layer "Background" and Layer "Backdrop" both write the "Backdrop" attribute.'
+		);
+		// Hidden layers free their trait type
+		expect(
+			findAttributeMappingProblem(layers, [extra('static', { traitType: 'Shadow', value: 'x' })])
+		).toBeNull();
+		expect(
+			findAttributeMappingProblem(layers, [
+				extra('static', { traitType: 'Level', value: 'high', displayType: 'number' })
+			])
+		).toBe('Attribute "Level" has a "number" display type, so its value must be a number.');
+		expect(
+			findAttributeMappingProblem(layers, [extra('rarity-tier', { displayType: 'number' })])
+		).toBe(
+			'Attribute "rarity-tier" holds a tier name, so it cannot have a display type or maximum.'
+		);
+	});
+
+	it('finds traits whose values or attributes clash', () => {
+		const hat = (traits: { name: string; metadataValue?: string }[]) => [{ name: 'Hat', traits }];
+
+		expect(findAttributeMappingProblem(hat([{ name: 'Cap' }, { name: 'Cap' }]))).toBeNull();
+		expect(
+			findAttributeMappingProblem(hat([{ name: 'Cap' }, { name: 'cap_2', metadataValue: 'Cap' }]))
+		).toBe('Traits "Cap" and "cap_2" in layer "Hat" both write the value "Cap".');
+		expect(
+			findAttributeMappingProblem(
+				[
+					{
+						name: 'Hat',
+						traits: [{ name: 'Cap', attributes: [{ trait_type: 'Season', value: '2' }] }]
+					}
+				],
+				[extra('static', { traitType: 'Season', value: '1' })]
+			)
+		).toBe('Trait "Cap" and "Season" both write the "Season" attribute.');
+	});
+});
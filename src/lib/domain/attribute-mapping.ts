@@ -0,0 +1,373 @@
+/**
+ * Attribute mapping: how a token's traits turn into metadata attributes.
+ *
+ * Each layer's attribute can be renamed (its `trait_type` no longer has to be
+ * the layer name) or hidden, e.g. for technical layers like shadows, and each
+ * trait can write a metadata value other than its name. Traits may carry
+ * attributes of their own ("Power: 7"), which follow the layer attributes.
+ * Extra attributes come last on every token: either a static value such as
+ * "Season: 1", or one computed per token.
+ *
+ * Layer attributes are matched by layer and trait name, so a 1-of-1's
+ * hand-written attributes are mapped the same way as generated ones.
+ */
+
+import { NONE_TRAIT_VALUE, type TraitAttribute } from '$lib/types/layer';
+import type { ExtraAttribute, OneOfOneAttribute, Project } from '$lib/types/project';
+import type { MetadataAttribute } from './metadata/metadata.strategy';
+import { DEFAULT_RARITY_TIERS } from './rarity-calculator';
+import type { TokenTemplateTrait } from './token-templates';
+
+/** OpenSea `display_type` values; all of them need a numeric value */
+export const ATTRIBUTE_DISPLAY_TYPES = [
+	'number',
+	'boost_number',
+	'boost_percentage',
+	'date'
+] as const;
+export type AttributeDisplayType = (typeof ATTRIBUTE_DISPLAY_TYPES)[number];
+
+/**
+ * Where an extra attribute's value comes from:
+ *
+ * - `static` — the same value on every token
+ * - `trait-count` — how many visible layer attributes are not "None"
+ * - `rarity-rank` — 1 for the rarest token of the collection
+ * - `rarity-tier` — tier of the token's rarest visible trait, e.g. "Epic"
+ */
+export const EXTRA_ATTRIBUTE_SOURCES = [
+	'static',
+	'trait-count',
+	'rarity-rank',
+	'rarity-tier'
+] as const;
+export type ExtraAttributeSource = (typeof EXTRA_ATTRIBUTE_SOURCES)[number];
+
+/** Minimal layer shape needed to map its attribute */
+export interface MappedLayer {
+	name: string;
+	attributeName?: string;
+	hideAttribute?: boolean;
+	traits?: MappedTrait[];
+}
+
+/** Minimal trait shape needed to map its value and attributes */
+export interface MappedTrait {
+	name: string;
+	metadataValue?: string;
+	attributes?: TraitAttribute[];
+}
+
+/** Per-token values computed attributes are taken from */
+export interface ExtraAttributeContext {
+	/** Trait of every layer with its tier; see toTemplateTraits */
+	traits: TokenTemplateTrait[];
+	/** Set when the collection was ranked; see rankByRarity */
+	rarityRank?: number;
+}
+
+/** The `trait_type` a layer's attribute is written with */
+export function getAttributeTraitType(layer: MappedLayer): string {
+	return layer.attributeName?.trim() || layer.name;
+}
+
+/** The `value` a trait is written with */
+export function getTraitMetadataValue(trait: MappedTrait): string {
+	return trait.metadataValue?.trim() || trait.name;
+}
+
+/**
+ * Rename and hide layer attributes, writing each trait's metadata value.
+ * Attributes that match no layer (only possible for 1-of-1s) are kept as
+ * they are.
+ */
+export function mapLayerAttributes(
+	attributes: OneOfOneAttribute[],
+	layers: MappedLayer[]
+): OneOfOneAttribute[] {
+	const byName = new Map(layers.map((layer) => [layer.name, layer]));
+	return attributes.flatMap((attribute) => {
+		const layer = byName.get(attribute.trait_type);
+		if (!layer) return [attribute];
+		if (layer.hideAttribute) return [];
+		const trait = layer.traits?.find((t) => t.name === attribute.value);
+		return [
+			{
+				trait_type: getAttributeTraitType(layer),
+				value: trait ? getTraitMetadataValue(trait) : attribute.value
+			}
+		];
+	});
+}
+
+/**
+ * Attributes carried by the traits of a token, given its unmapped layer
+ * attributes. Trait types in `taken` (the token's layer and extra attributes)
+ * are never overwritten. When two traits carry the same trait type, the one
+ * listed later wins, which for generated tokens is the upper layer.
+ */
+export function buildTraitAttributes(
+	attributes: OneOfOneAttribute[],
+	layers: MappedLayer[],
+	taken: string[] = []
+): OneOfOneAttribute[] {
+	const byName = new Map(layers.map((layer) => [layer.name, layer]));
+	const reserved = new Set(taken);
+	const merged = new Map<string, string>();
+	for (const attribute of attributes) {
+		const layer = byName.get(attribute.trait_type);
+		if (!layer || layer.hideAttribute) continue;
+		const trait = layer.traits?.find((t) => t.name === attribute.value);
+		for (const { trait_type, value } of trait?.attributes ?? []) {
+			if (!reserved.has(trait_type.trim())) merged.set(trait_type.trim(), value.trim());
+		}
+	}
+	return [...merged].map(([trait_type, value]) => ({ trait_type, value }));
+}
+
+/**
+ * Trait types of a layer's trait attributes that upper layers overwrite.
+ * buildTraitAttributes writes the upper layer's value when traits of two
+ * visible layers carry the same trait type, so the editor can say which
+ * layers win. Traits of one layer never meet on a token and do not count.
+ *
+ * @param layers all layers, bottom layer first
+ * @returns trait type -> names of the upper layers that overwrite it
+ */
+export function findShadowingLayers(
+	layers: MappedLayer[],
+	layerName: string
+): Map<string, string[]> {
+	const shadowing = new Map<string, string[]>();
+	const index = layers.findIndex((layer) => layer.name === layerName);
+	if (index === -1 || layers[index].hideAttribute) return shadowing;
+
+	const ownTraitTypes = new Set(
+		(layers[index].traits ?? []).flatMap((t) =>
+			(t.attributes ?? []).map((a) => a.trait_type.trim())
+		)
+	);
+	for (const upper of layers.slice(index + 1)) {
+		if (upper.hideAttribute) continue;
+		const upperTraitTypes = new Set(
+			(upper.traits ?? []).flatMap((t) => (t.attributes ?? []).map((a) => a.trait_type.trim()))
+		);
+		for (const traitType of ownTraitTypes) {
+			if (upperTraitTypes.has(traitType)) {
+				shadowing.set(traitType, [...(shadowing.get(traitType) ?? []), upper.name]);
+			}
+		}
+	}
+	return shadowing;
+}
+
+/**
+ * Turn metadata attributes back into layer attributes, e.g. for tokens of a
+ * gallery collection: renamed trait types and metadata values get their
+ * layer and trait names back, and trait and extra attributes are dropped.
+ * Hidden layers cannot be recovered.
+ */
+export function unmapLayerAttributes(
+	attributes: OneOfOneAttribute[],
+	layers: MappedLayer[],
+	extraAttributes: ExtraAttribute[] = []
+): OneOfOneAttribute[] {
+	const byTraitType = new Map(
+		layers.filter((layer) => !layer.hideAttribute).map((l) => [getAttributeTraitType(l), l])
+	);
+	const dropped = new Set([
+		...extraAttributes.map((extra) => extra.traitType.trim()),
+		...layers.flatMap((layer) =>
+			(layer.traits ?? []).flatMap((t) => (t.attributes ?? []).map((a) => a.trait_type.trim()))
+		)
+	]);
+	return attributes.flatMap((attribute) => {
+		const layer = byTraitType.get(attribute.trait_type);
+		if (layer) {
+			const trait = layer.traits?.find((t) => getTraitMetadataValue(t) === attribute.value);
+			return [{ trait_type: layer.name, value: trait ? trait.name : attribute.value }];
+		}
+		return dropped.has(attribute.trait_type) ? [] : [attribute];
+	});
+}
+
+/** The project's extra attributes, copied so they can be sent to the workers */
+export function getProjectExtraAttributes(
+	project: Pick<Project, 'extraAttributes'>
+): ExtraAttribute[] {
+	return (project.extraAttributes ?? []).map((extra) => ({
+		...extra,
+		traitType: extra.traitType.trim()
+	}));
+}
+
+/** True when an extra attribute needs the whole collection ranked first */
+export function needsRarityRank(extraAttributes: ExtraAttribute[] = []): boolean {
+	return extraAttributes.some((extra) => extra.source === 'rarity-rank');
+}
+
+/**
+ * Rank tokens by rarity the way the gallery does: a token scores the sum of
+ * `100 / percentage` over its traits, with "None" for every trait type it
+ * lacks, and the highest score ranks 1. `others` (e.g. tokens minted
+ * earlier) count towards trait frequencies and ranks but get no rank.
+ *
+ * @returns the rank of each of `tokens`, in order
+ */
+export function rankByRarity(
+	tokens: OneOfOneAttribute[][],
+	others: OneOfOneAttribute[][] = []
+): number[] {
+	const all = [...tokens, ...others];
+	const traitTypes = [...new Set(all.flatMap((token) => token.map((a) => a.trait_type)))];
+	const withNone = all.map((token) => {
+		const values = new Map(token.map((a) => [a.trait_type, a.value]));
+		return traitTypes.map((type) => `${type}:${values.get(type) ?? NONE_TRAIT_VALUE}`);
+	});
+
+	const counts = new Map<string, number>();
+	for (const keys of withNone) {
+		for (const key of keys) counts.set(key, (counts.get(key) ?? 0) + 1);
+	}
+
+	const scores = withNone.map((keys) =>
+		keys.reduce((score, key) => score + all.length / counts.get(key)!, 0)
+	);
+	const order = scores.map((_, i) => i).sort((a, b) => scores[b] - scores[a]);
+	const ranks: number[] = [];
+	order.forEach((tokenIndex, position) => {
+		ranks[tokenIndex] = position + 1;
+	});
+	return ranks.slice(0, tokens.length);
+}
+
+/**
+ * A token's extra attributes, after its (already mapped) layer attributes.
+ * A rarity rank is left out when the token was not ranked.
+ */
+export function buildExtraAttributes(
+	extraAttributes: ExtraAttribute[],
+	attributes: OneOfOneAttribute[],
+	layers: MappedLayer[],
+	context: ExtraAttributeContext
+): MetadataAttribute[] {
+	return extraAttributes.flatMap((extra): MetadataAttribute[] => {
+		const value = getExtraAttributeValue(extra, attributes, layers, context);
+		if (value === undefined) return [];
+		return [
+			{
+				trait_type: extra.traitType.trim(),
+				value,
+				...(extra.displayType ? { display_type: extra.displayType } : {}),
+				...(extra.maxValue !== undefined ? { max_value: extra.maxValue } : {})
+			}
+		];
+	});
+}
+
+function getExtraAttributeValue(
+	extra: ExtraAttribute,
+	attributes: OneOfOneAttribute[],
+	layers: MappedLayer[],
+	context: ExtraAttributeContext
+): string | number | undefined {
+	switch (extra.source) {
+		case 'static':
+			return extra.displayType ? Number(extra.value) : (extra.value ?? '');
+		case 'trait-count':
+			return attributes.filter((a) => a.value !== NONE_TRAIT_VALUE).length;
+		case 'rarity-rank':
+			return context.rarityRank;
+		case 'rarity-tier':
+			return getRarestTier(context.traits, layers);
+	}
+}
+
+/** Tier of the rarest trait in a visible layer; the lowest tier when there is none */
+function getRarestTier(traits: TokenTemplateTrait[], layers: MappedLayer[]): string {
+	const hidden = new Set(layers.filter((l) => l.hideAttribute).map((l) => l.name));
+	const tierNames = DEFAULT_RARITY_TIERS.map((tier) => tier.name);
+	const rarest = traits
+		.filter((trait) => trait.tier && !hidden.has(trait.layer))
+		.reduce((best, trait) => Math.max(best, tierNames.indexOf(trait.tier)), 0);
+	return tierNames[rarest];
+}
+
+/**
+ * Find the first problem that would make token attributes ambiguous or
+ * invalid, or null when there is none. Every visible layer and extra
+ * attribute needs a `trait_type` of its own, which trait attributes cannot
+ * use either, and the traits of a layer need metadata values of their own.
+ */
+export function findAttributeMappingProblem(
+	layers: MappedLayer[],
+	extraAttributes: ExtraAttribute[] = []
+): string | null {
+	const owners = new Map<string, string>();
+	const claim = (traitType: string, owner: string): string | null => {
+		const other = owners.get(traitType);
+		if (other) return `${other} and ${owner} both write the "${traitType}" attribute.`;
+		owners.set(traitType, owner);
+		return null;
+	};
+
+	const visibleLayers = layers.filter((layer) => !layer.hideAttribute);
+	for (const layer of visibleLayers) {
+		const problem =
+			claim(getAttributeTraitType(layer), `Layer "${layer.name}"`) ?? findTraitValueProblem(layer);
+		if (problem) return problem;
+	}
+
+	for (const extra of extraAttributes) {
+		const traitType = extra.traitType.trim();
+		if (!traitType) return 'Every extra attribute needs a trait type.';
+		const problem = findExtraAttributeProblem(extra) ?? claim(traitType, `"${traitType}"`);
+		if (problem) return problem;
+	}
+
+	// Traits may share trait types with each other, but not with the above
+	for (const layer of visibleLayers) {
+		for (const trait of layer.traits ?? []) {
+			for (const attribute of trait.attributes ?? []) {
+				const traitType = attribute.trait_type.trim();
+				const owner = owners.get(traitType);
+				if (owner)
+					return `Trait "${trait.name}" and ${owner} both write the "${traitType}" attribute.`;
+			}
+		}
+	}
+	return null;
+}
+
+/** Traits whose metadata values match could not be told apart */
+function findTraitValueProblem(layer: MappedLayer): string | null {
+	const seen = new Map<string, MappedTrait>();
+	for (const trait of layer.traits ?? []) {
+		const value = getTraitMetadataValue(trait);
+		const other = seen.get(value);
+		// Duplicate trait names predate metadata values and are left alone
+		if (other && (other.metadataValue?.trim() || trait.metadataValue?.trim())) {
+			return `Traits "${other.name}" and "${trait.name}" in layer "${layer.name}" both write the value "${value}".`;
+		}
+		seen.set(value, trait);
+	}
+	return null;
+}
+
+/** Why an extra attribute's value, display type or maximum cannot be written */
+export function findExtraAttributeProblem(extra: ExtraAttribute): string | null {
+	const label = `Attribute "${extra.traitType.trim()}"`;
+	if (extra.source === 'rarity-tier' && (extra.displayType || extra.maxValue !== undefined)) {
+		return `${label} holds a tier name, so it cannot have a display type or maximum.`;
+	}
+	if (extra.source !== 'static') return null;
+
+	if (!extra.value?.trim()) return `${label} needs a value.`;
+	if (extra.displayType && !Number.isFinite(Number(extra.value))) {
+		return `${label} has a "${extra.displayType}" display type, so its value must be a number.`;
+	}
+	if (!extra.displayType && extra.maxValue !== undefined) {
+		return `${label} needs a display type to use a maximum.`;
+	}
+	return null;
+}
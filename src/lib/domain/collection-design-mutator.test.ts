@@ -13,6 +13,7 @@ import {
 	toggleTraitType,
 	updateLayer,
 	updateLayerName,
+	updateLayerRarityMode,
 	updateLayersBatch,
 	updateProjectAnimationUrl,
 	updateProjectCreators,
@@ -20,6 +21,11 @@ import {
 	updateProjectDimensions,
 	updateProjectExternalUrl,
 	updateProjectMetadataStandard,
+	updateProjectOutputFormat,
+	updateProjectOutputQuality,
+	updateProjectPixelArt,
+	updateProjectPixelArtScale,
+	updateProjectNameTemplate,
 	updateProjectName,
 	updateProjectPartial,
 	updateProjectSellerFee,
@@ -29,6 +35,20 @@ import {
 	updateTraitName,
 	updateTraitRarity,
 	updateTraitRulerRules,
+	updateTraitSupply,
+	updateTraitRenderOverride,
+	addColorVariant,
+	updateColorVariant,
+	linkTraits,
+	unlinkTraits,
+	addCompatibilityRule,
+	removeCompatibilityRule,
+	addOneOfOne,
+	updateOneOfOne,
+	removeOneOfOne,
+	addExtraAttribute,
+	updateExtraAttribute,
+	removeExtraAttribute,
 	updateTraitsBatch
 } from './collection-design-mutator';
 import { unsafeCreateLayerId, unsafeCreateProjectId, unsafeCreateTraitId } from '$lib/types/ids';
@@ -102,6 +122,39 @@ describe('CollectionDesignMutator — project metadata', () => {
 		expect(updateProjectMetadataStandard(project, MetadataStandard.ERC721).changed).toBe(true);
 		expect(updateProjectCreators(project, [{ address: 'a', share: 100 }]).changed).toBe(true);
 	});
+
+	it('updateProjectOutputFormat treats a missing format as PNG and clamps quality', () => {
+		const project = makeProject();
+		expect(updateProjectOutputFormat(project, 'png').changed).toBe(false);
+		expect(updateProjectOutputFormat(project, 'webp').changed).toBe(true);
+		expect(project.outputFormat).toBe('webp');
+
+		expect(updateProjectOutputQuality(project, 140).changed).toBe(true);
+		expect(project.outputQuality).toBe(100);
+		expect(updateProjectOutputQuality(project, 100).changed).toBe(false);
+	});
+
+	it('updateProjectPixelArtScale keeps the factor a whole number in range', () => {
+		const project = makeProject();
+		expect(updateProjectPixelArt(project, false).changed).toBe(false);
+		expect(updateProjectPixelArt(project, true).changed).toBe(true);
+
+		expect(updateProjectPixelArtScale(project, 7.6).changed).toBe(true);
+		expect(project.pixelArtScale).toBe(8);
+		expect(updateProjectPixelArtScale(project, 500).changed).toBe(true);
+		expect(project.pixelArtScale).toBe(64);
+		expect(updateProjectPixelArtScale(project, 0).changed).toBe(true);
+		expect(project.pixelArtScale).toBe(1);
+	});
+
+	it('updateProjectNameTemplate clears blank templates', () => {
+		const project = makeProject();
+		expect(updateProjectNameTemplate(project, ' {Body} #{id} ').changed).toBe(true);
+		expect(project.nameTemplate).toBe('{Body} #{id}');
+		expect(updateProjectNameTemplate(project, '  ').changed).toBe(true);
+		expect(project.nameTemplate).toBeUndefined();
+		expect(updateProjectNameTemplate(project, '').changed).toBe(false);
+	});
 });
 
 describe('CollectionDesignMutator — layers', () => {
@@ -170,6 +223,32 @@ describe('CollectionDesignMutator — layers', () => {
 		expect(result.changed).toBe(true);
 		expect(project.layers[0].isOptional).toBe(true);
 	});
+
+	it('updateLayerRarityMode rescales weights to percentages', () => {
+		const project = makeProject();
+		const layer = makeLayer('a');
+		layer.traits = [makeTrait('t1'), makeTrait('t2'), makeTrait('t3')];
+		layer.traits[0].rarityWeight = 2;
+		layer.traits[1].rarityWeight = 1;
+		layer.traits[2].rarityWeight = 1;
+		project.layers = [layer];
+
+		const result = updateLayerRarityMode(project, unsafeCreateLayerId('a'), 'percentage');
+		expect(result.changed).toBe(true);
+		expect(layer.rarityMode).toBe('percentage');
+		expect(layer.traits.map((t) => t.rarityWeight)).toEqual([50, 25, 25]);
+
+		updateLayerRarityMode(project, unsafeCreateLayerId('a'), 'weight');
+		expect(layer.rarityMode).toBe('weight');
+		expect(layer.traits.map((t) => t.rarityWeight)).toEqual([50, 25, 25]);
+	});
+
+	it('updateLayerRarityMode no-ops for the current mode', () => {
+		const project = makeProject();
+		project.layers = [makeLayer('a')];
+		const result = updateLayerRarityMode(project, unsafeCreateLayerId('a'), 'weight');
+		expect(result.changed).toBe(false);
+	});
 });
 
 describe('CollectionDesignMutator — traits', () => {
@@ -233,6 +312,95 @@ describe('CollectionDesignMutator — traits', () => {
 		expect(layer.traits[0].rarityWeight).toBe(20);
 	});
 
+	it('updateTraitSupply sets and clears quotas', () => {
+		const project = makeProject();
+		const layer = makeLayer('a');
+		layer.traits = [makeTrait('t1', 'Crown')];
+		project.layers = [layer];
+
+		const result = updateTraitSupply(project, unsafeCreateLayerId('a'), unsafeCreateTraitId('t1'), {
+			exactCount: 7
+		});
+		expect(result.changed).toBe(true);
+		expect(result.dirtyLayers.has(unsafeCreateLayerId('a'))).toBe(true);
+		expect(layer.traits[0].exactCount).toBe(7);
+
+		expect(
+			updateTraitSupply(project, unsafeCreateLayerId('a'), unsafeCreateTraitId('t1'), {
+				exactCount: 7
+			}).changed
+		).toBe(false);
+
+		updateTraitSupply(project, unsafeCreateLayerId('a'), unsafeCreateTraitId('t1'), {});
+		expect(layer.traits[0].exactCount).toBeUndefined();
+	});
+
+	it('updateTraitRenderOverride sets and clears the override', () => {
+		const project = makeProject();
+		const layer = makeLayer('a');
+		layer.traits = [makeTrait('t1', 'Hair')];
+		project.layers = [layer, makeLayer('b')];
+		const override = { layerId: unsafeCreateLayerId('b'), position: 'above' as const };
+
+		const result = updateTraitRenderOverride(
+			project,
+			unsafeCreateLayerId('a'),
+			unsafeCreateTraitId('t1'),
+			override
+		);
+		expect(result.changed).toBe(true);
+		expect(layer.traits[0].renderOverride).toEqual(override);
+		expect(
+			updateTraitRenderOverride(project, unsafeCreateLayerId('a'), unsafeCreateTraitId('t1'), {
+				...override
+			}).changed
+		).toBe(false);
+
+		updateTraitRenderOverride(
+			project,
+			unsafeCreateLayerId('a'),
+			unsafeCreateTraitId('t1'),
+			undefined
+		);
+		expect(layer.traits[0].renderOverride).toBeUndefined();
+	});
+
+	it('addColorVariant inserts a variant after its base and removeTrait removes both', () => {
+		const project = makeProject();
+		const layer = makeLayer('a');
+		layer.traits = [makeTrait('t1', 'Shirt'), makeTrait('t2', 'Jacket')];
+		project.layers = [layer];
+		const layerId = unsafeCreateLayerId('a');
+		const baseId = unsafeCreateTraitId('t1');
+
+		const first = addColorVariant(project, layerId, baseId, 'Red Shirt', {
+			kind: 'hue-shift',
+			degrees: 30
+		});
+		addColorVariant(project, layerId, baseId, 'Blue Shirt', {
+			kind: 'tint',
+			color: '#0000ff',
+			strength: 0.5
+		});
+		expect(first.trait?.variant?.baseTraitId).toBe(baseId);
+		expect(first.trait?.imageData.byteLength).toBe(0);
+		expect(layer.traits.map((t) => t.name)).toEqual(['Shirt', 'Red Shirt', 'Blue Shirt', 'Jacket']);
+
+		// Variants of variants are not allowed
+		expect(
+			addColorVariant(project, layerId, first.trait!.id, 'Nested', {
+				kind: 'hue-shift',
+				degrees: 1
+			}).changed
+		).toBe(false);
+
+		updateColorVariant(project, layerId, first.trait!.id, { kind: 'hue-shift', degrees: 90 });
+		expect(first.trait?.variant?.transform).toEqual({ kind: 'hue-shift', degrees: 90 });
+
+		removeTrait(project, layerId, baseId);
+		expect(layer.traits.map((t) => t.name)).toEqual(['Jacket']);
+	});
+
 	it('updateTraitName no-ops for identical name', () => {
 		const project = makeProject();
 		const layer = makeLayer('a');
@@ -367,6 +535,178 @@ describe('CollectionDesignMutator — ruler traits', () => {
 	});
 });
 
+describe('CollectionDesignMutator — trait links', () => {
+	function makeSleeves(): Project {
+		const project = makeProject();
+		const left = makeLayer('left', 'Left Sleeve');
+		left.traits = [makeTrait('lr', 'Red'), makeTrait('lb', 'Blue')];
+		const right = makeLayer('right', 'Right Sleeve');
+		right.traits = [makeTrait('rr', 'Red'), makeTrait('rb', 'Blue')];
+		project.layers = [left, right];
+		return project;
+	}
+
+	const end = (layerId: string, traitId: string) => ({
+		layerId: unsafeCreateLayerId(layerId),
+		traitId: unsafeCreateTraitId(traitId)
+	});
+
+	it('links both traits and replaces an earlier link into the same layer', () => {
+		const project = makeSleeves();
+		const [left, right] = project.layers;
+
+		expect(linkTraits(project, end('left', 'lr'), end('right', 'rr')).changed).toBe(true);
+		expect(left.traits[0].links).toEqual([end('right', 'rr')]);
+		expect(right.traits[0].links).toEqual([end('left', 'lr')]);
+		expect(linkTraits(project, end('left', 'lr'), end('right', 'rr')).changed).toBe(false);
+
+		linkTraits(project, end('left', 'lr'), end('right', 'rb'));
+		expect(left.traits[0].links).toEqual([end('right', 'rb')]);
+		expect(right.traits[0].links).toBeUndefined();
+		expect(right.traits[1].links).toEqual([end('left', 'lr')]);
+	});
+
+	it('rejects links within one layer', () => {
+		const project = makeSleeves();
+		expect(linkTraits(project, end('left', 'lr'), end('left', 'lb')).changed).toBe(false);
+	});
+
+	it('unlinks both sides', () => {
+		const project = makeSleeves();
+		linkTraits(project, end('left', 'lr'), end('right', 'rr'));
+
+		const result = unlinkTraits(project, end('right', 'rr'), end('left', 'lr'));
+		expect(result.dirtyLayers).toEqual(
+			new Set([unsafeCreateLayerId('right'), unsafeCreateLayerId('left')])
+		);
+		expect(project.layers[0].traits[0].links).toBeUndefined();
+		expect(project.layers[1].traits[0].links).toBeUndefined();
+	});
+
+	it('drops links to removed traits and layers', () => {
+		const project = makeSleeves();
+		linkTraits(project, end('left', 'lr'), end('right', 'rr'));
+		linkTraits(project, end('left', 'lb'), end('right', 'rb'));
+
+		const result = removeTrait(project, unsafeCreateLayerId('right'), unsafeCreateTraitId('rr'));
+		expect(result.dirtyLayers.has(unsafeCreateLayerId('left'))).toBe(true);
+		expect(project.layers[0].traits[0].links).toBeUndefined();
+
+		removeLayer(project, unsafeCreateLayerId('right'));
+		expect(project.layers[0].traits[1].links).toBeUndefined();
+	});
+});
+
+describe('CollectionDesignMutator — compatibility rules', () => {
+	function makeRuleProject(): Project {
+		const project = makeProject();
+		const head = makeLayer('head', 'Head');
+		head.traits = [makeTrait('helmet', 'Helmet'), makeTrait('cap', 'Cap')];
+		const hair = makeLayer('hair', 'Hair');
+		hair.traits = [makeTrait('long', 'Long')];
+		project.layers = [head, hair];
+		addCompatibilityRule(project, {
+			id: 'r1',
+			kind: 'excludes',
+			when: {
+				layerId: unsafeCreateLayerId('head'),
+				traitIds: [unsafeCreateTraitId('helmet'), unsafeCreateTraitId('cap')]
+			},
+			target: { layerId: unsafeCreateLayerId('hair'), traitIds: [unsafeCreateTraitId('long')] }
+		});
+		return project;
+	}
+
+	it('adds and removes rules as metadata changes', () => {
+		const project = makeRuleProject();
+		expect(project.compatibilityRules).toHaveLength(1);
+
+		const result = removeCompatibilityRule(project, 'r1');
+		expect(result.dirtyMetadata).toBe(true);
+		expect(project.compatibilityRules).toEqual([]);
+		expect(removeCompatibilityRule(project, 'r1').changed).toBe(false);
+	});
+
+	it('strips removed traits from rules and drops rules left empty', () => {
+		const project = makeRuleProject();
+
+		const result = removeTrait(project, unsafeCreateLayerId('head'), unsafeCreateTraitId('cap'));
+		expect(result.dirtyMetadata).toBe(true);
+		expect(project.compatibilityRules![0].when.traitIds).toEqual(['helmet']);
+
+		removeTrait(project, unsafeCreateLayerId('hair'), unsafeCreateTraitId('long'));
+		expect(project.compatibilityRules).toEqual([]);
+	});
+
+	it('drops rules that refer to a removed layer', () => {
+		const project = makeRuleProject();
+		removeLayer(project, unsafeCreateLayerId('hair'));
+		expect(project.compatibilityRules).toEqual([]);
+	});
+});
+
+describe('CollectionDesignMutator — 1-of-1 tokens', () => {
+	function makeOneOfOneProject(): Project {
+		const project = makeProject();
+		addOneOfOne(project, {
+			id: 'legend',
+			name: 'Legend',
+			imageData: new ArrayBuffer(8),
+			attributes: [{ trait_type: 'Legend', value: 'Yes' }],
+			tokenNumber: 7
+		});
+		return project;
+	}
+
+	it('adds, updates and removes 1-of-1s as metadata changes', () => {
+		const project = makeOneOfOneProject();
+		expect(project.oneOfOnes).toHaveLength(1);
+
+		const result = updateOneOfOne(project, 'legend', {
+			name: 'Genesis',
+			attributes: [{ trait_type: 'Head', value: 'Crown' }]
+		});
+		expect(result.dirtyMetadata).toBe(true);
+		expect(project.oneOfOnes![0]).toMatchObject({
+			name: 'Genesis',
+			attributes: [{ trait_type: 'Head', value: 'Crown' }],
+			tokenNumber: 7
+		});
+
+		expect(removeOneOfOne(project, 'legend').dirtyMetadata).toBe(true);
+		expect(project.oneOfOnes).toEqual([]);
+		expect(removeOneOfOne(project, 'legend').changed).toBe(false);
+	});
+
+	it('moves a 1-of-1 back to a random position when its token number is cleared', () => {
+		const project = makeOneOfOneProject();
+		updateOneOfOne(project, 'legend', { tokenNumber: undefined });
+		expect(project.oneOfOnes![0].tokenNumber).toBeUndefined();
+		expect(updateOneOfOne(project, 'missing', { name: 'X' }).changed).toBe(false);
+	});
+});
+
+describe('CollectionDesignMutator — extra attributes', () => {
+	it('adds, replaces and removes extra attributes', () => {
+		const project = makeProject();
+		addExtraAttribute(project, { id: 'season', traitType: 'Season', source: 'static', value: '1' });
+
+		const result = updateExtraAttribute(project, 'season', {
+			id: 'ignored',
+			traitType: 'Rank',
+			source: 'rarity-rank'
+		});
+
+		expect(result.dirtyMetadata).toBe(true);
+		expect(project.extraAttributes).toEqual([
+			{ id: 'season', traitType: 'Rank', source: 'rarity-rank' }
+		]);
+		expect(removeExtraAttribute(project, 'season').changed).toBe(true);
+		expect(project.extraAttributes).toEqual([]);
+		expect(removeExtraAttribute(project, 'season').changed).toBe(false);
+	});
+});
+
 describe('CollectionDesignMutator — batches', () => {
 	it('updateTraitsBatch applies multiple trait updates', () => {
 		const project = makeProject();
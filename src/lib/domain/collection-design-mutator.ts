@@ -8,11 +8,33 @@
  * Those concerns belong to the store/service layer.
  */
 
+import type { ImageOutputFormat } from '$lib/domain/image-encoding';
+import { clampPixelArtScale } from '$lib/domain/pixel-art';
 import type { MetadataStandard } from '$lib/domain/metadata/metadata.strategy';
 import type { LayerId, ProjectId, TraitId } from '$lib/types/ids';
 import { createLayerId, createTraitId } from '$lib/types/ids';
-import type { Layer, RulerRule, StrictPairConfig, Trait, TraitType } from '$lib/types/layer';
-import type { Project, ProjectDimensions } from '$lib/types/project';
+import type {
+	ColorTransform,
+	CompatibilityRule,
+	Layer,
+	RarityMode,
+	RenderOverride,
+	RulerRule,
+	StrictPairConfig,
+	Trait,
+	TraitLink,
+	TraitSupply,
+	TraitType
+} from '$lib/types/layer';
+import type {
+	ExtraAttribute,
+	OneOfOne,
+	OutputRendition,
+	Project,
+	ProjectDimensions
+} from '$lib/types/project';
+import { cloneColorVariant } from './color-variants';
+import { cloneCompatibilityRule } from './compatibility-rules';
 
 // Result types
 
@@ -79,6 +101,64 @@ function cloneRulerRules(rules: RulerRule[]): RulerRule[] {
 	});
 }
 
+/**
+ * Drop links matching the predicate from every trait in the project.
+ * Returns the layers whose traits lost a link.
+ */
+function removeLinks(project: Project, matches: (link: TraitLink) => boolean): LayerId[] {
+	const touched: LayerId[] = [];
+	for (const layer of project.layers) {
+		for (const trait of layer.traits) {
+			if (!trait.links?.some(matches)) continue;
+			const links = trait.links.filter((link) => !matches(link));
+			trait.links = links.length > 0 ? links : undefined;
+			if (!touched.includes(layer.id)) touched.push(layer.id);
+		}
+	}
+	return touched;
+}
+
+/**
+ * Remove trait ids from compatibility rule conditions, dropping rules whose
+ * layers are gone or whose conditions no longer match anything.
+ * Returns whether any rule changed.
+ */
+function pruneCompatibilityRules(
+	project: Project,
+	removedLayerId: LayerId,
+	removedTraitIds?: Set<TraitId>
+): boolean {
+	const rules = project.compatibilityRules;
+	if (!rules?.length) return false;
+
+	let changed = false;
+	const kept: CompatibilityRule[] = [];
+	for (const rule of rules) {
+		const affected = [rule.when, rule.target].some(
+			(c) =>
+				c.layerId === removedLayerId &&
+				(!removedTraitIds || c.traitIds.some((id) => removedTraitIds.has(id)))
+		);
+		if (!affected) {
+			kept.push(rule);
+			continue;
+		}
+		changed = true;
+		if (!removedTraitIds) continue;
+
+		const next = cloneCompatibilityRule(rule);
+		for (const condition of [next.when, next.target]) {
+			if (condition.layerId !== removedLayerId) continue;
+			condition.traitIds = condition.traitIds.filter((id) => !removedTraitIds.has(id));
+		}
+		const stillMatches = (c: typeof next.when) => c.traitIds.length > 0 || c.none;
+		if (stillMatches(next.when) && stillMatches(next.target)) kept.push(next);
+	}
+
+	if (changed) project.compatibilityRules = kept;
+	return changed;
+}
+
 function rulerRulesEqual(left: RulerRule[] | undefined, right: RulerRule[]): boolean {
 	const normalizedLeft = cloneRulerRules(left ?? []);
 	const normalizedRight = cloneRulerRules(right);
@@ -122,6 +202,53 @@ export function updateProjectMetadataStandard(
 	return metadataChanged();
 }
 
+export function updateProjectOutputFormat(
+	project: Project,
+	format: ImageOutputFormat
+): MutationResult {
+	if ((project.outputFormat ?? 'png') === format) return emptyResult();
+	project.outputFormat = format;
+	return metadataChanged();
+}
+
+export function updateProjectOutputQuality(project: Project, quality: number): MutationResult {
+	const clamped = Math.min(100, Math.max(1, Math.round(quality)));
+	if (project.outputQuality === clamped) return emptyResult();
+	project.outputQuality = clamped;
+	return metadataChanged();
+}
+
+export function updateProjectPixelArt(project: Project, enabled: boolean): MutationResult {
+	if ((project.pixelArt ?? false) === enabled) return emptyResult();
+	project.pixelArt = enabled;
+	return metadataChanged();
+}
+
+export function updateProjectPixelArtScale(project: Project, scale: number): MutationResult {
+	const clamped = clampPixelArtScale(scale);
+	if (project.pixelArtScale === clamped) return emptyResult();
+	project.pixelArtScale = clamped;
+	return metadataChanged();
+}
+
+/** Blank templates are cleared so the defaults apply again */
+export function updateProjectNameTemplate(project: Project, template: string): MutationResult {
+	const next = template.trim() || undefined;
+	if (project.nameTemplate === next) return emptyResult();
+	project.nameTemplate = next;
+	return metadataChanged();
+}
+
+export function updateProjectDescriptionTemplate(
+	project: Project,
+	template: string
+): MutationResult {
+	const next = template.trim() || undefined;
+	if (project.descriptionTemplate === next) return emptyResult();
+	project.descriptionTemplate = next;
+	return metadataChanged();
+}
+
 export function updateProjectSymbol(project: Project, symbol: string): MutationResult {
 	if (project.symbol === symbol) return emptyResult();
 	project.symbol = symbol;
@@ -154,6 +281,21 @@ export function updateProjectCreators(
 	return metadataChanged();
 }
 
+export function updateProjectRights(project: Project, rights: string): MutationResult {
+	const next = rights.trim() || undefined;
+	if (project.rights === next) return emptyResult();
+	project.rights = next;
+	return metadataChanged();
+}
+
+/** A blank policy ID clears the setting */
+export function updateProjectPolicyId(project: Project, policyId: string): MutationResult {
+	const next = policyId.trim().toLowerCase() || undefined;
+	if (project.policyId === next) return emptyResult();
+	project.policyId = next;
+	return metadataChanged();
+}
+
 // Layer mutations
 
 export function addLayer(project: Project, name: string): LayerMutationResult {
@@ -175,6 +317,8 @@ export function removeLayer(project: Project, layerId: LayerId): MutationResult
 	project.layers.forEach((layer, i) => {
 		layer.order = i;
 	});
+	removeLinks(project, (link) => link.layerId === layerId);
+	pruneCompatibilityRules(project, layerId);
 
 	return metadataChanged();
 }
@@ -212,6 +356,30 @@ export function updateLayer(
 	return layerChanged(layerId);
 }
 
+/**
+ * Switch how a layer's rarity values are entered. Moving to percentages
+ * rescales the current weights to add up to 100 so the distribution stays
+ * the same; moving back keeps the numbers, which remain valid relative weights.
+ */
+export function updateLayerRarityMode(
+	project: Project,
+	layerId: LayerId,
+	mode: RarityMode
+): MutationResult {
+	const layer = findLayer(project, layerId);
+	if (!layer || (layer.rarityMode ?? 'weight') === mode) return emptyResult();
+
+	if (mode === 'percentage' && layer.traits.length > 0) {
+		const total = layer.traits.reduce((sum, trait) => sum + trait.rarityWeight, 0);
+		for (const trait of layer.traits) {
+			trait.rarityWeight = Math.max(0.01, Math.round((trait.rarityWeight / total) * 10000) / 100);
+		}
+	}
+
+	layer.rarityMode = mode;
+	return layerChanged(layerId);
+}
+
 // Trait mutations
 
 export function addTrait(
@@ -245,7 +413,64 @@ export function removeTrait(
 	if (index === -1) return { ...emptyResult(), trait: undefined };
 
 	const [removed] = layer.traits.splice(index, 1);
-	return { ...layerChanged(layerId), trait: removed };
+	// Colour variants cannot render without their base
+	const removedIds = new Set<TraitId>([traitId]);
+	layer.traits = layer.traits.filter((t) => {
+		if (t.variant?.baseTraitId !== traitId) return true;
+		removedIds.add(t.id);
+		return false;
+	});
+	const linkedLayers = removeLinks(
+		project,
+		(link) => link.layerId === layerId && removedIds.has(link.traitId)
+	);
+	const rulesChanged = pruneCompatibilityRules(project, layerId, removedIds);
+	return {
+		...layersChanged([layerId, ...linkedLayers]),
+		dirtyMetadata: rulesChanged,
+		trait: removed
+	};
+}
+
+// Colour variant mutations
+
+export function addColorVariant(
+	project: Project,
+	layerId: LayerId,
+	baseTraitId: TraitId,
+	name: string,
+	transform: ColorTransform
+): TraitMutationResult {
+	const layer = findLayer(project, layerId);
+	const base = layer?.traits.find((t) => t.id === baseTraitId);
+	if (!layer || !base || base.variant) return { ...emptyResult(), trait: undefined };
+
+	const newTrait: Trait = {
+		id: createTraitId(crypto.randomUUID()),
+		name,
+		imageData: new ArrayBuffer(0),
+		rarityWeight: base.rarityWeight,
+		variant: cloneColorVariant({ baseTraitId, transform })
+	};
+
+	// Keep variants next to their base and its earlier variants
+	let insertAt = findTraitIndex(layer, baseTraitId) + 1;
+	while (layer.traits[insertAt]?.variant?.baseTraitId === baseTraitId) insertAt++;
+	layer.traits.splice(insertAt, 0, newTrait);
+	return { ...layerChanged(layerId), trait: newTrait };
+}
+
+export function updateColorVariant(
+	project: Project,
+	layerId: LayerId,
+	traitId: TraitId,
+	transform: ColorTransform
+): MutationResult {
+	const trait = findTrait(project, layerId, traitId);
+	if (!trait?.variant) return emptyResult();
+
+	trait.variant = cloneColorVariant({ baseTraitId: trait.variant.baseTraitId, transform });
+	return layerChanged(layerId);
 }
 
 export function updateTraitName(
@@ -274,6 +499,98 @@ export function updateTraitRarity(
 	return layerChanged(layerId);
 }
 
+export function updateTraitSupply(
+	project: Project,
+	layerId: LayerId,
+	traitId: TraitId,
+	supply: TraitSupply
+): MutationResult {
+	const trait = findTrait(project, layerId, traitId);
+	if (!trait) return emptyResult();
+	if (trait.exactCount === supply.exactCount && trait.maxCount === supply.maxCount) {
+		return emptyResult();
+	}
+
+	trait.exactCount = supply.exactCount;
+	trait.maxCount = supply.maxCount;
+	return layerChanged(layerId);
+}
+
+export function updateTraitRenderOverride(
+	project: Project,
+	layerId: LayerId,
+	traitId: TraitId,
+	renderOverride: RenderOverride | undefined
+): MutationResult {
+	const trait = findTrait(project, layerId, traitId);
+	if (!trait) return emptyResult();
+	const current = trait.renderOverride;
+	if (
+		current?.layerId === renderOverride?.layerId &&
+		current?.position === renderOverride?.position
+	) {
+		return emptyResult();
+	}
+
+	trait.renderOverride = renderOverride ? { ...renderOverride } : undefined;
+	return layerChanged(layerId);
+}
+
+// Trait link mutations
+
+/**
+ * Link two traits in different layers so they are always chosen together.
+ * A trait links to at most one trait per layer, so an earlier link of either
+ * trait into the other's layer is replaced.
+ */
+export function linkTraits(project: Project, a: TraitLink, b: TraitLink): MutationResult {
+	const traitA = findTrait(project, a.layerId, a.traitId);
+	const traitB = findTrait(project, b.layerId, b.traitId);
+	if (!traitA || !traitB || a.layerId === b.layerId) return emptyResult();
+
+	const isLinked = (trait: Trait, target: TraitLink) =>
+		trait.links?.some((l) => l.layerId === target.layerId && l.traitId === target.traitId) ?? false;
+	if (isLinked(traitA, b) && isLinked(traitB, a)) return emptyResult();
+
+	const touched = new Set<LayerId>([a.layerId, b.layerId]);
+	for (const [trait, self, target] of [
+		[traitA, a, b],
+		[traitB, b, a]
+	] as const) {
+		const replaced = trait.links?.find(
+			(l) => l.layerId === target.layerId && l.traitId !== target.traitId
+		);
+		if (!replaced) continue;
+		for (const layerId of unlinkPair(project, self, replaced)) touched.add(layerId);
+	}
+
+	traitA.links = [...(traitA.links ?? []).filter((l) => l.layerId !== b.layerId), { ...b }];
+	traitB.links = [...(traitB.links ?? []).filter((l) => l.layerId !== a.layerId), { ...a }];
+	return layersChanged([...touched]);
+}
+
+export function unlinkTraits(project: Project, a: TraitLink, b: TraitLink): MutationResult {
+	const touched = unlinkPair(project, a, b);
+	return touched.length > 0 ? layersChanged(touched) : emptyResult();
+}
+
+function unlinkPair(project: Project, a: TraitLink, b: TraitLink): LayerId[] {
+	const isEnd = (owner: TraitLink, link: TraitLink) =>
+		link.layerId === owner.layerId && link.traitId === owner.traitId;
+	const touched: LayerId[] = [];
+	for (const [from, to] of [
+		[a, b],
+		[b, a]
+	]) {
+		const trait = findTrait(project, from.layerId, from.traitId);
+		if (!trait?.links?.some((link) => isEnd(to, link))) continue;
+		const links = trait.links.filter((link) => !isEnd(to, link));
+		trait.links = links.length > 0 ? links : undefined;
+		touched.push(from.layerId);
+	}
+	return touched;
+}
+
 export function updateTrait(
 	project: Project,
 	layerId: LayerId,
@@ -426,6 +743,133 @@ export function updateStrictPairConfig(
 	return metadataChanged();
 }
 
+// Compatibility rule mutations
+
+export function addCompatibilityRule(project: Project, rule: CompatibilityRule): MutationResult {
+	project.compatibilityRules = [
+		...(project.compatibilityRules ?? []),
+		cloneCompatibilityRule(rule)
+	];
+	return metadataChanged();
+}
+
+export function updateCompatibilityRule(project: Project, rule: CompatibilityRule): MutationResult {
+	const index = project.compatibilityRules?.findIndex((r) => r.id === rule.id) ?? -1;
+	if (index === -1) return emptyResult();
+
+	project.compatibilityRules = project.compatibilityRules!.map((r, i) =>
+		i === index ? cloneCompatibilityRule(rule) : r
+	);
+	return metadataChanged();
+}
+
+export function removeCompatibilityRule(project: Project, ruleId: string): MutationResult {
+	const rules = project.compatibilityRules ?? [];
+	if (!rules.some((r) => r.id === ruleId)) return emptyResult();
+
+	project.compatibilityRules = rules.filter((r) => r.id !== ruleId);
+	return metadataChanged();
+}
+
+export function replaceCompatibilityRules(
+	project: Project,
+	rules: CompatibilityRule[]
+): MutationResult {
+	project.compatibilityRules = rules.map(cloneCompatibilityRule);
+	return metadataChanged();
+}
+
+// 1-of-1 mutations
+
+export function addOneOfOne(project: Project, oneOfOne: OneOfOne): MutationResult {
+	project.oneOfOnes = [
+		...(project.oneOfOnes ?? []),
+		{ ...oneOfOne, attributes: oneOfOne.attributes.map((a) => ({ ...a })) }
+	];
+	return metadataChanged();
+}
+
+export function updateOneOfOne(
+	project: Project,
+	oneOfOneId: string,
+	updates: Partial<Pick<OneOfOne, 'name' | 'attributes' | 'tokenNumber'>>
+): MutationResult {
+	const oneOfOne = project.oneOfOnes?.find((o) => o.id === oneOfOneId);
+	if (!oneOfOne) return emptyResult();
+
+	if (updates.name !== undefined) oneOfOne.name = updates.name;
+	if (updates.attributes !== undefined) {
+		oneOfOne.attributes = updates.attributes.map((a) => ({ ...a }));
+	}
+	// An explicit undefined token number moves the token back to a random position
+	if ('tokenNumber' in updates) oneOfOne.tokenNumber = updates.tokenNumber;
+	return metadataChanged();
+}
+
+export function removeOneOfOne(project: Project, oneOfOneId: string): MutationResult {
+	const oneOfOnes = project.oneOfOnes ?? [];
+	if (!oneOfOnes.some((o) => o.id === oneOfOneId)) return emptyResult();
+
+	project.oneOfOnes = oneOfOnes.filter((o) => o.id !== oneOfOneId);
+	return metadataChanged();
+}
+
+// Output rendition mutations
+
+export function addOutputRendition(project: Project, rendition: OutputRendition): MutationResult {
+	project.renditions = [...(project.renditions ?? []), { ...rendition }];
+	return metadataChanged();
+}
+
+export function updateOutputRendition(
+	project: Project,
+	renditionId: string,
+	updates: Partial<Omit<OutputRendition, 'id'>>
+): MutationResult {
+	const index = project.renditions?.findIndex((r) => r.id === renditionId) ?? -1;
+	if (index === -1) return emptyResult();
+
+	project.renditions = project.renditions!.map((r, i) => (i === index ? { ...r, ...updates } : r));
+	return metadataChanged();
+}
+
+export function removeOutputRendition(project: Project, renditionId: string): MutationResult {
+	const renditions = project.renditions ?? [];
+	if (!renditions.some((r) => r.id === renditionId)) return emptyResult();
+
+	project.renditions = renditions.filter((r) => r.id !== renditionId);
+	return metadataChanged();
+}
+
+// Extra attribute mutations
+
+export function addExtraAttribute(project: Project, attribute: ExtraAttribute): MutationResult {
+	project.extraAttributes = [...(project.extraAttributes ?? []), { ...attribute }];
+	return metadataChanged();
+}
+
+export function updateExtraAttribute(
+	project: Project,
+	attributeId: string,
+	attribute: ExtraAttribute
+): MutationResult {
+	const index = project.extraAttributes?.findIndex((a) => a.id === attributeId) ?? -1;
+	if (index === -1) return emptyResult();
+
+	project.extraAttributes = project.extraAttributes!.map((a, i) =>
+		i === index ? { ...attribute, id: attributeId } : a
+	);
+	return metadataChanged();
+}
+
+export function removeExtraAttribute(project: Project, attributeId: string): MutationResult {
+	const attributes = project.extraAttributes ?? [];
+	if (!attributes.some((a) => a.id === attributeId)) return emptyResult();
+
+	project.extraAttributes = attributes.filter((a) => a.id !== attributeId);
+	return metadataChanged();
+}
+
 // Project-level mutations
 
 export function updateProjectPartial(project: Project, updates: Partial<Project>): MutationResult {
@@ -440,12 +884,24 @@ export function replaceProject(target: Project, source: Project): MutationResult
 	target.outputSize = source.outputSize || { width: 0, height: 0 };
 	target.layers = source.layers;
 	target.metadataStandard = source.metadataStandard;
+	target.outputFormat = source.outputFormat;
+	target.outputQuality = source.outputQuality;
+	target.renditions = source.renditions;
+	target.pixelArt = source.pixelArt;
+	target.pixelArtScale = source.pixelArtScale;
+	target.nameTemplate = source.nameTemplate;
+	target.descriptionTemplate = source.descriptionTemplate;
+	target.extraAttributes = source.extraAttributes;
 	target.symbol = source.symbol;
 	target.sellerFeeBasisPoints = source.sellerFeeBasisPoints;
 	target.externalUrl = source.externalUrl;
 	target.animationUrl = source.animationUrl;
 	target.creators = source.creators;
+	target.policyId = source.policyId;
+	target.rights = source.rights;
 	target.strictPairConfig = source.strictPairConfig;
+	target.compatibilityRules = source.compatibilityRules;
+	target.oneOfOnes = source.oneOfOnes;
 	target._needsProperLoad = false;
 
 	const allLayerIds = target.layers.map((l) => l.id);
@@ -455,6 +911,8 @@ export function replaceProject(target: Project, source: Project): MutationResult
 export function resetProject(project: Project, defaultProject: Project): MutationResult {
 	Object.assign(project, defaultProject);
 	project.layers = [];
+	project.compatibilityRules = undefined;
+	project.oneOfOnes = undefined;
 	project._needsProperLoad = true;
 	return metadataChanged();
 }
@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vite-plus/test';
+import type { GalleryCollection } from '$lib/types/gallery';
+import {
+	excludeExistingOneOfOnes,
+	getCollectionExtension,
+	toGalleryTraits
+} from './collection-extension';
+
+function makeCollection(names: string[]): GalleryCollection {
+	return {
+		id: 'collection-1',
+		name: 'Apes',
+		description: '',
+		projectName: 'Apes',
+		generatedAt: new Date(0),
+		totalSupply: names.length,
+		items: names.map((name, i) => ({
+			id: `item-${i}`,
+			name,
+			imageData: new ArrayBuffer(0),
+			metadata: {
+				traits: [
+					{ layer: 'Background', trait: i % 2 ? 'Red' : 'Blue', rarity: 0 },
+					{ layer: 'Hat', trait: 'None', rarity: 0 }
+				]
+			},
+			rarityScore: 0,
+			rarityRank: 0,
+			collectionId: 'collection-1',
+			generatedAt: new Date(0)
+		}))
+	};
+}
+
+describe('getCollectionExtension', () => {
+	it('continues numbering after the highest token number', () => {
+		const extension = getCollectionExtension(makeCollection(['Apes #3', 'Apes #12', 'Apes #7']));
+
+		expect(extension.tokenOffset).toBe(12);
+		expect(extension.existingAttributes[1]).toEqual([
+			{ trait_type: 'Background', value: 'Red' },
+			{ trait_type: 'Hat', value: 'None' }
+		]);
+	});
+
+	it('falls back to the item count when names carry no numbers', () => {
+		expect(getCollectionExtension(makeCollection(['Gold', 'Silver'])).tokenOffset).toBe(2);
+	});
+});
+
+describe('excludeExistingOneOfOnes', () => {
+	it('leaves out 1-of-1s already in the collection', () => {
+		const extension = getCollectionExtension(makeCollection(['Apes #1']));
+		const minted = {
+			name: 'Minted',
+			attributes: [
+				{ trait_type: 'Hat', value: 'None' },
+				{ trait_type: 'Background', value: 'Blue' }
+			]
+		};
+		const fresh = { name: 'Fresh', attributes: [{ trait_type: 'Background', value: 'Gold' }] };
+		const artOnly = { name: 'Art only', attributes: [] };
+
+		expect(excludeExistingOneOfOnes([minted, fresh, artOnly], extension)).toEqual([fresh, artOnly]);
+	});
+});
+
+describe('toGalleryTraits', () => {
+	it('reads traits from generated metadata attributes', () => {
+		expect(
+			toGalleryTraits({
+				name: 'Apes #13',
+				attributes: [{ trait_type: 'Background', value: 'Red' }, null]
+			})
+		).toEqual([{ layer: 'Background', trait: 'Red', rarity: 0 }]);
+		expect(toGalleryTraits({ name: 'Apes #14' })).toEqual([]);
+	});
+});
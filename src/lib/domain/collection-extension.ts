@@ -0,0 +1,96 @@
+/**
+ * Extending an existing gallery collection with another wave of tokens.
+ *
+ * The collection's trait metadata is turned back into layer attributes (see
+ * unmapLayerAttributes) so the solver can reserve every combination already
+ * minted, and new tokens are numbered after the collection's last token.
+ * Rendered tokens are converted into gallery items so they can be appended to
+ * the same collection.
+ */
+
+import type { GalleryCollection, GalleryItem } from '$lib/types/gallery';
+import type { ExtraAttribute, OneOfOneAttribute } from '$lib/types/project';
+import { unmapLayerAttributes, type MappedLayer } from './attribute-mapping';
+import { flattenTokenMetadata } from './metadata/strategies';
+import { attributeKey } from './one-of-ones';
+
+export interface CollectionExtension {
+	/** New tokens are numbered from `tokenOffset + 1` */
+	tokenOffset: number;
+	/** Attributes of every existing token; new tokens never repeat them */
+	existingAttributes: OneOfOneAttribute[][];
+}
+
+/**
+ * Work out how to extend a collection: what it already contains and where
+ * its token numbering continues. `layers` and `extraAttributes` undo the
+ * project's attribute mapping.
+ */
+export function getCollectionExtension(
+	collection: GalleryCollection,
+	layers: MappedLayer[] = [],
+	extraAttributes: ExtraAttribute[] = []
+): CollectionExtension {
+	let lastTokenNumber = collection.items.length;
+	for (const item of collection.items) {
+		lastTokenNumber = Math.max(lastTokenNumber, parseTokenNumber(item.name));
+	}
+
+	return {
+		tokenOffset: lastTokenNumber,
+		existingAttributes: collection.items.map((item) =>
+			unmapLayerAttributes(
+				item.metadata.traits.map((t) => ({ trait_type: t.layer, value: t.trait })),
+				layers,
+				extraAttributes
+			)
+		)
+	};
+}
+
+/**
+ * Leave out 1-of-1s that are already in the collection (same attributes), so
+ * a second wave does not mint them again.
+ */
+export function excludeExistingOneOfOnes<T extends { attributes: OneOfOneAttribute[] }>(
+	oneOfOnes: T[],
+	extension: CollectionExtension
+): T[] {
+	const existing = new Set(
+		extension.existingAttributes.filter((a) => a.length > 0).map(attributeKey)
+	);
+	return oneOfOnes.filter(
+		(oneOfOne) =>
+			oneOfOne.attributes.length === 0 || !existing.has(attributeKey(oneOfOne.attributes))
+	);
+}
+
+/**
+ * Traits of a gallery item from generated token metadata (`attributes` with
+ * `trait_type` and `value`; other standards' attributes are read the same way).
+ */
+export function toGalleryTraits(
+	metadata: Record<string, unknown>
+): GalleryItem['metadata']['traits'] {
+	const { attributes: list } = flattenTokenMetadata(metadata);
+	const attributes = Array.isArray(list) ? list : [];
+	return attributes
+		.filter((a): a is Record<string, unknown> => typeof a === 'object' && a !== null)
+		.map((a) => ({
+			layer: String(a.trait_type ?? 'Attribute'),
+			trait: String(a.value ?? 'None'),
+			rarity: 0
+		}));
+}
+
+/** Name written in generated token metadata, if any */
+export function getTokenName(metadata: Record<string, unknown>): string | undefined {
+	const { name } = flattenTokenMetadata(metadata);
+	return typeof name === 'string' ? name : undefined;
+}
+
+/** Trailing token number of an item name such as "Apes #42"; 0 when there is none */
+export function parseTokenNumber(name: string): number {
+	const match = name.match(/(\d+)\s*$/);
+	return match ? Number.parseInt(match[1], 10) : 0;
+}
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vite-plus/test';
+import { applyColorTransform, hasRenderableImage, resolveImageSource } from './color-variants';
+import { unsafeCreateTraitId } from '$lib/types/ids';
+
+function pixels(...rgba: number[]) {
+	return new Uint8ClampedArray(rgba);
+}
+
+describe('applyColorTransform', () => {
+	it('rotates hue and keeps alpha', () => {
+		const data = pixels(255, 0, 0, 128);
+		applyColorTransform(data, { kind: 'hue-shift', degrees: 120 });
+		expect(Array.from(data)).toEqual([0, 255, 0, 128]);
+	});
+
+	it('leaves greys unchanged by a hue shift', () => {
+		const data = pixels(100, 100, 100, 255);
+		applyColorTransform(data, { kind: 'hue-shift', degrees: 90 });
+		expect(Array.from(data)).toEqual([100, 100, 100, 255]);
+	});
+
+	it('tints towards the colour scaled by luminance', () => {
+		const white = pixels(255, 255, 255, 255);
+		applyColorTransform(white, { kind: 'tint', color: '#ff0000', strength: 1 });
+		expect(Array.from(white)).toEqual([255, 0, 0, 255]);
+
+		const black = pixels(0, 0, 0, 255);
+		applyColorTransform(black, { kind: 'tint', color: '#ff0000', strength: 1 });
+		expect(Array.from(black)).toEqual([0, 0, 0, 255]);
+	});
+
+	it('swaps exact palette colours only', () => {
+		const data = pixels(255, 0, 0, 255, 254, 0, 0, 255);
+		applyColorTransform(data, {
+			kind: 'palette-swap',
+			swaps: [{ from: '#FF0000', to: '#0000ff' }]
+		});
+		expect(Array.from(data)).toEqual([0, 0, 255, 255, 254, 0, 0, 255]);
+	});
+
+	it('skips fully transparent pixels', () => {
+		const data = pixels(255, 0, 0, 0);
+		applyColorTransform(data, { kind: 'tint', color: '#00ff00', strength: 1 });
+		expect(Array.from(data)).toEqual([255, 0, 0, 0]);
+	});
+});
+
+describe('resolveImageSource', () => {
+	const base = { id: unsafeCreateTraitId('shirt'), imageData: new ArrayBuffer(4) };
+	const variant = {
+		id: unsafeCreateTraitId('shirt-red'),
+		imageData: new ArrayBuffer(0),
+		variant: {
+			baseTraitId: base.id,
+			transform: { kind: 'hue-shift' as const, degrees: 30 }
+		}
+	};
+
+	it('uses the base trait image for variants', () => {
+		expect(resolveImageSource([base, variant], variant)).toBe(base);
+		expect(resolveImageSource([base, variant], base)).toBe(base);
+		expect(hasRenderableImage([base, variant], variant)).toBe(true);
+	});
+
+	it('reports variants whose base is gone', () => {
+		expect(resolveImageSource([variant], variant)).toBeUndefined();
+		expect(hasRenderableImage([variant], variant)).toBe(false);
+	});
+});
@@ -0,0 +1,161 @@
+/**
+ * Colour-variant traits.
+ *
+ * A variant stores no image of its own: it is rendered from a base trait in
+ * the same layer through a colour transform. The pixel transform is pure so
+ * the generation worker and the UI render variants identically.
+ */
+
+import type { ColorTransform, ColorVariant } from '$lib/types/layer';
+
+interface VariantSource {
+	id: string;
+	imageData: ArrayBuffer;
+	variant?: ColorVariant;
+}
+
+/**
+ * Copy a variant without sharing nested objects (state proxies cannot be
+ * posted to workers).
+ */
+export function cloneColorVariant(variant: ColorVariant): ColorVariant {
+	const { transform } = variant;
+	return {
+		baseTraitId: variant.baseTraitId,
+		transform:
+			transform.kind === 'palette-swap'
+				? { kind: 'palette-swap', swaps: transform.swaps.map((swap) => ({ ...swap })) }
+				: { ...transform }
+	};
+}
+
+/**
+ * The trait whose image a trait is drawn from: the base trait for variants,
+ * otherwise the trait itself. Undefined when a variant's base is gone.
+ */
+export function resolveImageSource<T extends VariantSource>(traits: T[], trait: T): T | undefined {
+	if (!trait.variant) return trait;
+	return traits.find((t) => t.id === trait.variant!.baseTraitId && !t.variant);
+}
+
+/**
+ * Whether a trait has image data to render, directly or through its base.
+ */
+export function hasRenderableImage<T extends VariantSource>(traits: T[], trait: T): boolean {
+	const source = resolveImageSource(traits, trait);
+	return !!source?.imageData && source.imageData.byteLength > 0;
+}
+
+/**
+ * Apply a colour transform in place to RGBA pixels (non-premultiplied).
+ * Fully transparent pixels are left untouched.
+ */
+export function applyColorTransform(pixels: Uint8ClampedArray, transform: ColorTransform): void {
+	const swaps =
+		transform.kind === 'palette-swap'
+			? new Map(transform.swaps.map((swap) => [parseHexColor(swap.from), parseHexColor(swap.to)]))
+			: undefined;
+	const tint = transform.kind === 'tint' ? parseHexColor(transform.color) : 0;
+
+	for (let i = 0; i < pixels.length; i += 4) {
+		if (pixels[i + 3] === 0) continue;
+		const r = pixels[i];
+		const g = pixels[i + 1];
+		const b = pixels[i + 2];
+
+		if (transform.kind === 'hue-shift') {
+			const [h, s, l] = rgbToHsl(r, g, b);
+			[pixels[i], pixels[i + 1], pixels[i + 2]] = hslToRgb(h + transform.degrees / 360, s, l);
+		} else if (transform.kind === 'tint') {
+			// Multiply the tint by the pixel's luminance so shading survives
+			const luminance = (0.299 * r + 0.587 * g + 0.114 * b) / 255;
+			const k = transform.strength;
+			pixels[i] = r + (((tint >> 16) & 0xff) * luminance - r) * k;
+			pixels[i + 1] = g + (((tint >> 8) & 0xff) * luminance - g) * k;
+			pixels[i + 2] = b + ((tint & 0xff) * luminance - b) * k;
+		} else {
+			const target = swaps!.get((r << 16) | (g << 8) | b);
+			if (target === undefined) continue;
+			pixels[i] = (target >> 16) & 0xff;
+			pixels[i + 1] = (target >> 8) & 0xff;
+			pixels[i + 2] = target & 0xff;
+		}
+	}
+}
+
+/**
+ * Draw an image onto a new canvas of the same size and apply the transform.
+ * Works on the main thread and in workers.
+ */
+export function renderColorVariant(
+	source: CanvasImageSource & { width: number; height: number },
+	transform: ColorTransform
+): OffscreenCanvas {
+	const canvas = new OffscreenCanvas(source.width, source.height);
+	const ctx = canvas.getContext('2d');
+	if (!ctx) throw new Error('Failed to get 2D context for colour variant');
+
+	ctx.drawImage(source, 0, 0);
+	const image = ctx.getImageData(0, 0, source.width, source.height);
+	applyColorTransform(image.data, transform);
+	ctx.putImageData(image, 0, 0);
+	return canvas;
+}
+
+/**
+ * Render a variant from its base image as a PNG blob, for display in the UI.
+ */
+export async function renderColorVariantBlob(
+	baseImage: ArrayBuffer,
+	transform: ColorTransform
+): Promise<Blob> {
+	const bitmap = await createImageBitmap(new Blob([baseImage], { type: 'image/png' }));
+	try {
+		return await renderColorVariant(bitmap, transform).convertToBlob({ type: 'image/png' });
+	} finally {
+		bitmap.close();
+	}
+}
+
+/** '#rrggbb' -> 0xrrggbb */
+function parseHexColor(hex: string): number {
+	return parseInt(hex.slice(1, 7), 16);
+}
+
+function rgbToHsl(r: number, g: number, b: number): [number, number, number] {
+	r /= 255;
+	g /= 255;
+	b /= 255;
+	const max = Math.max(r, g, b);
+	const min = Math.min(r, g, b);
+	const l = (max + min) / 2;
+	if (max === min) return [0, 0, l];
+
+	const d = max - min;
+	const s = l > 0.5 ? d / (2 - max - min) : d / (max + min);
+	let h: number;
+	if (max === r) h = (g - b) / d + (g < b ? 6 : 0);
+	else if (max === g) h = (b - r) / d + 2;
+	else h = (r - g) / d + 4;
+	return [h / 6, s, l];
+}
+
+function hslToRgb(h: number, s: number, l: number): [number, number, number] {
+	h = ((h % 1) + 1) % 1;
+	if (s === 0) return [l * 255, l * 255, l * 255];
+
+	const q = l < 0.5 ? l * (1 + s) : l + s - l * s;
+	const p = 2 * l - q;
+	return [hueToChannel(p, q, h + 1 / 3), hueToChannel(p, q, h), hueToChannel(p, q, h - 1 / 3)];
+}
+
+function hueToChannel(p: number, q: number, t: number): number {
+	if (t < 0) t += 1;
+	if (t > 1) t -= 1;
+	let value: number;
+	if (t < 1 / 6) value = p + (q - p) * 6 * t;
+	else if (t < 1 / 2) value = q;
+	else if (t < 2 / 3) value = p + (q - p) * (2 / 3 - t) * 6;
+	else value = p;
+	return value * 255;
+}
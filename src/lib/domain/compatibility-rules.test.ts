@@ -0,0 +1,128 @@
+import { describe, expect, it } from 'vite-plus/test';
+import {
+	describeCompatibilityRule,
+	exportCompatibilityRules,
+	importCompatibilityRules,
+	ruleAllows
+} from './compatibility-rules';
+import { unsafeCreateLayerId, unsafeCreateTraitId } from '$lib/types/ids';
+import type { CompatibilityRule, CompatibilityRuleKind } from '$lib/types/layer';
+
+const layers = [
+	{
+		id: 'head',
+		name: 'Head',
+		traits: [
+			{ id: 'helmet', name: 'Helmet' },
+			{ id: 'cap', name: 'Cap' }
+		]
+	},
+	{
+		id: 'hair',
+		name: 'Hair',
+		traits: [
+			{ id: 'long', name: 'Long' },
+			{ id: 'short', name: 'Short' }
+		]
+	}
+];
+
+function rule(
+	kind: CompatibilityRuleKind,
+	when: [string, string[], boolean?],
+	target: [string, string[], boolean?]
+): CompatibilityRule {
+	const condition = ([layerId, traitIds, none]: [string, string[], boolean?]) => ({
+		layerId: unsafeCreateLayerId(layerId),
+		traitIds: traitIds.map(unsafeCreateTraitId),
+		...(none ? { none } : {})
+	});
+	return { id: 'r1', kind, when: condition(when), target: condition(target) };
+}
+
+describe('ruleAllows', () => {
+	it('requires the target condition whenever the "when" condition holds', () => {
+		// If Head is Helmet then Hair is None
+		const helmetHidesHair = rule('requires', ['head', ['helmet']], ['hair', [], true]);
+		expect(ruleAllows(helmetHidesHair, 'head', 'helmet', 'hair', null)).toBe(true);
+		expect(ruleAllows(helmetHidesHair, 'head', 'helmet', 'hair', 'long')).toBe(false);
+		expect(ruleAllows(helmetHidesHair, 'head', 'cap', 'hair', 'long')).toBe(true);
+		// Checked from either side
+		expect(ruleAllows(helmetHidesHair, 'hair', 'short', 'head', 'helmet')).toBe(false);
+	});
+
+	it('forbids values matching both conditions of an "excludes" rule', () => {
+		const rule1 = rule('excludes', ['head', ['helmet', 'cap']], ['hair', ['long']]);
+		expect(ruleAllows(rule1, 'head', 'cap', 'hair', 'long')).toBe(false);
+		expect(ruleAllows(rule1, 'head', 'cap', 'hair', 'short')).toBe(true);
+		expect(ruleAllows(rule1, 'head', null, 'hair', 'long')).toBe(true);
+	});
+
+	it('ignores values of other layers', () => {
+		const rule1 = rule('excludes', ['head', ['helmet']], ['hair', ['long']]);
+		expect(ruleAllows(rule1, 'head', 'helmet', 'eyes', 'laser')).toBe(true);
+	});
+});
+
+describe('describeCompatibilityRule', () => {
+	it('names layers and traits', () => {
+		expect(
+			describeCompatibilityRule(rule('requires', ['head', ['helmet']], ['hair', [], true]), layers)
+		).toBe('If Head is Helmet then Hair is None');
+		expect(
+			describeCompatibilityRule(
+				rule('excludes', ['head', ['helmet', 'cap']], ['hair', ['long']]),
+				layers
+			)
+		).toBe('Never Head in {Helmet, Cap} with Hair is Long');
+	});
+});
+
+describe('exportCompatibilityRules / importCompatibilityRules', () => {
+	it('round-trips rules by name', () => {
+		const rules = [
+			rule('requires', ['head', ['helmet']], ['hair', [], true]),
+			rule('excludes', ['hair', ['long', 'short']], ['head', ['cap']])
+		];
+		const json = exportCompatibilityRules(rules, layers);
+		expect(JSON.parse(json).rules[0]).toEqual({
+			kind: 'requires',
+			when: { layer: 'Head', traits: ['Helmet'] },
+			target: { layer: 'Hair', traits: [], none: true }
+		});
+
+		const imported = importCompatibilityRules(json, layers);
+		expect(imported.map(({ id: _id, ...rest }) => rest)).toEqual(
+			rules.map(({ id: _id, ...rest }) => rest)
+		);
+		expect(imported[0].id).not.toBe(imported[1].id);
+	});
+
+	it('reports invalid files and unknown names', () => {
+		expect(() => importCompatibilityRules('{', layers)).toThrow('Rules file is not valid JSON');
+		expect(() => importCompatibilityRules('{"version":2,"rules":[]}', layers)).toThrow(
+			'Invalid rules file structure'
+		);
+
+		const file = (when: object, target: object) =>
+			JSON.stringify({ version: 1, rules: [{ kind: 'requires', when, target }] });
+		expect(() =>
+			importCompatibilityRules(
+				file({ layer: 'Body', traits: ['Robot'] }, { layer: 'Hair', traits: ['Long'] }),
+				layers
+			)
+		).toThrow('Rule 1: layer "Body" not found');
+		expect(() =>
+			importCompatibilityRules(
+				file({ layer: 'Head', traits: ['Crown'] }, { layer: 'Hair', traits: ['Long'] }),
+				layers
+			)
+		).toThrow('Rule 1: trait "Crown" not found in layer "Head"');
+		expect(() =>
+			importCompatibilityRules(
+				file({ layer: 'Head', traits: ['Cap'] }, { layer: 'Head', traits: ['Helmet'] }),
+				layers
+			)
+		).toThrow('Rule 1: A rule must compare two different layers');
+	});
+});
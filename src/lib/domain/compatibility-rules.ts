@@ -0,0 +1,200 @@
+/**
+ * Project-level compatibility rules.
+ *
+ * Rules compare the traits of two layers regardless of trait type. Every rule
+ * is a binary constraint, so the solver can prune domains with it like it
+ * does with ruler rules; conditions on "None" are checked once a layer is
+ * left empty. Rule files refer to layers and traits by name so a rule set can
+ * be shared between projects.
+ */
+
+import type { CompatibilityRule, TraitCondition } from '$lib/types/layer';
+import type { LayerId, TraitId } from '$lib/types/ids';
+import { CompatibilityRulesFileSchema, validateCompatibilityRule } from './validation';
+
+interface RuleLayer {
+	id: string;
+	name: string;
+	traits: { id: string; name: string }[];
+}
+
+/**
+ * Copy a rule without sharing nested objects (state proxies cannot be
+ * posted to workers).
+ */
+export function cloneCompatibilityRule(rule: CompatibilityRule): CompatibilityRule {
+	return {
+		id: rule.id,
+		kind: rule.kind,
+		when: cloneCondition(rule.when),
+		target: cloneCondition(rule.target)
+	};
+}
+
+function cloneCondition(condition: TraitCondition): TraitCondition {
+	return {
+		layerId: condition.layerId,
+		traitIds: [...condition.traitIds],
+		...(condition.none ? { none: true } : {})
+	};
+}
+
+/**
+ * Whether a layer's value matches a condition. `null` means the layer is empty.
+ */
+export function conditionMatches(condition: TraitCondition, traitId: string | null): boolean {
+	if (traitId === null) return condition.none ?? false;
+	return (condition.traitIds as string[]).includes(traitId);
+}
+
+/**
+ * Whether a rule allows two layer values together. Rules about other layers
+ * always allow them.
+ */
+export function ruleAllows(
+	rule: CompatibilityRule,
+	layerIdA: string,
+	traitIdA: string | null,
+	layerIdB: string,
+	traitIdB: string | null
+): boolean {
+	let whenValue: string | null;
+	let targetValue: string | null;
+	if (rule.when.layerId === layerIdA && rule.target.layerId === layerIdB) {
+		whenValue = traitIdA;
+		targetValue = traitIdB;
+	} else if (rule.when.layerId === layerIdB && rule.target.layerId === layerIdA) {
+		whenValue = traitIdB;
+		targetValue = traitIdA;
+	} else {
+		return true;
+	}
+
+	const whenMatches = conditionMatches(rule.when, whenValue);
+	const targetMatches = conditionMatches(rule.target, targetValue);
+	return rule.kind === 'requires' ? !whenMatches || targetMatches : !(whenMatches && targetMatches);
+}
+
+/**
+ * Index rules under both of their layers for fast lookup while solving.
+ */
+export function indexRulesByLayer(rules: CompatibilityRule[]): Map<string, CompatibilityRule[]> {
+	const index = new Map<string, CompatibilityRule[]>();
+	for (const rule of rules) {
+		for (const layerId of [rule.when.layerId, rule.target.layerId]) {
+			if (!index.has(layerId)) index.set(layerId, []);
+			index.get(layerId)!.push(rule);
+		}
+	}
+	return index;
+}
+
+/**
+ * Whether every indexed rule allows two layer values together.
+ */
+export function rulesAllowPair(
+	rulesByLayer: Map<string, CompatibilityRule[]>,
+	layerIdA: string,
+	traitIdA: string | null,
+	layerIdB: string,
+	traitIdB: string | null
+): boolean {
+	const rules = rulesByLayer.get(layerIdA);
+	if (!rules) return true;
+	return rules.every((rule) => ruleAllows(rule, layerIdA, traitIdA, layerIdB, traitIdB));
+}
+
+/**
+ * Human-readable form, e.g. `If Head is Helmet then Hair is None`.
+ */
+export function describeCompatibilityRule(rule: CompatibilityRule, layers: RuleLayer[]): string {
+	const when = describeCondition(rule.when, layers);
+	const target = describeCondition(rule.target, layers);
+	return rule.kind === 'requires' ? `If ${when} then ${target}` : `Never ${when} with ${target}`;
+}
+
+function describeCondition(condition: TraitCondition, layers: RuleLayer[]): string {
+	const layer = layers.find((l) => l.id === condition.layerId);
+	const values = condition.traitIds.map(
+		(id) => layer?.traits.find((t) => t.id === id)?.name ?? 'missing trait'
+	);
+	if (condition.none) values.push('None');
+	const layerName = layer?.name ?? 'missing layer';
+	return values.length === 1
+		? `${layerName} is ${values[0]}`
+		: `${layerName} in {${values.join(', ')}}`;
+}
+
+/**
+ * Serialize rules as JSON, naming layers and traits instead of using IDs.
+ */
+export function exportCompatibilityRules(rules: CompatibilityRule[], layers: RuleLayer[]): string {
+	const toNamed = (condition: TraitCondition) => {
+		const layer = layers.find((l) => l.id === condition.layerId);
+		return {
+			layer: layer?.name ?? '',
+			traits: condition.traitIds.map((id) => layer?.traits.find((t) => t.id === id)?.name ?? ''),
+			...(condition.none ? { none: true } : {})
+		};
+	};
+	return JSON.stringify(
+		{
+			version: 1,
+			rules: rules.map((rule) => ({
+				kind: rule.kind,
+				when: toNamed(rule.when),
+				target: toNamed(rule.target)
+			}))
+		},
+		null,
+		2
+	);
+}
+
+/**
+ * Parse a rules file written by {@link exportCompatibilityRules} against the
+ * given layers. Throws with a user-facing message when the file is invalid or
+ * names a layer or trait the project does not have.
+ */
+export function importCompatibilityRules(json: string, layers: RuleLayer[]): CompatibilityRule[] {
+	let data: unknown;
+	try {
+		data = JSON.parse(json);
+	} catch {
+		throw new Error('Rules file is not valid JSON');
+	}
+
+	const parsed = CompatibilityRulesFileSchema.safeParse(data);
+	if (!parsed.success) {
+		throw new Error('Invalid rules file structure');
+	}
+
+	return parsed.data.rules.map((namedRule, index) => {
+		const fromNamed = (named: { layer: string; traits: string[]; none?: boolean }) => {
+			const layer = layers.find((l) => l.name === named.layer);
+			if (!layer) throw new Error(`Rule ${index + 1}: layer "${named.layer}" not found`);
+			const traitIds = named.traits.map((name) => {
+				const trait = layer.traits.find((t) => t.name === name);
+				if (!trait) {
+					throw new Error(`Rule ${index + 1}: trait "${name}" not found in layer "${layer.name}"`);
+				}
+				return trait.id as TraitId;
+			});
+			return {
+				layerId: layer.id as LayerId,
+				traitIds,
+				...(named.none ? { none: true } : {})
+			};
+		};
+
+		const rule: CompatibilityRule = {
+			id: crypto.randomUUID(),
+			kind: namedRule.kind,
+			when: fromNamed(namedRule.when),
+			target: fromNamed(namedRule.target)
+		};
+		const result = validateCompatibilityRule(rule, layers);
+		if (!result.success) throw new Error(`Rule ${index + 1}: ${result.error}`);
+		return rule;
+	});
+}
@@ -0,0 +1,152 @@
+import { describe, expect, it } from 'vite-plus/test';
+import { calculateExpectedDistribution, toDistributionInputs } from './expected-distribution';
+import { unsafeCreateLayerId, unsafeCreateTraitId } from '$lib/types/ids';
+import type { Layer, Trait } from '$lib/types/layer';
+
+function trait(id: string, rarityWeight: number, overrides: Partial<Trait> = {}): Trait {
+	return {
+		id: unsafeCreateTraitId(id),
+		name: id,
+		imageData: new ArrayBuffer(4),
+		rarityWeight,
+		...overrides
+	};
+}
+
+function layer(id: string, traits: Trait[], overrides: Partial<Layer> = {}): Layer {
+	return {
+		id: unsafeCreateLayerId(id),
+		name: id,
+		order: 0,
+		traits,
+		...overrides
+	};
+}
+
+function shareOf(result: ReturnType<typeof calculateExpectedDistribution>, layerId: string) {
+	const distribution = result.get(unsafeCreateLayerId(layerId))!;
+	return Object.fromEntries(distribution.traits.map((t) => [t.traitId, t.share]));
+}
+
+describe('calculateExpectedDistribution', () => {
+	it('follows weights when no rules apply', () => {
+		const result = calculateExpectedDistribution(
+			[layer('bg', [trait('blue', 75), trait('red', 25)])],
+			{ samples: 4000 }
+		);
+
+		const shares = shareOf(result, 'bg');
+		expect(shares.blue).toBeCloseTo(0.75, 1);
+		expect(shares.red).toBeCloseTo(0.25, 1);
+		expect(result.get(unsafeCreateLayerId('bg'))?.noneShare).toBe(0);
+	});
+
+	it('accounts for ruler rules in other layers', () => {
+		const crown = trait('crown', 1, {
+			type: 'ruler',
+			rulerRules: [
+				{
+					layerId: unsafeCreateLayerId('bg'),
+					allowedTraitIds: [],
+					forbiddenTraitIds: [unsafeCreateTraitId('red')]
+				}
+			]
+		});
+		const result = calculateExpectedDistribution(
+			[layer('bg', [trait('blue', 1), trait('red', 1)]), layer('head', [crown])],
+			{ samples: 2000 }
+		);
+
+		// Every token carries the crown, so red can never be picked
+		const shares = shareOf(result, 'bg');
+		expect(shares.blue).toBe(1);
+		expect(shares.red).toBe(0);
+	});
+
+	it('reports optional layers without a none share', () => {
+		const result = calculateExpectedDistribution(
+			[
+				layer('bg', [trait('blue', 1)]),
+				layer('hat', [trait('cap', 1), trait('beanie', 1)], { isOptional: true })
+			],
+			{ samples: 2000 }
+		);
+
+		const hat = result.get(unsafeCreateLayerId('hat'))!;
+		expect(hat.noneShare).toBeNull();
+		expect(hat.traits.reduce((sum, t) => sum + t.share, 0)).toBeCloseTo(1, 5);
+	});
+
+	it('reports the none share of optional layers with a none probability', () => {
+		const result = calculateExpectedDistribution(
+			[
+				layer('bg', [trait('blue', 1)]),
+				layer('hat', [trait('cap', 1), trait('beanie', 1)], {
+					isOptional: true,
+					noneProbability: 0.7
+				})
+			],
+			{ samples: 4000 }
+		);
+
+		const hat = result.get(unsafeCreateLayerId('hat'))!;
+		expect(hat.noneShare).toBeCloseTo(0.7, 1);
+		expect(hat.traits.reduce((sum, t) => sum + t.share, 0)).toBeCloseTo(1, 5);
+	});
+
+	it('computes exact shares when no rules or links apply', () => {
+		const result = calculateExpectedDistribution(
+			[
+				layer('bg', [trait('blue', 3), trait('red', 1)]),
+				layer('hat', [trait('cap', 1), trait('beanie', 0)], {
+					isOptional: true,
+					noneProbability: 0.25
+				})
+			],
+			{ samples: 1 }
+		);
+
+		expect(shareOf(result, 'bg')).toEqual({ blue: 0.75, red: 0.25 });
+		// A non-positive weight counts as 1, like the solver
+		expect(shareOf(result, 'hat')).toEqual({ cap: 0.5, beanie: 0.5 });
+		expect(result.get(unsafeCreateLayerId('hat'))?.noneShare).toBe(0.25);
+	});
+
+	it('marks traits capped by a supply quota as fixed supply', () => {
+		const inputs = toDistributionInputs([
+			layer('bg', [
+				trait('blue', 1, { exactCount: 10 }),
+				trait('red', 1, { maxCount: 5 }),
+				trait('green', 1)
+			])
+		]);
+		const result = calculateExpectedDistribution(inputs.layers, { samples: 1 });
+
+		expect(
+			Object.fromEntries(
+				result.get(unsafeCreateLayerId('bg'))!.traits.map((t) => [t.traitId, t.fixedSupply])
+			)
+		).toEqual({ blue: true, red: true, green: false });
+	});
+
+	it('keeps only the inputs that change the shares', () => {
+		const inputs = toDistributionInputs([
+			layer('bg', [trait('blue', 2, { metadataValue: 'Sky', opacity: 0.5 })], {
+				blendMode: 'multiply'
+			})
+		]);
+
+		expect(inputs.layers[0]).not.toHaveProperty('blendMode');
+		expect(inputs.layers[0].traits[0]).not.toHaveProperty('imageData');
+		expect(inputs.layers[0].traits[0]).not.toHaveProperty('metadataValue');
+		expect(inputs.layers[0].traits[0].rarityWeight).toBe(2);
+		expect(inputs.compatibilityRules).toEqual([]);
+	});
+
+	it('is stable for the same seed', () => {
+		const layers = [layer('bg', [trait('blue', 3), trait('red', 2), trait('green', 1)])];
+		expect(shareOf(calculateExpectedDistribution(layers, { seed: 7 }), 'bg')).toEqual(
+			shareOf(calculateExpectedDistribution(layers, { seed: 7 }), 'bg')
+		);
+	});
+});
@@ -0,0 +1,335 @@
+/**
+ * Expected trait distribution for the Collection Design.
+ *
+ * Estimates how often each trait will appear once the solver runs, so the
+ * layer UI can show real shares instead of raw weights. Ruler rules and links make an
+ * exact answer exponential in the number of layers, so we sample tokens the
+ * way the solver builds them: most-constrained layer first, each trait picked
+ * by weight among the traits still compatible with what was already chosen.
+ * Without any rules or links every layer is independent, so the shares are
+ * computed directly from the weights instead.
+ */
+
+import type { LayerId, TraitId } from '$lib/types/ids';
+import type { CompatibilityRule, Layer, Trait } from '$lib/types/layer';
+import { createSeededRandom } from '$lib/utils/seeded-random';
+import { indexRulesByLayer, rulesAllowPair } from './compatibility-rules';
+import { linksAllowPair } from './trait-links';
+
+/** Trait fields the expected distribution depends on */
+export type DistributionTrait = Pick<
+	Trait,
+	'id' | 'name' | 'rarityWeight' | 'type' | 'rulerRules' | 'links' | 'exactCount' | 'maxCount'
+>;
+
+/** Layer fields the expected distribution depends on */
+export interface DistributionLayer extends Pick<
+	Layer,
+	'id' | 'name' | 'isOptional' | 'noneProbability'
+> {
+	traits: DistributionTrait[];
+}
+
+/**
+ * Everything the expected distribution is computed from. Plain data, so it
+ * can be compared or serialised to skip edits that cannot change the shares
+ * (images, blend modes, metadata values).
+ */
+export interface DistributionInputs {
+	layers: DistributionLayer[];
+	compatibilityRules: CompatibilityRule[];
+}
+
+export interface ExpectedTraitShare {
+	traitId: TraitId;
+	traitName: string;
+	/** Fraction (0–1) of the tokens that fill this layer which carry the trait */
+	share: number;
+	/**
+	 * An exact or max count caps the trait. How many tokens carry it then
+	 * depends on the collection size, so `share` only reflects its weight.
+	 */
+	fixedSupply: boolean;
+}
+
+export interface LayerExpectedDistribution {
+	layerId: LayerId;
+	/**
+	 * Fraction of tokens expected to leave this layer empty. `null` for optional
+	 * layers without a none probability: the solver only fills them when
+	 * uniqueness needs it, so the answer depends on collection size.
+	 */
+	noneShare: number | null;
+	traits: ExpectedTraitShare[];
+}
+
+export interface ExpectedDistributionOptions {
+	/** Sampled tokens per pass (default 2000) */
+	samples?: number;
+	/** Fixed seed keeps the preview stable between renders */
+	seed?: number;
+	/** Project-level rules, applied like the solver applies them between traits */
+	compatibilityRules?: CompatibilityRule[];
+}
+
+const DEFAULT_SAMPLES = 2000;
+const DEFAULT_SEED = 1;
+
+/**
+ * Effective sampling weight of a trait, shared with the solver so the preview
+ * picks traits the same way. Weights and percentages are both relative, so a
+ * missing or non-positive value falls back to 1.
+ */
+export function getRarityWeight(trait: Pick<Trait, 'rarityWeight'>): number {
+	return trait.rarityWeight > 0 ? trait.rarityWeight : 1;
+}
+
+/**
+ * Keep only the layer and trait fields that affect the expected distribution.
+ */
+export function toDistributionInputs(
+	layers: Layer[],
+	compatibilityRules: CompatibilityRule[] = []
+): DistributionInputs {
+	return {
+		layers: layers.map((layer) => ({
+			id: layer.id,
+			name: layer.name,
+			isOptional: layer.isOptional,
+			noneProbability: layer.noneProbability,
+			traits: layer.traits.map((trait) => ({
+				id: trait.id,
+				name: trait.name,
+				rarityWeight: trait.rarityWeight,
+				type: trait.type,
+				rulerRules: trait.rulerRules,
+				links: trait.links,
+				exactCount: trait.exactCount,
+				maxCount: trait.maxCount
+			}))
+		})),
+		compatibilityRules
+	};
+}
+
+/**
+ * Estimate the share of every trait in every layer.
+ */
+export function calculateExpectedDistribution(
+	layers: DistributionLayer[],
+	options: ExpectedDistributionOptions = {}
+): Map<LayerId, LayerExpectedDistribution> {
+	if (!hasConstraints(layers, options.compatibilityRules ?? [])) {
+		return new Map(layers.map((layer) => [layer.id, toIndependentDistribution(layer)]));
+	}
+
+	const samples = options.samples ?? DEFAULT_SAMPLES;
+	const random = createSeededRandom(options.seed ?? DEFAULT_SEED);
+	const rulesByLayer = indexRulesByLayer(options.compatibilityRules ?? []);
+	const result = new Map<LayerId, LayerExpectedDistribution>();
+
+	// Required layers and optional layers with a none probability are sampled together
+	const sampledLayers = layers.filter(
+		(layer) => layer.traits.length > 0 && (!layer.isOptional || layer.noneProbability !== undefined)
+	);
+	const mainSample = countSamples(sampledLayers, samples, random, rulesByLayer);
+	for (const layer of sampledLayers) {
+		result.set(layer.id, toDistribution(layer, mainSample, layer.isOptional ? undefined : 0));
+	}
+
+	// Other optional layers: shares among the tokens that do fill the layer
+	const requiredLayers = sampledLayers.filter((layer) => !layer.isOptional);
+	for (const layer of layers) {
+		if (result.has(layer.id) || layer.traits.length === 0) continue;
+		const sample = countSamples([...requiredLayers, layer], samples, random, rulesByLayer);
+		result.set(layer.id, toDistribution(layer, sample, null));
+	}
+
+	for (const layer of layers) {
+		if (!result.has(layer.id)) {
+			result.set(layer.id, { layerId: layer.id, noneShare: null, traits: [] });
+		}
+	}
+
+	return result;
+}
+
+/**
+ * Whether any rule or link ties layers together. Without one, every layer is
+ * picked independently by weight.
+ */
+function hasConstraints(layers: DistributionLayer[], rules: CompatibilityRule[]): boolean {
+	if (rules.length > 0) return true;
+	return layers.some((layer) =>
+		layer.traits.some(
+			(trait) =>
+				(trait.type === 'ruler' && (trait.rulerRules?.length ?? 0) > 0) ||
+				(trait.links?.length ?? 0) > 0
+		)
+	);
+}
+
+/**
+ * Exact shares of a layer that no rule or link touches: each trait's weight
+ * over the layer's total, and the none probability as the empty share.
+ */
+function toIndependentDistribution(layer: DistributionLayer): LayerExpectedDistribution {
+	const total = layer.traits.reduce((sum, trait) => sum + getRarityWeight(trait), 0);
+	let noneShare: number | null = 0;
+	if (layer.traits.length === 0) noneShare = null;
+	else if (layer.isOptional) noneShare = layer.noneProbability ?? null;
+
+	return {
+		layerId: layer.id,
+		noneShare,
+		traits: layer.traits.map((trait) => ({
+			traitId: trait.id,
+			traitName: trait.name,
+			share: getRarityWeight(trait) / total,
+			fixedSupply: hasFixedSupply(trait)
+		}))
+	};
+}
+
+type RulesByLayer = ReturnType<typeof indexRulesByLayer>;
+
+interface SampleCounts {
+	/** Tokens that were sampled without hitting a dead end */
+	tokens: number;
+	/** Trait id -> tokens carrying the trait */
+	traits: Map<string, number>;
+}
+
+/**
+ * @param noneShare known empty share, or undefined to measure it from the sample
+ */
+function toDistribution(
+	layer: DistributionLayer,
+	sample: SampleCounts,
+	noneShare: number | null | undefined
+): LayerExpectedDistribution {
+	const counts = sample.traits;
+	const total = layer.traits.reduce((sum, trait) => sum + (counts.get(trait.id) ?? 0), 0);
+	return {
+		layerId: layer.id,
+		noneShare:
+			noneShare !== undefined ? noneShare : sample.tokens > 0 ? 1 - total / sample.tokens : 0,
+		traits: layer.traits.map((trait) => ({
+			traitId: trait.id,
+			traitName: trait.name,
+			share: total > 0 ? (counts.get(trait.id) ?? 0) / total : 0,
+			fixedSupply: hasFixedSupply(trait)
+		}))
+	};
+}
+
+/**
+ * Whether the solver caps the trait with a supply quota. The collection size
+ * is only known when generating, so the preview can't scale these shares.
+ */
+function hasFixedSupply(trait: DistributionTrait): boolean {
+	return trait.exactCount !== undefined || trait.maxCount !== undefined;
+}
+
+/**
+ * Sample tokens over the given layers and count how often each trait is picked.
+ * Dead ends (no compatible trait left) are discarded, matching the solver
+ * which would backtrack out of them.
+ */
+function countSamples(
+	layers: DistributionLayer[],
+	samples: number,
+	random: () => number,
+	rulesByLayer: RulesByLayer
+): SampleCounts {
+	const sample: SampleCounts = { tokens: 0, traits: new Map() };
+	if (layers.length === 0) return sample;
+
+	for (let i = 0; i < samples; i++) {
+		const token = sampleToken(layers, random, rulesByLayer);
+		if (!token) continue;
+		sample.tokens++;
+		for (const trait of token.values()) {
+			sample.traits.set(trait.id, (sample.traits.get(trait.id) ?? 0) + 1);
+		}
+	}
+
+	return sample;
+}
+
+function sampleToken(
+	layers: DistributionLayer[],
+	random: () => number,
+	rulesByLayer: RulesByLayer
+): Map<LayerId, DistributionTrait> | null {
+	const chosen = new Map<LayerId, DistributionTrait>();
+	// Optional layers roll for "None" up front, like the solver does per token
+	const pending = layers.filter(
+		(layer) =>
+			!layer.isOptional || layer.noneProbability === undefined || random() >= layer.noneProbability
+	);
+
+	while (pending.length > 0) {
+		// MRV: fill the layer with the fewest compatible traits first
+		let bestIndex = -1;
+		let bestCandidates: DistributionTrait[] = [];
+		for (let i = 0; i < pending.length; i++) {
+			const candidates = pending[i].traits.filter((trait) =>
+				isCompatibleWithChosen(pending[i].id, trait, chosen, rulesByLayer)
+			);
+			if (candidates.length === 0) {
+				if (!pending[i].isOptional) return null;
+				// Nothing fits: the solver leaves the optional layer empty
+				pending.splice(i, 1);
+				i--;
+				continue;
+			}
+			if (bestIndex === -1 || candidates.length < bestCandidates.length) {
+				bestIndex = i;
+				bestCandidates = candidates;
+			}
+		}
+
+		const [layer] = pending.splice(bestIndex, 1);
+		chosen.set(layer.id, pickWeighted(bestCandidates, random));
+	}
+
+	return chosen;
+}
+
+function pickWeighted(traits: DistributionTrait[], random: () => number): DistributionTrait {
+	const total = traits.reduce((sum, trait) => sum + getRarityWeight(trait), 0);
+	let threshold = random() * total;
+	for (const trait of traits) {
+		threshold -= getRarityWeight(trait);
+		if (threshold < 0) return trait;
+	}
+	return traits[traits.length - 1];
+}
+
+function isCompatibleWithChosen(
+	layerId: LayerId,
+	trait: DistributionTrait,
+	chosen: Map<LayerId, DistributionTrait>,
+	rulesByLayer: RulesByLayer
+): boolean {
+	for (const [otherLayerId, other] of chosen) {
+		if (!rulerAllows(trait, otherLayerId, other.id)) return false;
+		if (!rulerAllows(other, layerId, trait.id)) return false;
+		if (!linksAllowPair(trait, layerId, other, otherLayerId)) return false;
+		if (!rulesAllowPair(rulesByLayer, layerId, trait.id, otherLayerId, other.id)) return false;
+	}
+	return true;
+}
+
+function rulerAllows(
+	ruler: DistributionTrait,
+	targetLayerId: LayerId,
+	targetTraitId: TraitId
+): boolean {
+	if (ruler.type !== 'ruler' || !ruler.rulerRules) return true;
+	const rule = ruler.rulerRules.find((r) => r.layerId === targetLayerId);
+	if (!rule) return true;
+	if (rule.forbiddenTraitIds.includes(targetTraitId)) return false;
+	return rule.allowedTraitIds.length === 0 || rule.allowedTraitIds.includes(targetTraitId);
+}
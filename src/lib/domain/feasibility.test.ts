@@ -0,0 +1,168 @@
+import { describe, expect, it } from 'vite-plus/test';
+import { analyzeFeasibility, type FeasibilityLayer } from './feasibility';
+import { unsafeCreateLayerId, unsafeCreateTraitId } from '$lib/types/ids';
+import type { LinkableTrait } from './trait-links';
+
+function trait(id: string, overrides: Partial<LinkableTrait> = {}): LinkableTrait {
+	return { id, name: id[0].toUpperCase() + id.slice(1), ...overrides };
+}
+
+function layer(id: string, traits: LinkableTrait[], isOptional = false): FeasibilityLayer {
+	return { id, name: id[0].toUpperCase() + id.slice(1), isOptional, traits };
+}
+
+function ruler(id: string, layerId: string, forbidden: string[]): LinkableTrait {
+	return trait(id, {
+		type: 'ruler',
+		rulerRules: [
+			{
+				layerId: unsafeCreateLayerId(layerId),
+				allowedTraitIds: [],
+				forbiddenTraitIds: forbidden.map(unsafeCreateTraitId)
+			}
+		]
+	});
+}
+
+describe('analyzeFeasibility', () => {
+	it('counts unique tokens across all layers when Strict Pair is off', () => {
+		const report = analyzeFeasibility(
+			[
+				layer('head', [trait('cap'), trait('crown')]),
+				layer('eyes', [trait('blue'), trait('gold')], true)
+			],
+			{ collectionSize: 6 }
+		);
+
+		expect(report.maxUniqueTokens).toBe(6);
+		expect(report.feasible).toBe(true);
+		expect(report.exact).toBe(true);
+		expect(report.bottlenecks).toEqual([]);
+	});
+
+	it('names the combination and rule that limit the collection', () => {
+		const report = analyzeFeasibility(
+			[
+				layer('head', [ruler('crown', 'eyes', ['blue']), trait('cap')]),
+				layer('eyes', [trait('blue'), trait('gold')])
+			],
+			{ collectionSize: 4 }
+		);
+
+		expect(report.maxUniqueTokens).toBe(3);
+		expect(report.feasible).toBe(false);
+		expect(report.bottlenecks).toHaveLength(1);
+		expect(report.bottlenecks[0]).toMatchObject({
+			combinationId: '__global__',
+			capacity: 3,
+			limitingRules: [{ description: 'ruler "Crown" (Head) on Eyes', capacityWithout: 4 }]
+		});
+		expect(report.bottlenecks[0].explanation).toBe(
+			'"Head + Eyes" allows at most 3 unique tokens; without ruler "Crown" (Head) on Eyes it would allow 4.'
+		);
+	});
+
+	it('counts each active Strict Pair combination on its own layers', () => {
+		const layers = [
+			layer('body', [trait('robot'), trait('human'), trait('alien')]),
+			layer('head', [trait('cap'), trait('crown')]),
+			layer('eyes', [trait('blue'), trait('gold')], true)
+		];
+		const report = analyzeFeasibility(layers, {
+			strictPairConfig: {
+				enabled: true,
+				layerCombinations: [
+					{
+						id: 'pair',
+						layerIds: [unsafeCreateLayerId('body'), unsafeCreateLayerId('head')],
+						description: 'Body + Head',
+						active: true
+					},
+					{
+						id: 'off',
+						layerIds: [unsafeCreateLayerId('head'), unsafeCreateLayerId('eyes')],
+						description: 'Head + Eyes',
+						active: false
+					}
+				]
+			},
+			collectionSize: 10
+		});
+
+		expect(report.maxUniqueTokens).toBe(6);
+		expect(report.bottlenecks[0].explanation).toBe(
+			'"Body + Head" allows at most 6 unique tokens (3 Body options × 2 Head options).'
+		);
+	});
+
+	it('never runs out when a combination can be left entirely empty', () => {
+		const report = analyzeFeasibility([layer('hat', [trait('top')], true)], {
+			collectionSize: 100
+		});
+		expect(report.maxUniqueTokens).toBe(Infinity);
+		expect(report.feasible).toBe(true);
+	});
+
+	it('lists traits that can never be chosen and why', () => {
+		const report = analyzeFeasibility(
+			[
+				layer('head', [trait('cap', { maxCount: 0 }), trait('helmet')]),
+				layer('hair', [trait('long'), trait('short')], true)
+			],
+			{
+				compatibilityRules: [
+					{
+						id: 'r1',
+						kind: 'requires',
+						when: {
+							layerId: unsafeCreateLayerId('head'),
+							traitIds: [unsafeCreateTraitId('helmet')]
+						},
+						target: { layerId: unsafeCreateLayerId('hair'), traitIds: [], none: true }
+					}
+				]
+			}
+		);
+
+		expect(report.blockedTraits.map((t) => [t.traitName, t.reason])).toEqual([
+			['Cap', 'Its supply quota is 0.'],
+			['Long', 'Ruled out by rule "If Head is Helmet then Hair is None".'],
+			['Short', 'Ruled out by rule "If Head is Helmet then Hair is None".']
+		]);
+		expect(report.maxUniqueTokens).toBe(1);
+	});
+
+	it('explains layers that can never be filled together', () => {
+		const report = analyzeFeasibility([
+			layer('head', [
+				trait('crown', {
+					links: [{ layerId: unsafeCreateLayerId('eyes'), traitId: unsafeCreateTraitId('gold') }]
+				})
+			]),
+			layer('eyes', [trait('gold', { maxCount: 0 }), trait('blue')])
+		]);
+
+		expect(report.maxUniqueTokens).toBe(0);
+		expect(report.feasible).toBe(false);
+		expect(report.bottlenecks[0].explanation).toBe(
+			'Layers Head + Eyes can never be filled together because of link "Crown" (Head) ↔ "Gold" (Eyes).'
+		);
+	});
+
+	it('falls back to an upper bound when the search is too large', () => {
+		const traits = (prefix: string) => Array.from({ length: 30 }, (_, i) => trait(`${prefix}${i}`));
+		const layers = [
+			layer('a', traits('a')),
+			layer('b', traits('b')),
+			layer('c', traits('c')),
+			layer('d', traits('d'))
+		];
+		layers[0].traits[0] = ruler('a0', 'b', ['b0']);
+		layers[1].traits[1] = ruler('b1', 'c', ['c0']);
+		layers[2].traits[1] = ruler('c1', 'd', ['d0']);
+
+		const report = analyzeFeasibility(layers);
+		expect(report.exact).toBe(false);
+		expect(report.maxUniqueTokens).toBe(30 ** 4);
+	});
+});
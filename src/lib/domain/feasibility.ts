@@ -0,0 +1,526 @@
+/**
+ * Pre-generation feasibility analysis.
+ *
+ * Works out how many unique tokens the current rules allow before anything is
+ * generated, so an impossible collection size is explained up front instead
+ * of failing partway through solving. Layers are grouped by the ruler rules,
+ * links and compatibility rules between them; every group's valid trait
+ * assignments are enumerated and counted per uniqueness combination, keyed
+ * the way the solver keys them. Rules are then left out one at a time to name
+ * the ones that cost the most.
+ *
+ * Supply quotas only count here when they are 0; the rest of the quota checks
+ * live in findSupplyQuotaProblem.
+ */
+
+import type { CompatibilityRule, StrictPairConfig } from '$lib/types/layer';
+import { describeCompatibilityRule, ruleAllows } from './compatibility-rules';
+import type { LinkableTrait } from './trait-links';
+
+export interface FeasibilityLayer {
+	id: string;
+	name: string;
+	isOptional?: boolean;
+	traits: LinkableTrait[];
+}
+
+export interface FeasibilityOptions {
+	strictPairConfig?: StrictPairConfig;
+	compatibilityRules?: CompatibilityRule[];
+	/** Number of tokens the solver has to generate */
+	collectionSize?: number;
+}
+
+export interface BlockedTrait {
+	layerId: string;
+	traitId: string;
+	layerName: string;
+	traitName: string;
+	reason: string;
+}
+
+export interface LimitingRule {
+	description: string;
+	/** Unique tokens the combination would allow without this rule */
+	capacityWithout: number;
+}
+
+export interface FeasibilityBottleneck {
+	/** Strict Pair combination id, or undefined when layers cannot be filled at all */
+	combinationId?: string;
+	description: string;
+	capacity: number;
+	limitingRules: LimitingRule[];
+	explanation: string;
+}
+
+export interface FeasibilityReport {
+	/** Most unique tokens the rules allow; Infinity when uniqueness never runs out */
+	maxUniqueTokens: number;
+	/** False when the search budget ran out and some counts are upper bounds */
+	exact: boolean;
+	/** Whether collectionSize fits (or, without a size, whether any token is possible) */
+	feasible: boolean;
+	blockedTraits: BlockedTrait[];
+	/** Combinations that cannot cover the collection (or the tightest ones), tightest first */
+	bottlenecks: FeasibilityBottleneck[];
+}
+
+type Value = LinkableTrait | null;
+
+interface Constraint {
+	description: string;
+	layerIds: [string, string];
+	allows(a: Value, b: Value): boolean;
+}
+
+interface UniquenessGroup {
+	id: string;
+	description: string;
+	layerIds: string[];
+}
+
+interface Enumeration {
+	count: number;
+	/** "layerId:traitId" of every trait some valid token uses */
+	supported: Set<string>;
+	/** Distinct keys per uniqueness group, over the group's layers in this component */
+	projections: Map<string, number>;
+	/** Groups whose layers in this component can all be left empty together */
+	allEmpty: Set<string>;
+	exact: boolean;
+}
+
+/** Search steps shared by one analysis, including the rule-by-rule reruns */
+const SEARCH_BUDGET = 2_000_000;
+/** Search steps for a single enumeration before it falls back to an estimate */
+const ENUMERATION_BUDGET = 250_000;
+const MAX_LIMITING_RULES = 5;
+
+/**
+ * Analyze how many unique tokens the layers allow under the current ruler
+ * rules, links, compatibility rules, Strict Pair settings and optional
+ * layers. With Strict Pair off the solver keeps whole tokens unique; with it
+ * on, each active combination is unique on its own layers. The maximum is the
+ * tightest combination, so it is an upper bound when several interact.
+ */
+export function analyzeFeasibility(
+	layers: FeasibilityLayer[],
+	options: FeasibilityOptions = {}
+): FeasibilityReport {
+	const budget = { remaining: SEARCH_BUDGET };
+	const blockedTraits: BlockedTrait[] = [];
+	const domains = new Map<string, Value[]>();
+	for (const layer of layers) {
+		const domain: Value[] = [];
+		for (const trait of layer.traits) {
+			if (Math.min(trait.exactCount ?? Infinity, trait.maxCount ?? Infinity) > 0) {
+				domain.push(trait);
+			} else {
+				blockedTraits.push(blocked(layer, trait, 'Its supply quota is 0.'));
+			}
+		}
+		if (layer.isOptional) domain.push(null);
+		domains.set(layer.id, domain);
+	}
+
+	const constraints = collectConstraints(layers, options.compatibilityRules ?? []);
+	const groups = uniquenessGroups(layers, options.strictPairConfig);
+	const components = connectedComponents(layers, constraints);
+
+	const analyses = components.map((component) => {
+		const componentIds = new Set(component.map((layer) => layer.id));
+		const componentConstraints = constraints.filter((c) => componentIds.has(c.layerIds[0]));
+		const run = (without?: Constraint) =>
+			enumerate(
+				component,
+				domains,
+				componentConstraints.filter((c) => c !== without),
+				groups,
+				budget
+			);
+		const base = run();
+		// Reruns without each rule, computed on demand and only for exact results
+		const ablations = new Map<Constraint, Enumeration>();
+		const withoutEach = () => {
+			if (!base.exact) return ablations;
+			for (const constraint of componentConstraints) {
+				if (!ablations.has(constraint)) ablations.set(constraint, run(constraint));
+			}
+			return ablations;
+		};
+		return { component, base, withoutEach };
+	});
+
+	const exact = () => analyses.every((a) => a.base.exact);
+	const bottlenecks: FeasibilityBottleneck[] = [];
+
+	// Layers that can never be filled together stop the whole collection
+	for (const analysis of analyses) {
+		if (analysis.base.count > 0) continue;
+		const limitingRules = [...analysis.withoutEach()]
+			.filter(([, result]) => result.count > 0)
+			.map(([constraint, result]) => ({
+				description: constraint.description,
+				capacityWithout: result.count
+			}));
+		const names = analysis.component.map((layer) => layer.name).join(' + ');
+		bottlenecks.push({
+			description: names,
+			capacity: 0,
+			limitingRules: limitingRules.slice(0, MAX_LIMITING_RULES),
+			explanation:
+				limitingRules.length > 0
+					? `Layers ${names} can never be filled together because of ${limitingRules.map((r) => r.description).join(' together with ')}.`
+					: `Layers ${names} can never be filled together: every option breaks a rule or leaves a required layer empty.`
+		});
+	}
+
+	if (bottlenecks.length > 0) {
+		return {
+			maxUniqueTokens: 0,
+			exact: exact(),
+			feasible: false,
+			blockedTraits,
+			bottlenecks
+		};
+	}
+
+	// Traits no valid token can use
+	for (const analysis of analyses) {
+		if (!analysis.base.exact) continue;
+		for (const layer of analysis.component) {
+			for (const trait of domains.get(layer.id)!) {
+				if (!trait || analysis.base.supported.has(traitKey(layer.id, trait.id))) continue;
+				const responsible = [...analysis.withoutEach()]
+					.filter(([, result]) => result.supported.has(traitKey(layer.id, trait.id)))
+					.map(([constraint]) => constraint.description);
+				blockedTraits.push(
+					blocked(
+						layer,
+						trait,
+						responsible.length > 0
+							? `Ruled out by ${responsible.join(' together with ')}.`
+							: 'Ruled out by several rules, each enough on its own.'
+					)
+				);
+			}
+		}
+	}
+
+	const capacityOf = (group: UniquenessGroup, replaced?: { index: number; result: Enumeration }) =>
+		groupCapacity(
+			group,
+			analyses.map((a, i) => (replaced?.index === i ? replaced.result : a.base))
+		);
+
+	const capacities = groups.map((group) => ({ group, capacity: capacityOf(group) }));
+	const maxUniqueTokens = Math.min(Infinity, ...capacities.map((c) => c.capacity));
+	// Without a size, explain the tightest combinations
+	const limit = options.collectionSize ?? maxUniqueTokens + 1;
+
+	for (const { group, capacity } of capacities.sort((a, b) => a.capacity - b.capacity)) {
+		if (capacity === Infinity || capacity >= limit) continue;
+
+		const groupLayerIds = new Set(group.layerIds);
+		const limitingRules: LimitingRule[] = [];
+		analyses.forEach((analysis, index) => {
+			if (!analysis.component.some((layer) => groupLayerIds.has(layer.id))) return;
+			for (const [constraint, result] of analysis.withoutEach()) {
+				const capacityWithout = capacityOf(group, { index, result });
+				if (capacityWithout > capacity) {
+					limitingRules.push({ description: constraint.description, capacityWithout });
+				}
+			}
+		});
+		limitingRules.sort((a, b) => b.capacityWithout - a.capacityWithout);
+
+		bottlenecks.push({
+			combinationId: group.id,
+			description: group.description,
+			capacity,
+			limitingRules: limitingRules.slice(0, MAX_LIMITING_RULES),
+			explanation: explainGroup(group, capacity, limitingRules, layers, domains)
+		});
+	}
+
+	return {
+		maxUniqueTokens,
+		exact: exact(),
+		feasible:
+			options.collectionSize === undefined
+				? maxUniqueTokens > 0
+				: maxUniqueTokens >= options.collectionSize,
+		blockedTraits,
+		bottlenecks
+	};
+}
+
+/**
+ * Count for display; Infinity reads as "unlimited".
+ */
+export function formatTokenCount(count: number): string {
+	return count === Infinity ? 'unlimited' : count.toLocaleString('en-US');
+}
+
+function explainGroup(
+	group: UniquenessGroup,
+	capacity: number,
+	limitingRules: LimitingRule[],
+	layers: FeasibilityLayer[],
+	domains: Map<string, Value[]>
+): string {
+	const allows = `"${group.description}" allows at most ${formatTokenCount(capacity)} unique token${capacity === 1 ? '' : 's'}`;
+	if (limitingRules.length > 0) {
+		const [top] = limitingRules;
+		return `${allows}; without ${top.description} it would allow ${formatTokenCount(top.capacityWithout)}.`;
+	}
+	const options = group.layerIds.map((layerId) => {
+		const layer = layers.find((l) => l.id === layerId)!;
+		const count = domains.get(layerId)!.length;
+		return `${count} ${layer.name} option${count === 1 ? '' : 's'}`;
+	});
+	return `${allows} (${options.join(' × ')}).`;
+}
+
+function blocked(layer: FeasibilityLayer, trait: LinkableTrait, reason: string): BlockedTrait {
+	return {
+		layerId: layer.id,
+		traitId: trait.id,
+		layerName: layer.name,
+		traitName: trait.name,
+		reason
+	};
+}
+
+function traitKey(layerId: string, traitId: string): string {
+	return `${layerId}:${traitId}`;
+}
+
+/**
+ * Every pairwise rule between two layers, in the form the solver checks it.
+ */
+function collectConstraints(layers: FeasibilityLayer[], rules: CompatibilityRule[]): Constraint[] {
+	const layersById = new Map(layers.map((layer) => [layer.id, layer]));
+	const constraints: Constraint[] = [];
+	const seenLinks = new Set<string>();
+
+	for (const layer of layers) {
+		for (const trait of layer.traits) {
+			if (trait.type === 'ruler') {
+				for (const rule of trait.rulerRules ?? []) {
+					const target = layersById.get(rule.layerId);
+					if (!target || target.id === layer.id) continue;
+					const forbidden: readonly string[] = rule.forbiddenTraitIds;
+					const allowed: readonly string[] = rule.allowedTraitIds;
+					constraints.push({
+						description: `ruler "${trait.name}" (${layer.name}) on ${target.name}`,
+						layerIds: [layer.id, target.id],
+						allows: (a, b) =>
+							a?.id !== trait.id ||
+							b === null ||
+							(!forbidden.includes(b.id) && (allowed.length === 0 || allowed.includes(b.id)))
+					});
+				}
+			}
+
+			for (const link of trait.links ?? []) {
+				const target = layersById.get(link.layerId);
+				const partner = target?.traits.find((t) => t.id === link.traitId);
+				if (!target || !partner || target.id === layer.id) continue;
+				const key = [traitKey(layer.id, trait.id), traitKey(target.id, partner.id)]
+					.sort()
+					.join('|');
+				if (seenLinks.has(key)) continue;
+				seenLinks.add(key);
+				const mutual =
+					partner.links?.some((l) => l.layerId === layer.id && l.traitId === trait.id) ?? false;
+				constraints.push({
+					description: `link "${trait.name}" (${layer.name}) ↔ "${partner.name}" (${target.name})`,
+					layerIds: [layer.id, target.id],
+					allows: (a, b) =>
+						(a?.id !== trait.id || b?.id === partner.id) &&
+						(!mutual || b?.id !== partner.id || a?.id === trait.id)
+				});
+			}
+		}
+	}
+
+	for (const rule of rules) {
+		const { layerId: whenId } = rule.when;
+		const { layerId: targetId } = rule.target;
+		if (whenId === targetId || !layersById.has(whenId) || !layersById.has(targetId)) continue;
+		constraints.push({
+			description: `rule "${describeCompatibilityRule(rule, layers)}"`,
+			layerIds: [whenId, targetId],
+			allows: (a, b) => ruleAllows(rule, whenId, a?.id ?? null, targetId, b?.id ?? null)
+		});
+	}
+
+	return constraints;
+}
+
+/**
+ * The combinations the solver keeps unique, mirroring the orchestrator: one
+ * combination of every layer when Strict Pair is off.
+ */
+function uniquenessGroups(
+	layers: FeasibilityLayer[],
+	config: StrictPairConfig | undefined
+): UniquenessGroup[] {
+	if (!config?.enabled) {
+		return [
+			{
+				id: '__global__',
+				description: layers.map((layer) => layer.name).join(' + '),
+				layerIds: layers.map((layer) => layer.id)
+			}
+		];
+	}
+	const layerIds = new Set(layers.map((layer) => layer.id));
+	return config.layerCombinations
+		.filter((combination) => combination.active)
+		.map((combination) => ({
+			id: combination.id,
+			description: combination.description,
+			layerIds: combination.layerIds.filter((id) => layerIds.has(id))
+		}));
+}
+
+/**
+ * Split layers into groups that rules connect, in project order.
+ */
+function connectedComponents(
+	layers: FeasibilityLayer[],
+	constraints: Constraint[]
+): FeasibilityLayer[][] {
+	const parent = new Map(layers.map((layer) => [layer.id, layer.id]));
+	const find = (id: string): string => {
+		let root = id;
+		while (parent.get(root) !== root) root = parent.get(root)!;
+		parent.set(id, root);
+		return root;
+	};
+	for (const { layerIds } of constraints) {
+		parent.set(find(layerIds[0]), find(layerIds[1]));
+	}
+
+	const components = new Map<string, FeasibilityLayer[]>();
+	for (const layer of layers) {
+		const root = find(layer.id);
+		if (!components.has(root)) components.set(root, []);
+		components.get(root)!.push(layer);
+	}
+	return [...components.values()];
+}
+
+/**
+ * Enumerate every valid assignment of a component's layers. Falls back to an
+ * upper-bound estimate that ignores the rules once the budget runs out.
+ */
+function enumerate(
+	component: FeasibilityLayer[],
+	domains: Map<string, Value[]>,
+	constraints: Constraint[],
+	groups: UniquenessGroup[],
+	budget: { remaining: number }
+): Enumeration {
+	const index = new Map(component.map((layer, i) => [layer.id, i]));
+	const groupIndexes = groups
+		.map((group) => ({
+			id: group.id,
+			indexes: group.layerIds.filter((id) => index.has(id)).map((id) => index.get(id)!)
+		}))
+		.filter((group) => group.indexes.length > 0);
+	const layerDomains = component.map((layer) => domains.get(layer.id)!);
+
+	// Constraints checked when layer i is assigned, against earlier layers
+	const checks: { other: number; allows: (mine: Value, theirs: Value) => boolean }[][] =
+		component.map(() => []);
+	for (const constraint of constraints) {
+		const a = index.get(constraint.layerIds[0])!;
+		const b = index.get(constraint.layerIds[1])!;
+		if (a > b)
+			checks[a].push({ other: b, allows: (mine, theirs) => constraint.allows(mine, theirs) });
+		else checks[b].push({ other: a, allows: (mine, theirs) => constraint.allows(theirs, mine) });
+	}
+
+	let count = 0;
+	const supported = new Set<string>();
+	const projections = new Map(groupIndexes.map((group) => [group.id, new Set<string>()]));
+	const allEmpty = new Set<string>();
+	const assignment: Value[] = [];
+	let steps = ENUMERATION_BUDGET;
+
+	const visit = (depth: number): boolean => {
+		if (depth === component.length) {
+			count++;
+			assignment.forEach((value, i) => {
+				if (value) supported.add(traitKey(component[i].id, value.id));
+			});
+			for (const group of groupIndexes) {
+				const values = group.indexes.map((i) => assignment[i]);
+				if (values.every((value) => value === null)) allEmpty.add(group.id);
+				projections.get(group.id)!.add(values.map((value) => value?.id ?? '').join('|'));
+			}
+			return true;
+		}
+		for (const value of layerDomains[depth]) {
+			if (--steps < 0 || --budget.remaining < 0) return false;
+			if (!checks[depth].every((check) => check.allows(value, assignment[check.other]))) continue;
+			assignment[depth] = value;
+			if (!visit(depth + 1)) return false;
+		}
+		return true;
+	};
+
+	if (!visit(0)) return estimate(component, layerDomains, groupIndexes);
+	return {
+		count,
+		supported,
+		projections: new Map([...projections].map(([id, keys]) => [id, keys.size])),
+		allEmpty,
+		exact: true
+	};
+}
+
+function estimate(
+	component: FeasibilityLayer[],
+	layerDomains: Value[][],
+	groupIndexes: { id: string; indexes: number[] }[]
+): Enumeration {
+	const supported = new Set<string>();
+	component.forEach((layer, i) => {
+		for (const value of layerDomains[i]) {
+			if (value) supported.add(traitKey(layer.id, value.id));
+		}
+	});
+	return {
+		count: layerDomains.reduce((n, domain) => n * domain.length, 1),
+		supported,
+		projections: new Map(
+			groupIndexes.map((group) => [
+				group.id,
+				group.indexes.reduce((n, i) => n * layerDomains[i].length, 1)
+			])
+		),
+		allEmpty: new Set(
+			groupIndexes
+				.filter((group) => group.indexes.every((i) => layerDomains[i].includes(null)))
+				.map((group) => group.id)
+		),
+		exact: false
+	};
+}
+
+/**
+ * Unique tokens a combination allows: distinct keys across its components.
+ * A token leaving every layer of the combination empty has no key, so such
+ * tokens never run out.
+ */
+function groupCapacity(group: UniquenessGroup, results: Enumeration[]): number {
+	const involved = results.filter((result) => result.projections.has(group.id));
+	if (involved.length === 0) return Infinity;
+	if (involved.every((result) => result.allEmpty.has(group.id))) return Infinity;
+	return involved.reduce((n, result) => n * result.projections.get(group.id)!, 1);
+}
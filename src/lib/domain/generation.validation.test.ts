@@ -1,5 +1,6 @@
 import { describe, expect, it } from 'vite-plus/test';
 import { validateGenerationRequest } from './generation.validation';
+import { MetadataStandard } from './metadata/metadata.strategy';
 import { unsafeCreateLayerId, unsafeCreateTraitId } from '$lib/types/ids';
 import type { Layer } from '$lib/types/layer';
 
@@ -25,12 +26,40 @@ describe('validateGenerationRequest', () => {
 		const result = validateGenerationRequest({
 			layers: [layer()],
 			outputSize: { width: 100, height: 100 },
-			collectionSize: 10
+			collectionSize: 1
 		});
 
 		expect(result.success).toBe(true);
 	});
 
+	it('counts existing tokens of an extended collection against uniqueness', () => {
+		const result = validateGenerationRequest({
+			layers: [layer()],
+			outputSize: { width: 100, height: 100 },
+			collectionSize: 1,
+			existingTokenCount: 1
+		});
+
+		expect(result).toMatchObject({
+			success: false,
+			message: expect.stringContaining('the collection needs 1 existing plus 1 new.')
+		});
+	});
+
+	it('explains collection sizes that uniqueness cannot reach', () => {
+		const result = validateGenerationRequest({
+			layers: [layer()],
+			outputSize: { width: 100, height: 100 },
+			collectionSize: 10
+		});
+
+		expect(result).toMatchObject({
+			success: false,
+			message:
+				'Only 1 unique token is possible, but the collection needs 10. "Background" allows at most 1 unique token (1 Background option).'
+		});
+	});
+
 	it('requires at least one layer', () => {
 		const result = validateGenerationRequest({
 			layers: [],
@@ -106,4 +135,131 @@ describe('validateGenerationRequest', () => {
 			message: 'Collection size cannot exceed 10000 items.'
 		});
 	});
+
+	it('rejects seeds outside the unsigned 32-bit range', () => {
+		const result = validateGenerationRequest({
+			layers: [layer()],
+			outputSize: { width: 100, height: 100 },
+			collectionSize: 10,
+			seed: -1
+		});
+
+		expect(result).toMatchObject({
+			success: false,
+			message: 'Seed must be a whole number between 0 and 4294967295.'
+		});
+	});
+
+	it('explains exact counts that exceed the collection size', () => {
+		const result = validateGenerationRequest({
+			layers: [
+				layer({
+					traits: [
+						{
+							id: unsafeCreateTraitId('trait-1'),
+							name: 'Gold',
+							imageData: new ArrayBuffer(4),
+							rarityWeight: 1,
+							exactCount: 8
+						},
+						{
+							id: unsafeCreateTraitId('trait-2'),
+							name: 'Silver',
+							imageData: new ArrayBuffer(4),
+							rarityWeight: 1,
+							exactCount: 5
+						}
+					]
+				})
+			],
+			outputSize: { width: 100, height: 100 },
+			collectionSize: 10
+		});
+
+		expect(result).toMatchObject({
+			success: false,
+			message:
+				'Exact counts in layer "Background" add up to 13, but the collection only has 10 items.'
+		});
+	});
+
+	it('explains required layers whose quotas cannot fill the collection', () => {
+		const result = validateGenerationRequest({
+			layers: [
+				layer({
+					traits: [
+						{
+							id: unsafeCreateTraitId('trait-1'),
+							name: 'Gold',
+							imageData: new ArrayBuffer(4),
+							rarityWeight: 1,
+							exactCount: 3
+						},
+						{
+							id: unsafeCreateTraitId('trait-2'),
+							name: 'Laser',
+							imageData: new ArrayBuffer(4),
+							rarityWeight: 1,
+							maxCount: 4
+						}
+					]
+				})
+			],
+			outputSize: { width: 100, height: 100 },
+			collectionSize: 10
+		});
+
+		expect(result).toMatchObject({
+			success: false,
+			message:
+				'Layer "Background" can supply at most 7 items with its exact and max counts, but the collection needs 10. Raise a count or make the layer optional.'
+		});
+	});
+
+	it('requires percentage layers to add up to 100%', () => {
+		const result = validateGenerationRequest({
+			layers: [
+				layer({
+					rarityMode: 'percentage',
+					traits: [
+						{
+							id: unsafeCreateTraitId('trait-1'),
+							name: 'Blue',
+							imageData: new ArrayBuffer(4),
+							rarityWeight: 60
+						},
+						{
+							id: unsafeCreateTraitId('trait-2'),
+							name: 'Red',
+							imageData: new ArrayBuffer(4),
+							rarityWeight: 30
+						}
+					]
+				})
+			],
+			outputSize: { width: 100, height: 100 },
+			collectionSize: 2
+		});
+
+		expect(result).toMatchObject({
+			success: false,
+			message: 'Percentages in layer "Background" add up to 90%, but must add up to 100%.'
+		});
+	});
+
+	it('requires a policy ID for CIP-25 metadata', () => {
+		const request = {
+			layers: [layer()],
+			outputSize: { width: 100, height: 100 },
+			collectionSize: 1,
+			metadataStandard: MetadataStandard.CIP25
+		};
+
+		expect(validateGenerationRequest(request)).toMatchObject({
+			success: false,
+			message:
+				'CIP-25 metadata needs the policy ID of your minting policy (56 hexadecimal characters) in Project Settings.'
+		});
+		expect(validateGenerationRequest({ ...request, policyId: 'ab'.repeat(28) }).success).toBe(true);
+	});
 });
@@ -1,9 +1,42 @@
-import type { Layer } from '$lib/types/layer';
+import type { CompatibilityRule, Layer, StrictPairConfig } from '$lib/types/layer';
+import type { ExtraAttribute, OneOfOne, OutputRendition } from '$lib/types/project';
+import { isValidSeed, MAX_SEED } from '$lib/utils/seeded-random';
+import { findAttributeMappingProblem } from './attribute-mapping';
+import { findCip25SettingsProblem } from './metadata/cip25';
+import { findTzip21SettingsProblem } from './metadata/tzip21';
+import { MetadataStandard } from './metadata/metadata.strategy';
+import { hasRenderableImage } from './color-variants';
+import { analyzeFeasibility, formatTokenCount } from './feasibility';
+import { findOneOfOneProblem } from './one-of-ones';
+import { findPixelArtScaleProblem } from './pixel-art';
+import { findRenditionProblem } from './renditions';
+import {
+	DEFAULT_NAME_TEMPLATE,
+	findTokenTemplateProblem,
+	type TokenTemplates
+} from './token-templates';
+import { findTraitLinkProblem } from './trait-links';
 
 export interface GenerationValidationRequest {
 	layers: Layer[];
 	outputSize: { width: number; height: number };
 	collectionSize: number;
+	seed?: number;
+	oneOfOnes?: OneOfOne[];
+	strictPairConfig?: StrictPairConfig;
+	compatibilityRules?: CompatibilityRule[];
+	/** Tokens already in a collection being extended; they use up unique combinations */
+	existingTokenCount?: number;
+	renditions?: OutputRendition[];
+	/** Pixel-art upscale factor; `outputSize` is the unscaled source size */
+	pixelArtScale?: number;
+	tokenTemplates?: TokenTemplates;
+	extraAttributes?: ExtraAttribute[];
+	metadataStandard?: MetadataStandard;
+	/** Cardano minting policy; required for CIP-25 */
+	policyId?: string;
+	/** Royalty recipients; Tezos addresses for TZIP-21 */
+	creators?: { address: string; share: number }[];
 }
 
 export type GenerationValidationResult =
@@ -12,6 +45,17 @@ export type GenerationValidationResult =
 
 const VALIDATION_DESCRIPTION = 'Validation Error';
 const MAX_COLLECTION_SIZE = 10000;
+const PERCENTAGE_TOLERANCE = 0.01;
+
+/**
+ * Minimal layer shape needed to check supply quotas. Satisfied by both
+ * `Layer` and `TransferrableLayer`, so the solver can reuse the check.
+ */
+export interface SupplyQuotaLayer {
+	name: string;
+	isOptional?: boolean;
+	traits: { name: string; exactCount?: number; maxCount?: number }[];
+}
 
 function fail(message: string): GenerationValidationResult {
 	return {
@@ -28,7 +72,23 @@ function fail(message: string): GenerationValidationResult {
 export function validateGenerationRequest(
 	request: GenerationValidationRequest
 ): GenerationValidationResult {
-	const { layers, outputSize, collectionSize } = request;
+	const {
+		layers,
+		outputSize,
+		collectionSize,
+		seed,
+		oneOfOnes = [],
+		strictPairConfig,
+		compatibilityRules,
+		existingTokenCount = 0,
+		renditions = [],
+		pixelArtScale,
+		tokenTemplates = {},
+		extraAttributes = [],
+		metadataStandard,
+		policyId,
+		creators = []
+	} = request;
 
 	if (layers.length === 0) {
 		return fail('Project must have at least one layer.');
@@ -38,6 +98,12 @@ export function validateGenerationRequest(
 		return fail('Project output size not set. Please upload an image first.');
 	}
 
+	const pixelArtProblem =
+		pixelArtScale === undefined ? null : findPixelArtScaleProblem(outputSize, pixelArtScale);
+	if (pixelArtProblem) {
+		return fail(pixelArtProblem);
+	}
+
 	if (!Number.isFinite(collectionSize) || !Number.isInteger(collectionSize) || collectionSize < 1) {
 		return fail('Collection size must be a whole number greater than 0.');
 	}
@@ -46,6 +112,10 @@ export function validateGenerationRequest(
 		return fail(`Collection size cannot exceed ${MAX_COLLECTION_SIZE} items.`);
 	}
 
+	if (seed !== undefined && !isValidSeed(seed)) {
+		return fail(`Seed must be a whole number between 0 and ${MAX_SEED}.`);
+	}
+
 	const emptyLayers = layers.filter((layer) => layer.traits.length === 0);
 	if (emptyLayers.length > 0) {
 		return fail(
@@ -53,12 +123,150 @@ export function validateGenerationRequest(
 		);
 	}
 
+	const percentageProblem = findRarityPercentageProblem(layers);
+	if (percentageProblem) {
+		return fail(percentageProblem);
+	}
+
+	const oneOfOneProblem = findOneOfOneProblem(oneOfOnes, collectionSize);
+	if (oneOfOneProblem) {
+		return fail(oneOfOneProblem);
+	}
+
+	const renditionProblem = findRenditionProblem(renditions);
+	if (renditionProblem) {
+		return fail(renditionProblem);
+	}
+
+	// Layers may have been renamed since the templates were saved
+	const layerNames = layers.map((layer) => layer.name);
+	for (const [field, template] of Object.entries(tokenTemplates)) {
+		const templateProblem = template ? findTokenTemplateProblem(template, layerNames) : null;
+		if (templateProblem) {
+			return fail(`Token ${field} template: ${templateProblem}`);
+		}
+	}
+
+	if (metadataStandard === MetadataStandard.CIP25) {
+		const cip25Problem = findCip25SettingsProblem(
+			policyId,
+			tokenTemplates.name ?? DEFAULT_NAME_TEMPLATE
+		);
+		if (cip25Problem) {
+			return fail(cip25Problem);
+		}
+	}
+
+	if (metadataStandard === MetadataStandard.TZIP21) {
+		const tzip21Problem = findTzip21SettingsProblem(creators);
+		if (tzip21Problem) {
+			return fail(tzip21Problem);
+		}
+	}
+
+	const attributeProblem = findAttributeMappingProblem(layers, extraAttributes);
+	if (attributeProblem) {
+		return fail(attributeProblem);
+	}
+
+	// 1-of-1s take token numbers of their own; quotas cover the generated rest
+	const quotaProblem = findSupplyQuotaProblem(layers, collectionSize - oneOfOnes.length);
+	if (quotaProblem) {
+		return fail(quotaProblem);
+	}
+
+	const linkProblem = findTraitLinkProblem(layers);
+	if (linkProblem) {
+		return fail(linkProblem);
+	}
+
 	const missingImages = layers.flatMap((layer) =>
-		layer.traits.filter((trait) => !trait.imageData || trait.imageData.byteLength === 0)
+		layer.traits.filter((trait) => !hasRenderableImage(layer.traits, trait))
 	);
 	if (missingImages.length > 0) {
 		return fail('Missing image data. Please upload images for all traits.');
 	}
 
+	const generatedCount = collectionSize - oneOfOnes.length;
+	const neededCount = generatedCount + existingTokenCount;
+	const feasibility = analyzeFeasibility(layers, {
+		strictPairConfig,
+		compatibilityRules,
+		collectionSize: neededCount
+	});
+	if (!feasibility.feasible) {
+		const [bottleneck] = feasibility.bottlenecks;
+		const needs =
+			existingTokenCount > 0
+				? `${formatTokenCount(existingTokenCount)} existing plus ${formatTokenCount(generatedCount)} new`
+				: formatTokenCount(generatedCount);
+		const summary =
+			feasibility.maxUniqueTokens === 0
+				? 'No valid token can be generated.'
+				: `Only ${formatTokenCount(feasibility.maxUniqueTokens)} unique token${feasibility.maxUniqueTokens === 1 ? ' is' : 's are'} possible, but the collection needs ${needs}.`;
+		return fail(bottleneck ? `${summary} ${bottleneck.explanation}` : summary);
+	}
+
 	return { success: true };
 }
+
+/**
+ * Check that per-trait exact/max counts can add up to the collection size.
+ * Returns a user-facing explanation of the first problem, or null when the
+ * quotas are satisfiable layer by layer. Cross-layer effects (ruler rules,
+ * uniqueness) are left to the solver.
+ */
+export function findSupplyQuotaProblem(
+	layers: SupplyQuotaLayer[],
+	collectionSize: number
+): string | null {
+	for (const layer of layers) {
+		let exactTotal = 0;
+		let capacity = 0;
+		let hasUncappedTrait = false;
+
+		for (const trait of layer.traits) {
+			const { exactCount, maxCount } = trait;
+
+			if (exactCount !== undefined && maxCount !== undefined && exactCount > maxCount) {
+				return `Trait "${trait.name}" in layer "${layer.name}" has an exact count of ${exactCount} but a max count of ${maxCount}.`;
+			}
+
+			if (exactCount !== undefined) {
+				exactTotal += exactCount;
+				capacity += exactCount;
+			} else if (maxCount !== undefined) {
+				capacity += maxCount;
+			} else {
+				hasUncappedTrait = true;
+			}
+		}
+
+		if (exactTotal > collectionSize) {
+			return `Exact counts in layer "${layer.name}" add up to ${exactTotal}, but the collection only has ${collectionSize} items.`;
+		}
+
+		if (!layer.isOptional && !hasUncappedTrait && capacity < collectionSize) {
+			return `Layer "${layer.name}" can supply at most ${capacity} items with its exact and max counts, but the collection needs ${collectionSize}. Raise a count or make the layer optional.`;
+		}
+	}
+
+	return null;
+}
+
+/**
+ * Layers in percentage mode must add up to 100%. Weight-mode layers are
+ * relative and need no check.
+ */
+export function findRarityPercentageProblem(layers: Layer[]): string | null {
+	for (const layer of layers) {
+		if (layer.rarityMode !== 'percentage' || layer.traits.length === 0) continue;
+
+		const total = layer.traits.reduce((sum, trait) => sum + trait.rarityWeight, 0);
+		if (Math.abs(total - 100) > PERCENTAGE_TOLERANCE) {
+			return `Percentages in layer "${layer.name}" add up to ${Number(total.toFixed(2))}%, but must add up to 100%.`;
+		}
+	}
+
+	return null;
+}
@@ -0,0 +1,40 @@
+import { describe, expect, it } from 'vite-plus/test';
+import {
+	getImageEncodeOptions,
+	getImageExtension,
+	getImageMimeType,
+	getProjectImageEncoding
+} from './image-encoding';
+
+describe('image encoding', () => {
+	it('names JPEG files .jpg and keeps the other extensions', () => {
+		expect(getImageExtension('png')).toBe('png');
+		expect(getImageExtension('webp')).toBe('webp');
+		expect(getImageExtension('jpeg')).toBe('jpg');
+		expect(getImageMimeType('jpeg')).toBe('image/jpeg');
+	});
+
+	it('passes quality to the encoder only for lossy formats', () => {
+		expect(getImageEncodeOptions()).toEqual({ type: 'image/png' });
+		expect(getImageEncodeOptions({ format: 'png', quality: 0.5 })).toEqual({ type: 'image/png' });
+		expect(getImageEncodeOptions({ format: 'webp', quality: 0.5 })).toEqual({
+			type: 'image/webp',
+			quality: 0.5
+		});
+		expect(getImageEncodeOptions({ format: 'jpeg' })).toEqual({
+			type: 'image/jpeg',
+			quality: 0.9
+		});
+	});
+
+	it('reads a project’s 1–100 quality as 0–1', () => {
+		expect(getProjectImageEncoding({})).toEqual({ format: 'png' });
+		expect(getProjectImageEncoding({ outputFormat: 'png', outputQuality: 40 })).toEqual({
+			format: 'png'
+		});
+		expect(getProjectImageEncoding({ outputFormat: 'jpeg', outputQuality: 75 })).toEqual({
+			format: 'jpeg',
+			quality: 0.75
+		});
+	});
+});
@@ -0,0 +1,58 @@
+/**
+ * Output image formats for generated tokens.
+ *
+ * PNG is lossless and keeps transparency; WebP and JPEG take a quality
+ * setting. File names, metadata `image` fields and MIME types all follow the
+ * chosen format.
+ */
+
+import type { Project } from '$lib/types/project';
+
+export const IMAGE_OUTPUT_FORMATS = ['png', 'webp', 'jpeg'] as const;
+export type ImageOutputFormat = (typeof IMAGE_OUTPUT_FORMATS)[number];
+
+/** How rendered tokens are encoded */
+export interface ImageEncoding {
+	format: ImageOutputFormat;
+	/** 0–1; only used by WebP and JPEG */
+	quality?: number;
+}
+
+/** Quality (1–100) used when a lossy format is picked without one */
+export const DEFAULT_OUTPUT_QUALITY = 90;
+
+export const PNG_ENCODING: ImageEncoding = { format: 'png' };
+
+/** WebP and JPEG trade detail for size; PNG never loses any */
+export function isLossyFormat(format: ImageOutputFormat): boolean {
+	return format !== 'png';
+}
+
+/** File extension without the dot: "png", "webp" or "jpg" */
+export function getImageExtension(format: ImageOutputFormat): string {
+	return format === 'jpeg' ? 'jpg' : format;
+}
+
+export function getImageMimeType(format: ImageOutputFormat): string {
+	return `image/${format}`;
+}
+
+/** Options for `OffscreenCanvas.convertToBlob` */
+export function getImageEncodeOptions(encoding: ImageEncoding = PNG_ENCODING): ImageEncodeOptions {
+	if (!isLossyFormat(encoding.format)) {
+		return { type: getImageMimeType(encoding.format) };
+	}
+	return {
+		type: getImageMimeType(encoding.format),
+		quality: encoding.quality ?? DEFAULT_OUTPUT_QUALITY / 100
+	};
+}
+
+/** A project's output settings as an encoding; quality is stored as 1–100 */
+export function getProjectImageEncoding(
+	project: Pick<Project, 'outputFormat' | 'outputQuality'>
+): ImageEncoding {
+	const format = project.outputFormat ?? 'png';
+	if (!isLossyFormat(format)) return { format };
+	return { format, quality: (project.outputQuality ?? DEFAULT_OUTPUT_QUALITY) / 100 };
+}
@@ -4,12 +4,34 @@ export * from './models';
 export * from './collection-design-mutator';
 export type { CollectionDesignEditResult, TraitTypeEditResult } from './collection-design';
 export * from './project.domain';
+export * from './expected-distribution';
+export * from './render-order';
+export * from './trait-placement';
+export * from './color-variants';
+export * from './trait-links';
+export * from './compatibility-rules';
+export * from './one-of-ones';
+export * from './collection-extension';
+export * from './token-reroll';
+export * from './image-encoding';
+export * from './renditions';
+export * from './pixel-art';
+export * from './token-templates';
+export * from './attribute-mapping';
+export * from './feasibility';
 export {
 	validateProjectName,
 	validateLayerName,
 	validateTraitName,
 	validateDimensions,
 	validateRarityWeight,
+	validateNoneProbability,
+	validateBlendSettings,
+	validateTraitPlacement,
+	validateColorTransform,
+	validateCompatibilityRule,
+	validateOneOfOne,
+	validateTraitSupply,
 	validateImportedProject,
 	sanitizeString,
 	createValidatedProject,
@@ -1,14 +1,25 @@
-import type { GeneratedMetadata, MetadataAttribute, MetadataStrategy } from './metadata.strategy';
+import type {
+	GeneratedMetadata,
+	MetadataAttribute,
+	MetadataStrategy,
+	TokenMedia,
+	TokenMetadata
+} from './metadata.strategy';
 import { MetadataStandard } from './metadata.strategy';
 
 /**
  * Base strategy with shared field handling.
  *
  * Subclasses implement {@link buildPayload} for format-specific shape.
- * The base handles common concerns: attribute pass-through, extraData merging,
- * and post-validation (override {@link validateOutput} to fail-fast on bad output).
+ * The base handles common concerns: attribute formatting (override
+ * {@link formatAttributes} for standards without OpenSea's display fields),
+ * extraData merging, and post-validation (override {@link validateOutput} to
+ * fail-fast on bad output). `TOutput` is the shape of the token file, for
+ * standards that do not write a flat {@link GeneratedMetadata}.
  */
-export abstract class BaseMetadataStrategy implements MetadataStrategy {
+export abstract class BaseMetadataStrategy<
+	TOutput extends TokenMetadata = GeneratedMetadata
+> implements MetadataStrategy {
 	abstract name: string;
 	abstract description: string;
 
@@ -17,24 +28,42 @@ export abstract class BaseMetadataStrategy implements MetadataStrategy {
 		description: string,
 		imageName: string,
 		attributes: MetadataAttribute[],
-		extraData?: Record<string, unknown>
-	): GeneratedMetadata {
-		const payload = this.buildPayload(name, description, imageName, attributes, extraData ?? {});
+		extraData?: Record<string, unknown>,
+		media: TokenMedia[] = []
+	): TOutput {
+		const payload = this.buildPayload(
+			name,
+			description,
+			imageName,
+			this.formatAttributes(attributes),
+			extraData ?? {},
+			media
+		);
 		const merged = { ...payload, ...this.passthrough(extraData ?? {}) };
 		this.validateOutput(merged);
 		return merged;
 	}
 
 	/**
-	 * Subclass-specific metadata shape. Receives a guaranteed-non-null extraData.
+	 * Subclass-specific metadata shape. Receives a guaranteed-non-null extraData,
+	 * and the token's files when the caller knows their sizes.
 	 */
 	protected abstract buildPayload(
 		name: string,
 		description: string,
 		imageName: string,
 		attributes: MetadataAttribute[],
-		extraData: Record<string, unknown>
-	): GeneratedMetadata;
+		extraData: Record<string, unknown>,
+		media: TokenMedia[]
+	): TOutput;
+
+	/**
+	 * Attributes as written by this standard. Default: as given, including
+	 * OpenSea's `display_type` and `max_value`.
+	 */
+	protected formatAttributes(attributes: MetadataAttribute[]): MetadataAttribute[] {
+		return attributes;
+	}
 
 	/**
 	 * Fields from extraData that should always be passed through to output.
@@ -48,8 +77,9 @@ export abstract class BaseMetadataStrategy implements MetadataStrategy {
 	 * Validate output. Default: assert required fields present.
 	 * Override to add format-specific checks.
 	 */
-	protected validateOutput(output: GeneratedMetadata): void {
-		if (!output.name || !output.image) {
+	protected validateOutput(output: TOutput): void {
+		const { name, image } = output as Partial<GeneratedMetadata>;
+		if (!name || !image) {
 			throw new Error(`${this.name} metadata missing required fields`);
 		}
 	}
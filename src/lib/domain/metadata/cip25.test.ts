@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vite-plus/test';
+import {
+	chunkLongStrings,
+	chunkMetadataString,
+	combineCip25Metadata,
+	findCip25Problem,
+	findCip25SettingsProblem,
+	flattenCip25Metadata,
+	toAssetName,
+	type Cip25Metadata
+} from './cip25';
+
+const policyId = 'ab'.repeat(28);
+
+function token(assetName: string, asset: Record<string, unknown>): Cip25Metadata {
+	return {
+		'721': {
+			[policyId]: { [assetName]: { name: assetName, image: 'ipfs://image', ...asset } },
+			version: '1.0'
+		}
+	};
+}
+
+describe('CIP-25 metadata', () => {
+	it('chunks strings by UTF-8 bytes without cutting characters', () => {
+		expect(chunkMetadataString('short')).toBe('short');
+		expect(chunkMetadataString('x'.repeat(130))).toEqual(['x'.repeat(64), 'x'.repeat(64), 'xx']);
+		// "é" is two bytes, so a chunk of 5 bytes holds two of them
+		expect(chunkMetadataString('ééééé', 5)).toEqual(['éé', 'éé', 'é']);
+		expect(chunkLongStrings({ a: ['y'.repeat(65)], b: undefined, c: { d: 1 } })).toEqual({
+			a: [['y'.repeat(64), 'y']],
+			c: { d: 1 }
+		});
+	});
+
+	it('turns token names into asset names', () => {
+		expect(toAssetName('Apes #012')).toBe('Apes012');
+		expect(toAssetName('Café_Ape-1')).toBe('Café_Ape-1');
+	});
+
+	it('reads CIP-25 files like the other standards', () => {
+		const metadata = token('Apes1', {
+			image: ['ipfs://', 'image'],
+			description: ['A long ', 'story'],
+			attributes: { Hat: 'Cap', Quote: ['Hello ', 'world'] }
+		}) as unknown as Record<string, unknown>;
+
+		expect(flattenCip25Metadata(metadata)).toEqual({
+			name: 'Apes1',
+			description: 'A long story',
+			image: 'ipfs://image',
+			attributes: [
+				{ trait_type: 'Hat', value: 'Cap' },
+				{ trait_type: 'Quote', value: 'Hello world' }
+			]
+		});
+		// Other standards are returned as they are
+		const erc721 = { name: 'Apes #1', attributes: [] };
+		expect(flattenCip25Metadata(erc721)).toBe(erc721);
+	});
+
+	it('combines token files under one policy', () => {
+		const tokens = [token('Apes1', {}), token('Apes2', {})] as unknown as Record<string, unknown>[];
+
+		expect(combineCip25Metadata(tokens)).toEqual({
+			'721': {
+				version: '1.0',
+				[policyId]: {
+					Apes1: { name: 'Apes1', image: 'ipfs://image' },
+					Apes2: { name: 'Apes2', image: 'ipfs://image' }
+				}
+			}
+		});
+	});
+
+	it('finds tokens that could not be minted', () => {
+		expect(findCip25Problem(token('Apes1', {}))).toBeNull();
+		expect(findCip25Problem({ '721': { version: '1.0' } })).toBe('CIP-25 metadata has no asset.');
+		expect(findCip25Problem(token('Apes1', { image: '' }))).toBe('Asset "Apes1" has no image.');
+		expect(findCip25Problem(token('Apes1', { website: 'w'.repeat(65) }))).toBe(
+			'"wwwwwwwwwwwwwwwwwwww…" in asset "Apes1" is longer than 64 bytes.'
+		);
+	});
+
+	it('checks project settings before generating', () => {
+		expect(findCip25SettingsProblem(policyId, '{project} #{id:04}')).toBeNull();
+		expect(findCip25SettingsProblem(undefined, '{project} #{id}')).toContain('policy ID');
+		expect(findCip25SettingsProblem(policyId, '{Body} Ape')).toBe(
+			'CIP-25 asset names are taken from token names, so the name template needs an {id} placeholder.'
+		);
+	});
+});
@@ -0,0 +1,235 @@
+/**
+ * Cardano CIP-25 token metadata helpers.
+ *
+ * CIP-25 nests every token under its minting policy and asset name:
+ * `{ "721": { [policyId]: { [assetName]: asset }, "version": "1.0" } }`.
+ * Transaction metadata strings may be at most 64 bytes, so longer strings
+ * are written as arrays of chunks that readers join back together.
+ */
+
+import type { MetadataAttribute } from './metadata.strategy';
+
+/** Byte limit of a single transaction metadata string */
+export const CIP25_MAX_STRING_BYTES = 64;
+
+/** Byte limit of a Cardano asset name */
+export const CIP25_MAX_ASSET_NAME_BYTES = 32;
+
+export const CIP25_VERSION = '1.0';
+
+/** Collection-wide file holding every token under one `721` key */
+export const CIP25_COLLECTION_FILENAME = 'cip25-metadata.json';
+
+const POLICY_ID_PATTERN = /^[0-9a-f]{56}$/;
+
+/** A string, or the 64-byte chunks of a longer one */
+export type Cip25String = string | string[];
+
+export interface Cip25File {
+	name: string;
+	mediaType: string;
+	src: Cip25String;
+}
+
+export interface Cip25Asset {
+	name: string;
+	image: Cip25String;
+	mediaType?: string;
+	description?: Cip25String;
+	files?: Cip25File[];
+	[key: string]: unknown;
+}
+
+/** Token file of the CIP-25 standard */
+export interface Cip25Metadata {
+	'721': { version: string; [policyId: string]: Record<string, Cip25Asset> | string };
+}
+
+const encoder = new TextEncoder();
+
+export function getByteLength(value: string): number {
+	return encoder.encode(value).byteLength;
+}
+
+/** Minting policy IDs are 28-byte hashes written as 56 hex characters */
+export function isPolicyId(value: string): boolean {
+	return POLICY_ID_PATTERN.test(value);
+}
+
+/**
+ * Asset name of a token: its name without spaces or punctuation, e.g.
+ * "Apes #12" becomes "Apes12".
+ */
+export function toAssetName(tokenName: string): string {
+	return tokenName.replace(/[^\p{L}\p{N}_-]/gu, '');
+}
+
+/**
+ * Split a string into chunks of at most `maxBytes` UTF-8 bytes without
+ * cutting characters in half. Strings that fit are returned as they are.
+ */
+export function chunkMetadataString(value: string, maxBytes = CIP25_MAX_STRING_BYTES): Cip25String {
+	if (getByteLength(value) <= maxBytes) return value;
+
+	const chunks: string[] = [];
+	let chunk = '';
+	let chunkBytes = 0;
+	for (const char of value) {
+		const bytes = getByteLength(char);
+		if (chunkBytes + bytes > maxBytes) {
+			chunks.push(chunk);
+			chunk = '';
+			chunkBytes = 0;
+		}
+		chunk += char;
+		chunkBytes += bytes;
+	}
+	if (chunk) chunks.push(chunk);
+	return chunks;
+}
+
+/** Chunk every long string in a metadata value, however deeply nested */
+export function chunkLongStrings(value: unknown): unknown {
+	if (typeof value === 'string') return chunkMetadataString(value);
+	if (Array.isArray(value)) return value.map(chunkLongStrings);
+	if (typeof value === 'object' && value !== null) {
+		return Object.fromEntries(
+			Object.entries(value)
+				.filter(([, v]) => v !== undefined)
+				.map(([k, v]) => [k, chunkLongStrings(v)])
+		);
+	}
+	return value;
+}
+
+/** Join a string that may have been chunked */
+export function joinMetadataString(value: unknown): string {
+	if (Array.isArray(value)) return value.map(String).join('');
+	return typeof value === 'string' ? value : '';
+}
+
+/** CIP-25 has no attribute list; attributes are written as one map */
+export function toAttributeMap(attributes: MetadataAttribute[]): Record<string, unknown> {
+	return Object.fromEntries(attributes.map((a) => [a.trait_type, a.value]));
+}
+
+/** Every asset of a CIP-25 token or collection file, with its policy ID */
+export function getCip25Assets(
+	metadata: Record<string, unknown>
+): { policyId: string; assetName: string; asset: Cip25Asset }[] {
+	const root = metadata['721'];
+	if (typeof root !== 'object' || root === null) return [];
+
+	return Object.entries(root).flatMap(([policyId, assets]) =>
+		policyId === 'version' || typeof assets !== 'object' || assets === null
+			? []
+			: Object.entries(assets as Record<string, Cip25Asset>).map(([assetName, asset]) => ({
+					policyId,
+					assetName,
+					asset
+				}))
+	);
+}
+
+/**
+ * Read a token file the way the other standards are read: CIP-25 files get
+ * their asset's name, description, image and an `attributes` list, other
+ * files are returned as they are.
+ */
+export function flattenCip25Metadata(metadata: Record<string, unknown>): Record<string, unknown> {
+	const [entry] = getCip25Assets(metadata);
+	if (!entry) return metadata;
+
+	const { asset } = entry;
+	const attributes =
+		typeof asset.attributes === 'object' && asset.attributes !== null
+			? Object.entries(asset.attributes).map(([trait_type, value]) => ({
+					trait_type,
+					value: Array.isArray(value) ? joinMetadataString(value) : value
+				}))
+			: [];
+	return {
+		name: asset.name,
+		description: joinMetadataString(asset.description),
+		image: joinMetadataString(asset.image),
+		attributes
+	};
+}
+
+/** Combine token files into one file with every asset under its policy */
+export function combineCip25Metadata(tokens: Record<string, unknown>[]): Cip25Metadata {
+	const root: Cip25Metadata['721'] = { version: CIP25_VERSION };
+	for (const token of tokens) {
+		for (const { policyId, assetName, asset } of getCip25Assets(token)) {
+			const assets = (root[policyId] ?? {}) as Record<string, Cip25Asset>;
+			assets[assetName] = asset;
+			root[policyId] = assets;
+		}
+	}
+	return { '721': root };
+}
+
+/**
+ * Check project settings before a CIP-25 generation starts: tokens need a
+ * policy ID, and a name template that keeps their asset names apart.
+ */
+export function findCip25SettingsProblem(
+	policyId: string | undefined,
+	nameTemplate: string
+): string | null {
+	if (!policyId || !isPolicyId(policyId)) {
+		return 'CIP-25 metadata needs the policy ID of your minting policy (56 hexadecimal characters) in Project Settings.';
+	}
+	if (!/\{\s*id\s*(:[^{}]*)?\}/i.test(nameTemplate)) {
+		return 'CIP-25 asset names are taken from token names, so the name template needs an {id} placeholder.';
+	}
+	return null;
+}
+
+/**
+ * Find the first reason a CIP-25 token file could not be minted, or null
+ * when there is none.
+ */
+export function findCip25Problem(metadata: Cip25Metadata): string | null {
+	const assets = getCip25Assets(metadata as unknown as Record<string, unknown>);
+	if (assets.length === 0) return 'CIP-25 metadata has no asset.';
+
+	for (const { policyId, assetName, asset } of assets) {
+		if (!isPolicyId(policyId)) {
+			return 'CIP-25 metadata needs a policy ID of 56 hexadecimal characters.';
+		}
+		const assetNameBytes = getByteLength(assetName);
+		if (assetNameBytes === 0 || assetNameBytes > CIP25_MAX_ASSET_NAME_BYTES) {
+			return `Asset name "${assetName}" must be 1-${CIP25_MAX_ASSET_NAME_BYTES} bytes.`;
+		}
+		if (!asset.name || typeof asset.name !== 'string') return 'CIP-25 assets need a name.';
+		if (!joinMetadataString(asset.image)) return `Asset "${assetName}" has no image.`;
+
+		const tooLong = findLongString(asset);
+		if (tooLong !== null) {
+			return `"${tooLong.slice(0, 20)}…" in asset "${assetName}" is longer than ${CIP25_MAX_STRING_BYTES} bytes.`;
+		}
+	}
+	return null;
+}
+
+/** A key or string value over the byte limit; chunked strings are fine */
+function findLongString(value: unknown): string | null {
+	if (typeof value === 'string') {
+		return getByteLength(value) > CIP25_MAX_STRING_BYTES ? value : null;
+	}
+	if (Array.isArray(value)) {
+		for (const item of value) {
+			const found = findLongString(item);
+			if (found !== null) return found;
+		}
+		return null;
+	}
+	if (typeof value === 'object' && value !== null) {
+		for (const [key, item] of Object.entries(value)) {
+			const found = findLongString(key) ?? findLongString(item);
+			if (found !== null) return found;
+		}
+	}
+	return null;
+}
@@ -17,19 +17,45 @@ export interface GeneratedMetadata {
 	[key: string]: unknown; // Allow other properties
 }
 
+/** Token file written by a strategy; CIP-25 and TZIP-21 have their own shape */
+export type TokenMetadata =
+	| GeneratedMetadata
+	| import('./cip25').Cip25Metadata
+	| import('./tzip21').Tzip21Metadata;
+
+/** A rendered file of a token and its size in pixels */
+export interface TokenMedia {
+	uri: string;
+	mimeType: string;
+	width: number;
+	height: number;
+}
+
+/** A file written once per export, built from every token's metadata */
+export interface CollectionMetadataFile {
+	path: string;
+	combine(tokens: Record<string, unknown>[]): object;
+}
+
 export interface MetadataStrategy {
 	name: string;
 	description: string;
+	/** Set by standards that also need the whole collection in one file */
+	collectionFile?: CollectionMetadataFile;
 	format(
 		name: string,
 		description: string,
 		imageName: string,
 		attributes: MetadataAttribute[],
-		extraData?: Record<string, unknown>
-	): GeneratedMetadata;
+		extraData?: Record<string, unknown>,
+		/** The primary image first, then any renditions */
+		media?: TokenMedia[]
+	): TokenMetadata;
 }
 
 export enum MetadataStandard {
 	ERC721 = 'erc721',
-	SOLANA = 'solana'
+	SOLANA = 'solana',
+	CIP25 = 'cip25',
+	TZIP21 = 'tzip21'
 }
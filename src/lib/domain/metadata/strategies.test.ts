@@ -5,11 +5,17 @@
  */
 
 import { describe, expect, it } from 'vite-plus/test';
+import type { Project } from '$lib/types/project';
+import { CIP25_COLLECTION_FILENAME } from './cip25';
 import {
+	Cip25Strategy,
 	ERC721Strategy,
 	getMetadataStrategy,
+	flattenTokenMetadata,
+	getProjectExtraData,
 	MetadataStandard,
-	SolanaStrategy
+	SolanaStrategy,
+	Tzip21Strategy
 } from './strategies';
 
 describe('getMetadataStrategy', () => {
@@ -22,6 +28,28 @@ describe('getMetadataStrategy', () => {
 		const s = getMetadataStrategy(MetadataStandard.SOLANA);
 		expect(s).toBeInstanceOf(SolanaStrategy);
 	});
+
+	it('returns Cip25Strategy for CIP25 standard', () => {
+		const s = getMetadataStrategy(MetadataStandard.CIP25);
+		expect(s).toBeInstanceOf(Cip25Strategy);
+		expect(s.collectionFile?.path).toBe(CIP25_COLLECTION_FILENAME);
+	});
+
+	it('returns Tzip21Strategy for TZIP21 standard', () => {
+		const s = getMetadataStrategy(MetadataStandard.TZIP21);
+		expect(s).toBeInstanceOf(Tzip21Strategy);
+	});
+});
+
+describe('getProjectExtraData', () => {
+	const project = { symbol: 'APE', policyId: 'ab'.repeat(28) } as Project;
+
+	it('only sends the policy ID for CIP-25', () => {
+		expect(getProjectExtraData(project)).not.toHaveProperty('policy_id');
+		expect(
+			getProjectExtraData({ ...project, metadataStandard: MetadataStandard.CIP25 })
+		).toMatchObject({ symbol: 'APE', policy_id: project.policyId });
+	});
 });
 
 describe('ERC721Strategy', () => {
@@ -62,6 +90,16 @@ describe('ERC721Strategy', () => {
 		expect((result as Record<string, unknown>).custom_field).toBe('hello');
 	});
 
+	it('keeps OpenSea display fields on attributes', () => {
+		const attributes = [
+			...baseAttrs,
+			{ trait_type: 'Trait Count', value: 5, display_type: 'number', max_value: 8 }
+		];
+		const result = strategy.format('NFT #1', 'desc', '1.png', attributes);
+
+		expect(result.attributes).toEqual(attributes);
+	});
+
 	it('returns undefined for missing optional fields', () => {
 		const result = strategy.format('NFT #1', 'desc', '1.png', baseAttrs);
 
@@ -92,6 +130,15 @@ describe('SolanaStrategy', () => {
 		expect(result.attributes).toEqual(baseAttrs);
 	});
 
+	it('drops OpenSea display fields Metaplex does not define', () => {
+		const result = strategy.format('NFT #1', 'desc', '1.png', [
+			...baseAttrs,
+			{ trait_type: 'Trait Count', value: 5, display_type: 'number', max_value: 8 }
+		]);
+
+		expect(result.attributes).toEqual([...baseAttrs, { trait_type: 'Trait Count', value: 5 }]);
+	});
+
 	it('includes symbol from extraData', () => {
 		const result = strategy.format('NFT #1', 'desc', '1.png', baseAttrs, {
 			symbol: 'TEST'
@@ -128,6 +175,16 @@ describe('SolanaStrategy', () => {
 		expect(props.category).toBe('image');
 	});
 
+	it('types the image file after its extension', () => {
+		const webp = strategy.format('NFT #1', 'desc', 'images/1.webp', baseAttrs);
+		const jpeg = strategy.format('NFT #1', 'desc', 'images/1.jpg', baseAttrs);
+		const fileOf = (result: Record<string, unknown>) =>
+			(result.properties as { files: Array<Record<string, unknown>> }).files[0];
+
+		expect(fileOf(webp)).toEqual({ uri: 'images/1.webp', type: 'image/webp' });
+		expect(fileOf(jpeg)).toEqual({ uri: 'images/1.jpg', type: 'image/jpeg' });
+	});
+
 	it('adds animation file when animation_url is provided', () => {
 		const result = strategy.format('NFT #1', 'desc', '1.png', baseAttrs, {
 			animation_url: 'https://example.com/video.mp4'
@@ -205,3 +262,149 @@ describe('SolanaStrategy', () => {
 		expect((result as Record<string, unknown>).custom).toBe('value');
 	});
 });
+
+describe('Cip25Strategy', () => {
+	const strategy = new Cip25Strategy();
+	const policyId = 'ab'.repeat(28);
+	const baseAttrs = [{ trait_type: 'Background', value: 'Blue', display_type: 'string' }];
+
+	it('nests the asset under its policy ID and asset name', () => {
+		const result = strategy.format('Apes #1', 'A test NFT', 'images/1.png', baseAttrs, {
+			policy_id: policyId,
+			website: 'https://example.com'
+		});
+
+		expect(result).toEqual({
+			'721': {
+				[policyId]: {
+					Apes1: {
+						name: 'Apes #1',
+						image: 'images/1.png',
+						mediaType: 'image/png',
+						description: 'A test NFT',
+						files: [{ name: 'Apes #1', mediaType: 'image/png', src: 'images/1.png' }],
+						attributes: { Background: 'Blue' },
+						website: 'https://example.com'
+					}
+				},
+				version: '1.0'
+			}
+		});
+	});
+
+	it('chunks long strings, adds the animation file and skips Solana fields', () => {
+		const image = `ipfs://${'x'.repeat(70)}`;
+		const result = strategy.format('Apes #1', '', image, [], {
+			policy_id: policyId,
+			animation_url: 'ipfs://video',
+			symbol: 'APE',
+			creators: ['addr']
+		});
+		const asset = (result['721'][policyId] as Record<string, Record<string, unknown>>).Apes1;
+
+		expect(asset.image).toEqual([image.slice(0, 64), image.slice(64)]);
+		expect(asset.files).toEqual([
+			{ name: 'Apes #1', mediaType: 'image/png', src: [image.slice(0, 64), image.slice(64)] },
+			{ name: 'Apes #1', mediaType: 'video/mp4', src: 'ipfs://video' }
+		]);
+		expect(asset).not.toHaveProperty('description');
+		expect(asset).not.toHaveProperty('symbol');
+		expect(asset).not.toHaveProperty('creators');
+	});
+
+	it('rejects tokens without a valid policy ID or asset name', () => {
+		expect(() => strategy.format('Apes #1', '', '1.png', [])).toThrow(
+			'CIP-25 metadata needs a policy ID of 56 hexadecimal characters.'
+		);
+		expect(() =>
+			strategy.format('A much longer token name than Cardano allows #1', '', '1.png', [], {
+				policy_id: policyId
+			})
+		).toThrow('must be 1-32 bytes');
+	});
+});
+
+describe('Tzip21Strategy', () => {
+	const strategy = new Tzip21Strategy();
+	const alice = 'tz1VSUr8wwNhLAzempoch5d6hLRiTh8Cjcjb';
+	const baseAttrs = [{ trait_type: 'Background', value: 'Blue' }];
+
+	it('maps project fields onto TZIP-21 fields', () => {
+		const result = strategy.format(
+			'NFT #1',
+			'A test NFT',
+			'images/1.png',
+			baseAttrs,
+			{
+				symbol: 'APE',
+				seller_fee_basis_points: 500,
+				creators: [{ address: alice, share: 100 }],
+				external_url: 'https://example.com',
+				rights: 'CC-BY-4.0',
+				thumbnailUri: 'thumbnails/1.webp'
+			},
+			[
+				{ uri: 'images/1.png', mimeType: 'image/png', width: 2000, height: 2000 },
+				{ uri: 'thumbnails/1.webp', mimeType: 'image/webp', width: 350, height: 350 }
+			]
+		);
+
+		expect(result).toEqual({
+			name: 'NFT #1',
+			description: 'A test NFT',
+			symbol: 'APE',
+			decimals: 0,
+			isBooleanAmount: true,
+			artifactUri: 'images/1.png',
+			displayUri: 'images/1.png',
+			thumbnailUri: 'thumbnails/1.webp',
+			externalUri: 'https://example.com',
+			formats: [
+				{
+					uri: 'images/1.png',
+					mimeType: 'image/png',
+					dimensions: { value: '2000x2000', unit: 'px' }
+				},
+				{
+					uri: 'thumbnails/1.webp',
+					mimeType: 'image/webp',
+					dimensions: { value: '350x350', unit: 'px' }
+				}
+			],
+			creators: [alice],
+			rights: 'CC-BY-4.0',
+			royalties: { decimals: 4, shares: { [alice]: 500 } },
+			attributes: [{ name: 'Background', value: 'Blue' }]
+		});
+	});
+
+	it('makes an animation the artifact', () => {
+		const result = strategy.format('NFT #1', '', '1.png', [], {
+			animation_url: 'ipfs://video'
+		});
+
+		expect(result.artifactUri).toBe('ipfs://video');
+		expect(result.displayUri).toBe('1.png');
+		expect(result.formats).toEqual([
+			{ uri: '1.png', mimeType: 'image/png' },
+			{ uri: 'ipfs://video', mimeType: 'video/mp4' }
+		]);
+		expect(result).not.toHaveProperty('royalties');
+	});
+
+	it('rejects creators that are not Tezos addresses', () => {
+		expect(() => strategy.format('NFT #1', '', '1.png', [], { creators: ['0xabc'] })).toThrow(
+			'Creator "0xabc" is not a Tezos address.'
+		);
+	});
+
+	it('is read back like the other standards', () => {
+		const result = strategy.format('NFT #1', '', '1.png', baseAttrs);
+
+		expect(flattenTokenMetadata(result)).toMatchObject({
+			name: 'NFT #1',
+			image: '1.png',
+			attributes: [{ trait_type: 'Background', value: 'Blue' }]
+		});
+	});
+});
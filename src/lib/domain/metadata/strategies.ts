@@ -1,9 +1,52 @@
+import type { Project } from '$lib/types/project';
+import { getMimeType } from '$lib/utils/image-format-detector';
 import { BaseMetadataStrategy } from './base.strategy';
-import type { GeneratedMetadata, MetadataAttribute, MetadataStrategy } from './metadata.strategy';
+import {
+	chunkLongStrings,
+	CIP25_COLLECTION_FILENAME,
+	CIP25_VERSION,
+	combineCip25Metadata,
+	findCip25Problem,
+	toAssetName,
+	toAttributeMap,
+	flattenCip25Metadata,
+	type Cip25Asset,
+	type Cip25Metadata
+} from './cip25';
+import type {
+	CollectionMetadataFile,
+	GeneratedMetadata,
+	MetadataAttribute,
+	MetadataStrategy,
+	TokenMedia
+} from './metadata.strategy';
 import { MetadataStandard } from './metadata.strategy';
+import {
+	findTzip21Problem,
+	flattenTzip21Metadata,
+	toTzip21Attributes,
+	toTzip21Format,
+	toTzip21Royalties,
+	type Tzip21Metadata
+} from './tzip21';
 
 export { MetadataStandard };
 
+/** Creators from extraData; a bare address gets the whole share */
+function toCreators(extraData: Record<string, unknown>): { address: string; share: number }[] {
+	const creators =
+		(extraData.creators as Array<{ address?: string; share?: number } | string>) || [];
+	return creators.map((c) => {
+		if (typeof c === 'string') {
+			return { address: c, share: 100 };
+		}
+		return {
+			address: c.address || String(c),
+			share: c.share !== undefined ? c.share : 100
+		};
+	});
+}
+
 export class ERC721Strategy extends BaseMetadataStrategy {
 	name = MetadataStandard.ERC721;
 	description =
@@ -34,6 +77,11 @@ export class SolanaStrategy extends BaseMetadataStrategy {
 	description =
 		'Metaplex standard for Solana, including symbol, seller_fee_basis_points, and properties.';
 
+	/** Metaplex attributes only have a trait type and a value */
+	protected formatAttributes(attributes: MetadataAttribute[]): MetadataAttribute[] {
+		return attributes.map(({ trait_type, value }) => ({ trait_type, value }));
+	}
+
 	protected buildPayload(
 		name: string,
 		description: string,
@@ -43,8 +91,6 @@ export class SolanaStrategy extends BaseMetadataStrategy {
 	): GeneratedMetadata {
 		const symbol = (extraData.symbol as string) || '';
 		const sellerFeeBasisPoints = (extraData.seller_fee_basis_points as number) || 0;
-		const creators =
-			(extraData.creators as Array<{ address?: string; share?: number } | string>) || [];
 		const collection = (extraData.collection as Record<string, unknown>) || {};
 		const externalUrl = (extraData.external_url as string) || '';
 
@@ -59,31 +105,200 @@ export class SolanaStrategy extends BaseMetadataStrategy {
 			collection,
 			properties: {
 				files: [
-					{ uri: imageName, type: 'image/png' },
+					{ uri: imageName, type: getMimeType(imageName.split('.').pop() ?? '') },
 					...(extraData.animation_url
 						? [{ uri: extraData.animation_url as string, type: 'video/mp4' }]
 						: [])
 				],
 				category: extraData.animation_url ? 'video' : 'image',
-				creators: creators.map((c) => {
-					if (typeof c === 'string') {
-						return { address: c, share: 100 };
-					}
-					return {
-						address: c.address || String(c),
-						share: c.share !== undefined ? c.share : 100
-					};
-				})
+				creators: toCreators(extraData)
 			}
 		};
 	}
 }
 
+export class Cip25Strategy extends BaseMetadataStrategy<Cip25Metadata> {
+	name = MetadataStandard.CIP25;
+	description =
+		'Cardano CIP-25 metadata, nested under the policy ID and asset name of every token.';
+
+	collectionFile: CollectionMetadataFile = {
+		path: CIP25_COLLECTION_FILENAME,
+		combine: combineCip25Metadata
+	};
+
+	/** Solana fields that have no CIP-25 meaning (royalties are a separate CIP) */
+	private static readonly SKIPPED_FIELDS = new Set([
+		'symbol',
+		'seller_fee_basis_points',
+		'creators'
+	]);
+
+	/**
+	 * The asset is keyed by `extraData.policy_id` and an asset name taken from
+	 * the token name; other extraData fields are written into the asset.
+	 */
+	protected buildPayload(
+		name: string,
+		description: string,
+		imageName: string,
+		attributes: MetadataAttribute[],
+		extraData: Record<string, unknown>
+	): Cip25Metadata {
+		const { policy_id: policyId, animation_url: animationUrl, ...rest } = extraData;
+		const fields = Object.fromEntries(
+			Object.entries(rest).filter(([key]) => !Cip25Strategy.SKIPPED_FIELDS.has(key))
+		);
+		const mediaType = getMimeType(imageName.split('.').pop() ?? '');
+		const asset = {
+			// The name must stay one string, so it is never chunked
+			name,
+			...(chunkLongStrings({
+				image: imageName,
+				mediaType,
+				...(description ? { description } : {}),
+				files: [
+					{ name, mediaType, src: imageName },
+					...(animationUrl ? [{ name, mediaType: 'video/mp4', src: animationUrl as string }] : [])
+				],
+				attributes: toAttributeMap(attributes),
+				...fields
+			}) as object)
+		} as Cip25Asset;
+
+		return {
+			'721': {
+				[typeof policyId === 'string' ? policyId : '']: { [toAssetName(name)]: asset },
+				version: CIP25_VERSION
+			}
+		};
+	}
+
+	/** extraData is already written into the asset */
+	protected passthrough(): Record<string, unknown> {
+		return {};
+	}
+
+	protected validateOutput(output: Cip25Metadata): void {
+		const problem = findCip25Problem(output);
+		if (problem) throw new Error(problem);
+	}
+}
+
+export class Tzip21Strategy extends BaseMetadataStrategy<Tzip21Metadata> {
+	name = MetadataStandard.TZIP21;
+	description = 'Tezos TZIP-21 metadata for FA2 tokens, with artifact, display and thumbnail URIs.';
+
+	/** Fields mapped onto TZIP-21 names, or with no TZIP-21 meaning */
+	private static readonly MAPPED_FIELDS = new Set([
+		'symbol',
+		'seller_fee_basis_points',
+		'creators',
+		'collection',
+		'external_url',
+		'animation_url',
+		'rights',
+		'displayUri',
+		'thumbnailUri'
+	]);
+
+	/**
+	 * `creators` and `seller_fee_basis_points` become Tezos creators and
+	 * royalties. Renditions whose metadata field is `displayUri` or
+	 * `thumbnailUri` replace the primary image there; an animation URL becomes
+	 * the artifact.
+	 */
+	protected buildPayload(
+		name: string,
+		description: string,
+		imageName: string,
+		attributes: MetadataAttribute[],
+		extraData: Record<string, unknown>,
+		media: TokenMedia[]
+	): Tzip21Metadata {
+		const creators = toCreators(extraData);
+		const animationUrl = extraData.animation_url as string | undefined;
+		const formats =
+			media.length > 0
+				? media.map(toTzip21Format)
+				: [
+						toTzip21Format({
+							uri: imageName,
+							mimeType: getMimeType(imageName.split('.').pop() ?? '')
+						})
+					];
+		if (animationUrl) formats.push(toTzip21Format({ uri: animationUrl, mimeType: 'video/mp4' }));
+
+		const royalties = toTzip21Royalties(
+			(extraData.seller_fee_basis_points as number) || 0,
+			creators
+		);
+		const fields = Object.fromEntries(
+			Object.entries(extraData).filter(([key]) => !Tzip21Strategy.MAPPED_FIELDS.has(key))
+		);
+
+		return {
+			name,
+			description,
+			...(extraData.symbol ? { symbol: extraData.symbol as string } : {}),
+			decimals: 0,
+			isBooleanAmount: true,
+			artifactUri: animationUrl || imageName,
+			displayUri: (extraData.displayUri as string | undefined) || imageName,
+			thumbnailUri: (extraData.thumbnailUri as string | undefined) || imageName,
+			...(extraData.external_url ? { externalUri: extraData.external_url as string } : {}),
+			formats,
+			creators: creators.map((creator) => creator.address),
+			...(extraData.rights ? { rights: extraData.rights as string } : {}),
+			...(royalties ? { royalties } : {}),
+			attributes: toTzip21Attributes(attributes),
+			...fields
+		};
+	}
+
+	/** extraData is already mapped onto TZIP-21 fields */
+	protected passthrough(): Record<string, unknown> {
+		return {};
+	}
+
+	protected validateOutput(output: Tzip21Metadata): void {
+		const problem = findTzip21Problem(output);
+		if (problem) throw new Error(problem);
+	}
+}
+
 export const metadataStrategies: Record<MetadataStandard, MetadataStrategy> = {
 	[MetadataStandard.ERC721]: new ERC721Strategy(),
-	[MetadataStandard.SOLANA]: new SolanaStrategy()
+	[MetadataStandard.SOLANA]: new SolanaStrategy(),
+	[MetadataStandard.CIP25]: new Cip25Strategy(),
+	[MetadataStandard.TZIP21]: new Tzip21Strategy()
 };
 
 export function getMetadataStrategy(standard: MetadataStandard): MetadataStrategy {
 	return metadataStrategies[standard] || metadataStrategies[MetadataStandard.ERC721];
 }
+
+/**
+ * Project settings passed to the strategies as `extraData`; the policy ID and
+ * rights are only sent for CIP-25 and TZIP-21 so other standards do not write
+ * them.
+ */
+export function getProjectExtraData(project: Project): Record<string, unknown> {
+	return {
+		symbol: project.symbol,
+		seller_fee_basis_points: project.sellerFeeBasisPoints,
+		external_url: project.externalUrl,
+		animation_url: project.animationUrl,
+		creators: project.creators,
+		...(project.metadataStandard === MetadataStandard.CIP25 ? { policy_id: project.policyId } : {}),
+		...(project.metadataStandard === MetadataStandard.TZIP21 ? { rights: project.rights } : {})
+	};
+}
+
+/**
+ * Read a token file of any standard as `name`, `description`, `image` and
+ * an `attributes` list of `trait_type` and `value`.
+ */
+export function flattenTokenMetadata(metadata: Record<string, unknown>): Record<string, unknown> {
+	return flattenTzip21Metadata(flattenCip25Metadata(metadata));
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vite-plus/test';
+import {
+	findTzip21Problem,
+	findTzip21SettingsProblem,
+	flattenTzip21Metadata,
+	toTzip21Attributes,
+	toTzip21Royalties,
+	type Tzip21Metadata
+} from './tzip21';
+
+const alice = 'tz1VSUr8wwNhLAzempoch5d6hLRiTh8Cjcjb';
+const bob = 'KT1BEqzn5Wx8uJrZNvuS9DVHmLvG9td3fDLi';
+
+describe('TZIP-21 metadata', () => {
+	it('splits the seller fee between creators by share', () => {
+		expect(
+			toTzip21Royalties(500, [
+				{ address: alice, share: 60 },
+				{ address: bob, share: 40 }
+			])
+		).toEqual({ decimals: 4, shares: { [alice]: 300, [bob]: 200 } });
+		expect(toTzip21Royalties(0, [{ address: alice, share: 100 }])).toBeUndefined();
+		expect(toTzip21Royalties(500, [])).toBeUndefined();
+	});
+
+	it('gives the rounding leftover to the largest remainders', () => {
+		const carol = 'tz2BFTyPeYRzxd5aiBchbXN3WCZhx7BqbMBq';
+		// 500 / 3 = 166.67 each: rounding every share would pay out 501
+		const even = toTzip21Royalties(500, [
+			{ address: alice, share: 1 },
+			{ address: bob, share: 1 },
+			{ address: carol, share: 1 }
+		]);
+		expect(even?.shares).toEqual({ [alice]: 167, [bob]: 167, [carol]: 166 });
+
+		// 166.5, 99.9 and 66.6: the two leftover points go to Bob and Carol
+		const uneven = toTzip21Royalties(333, [
+			{ address: alice, share: 50 },
+			{ address: bob, share: 30 },
+			{ address: carol, share: 20 }
+		]);
+		expect(uneven?.shares).toEqual({ [alice]: 166, [bob]: 100, [carol]: 67 });
+		expect(Object.values(uneven!.shares).reduce((sum, share) => sum + share, 0)).toBe(333);
+	});
+
+	it('writes attributes as names and string values', () => {
+		expect(
+			toTzip21Attributes([
+				{ trait_type: 'Hat', value: 'Cap' },
+				{ trait_type: 'Level', value: 5, display_type: 'number' }
+			])
+		).toEqual([
+			{ name: 'Hat', value: 'Cap' },
+			{ name: 'Level', value: '5', type: 'number' }
+		]);
+	});
+
+	it('reads TZIP-21 files like the other standards', () => {
+		expect(
+			flattenTzip21Metadata({
+				name: 'Apes #1',
+				description: 'desc',
+				artifactUri: 'images/1.png',
+				displayUri: 'display/1.webp',
+				attributes: [{ name: 'Hat', value: 'Cap' }]
+			})
+		).toEqual({
+			name: 'Apes #1',
+			description: 'desc',
+			image: 'display/1.webp',
+			attributes: [{ trait_type: 'Hat', value: 'Cap' }]
+		});
+		const erc721 = { name: 'Apes #1', image: '1.png' };
+		expect(flattenTzip21Metadata(erc721)).toBe(erc721);
+	});
+
+	it('finds creators and royalties Tezos cannot pay', () => {
+		const token = {
+			name: 'Apes #1',
+			artifactUri: 'images/1.png',
+			displayUri: 'images/1.png',
+			creators: [alice],
+			royalties: { decimals: 4, shares: { [alice]: 500 } }
+		} as unknown as Tzip21Metadata;
+
+		expect(findTzip21Problem(token)).toBeNull();
+		expect(findTzip21Problem({ ...token, creators: ['0xabc'] })).toBe(
+			'Creator "0xabc" is not a Tezos address.'
+		);
+		expect(
+			findTzip21Problem({ ...token, royalties: { decimals: 4, shares: { [alice]: 10001 } } })
+		).toBe('Royalties cannot exceed 100%.');
+		expect(findTzip21SettingsProblem([{ address: alice, share: 100 }])).toBeNull();
+		expect(findTzip21SettingsProblem([{ address: '0xabc', share: 100 }])).toContain('0xabc');
+	});
+});
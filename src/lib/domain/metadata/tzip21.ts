@@ -0,0 +1,158 @@
+/**
+ * Tezos TZIP-21 token metadata helpers.
+ *
+ * TZIP-21 describes FA2 tokens with URIs instead of a single `image`: the
+ * `artifactUri` is the token itself, `displayUri` and `thumbnailUri` are what
+ * wallets and marketplaces show, and `formats` lists every file with its MIME
+ * type and size. Royalties are shares of `10^decimals` per address.
+ */
+
+import type { MetadataAttribute, TokenMedia } from './metadata.strategy';
+
+/** Royalties are written in basis points, like `sellerFeeBasisPoints` */
+export const TZIP21_ROYALTY_DECIMALS = 4;
+
+const TEZOS_ADDRESS_PATTERN = /^(tz[1-4]|KT1)[1-9A-HJ-NP-Za-km-z]{33}$/;
+
+export interface Tzip21Format {
+	uri: string;
+	mimeType: string;
+	dimensions?: { value: string; unit: 'px' };
+}
+
+export interface Tzip21Attribute {
+	name: string;
+	value: string;
+	type?: string;
+}
+
+export interface Tzip21Royalties {
+	decimals: number;
+	shares: Record<string, number>;
+}
+
+/** Token file of the TZIP-21 standard */
+export interface Tzip21Metadata {
+	name: string;
+	description: string;
+	symbol?: string;
+	decimals: number;
+	isBooleanAmount: boolean;
+	artifactUri: string;
+	displayUri: string;
+	thumbnailUri: string;
+	externalUri?: string;
+	formats: Tzip21Format[];
+	creators: string[];
+	rights?: string;
+	royalties?: Tzip21Royalties;
+	attributes: Tzip21Attribute[];
+	[key: string]: unknown;
+}
+
+export function isTezosAddress(value: string): boolean {
+	return TEZOS_ADDRESS_PATTERN.test(value);
+}
+
+/** A format entry per file, sized when its dimensions are known */
+export function toTzip21Format(
+	media: Pick<TokenMedia, 'uri' | 'mimeType'> & Partial<TokenMedia>
+): Tzip21Format {
+	const format: Tzip21Format = { uri: media.uri, mimeType: media.mimeType };
+	if (media.width && media.height) {
+		format.dimensions = { value: `${media.width}x${media.height}`, unit: 'px' };
+	}
+	return format;
+}
+
+/**
+ * TZIP-21 attributes have a name and a string value; numbers and booleans
+ * keep their kind in `type`.
+ */
+export function toTzip21Attributes(attributes: MetadataAttribute[]): Tzip21Attribute[] {
+	return attributes.map(({ trait_type, value }) => ({
+		name: trait_type,
+		value: String(value),
+		...(typeof value === 'string' ? {} : { type: typeof value })
+	}));
+}
+
+/**
+ * Split a seller fee in basis points between creators by their share, e.g.
+ * 500 between 60/40 creators is 300 and 200 of 10000. Uneven splits round
+ * down and hand the leftover points to the largest remainders, so the shares
+ * always add up to the fee. No creators or no fee means no royalties.
+ */
+export function toTzip21Royalties(
+	sellerFeeBasisPoints: number,
+	creators: { address: string; share: number }[]
+): Tzip21Royalties | undefined {
+	const totalShare = creators.reduce((sum, creator) => sum + creator.share, 0);
+	const fee = Math.round(sellerFeeBasisPoints);
+	if (fee <= 0 || totalShare <= 0) return undefined;
+
+	const splits = creators.map((creator) => {
+		const exact = (fee * creator.share) / totalShare;
+		return { address: creator.address, points: Math.floor(exact), remainder: exact % 1 };
+	});
+	let leftover = fee - splits.reduce((sum, split) => sum + split.points, 0);
+	for (const split of [...splits].sort((a, b) => b.remainder - a.remainder)) {
+		if (leftover <= 0) break;
+		split.points++;
+		leftover--;
+	}
+
+	return {
+		decimals: TZIP21_ROYALTY_DECIMALS,
+		shares: Object.fromEntries(splits.map((split) => [split.address, split.points]))
+	};
+}
+
+/**
+ * Read a token file the way the other standards are read: TZIP-21 files get
+ * their display image and a `trait_type` attribute list, other files are
+ * returned as they are.
+ */
+export function flattenTzip21Metadata(metadata: Record<string, unknown>): Record<string, unknown> {
+	if (typeof metadata.artifactUri !== 'string') return metadata;
+
+	const attributes = Array.isArray(metadata.attributes) ? metadata.attributes : [];
+	return {
+		name: metadata.name,
+		description: metadata.description,
+		image: typeof metadata.displayUri === 'string' ? metadata.displayUri : metadata.artifactUri,
+		attributes: attributes
+			.filter((a): a is Record<string, unknown> => typeof a === 'object' && a !== null)
+			.map((a) => ({ trait_type: a.name, value: a.value }))
+	};
+}
+
+/** Check project settings before a TZIP-21 generation starts */
+export function findTzip21SettingsProblem(
+	creators: { address: string; share: number }[]
+): string | null {
+	const notTezos = creators.find((creator) => !isTezosAddress(creator.address));
+	return notTezos
+		? `Creator "${notTezos.address}" is not a Tezos address; TZIP-21 royalties are paid to tz or KT1 addresses.`
+		: null;
+}
+
+/**
+ * Find the first reason a TZIP-21 token file would not show up correctly,
+ * or null when there is none.
+ */
+export function findTzip21Problem(metadata: Tzip21Metadata): string | null {
+	if (!metadata.name) return 'TZIP-21 tokens need a name.';
+	if (!metadata.artifactUri || !metadata.displayUri) {
+		return 'TZIP-21 tokens need an artifact and a display URI.';
+	}
+
+	const notTezos = metadata.creators.find((creator) => !isTezosAddress(creator));
+	if (notTezos !== undefined) return `Creator "${notTezos}" is not a Tezos address.`;
+
+	if (metadata.royalties) {
+		const total = Object.values(metadata.royalties.shares).reduce((sum, share) => sum + share, 0);
+		if (total > 10 ** metadata.royalties.decimals) return 'Royalties cannot exceed 100%.';
+	}
+	return null;
+}
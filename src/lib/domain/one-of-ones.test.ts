@@ -0,0 +1,149 @@
+import { describe, expect, it } from 'vite-plus/test';
+import {
+	createOneOfOneMerger,
+	findOneOfOneProblem,
+	matchOneOfOneTraits,
+	mergeOneOfOnes,
+	placeOneOfOnes
+} from './one-of-ones';
+
+function oneOfOne(
+	name: string,
+	tokenNumber?: number,
+	attributes = [{ trait_type: 'Legend', value: name }]
+) {
+	return { name, tokenNumber, attributes, imageData: new ArrayBuffer(8) };
+}
+
+describe('findOneOfOneProblem', () => {
+	it('accepts 1-of-1s that fit the collection', () => {
+		expect(findOneOfOneProblem([oneOfOne('A', 1), oneOfOne('B')], 10)).toBeNull();
+	});
+
+	it('reports more 1-of-1s than tokens', () => {
+		expect(findOneOfOneProblem([oneOfOne('A'), oneOfOne('B')], 1)).toBe(
+			'The project has 2 1-of-1 tokens, but the collection only has 1 items.'
+		);
+	});
+
+	it('reports token numbers outside the collection or taken twice', () => {
+		expect(findOneOfOneProblem([oneOfOne('A', 11)], 10)).toBe(
+			'1-of-1 "A" is placed at token #11, outside the collection of 10.'
+		);
+		expect(findOneOfOneProblem([oneOfOne('A', 3), oneOfOne('B', 3)], 10)).toBe(
+			'1-of-1 tokens "A" and "B" are both placed at token #3.'
+		);
+	});
+
+	it('reports 1-of-1s with the same attributes in any order', () => {
+		const attributes = [
+			{ trait_type: 'Head', value: 'Crown' },
+			{ trait_type: 'Eyes', value: 'Gold' }
+		];
+		expect(
+			findOneOfOneProblem(
+				[oneOfOne('A', undefined, attributes), oneOfOne('B', undefined, [...attributes].reverse())],
+				10
+			)
+		).toBe('1-of-1 tokens "A" and "B" have the same attributes.');
+		expect(
+			findOneOfOneProblem([oneOfOne('A', undefined, []), oneOfOne('B', undefined, [])], 10)
+		).toBeNull();
+	});
+
+	it('reports a missing image', () => {
+		expect(findOneOfOneProblem([{ ...oneOfOne('A'), imageData: new ArrayBuffer(0) }], 10)).toBe(
+			'1-of-1 "A" has no image.'
+		);
+	});
+});
+
+describe('placeOneOfOnes', () => {
+	it('keeps fixed token numbers and places the rest on free positions', () => {
+		const fixed = oneOfOne('Fixed', 2);
+		const random = [oneOfOne('A'), oneOfOne('B')];
+		const placements = placeOneOfOnes([random[0], fixed, random[1]], 5, 42);
+
+		expect(placements.get(1)).toBe(fixed);
+		expect(placements.size).toBe(3);
+		const indexes = [...placements.keys()];
+		expect(new Set(indexes).size).toBe(3);
+		expect(indexes.every((i) => i >= 0 && i < 5)).toBe(true);
+	});
+
+	it('places the same way for the same seed', () => {
+		const oneOfOnes = [oneOfOne('A'), oneOfOne('B'), oneOfOne('C')];
+		const positions = (seed: number) =>
+			[...placeOneOfOnes(oneOfOnes, 100, seed)].map(([i, o]) => `${o.name}@${i}`).sort();
+		expect(positions(7)).toEqual(positions(7));
+	});
+});
+
+describe('mergeOneOfOnes', () => {
+	it('fills the free token indexes with generated solutions in order', () => {
+		const solutions = [
+			{ index: 0, id: 'g1' },
+			{ index: 1, id: 'g2' },
+			{ index: 2, id: 'g3' }
+		];
+		const placements = new Map([
+			[0, 'A'],
+			[2, 'B']
+		]);
+		const merged = mergeOneOfOnes(solutions, placements, (index, name) => ({ index, id: name }));
+
+		expect(merged).toEqual([
+			{ index: 0, id: 'A' },
+			{ index: 1, id: 'g1' },
+			{ index: 2, id: 'B' },
+			{ index: 3, id: 'g2' },
+			{ index: 4, id: 'g3' }
+		]);
+	});
+});
+
+describe('createOneOfOneMerger', () => {
+	it('merges batches the same way as the whole list', () => {
+		const placements = new Map([
+			[0, 'A'],
+			[3, 'B'],
+			[6, 'C']
+		]);
+		const toSolution = (index: number, name: string) => ({ index, id: name });
+		const solutions = ['g1', 'g2', 'g3', 'g4'].map((id, index) => ({ index, id }));
+
+		const merger = createOneOfOneMerger(placements, toSolution);
+		const batched = [
+			...merger.add(solutions.slice(0, 1)),
+			...merger.add(solutions.slice(1, 3)),
+			...merger.add(solutions.slice(3)),
+			...merger.finish()
+		];
+
+		expect(batched).toEqual(mergeOneOfOnes(solutions, placements, toSolution));
+		expect(batched.map((s) => s.id)).toEqual(['A', 'g1', 'g2', 'B', 'g3', 'g4', 'C']);
+	});
+});
+
+describe('matchOneOfOneTraits', () => {
+	const layers = [
+		{ id: 'head', name: 'Head', traits: [{ name: 'Cap' }, { name: 'Crown' }] },
+		{ id: 'eyes', name: 'Eyes', traits: [{ name: 'Blue' }] },
+		{ id: 'hat', name: 'Hat', traits: [{ name: 'Top' }] }
+	];
+
+	it('matches attributes to layer traits by name', () => {
+		const { traits, unmatchedLayerIds } = matchOneOfOneTraits(
+			[
+				{ trait_type: 'Head', value: 'Crown' },
+				{ trait_type: 'Eyes', value: 'Laser' },
+				{ trait_type: 'Hat', value: 'None' },
+				{ trait_type: 'Legend', value: 'Yes' }
+			],
+			layers
+		);
+
+		expect([...traits]).toEqual([['head', { name: 'Crown' }]]);
+		expect([...unmatchedLayerIds]).toEqual(['eyes']);
+	});
+});
@@ -0,0 +1,186 @@
+/**
+ * Hand-made 1-of-1 tokens.
+ *
+ * A 1-of-1 takes a token number of its own, either a fixed one or a free
+ * position picked with the generation seed, and the solver fills the rest.
+ * When its attributes name layer traits, that combination is reserved so no
+ * generated token repeats it.
+ */
+
+import { NONE_TRAIT_VALUE } from '$lib/types/layer';
+import type { OneOfOneAttribute } from '$lib/types/project';
+import { createSeededRandom } from '$lib/utils/seeded-random';
+
+interface PlaceableOneOfOne {
+	name: string;
+	tokenNumber?: number;
+	attributes: OneOfOneAttribute[];
+	imageData?: ArrayBuffer;
+}
+
+interface MatchableLayer<T> {
+	id: string;
+	name: string;
+	traits: T[];
+}
+
+/**
+ * Check 1-of-1s against the collection size. Returns a user-facing
+ * explanation of the first problem, or null when they all fit.
+ */
+export function findOneOfOneProblem(
+	oneOfOnes: PlaceableOneOfOne[],
+	collectionSize: number
+): string | null {
+	if (oneOfOnes.length > collectionSize) {
+		return `The project has ${oneOfOnes.length} 1-of-1 tokens, but the collection only has ${collectionSize} items.`;
+	}
+
+	const taken = new Map<number, string>();
+	const attributeSets = new Map<string, string>();
+	for (const oneOfOne of oneOfOnes) {
+		if (oneOfOne.imageData && oneOfOne.imageData.byteLength === 0) {
+			return `1-of-1 "${oneOfOne.name}" has no image.`;
+		}
+
+		const { tokenNumber } = oneOfOne;
+		if (tokenNumber !== undefined) {
+			if (tokenNumber < 1 || tokenNumber > collectionSize) {
+				return `1-of-1 "${oneOfOne.name}" is placed at token #${tokenNumber}, outside the collection of ${collectionSize}.`;
+			}
+			const other = taken.get(tokenNumber);
+			if (other) {
+				return `1-of-1 tokens "${other}" and "${oneOfOne.name}" are both placed at token #${tokenNumber}.`;
+			}
+			taken.set(tokenNumber, oneOfOne.name);
+		}
+
+		if (oneOfOne.attributes.length === 0) continue;
+		const key = attributeKey(oneOfOne.attributes);
+		const duplicate = attributeSets.get(key);
+		if (duplicate) {
+			return `1-of-1 tokens "${duplicate}" and "${oneOfOne.name}" have the same attributes.`;
+		}
+		attributeSets.set(key, oneOfOne.name);
+	}
+
+	return null;
+}
+
+/**
+ * Decide the 0-based token index of every 1-of-1. Fixed token numbers are
+ * kept; the others take free positions picked with the seed, so a seeded run
+ * always places them the same way.
+ */
+export function placeOneOfOnes<T extends { tokenNumber?: number }>(
+	oneOfOnes: T[],
+	collectionSize: number,
+	seed: number
+): Map<number, T> {
+	const placements = new Map<number, T>();
+	for (const oneOfOne of oneOfOnes) {
+		if (oneOfOne.tokenNumber !== undefined) placements.set(oneOfOne.tokenNumber - 1, oneOfOne);
+	}
+
+	const free: number[] = [];
+	for (let i = 0; i < collectionSize; i++) {
+		if (!placements.has(i)) free.push(i);
+	}
+
+	const random = createSeededRandom(seed);
+	for (const oneOfOne of oneOfOnes) {
+		if (oneOfOne.tokenNumber !== undefined) continue;
+		const [index] = free.splice(Math.floor(random() * free.length), 1);
+		placements.set(index, oneOfOne);
+	}
+
+	return placements;
+}
+
+/**
+ * Give generated solutions the token indexes the 1-of-1s leave free, in order,
+ * and merge both into one list sorted by index.
+ */
+export function mergeOneOfOnes<S extends { index: number }, T>(
+	solutions: S[],
+	placements: Map<number, T>,
+	toSolution: (index: number, oneOfOne: T) => S
+): S[] {
+	const merger = createOneOfOneMerger(placements, toSolution);
+	return [...merger.add(solutions), ...merger.finish()];
+}
+
+/**
+ * Streaming form of {@link mergeOneOfOnes} for solutions that arrive in
+ * batches: `add` re-indexes each batch (with any 1-of-1s placed before or
+ * between its tokens) and `finish` returns the 1-of-1s placed after the last
+ * generated token.
+ */
+export function createOneOfOneMerger<S extends { index: number }, T>(
+	placements: Map<number, T>,
+	toSolution: (index: number, oneOfOne: T) => S
+): { add: (solutions: S[]) => S[]; finish: () => S[] } {
+	let index = 0;
+	let placed = 0;
+
+	const takeOneOfOne = (): S | null => {
+		const oneOfOne = placements.get(index);
+		if (oneOfOne === undefined) return null;
+		placed++;
+		return toSolution(index++, oneOfOne);
+	};
+
+	return {
+		add(solutions) {
+			const merged: S[] = [];
+			for (const solution of solutions) {
+				for (let oneOfOne = takeOneOfOne(); oneOfOne; oneOfOne = takeOneOfOne()) {
+					merged.push(oneOfOne);
+				}
+				merged.push({ ...solution, index: index++ });
+			}
+			return merged;
+		},
+		finish() {
+			const merged: S[] = [];
+			while (placed < placements.size) {
+				const oneOfOne = takeOneOfOne();
+				if (oneOfOne) merged.push(oneOfOne);
+				else index++;
+			}
+			return merged;
+		}
+	};
+}
+
+/**
+ * Resolve a 1-of-1's attributes against the layers. Attributes named after a
+ * layer pick its trait with the same name; layers without an attribute (or
+ * with "None") count as empty. Layers whose value is not one of their traits
+ * are returned as unmatched, since no generated token can have that value.
+ */
+export function matchOneOfOneTraits<T extends { name: string }>(
+	attributes: OneOfOneAttribute[],
+	layers: MatchableLayer<T>[]
+): { traits: Map<string, T>; unmatchedLayerIds: Set<string> } {
+	const traits = new Map<string, T>();
+	const unmatchedLayerIds = new Set<string>();
+
+	for (const layer of layers) {
+		const attribute = attributes.find((a) => a.trait_type === layer.name);
+		if (!attribute || attribute.value === NONE_TRAIT_VALUE) continue;
+
+		const trait = layer.traits.find((t) => t.name === attribute.value);
+		if (trait) traits.set(layer.id, trait);
+		else unmatchedLayerIds.add(layer.id);
+	}
+
+	return { traits, unmatchedLayerIds };
+}
+
+/** Key for a set of attributes that ignores their order */
+export function attributeKey(attributes: OneOfOneAttribute[]): string {
+	return JSON.stringify(
+		attributes.map((a) => [a.trait_type, a.value]).sort(([a], [b]) => (a < b ? -1 : a > b ? 1 : 0))
+	);
+}
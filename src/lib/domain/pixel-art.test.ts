@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vite-plus/test';
+import { unsafeCreateLayerId, unsafeCreateTraitId } from '$lib/types/ids';
+import type { Layer, Trait } from '$lib/types/layer';
+import type { OutputRendition } from '$lib/types/project';
+import {
+	findPixelArtScaleProblem,
+	findPixelArtWarnings,
+	getPixelArtScale,
+	getRenderedOutputSize,
+	isCleanPixelMultiple
+} from './pixel-art';
+
+const source = { width: 32, height: 32 };
+
+function rendition(name: string, width: number, height: number): OutputRendition {
+	return { id: name, name, width, height, format: 'png', folder: name.toLowerCase() };
+}
+
+/** PNG signature and IHDR header, enough to read the image size */
+function pngHeader(width: number, height: number): ArrayBuffer {
+	const bytes = new Uint8Array(24);
+	bytes.set([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 13, 0x49, 0x48, 0x44, 0x52]);
+	const view = new DataView(bytes.buffer);
+	view.setUint32(16, width);
+	view.setUint32(20, height);
+	return bytes.buffer;
+}
+
+function layer(name: string, traits: [string, number, Partial<Trait>?][]): Layer {
+	return {
+		id: unsafeCreateLayerId(name),
+		name,
+		order: 0,
+		traits: traits.map(([traitName, size, overrides]) => ({
+			id: unsafeCreateTraitId(traitName),
+			name: traitName,
+			imageData: pngHeader(size, size),
+			rarityWeight: 1,
+			...overrides
+		}))
+	};
+}
+
+describe('pixel art', () => {
+	it('scales the output size only when pixel-art mode is on', () => {
+		expect(getRenderedOutputSize({ outputSize: source, pixelArtScale: 32 })).toEqual(source);
+		expect(
+			getRenderedOutputSize({ outputSize: source, pixelArt: true, pixelArtScale: 32 })
+		).toEqual({ width: 1024, height: 1024 });
+		expect(getPixelArtScale({ pixelArt: false, pixelArtScale: 4 })).toBeUndefined();
+		expect(getPixelArtScale({ pixelArt: true })).toBe(1);
+		expect(getPixelArtScale({ pixelArt: true, pixelArtScale: 2.4 })).toBe(2);
+	});
+
+	it('rejects scales that are fractional or make oversized tokens', () => {
+		expect(findPixelArtScaleProblem(source, 32)).toBeNull();
+		expect(findPixelArtScaleProblem(source, 1.5)).toBe(
+			'Pixel-art scale must be a whole number between 1 and 64.'
+		);
+		expect(findPixelArtScaleProblem({ width: 400, height: 200 }, 30)).toBe(
+			'A 30× pixel-art scale makes 12000×6000 images; tokens can be at most 10000 pixels on each side.'
+		);
+	});
+
+	it('accepts only even whole-number upscales', () => {
+		expect(isCleanPixelMultiple(source, { width: 1024, height: 1024 })).toBe(true);
+		expect(isCleanPixelMultiple(source, { width: 32, height: 32 })).toBe(true);
+		expect(isCleanPixelMultiple(source, { width: 1000, height: 1000 })).toBe(false);
+		expect(isCleanPixelMultiple(source, { width: 16, height: 16 })).toBe(false);
+		expect(isCleanPixelMultiple(source, { width: 64, height: 96 })).toBe(false);
+	});
+
+	it('warns about renditions that would leave uneven pixels', () => {
+		const renditions = [rendition('Large', 512, 512), rendition('Odd', 500, 500)];
+
+		expect(findPixelArtWarnings({ outputSize: source, renditions })).toEqual([]);
+		expect(findPixelArtWarnings({ outputSize: source, pixelArt: true, renditions })).toEqual([
+			'Rendition "Odd" (500×500) is not a clean multiple of the 32×32 source, so its pixels will be uneven.'
+		]);
+	});
+
+	it('warns about trait images the output is not a clean multiple of', () => {
+		const layers = [
+			layer('Body', [
+				['Ape', 32],
+				['Robot', 30]
+			]),
+			layer('Hat', [
+				['Cap', 30],
+				['Crown', 30],
+				// Placed traits keep their own scale
+				['Halo', 30, { placement: { fit: 'none', anchor: 'center', x: 0, y: 0, scale: 1 } }]
+			]),
+			layer('Eyes', [['Laser', 16]])
+		];
+
+		expect(
+			findPixelArtWarnings({ outputSize: source, pixelArt: true, pixelArtScale: 32, layers })
+		).toEqual([
+			'3 traits, like "Robot" in layer "Body", are 30×30; the 1024×1024 output is not a clean multiple of that, so their pixels will be uneven.'
+		]);
+		// 480 is a clean multiple of 32, 30 and 16
+		expect(
+			findPixelArtWarnings({ outputSize: source, pixelArt: true, pixelArtScale: 15, layers })
+		).toEqual([]);
+		expect(
+			findPixelArtWarnings({
+				outputSize: source,
+				pixelArt: true,
+				pixelArtScale: 1,
+				layers: [layer('Eyes', [['Laser', 24]])]
+			})
+		).toEqual([
+			'Trait "Laser" in layer "Eyes" is 24×24; the 32×32 output is not a clean multiple of that, so its pixels will be uneven.'
+		]);
+	});
+});
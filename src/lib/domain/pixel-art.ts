@@ -0,0 +1,129 @@
+/**
+ * Pixel-art mode: traits are drawn at the project's source size and blown up
+ * by a whole-number factor with nearest-neighbour scaling, so every source
+ * pixel becomes a crisp square block instead of a blurred smear.
+ *
+ * Only integer factors keep the blocks even. The primary output is always
+ * `source × scale`, but traits drawn over the whole canvas are stretched from
+ * their own image size, and extra renditions can be any size; both are
+ * checked and flagged when they would leave ragged pixels.
+ */
+
+import type { Layer } from '$lib/types/layer';
+import type { OutputRendition, Project, ProjectDimensions } from '$lib/types/project';
+import { readPngDimensions } from '$lib/utils/image-format-detector';
+import { isFullCanvasPlacement } from './trait-placement';
+
+export const MIN_PIXEL_ART_SCALE = 1;
+export const MAX_PIXEL_ART_SCALE = 64;
+/** Largest side a scaled token may have, the same limit as project dimensions */
+const MAX_SCALED_SIZE = 10000;
+
+/** Whole-number factor between 1 and the largest supported scale */
+export function clampPixelArtScale(scale: number): number {
+	if (!Number.isFinite(scale)) return MIN_PIXEL_ART_SCALE;
+	return Math.min(MAX_PIXEL_ART_SCALE, Math.max(MIN_PIXEL_ART_SCALE, Math.round(scale)));
+}
+
+/** The project's upscale factor, or undefined when pixel-art mode is off */
+export function getPixelArtScale(
+	project: Pick<Project, 'pixelArt' | 'pixelArtScale'>
+): number | undefined {
+	if (!project.pixelArt) return undefined;
+	return clampPixelArtScale(project.pixelArtScale ?? MIN_PIXEL_ART_SCALE);
+}
+
+/**
+ * Size of the generated images. `outputSize` is the size traits were drawn
+ * at; pixel-art mode multiplies it by the scale factor.
+ */
+export function getRenderedOutputSize(
+	project: Pick<Project, 'outputSize' | 'pixelArt' | 'pixelArtScale'>
+): ProjectDimensions {
+	const scale = getPixelArtScale(project) ?? 1;
+	return {
+		width: project.outputSize.width * scale,
+		height: project.outputSize.height * scale
+	};
+}
+
+/** Why `source × scale` cannot be rendered, or null when it can */
+export function findPixelArtScaleProblem(source: ProjectDimensions, scale: number): string | null {
+	if (!Number.isInteger(scale) || scale < MIN_PIXEL_ART_SCALE || scale > MAX_PIXEL_ART_SCALE) {
+		return `Pixel-art scale must be a whole number between ${MIN_PIXEL_ART_SCALE} and ${MAX_PIXEL_ART_SCALE}.`;
+	}
+	const width = source.width * scale;
+	const height = source.height * scale;
+	if (width > MAX_SCALED_SIZE || height > MAX_SCALED_SIZE) {
+		return `A ${scale}× pixel-art scale makes ${width}×${height} images; tokens can be at most ${MAX_SCALED_SIZE} pixels on each side.`;
+	}
+	return null;
+}
+
+/** True when both sides of `output` are whole multiples of `source` */
+export function isCleanPixelMultiple(
+	source: ProjectDimensions,
+	output: ProjectDimensions
+): boolean {
+	if (source.width <= 0 || source.height <= 0) return true;
+	return (
+		output.width >= source.width &&
+		output.height >= source.height &&
+		output.width % source.width === 0 &&
+		output.height % source.height === 0 &&
+		output.width / source.width === output.height / source.height
+	);
+}
+
+/**
+ * Warnings for images whose pixels would come out uneven: one per trait image
+ * size the output is not a clean multiple of, then one per rendition that is
+ * not an even upscale of the source size. Such images still render, but some
+ * source pixels come out wider than others.
+ */
+export function findPixelArtWarnings(
+	project: Pick<Project, 'outputSize' | 'pixelArt' | 'pixelArtScale' | 'renditions'> & {
+		layers?: Layer[];
+	}
+): string[] {
+	if (!project.pixelArt) return [];
+	const source = project.outputSize;
+	return [
+		...findTraitSizeWarnings(project.layers ?? [], getRenderedOutputSize(project)),
+		...(project.renditions ?? [])
+			.filter((rendition: OutputRendition) => !isCleanPixelMultiple(source, rendition))
+			.map(
+				(rendition) =>
+					`Rendition "${rendition.name.trim() || rendition.folder}" (${rendition.width}×${rendition.height}) is not a clean multiple of the ${source.width}×${source.height} source, so its pixels will be uneven.`
+			)
+	];
+}
+
+/**
+ * Full-canvas traits are stretched from their image size to the output, so
+ * the output must be a clean multiple of each image. Placed traits keep their
+ * own scale, and colour variants share their base trait's image.
+ */
+function findTraitSizeWarnings(layers: Layer[], output: ProjectDimensions): string[] {
+	const unevenBySize = new Map<string, { layer: Layer; traitName: string; count: number }>();
+	for (const layer of layers) {
+		for (const trait of layer.traits) {
+			if (trait.variant || !isFullCanvasPlacement(trait.placement)) continue;
+			const size = readPngDimensions(trait.imageData);
+			if (!size || isCleanPixelMultiple(size, output)) continue;
+
+			const key = `${size.width}×${size.height}`;
+			const uneven = unevenBySize.get(key);
+			if (uneven) uneven.count++;
+			else unevenBySize.set(key, { layer, traitName: trait.name, count: 1 });
+		}
+	}
+
+	return [...unevenBySize].map(([size, { layer, traitName, count }]) => {
+		const traits =
+			count === 1
+				? `Trait "${traitName}" in layer "${layer.name}" is`
+				: `${count} traits, like "${traitName}" in layer "${layer.name}", are`;
+		return `${traits} ${size}; the ${output.width}×${output.height} output is not a clean multiple of that, so ${count === 1 ? 'its' : 'their'} pixels will be uneven.`;
+	});
+}
@@ -3,6 +3,7 @@
  */
 import type { Layer } from '$lib/types/layer';
 import type { TransferrableLayer, TransferrableTrait } from '$lib/types/worker-messages';
+import { cloneColorVariant, hasRenderableImage } from './color-variants';
 
 /**
  * Prepare layers for worker with validation.
@@ -18,7 +19,12 @@ export async function prepareLayersForWorker(layers: Layer[]): Promise<Transferr
 		}
 
 		for (const trait of layer.traits) {
-			if (!trait.imageData || trait.imageData.byteLength === 0) {
+			if (trait.variant && !hasRenderableImage(layer.traits, trait)) {
+				throw new Error(
+					`Colour variant "${trait.name}" in layer "${layer.name}" has no base image. Please re-upload its base trait or remove the variant.`
+				);
+			}
+			if (!hasRenderableImage(layer.traits, trait)) {
 				throw new Error(
 					`Trait "${trait.name}" in layer "${layer.name}" has missing or invalid image data. Please re-upload the images.`
 				);
@@ -28,9 +34,15 @@ export async function prepareLayersForWorker(layers: Layer[]): Promise<Transferr
 
 	const transferrableLayers = await Promise.all(
 		layers.map(async (layer) => {
+			// Create a clean ArrayBuffer copy using slice() for speed. Colour variants
+			// share their base trait's copy, so each image is still sent only once
+			const imageCopies = new Map<string, ArrayBuffer>();
+			for (const trait of layer.traits) {
+				if (!trait.variant) imageCopies.set(trait.id, trait.imageData.slice(0));
+			}
+
 			const transferrableTraits = layer.traits.map((trait) => {
-				// Create a clean ArrayBuffer copy using slice() for speed
-				const cleanArrayBuffer = trait.imageData.slice(0);
+				const cleanArrayBuffer = imageCopies.get(trait.variant?.baseTraitId ?? trait.id)!;
 
 				// Create a clean trait object with only the properties defined in TransferrableTrait
 				const transferrableTrait: TransferrableTrait = {
@@ -38,6 +50,8 @@ export async function prepareLayersForWorker(layers: Layer[]): Promise<Transferr
 					name: trait.name,
 					imageData: cleanArrayBuffer,
 					rarityWeight: trait.rarityWeight,
+					metadataValue: trait.metadataValue,
+					attributes: trait.attributes ? trait.attributes.map((a) => ({ ...a })) : undefined,
 					type: trait.type,
 					rulerRules: trait.rulerRules
 						? trait.rulerRules.map((r) => ({
@@ -45,7 +59,15 @@ export async function prepareLayersForWorker(layers: Layer[]): Promise<Transferr
 								allowedTraitIds: [...r.allowedTraitIds],
 								forbiddenTraitIds: [...r.forbiddenTraitIds]
 							}))
-						: undefined
+						: undefined,
+					exactCount: trait.exactCount,
+					maxCount: trait.maxCount,
+					renderOverride: trait.renderOverride ? { ...trait.renderOverride } : undefined,
+					blendMode: trait.blendMode,
+					opacity: trait.opacity,
+					placement: trait.placement ? { ...trait.placement } : undefined,
+					variant: trait.variant ? cloneColorVariant(trait.variant) : undefined,
+					links: trait.links ? trait.links.map((link) => ({ ...link })) : undefined
 				};
 
 				return transferrableTrait;
@@ -57,6 +79,12 @@ export async function prepareLayersForWorker(layers: Layer[]): Promise<Transferr
 				name: layer.name,
 				order: layer.order,
 				isOptional: layer.isOptional,
+				noneProbability: layer.noneProbability,
+				emitNoneAttribute: layer.emitNoneAttribute,
+				attributeName: layer.attributeName,
+				hideAttribute: layer.hideAttribute,
+				blendMode: layer.blendMode,
+				opacity: layer.opacity,
 				traits: transferrableTraits
 			};
 
@@ -95,6 +95,24 @@ describe('calculateTraitRarities', () => {
 		expect(red.percentage).toBeCloseTo(10, 5);
 		expect(red.rarityScore).toBeCloseTo(10, 5);
 	});
+
+	it('counts an empty layer as a None value', () => {
+		const items = [
+			makeItem('1', [
+				{ layer: 'BG', trait: 'Blue', rarity: 0 },
+				{ layer: 'Hat', trait: 'Cap', rarity: 0 }
+			]),
+			makeItem('2', [{ layer: 'BG', trait: 'Blue', rarity: 0 }]),
+			makeItem('3', [{ layer: 'BG', trait: 'Red', rarity: 0 }]),
+			makeItem('4', [{ layer: 'BG', trait: 'Red', rarity: 0 }])
+		];
+		const rarities = calculateTraitRarities(makeCollection(items));
+
+		const none = rarities.get('Hat:None')!;
+		expect(none.count).toBe(3);
+		expect(none.percentage).toBeCloseTo(75, 5);
+		expect(rarities.get('Hat:Cap')!.count).toBe(1);
+	});
 });
 
 describe('calculateItemRarities', () => {
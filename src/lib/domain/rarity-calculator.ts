@@ -4,6 +4,7 @@
  */
 
 import type { GalleryCollection, GalleryItem } from '$lib/types/gallery';
+import { NONE_TRAIT_VALUE } from '$lib/types/layer';
 
 export interface TraitRarity {
 	layer: string;
@@ -84,18 +85,45 @@ function getTraitKey(trait: Record<string, unknown>): string {
 	return `${layer}:${traitValue}`;
 }
 
+/**
+ * Every layer (trait type) that appears anywhere in the collection.
+ */
+function getCollectionLayers(collection: GalleryCollection): string[] {
+	const layers = new Set<string>();
+	for (const item of collection.items) {
+		for (const trait of item.metadata.traits) {
+			layers.add(getTraitParts(trait as Record<string, unknown>).layer);
+		}
+	}
+	return Array.from(layers);
+}
+
+/**
+ * An item's traits, with a "None" value for every collection layer the item
+ * leaves empty — an empty optional layer is as much a trait as any other.
+ */
+function getItemTraits(item: GalleryItem, layers: string[]): Record<string, unknown>[] {
+	const traits = item.metadata.traits as Record<string, unknown>[];
+	const present = new Set(traits.map((trait) => getTraitParts(trait).layer));
+	const missing = layers
+		.filter((layer) => !present.has(layer))
+		.map((layer) => ({ layer, trait: NONE_TRAIT_VALUE, rarity: 0 }));
+	return [...traits, ...missing];
+}
+
 function countTraitOccurrences(
 	collection: GalleryCollection
 ): Map<string, { count: number; layer: string; trait: string }> {
 	const traitMap = new Map<string, { count: number; layer: string; trait: string }>();
+	const layers = getCollectionLayers(collection);
 	for (const item of collection.items) {
-		for (const trait of item.metadata.traits) {
-			const key = getTraitKey(trait as Record<string, unknown>);
+		for (const trait of getItemTraits(item, layers)) {
+			const key = getTraitKey(trait);
 			const existing = traitMap.get(key);
 			if (existing) {
 				existing.count++;
 			} else {
-				const { layer, traitValue } = getTraitParts(trait as Record<string, unknown>);
+				const { layer, traitValue } = getTraitParts(trait);
 				traitMap.set(key, { count: 1, layer, trait: traitValue });
 			}
 		}
@@ -214,13 +242,14 @@ export function calculateItemRarities(
 		rarityScore: number;
 		traitRarities: TraitRarity[];
 	}> = [];
+	const layers = getCollectionLayers(collection);
 
 	for (const item of collection.items) {
 		const traitRarityData: TraitRarity[] = [];
 		let totalScore = 0;
 
-		for (const trait of item.metadata.traits) {
-			const key = getTraitKey(trait as Record<string, unknown>);
+		for (const trait of getItemTraits(item, layers)) {
+			const key = getTraitKey(trait);
 			const traitRarity = traitRarities.get(key);
 			if (traitRarity) {
 				traitRarityData.push(traitRarity);
@@ -303,6 +332,7 @@ export function calculateEnhancedItemRarities(
 		tiers
 	);
 	const itemRarities: ItemRarityResult[] = [];
+	const layers = getCollectionLayers(collection);
 
 	for (const item of collection.items) {
 		const traitRarityData: EnhancedTraitRarity[] = [];
@@ -311,8 +341,8 @@ export function calculateEnhancedItemRarities(
 		let balancedCount = 0;
 		let fillerCount = 0;
 
-		for (const trait of item.metadata.traits) {
-			const key = getTraitKey(trait as Record<string, unknown>);
+		for (const trait of getItemTraits(item, layers)) {
+			const key = getTraitKey(trait);
 			const traitRarity = enhancedTraitRarities.get(key);
 			if (traitRarity) {
 				traitRarityData.push(traitRarity);
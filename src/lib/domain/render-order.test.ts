@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vite-plus/test';
+import { getCompositeStyle, sortByRenderOrder } from './render-order';
+import { unsafeCreateLayerId } from '$lib/types/ids';
+import type { RenderOverride } from '$lib/types/layer';
+
+const layers = [
+	{ id: 'bg', order: 0 },
+	{ id: 'body', order: 1 },
+	{ id: 'hair', order: 2 },
+	{ id: 'hat', order: 3 }
+];
+
+function item(layerId: string, renderOverride?: RenderOverride) {
+	return { layerId, trait: { renderOverride } };
+}
+
+function layerIds(items: { layerId: string }[]) {
+	return items.map((i) => i.layerId);
+}
+
+describe('sortByRenderOrder', () => {
+	it('keeps layer order without overrides', () => {
+		const sorted = sortByRenderOrder([item('hat'), item('bg'), item('hair'), item('body')], layers);
+		expect(layerIds(sorted)).toEqual(['bg', 'body', 'hair', 'hat']);
+	});
+
+	it('draws an overridden trait below or above the target layer', () => {
+		const longHair = item('hair', { layerId: unsafeCreateLayerId('body'), position: 'below' });
+		expect(layerIds(sortByRenderOrder([item('bg'), item('body'), longHair], layers))).toEqual([
+			'bg',
+			'hair',
+			'body'
+		]);
+
+		const cape = item('bg', { layerId: unsafeCreateLayerId('hat'), position: 'above' });
+		expect(layerIds(sortByRenderOrder([cape, item('body'), item('hat')], layers))).toEqual([
+			'body',
+			'hat',
+			'bg'
+		]);
+	});
+
+	it('keeps layer order between traits targeting the same spot', () => {
+		const below = { layerId: unsafeCreateLayerId('bg'), position: 'below' as const };
+		const sorted = sortByRenderOrder([item('hat', below), item('hair', below), item('bg')], layers);
+		expect(layerIds(sorted)).toEqual(['hair', 'hat', 'bg']);
+	});
+
+	it('falls back to the own layer when the target no longer exists', () => {
+		const dangling = item('bg', { layerId: unsafeCreateLayerId('gone'), position: 'above' });
+		expect(layerIds(sortByRenderOrder([item('body'), dangling], layers))).toEqual(['bg', 'body']);
+	});
+});
+
+describe('getCompositeStyle', () => {
+	it('defaults to a normal, opaque draw', () => {
+		expect(getCompositeStyle(undefined, {})).toEqual({ blendMode: 'source-over', opacity: 1 });
+	});
+
+	it('lets the trait blend mode win and multiplies opacities', () => {
+		const layer = { blendMode: 'multiply' as const, opacity: 0.5 };
+		expect(getCompositeStyle(layer, {})).toEqual({ blendMode: 'multiply', opacity: 0.5 });
+		expect(getCompositeStyle(layer, { blendMode: 'screen', opacity: 0.5 })).toEqual({
+			blendMode: 'screen',
+			opacity: 0.25
+		});
+	});
+});
@@ -0,0 +1,77 @@
+/**
+ * Render order and blending for compositing.
+ *
+ * Traits are drawn in layer order unless they carry a `renderOverride`, in
+ * which case they are drawn directly below or above the target layer. The
+ * metadata layer never changes, so attribute order stays in layer order.
+ * Shared by the live preview and the worker renderer so both agree.
+ */
+
+import type { BlendMode, BlendSettings, RenderOverride } from '$lib/types/layer';
+
+export interface RenderOrderLayer {
+	id: string;
+	order: number;
+}
+
+export interface RenderItem {
+	layerId: string;
+	trait: { renderOverride?: RenderOverride };
+}
+
+// Keeps overridden traits strictly between the target layer and its neighbours
+const OVERRIDE_OFFSET = 0.5;
+
+/**
+ * Sort key of a trait on the canvas. Overrides pointing at a layer that no
+ * longer exists fall back to the trait's own layer.
+ */
+export function getRenderPosition(item: RenderItem, layerOrders: Map<string, number>): number {
+	const ownOrder = layerOrders.get(item.layerId) ?? 0;
+	const override = item.trait.renderOverride;
+	if (!override) return ownOrder;
+
+	const targetOrder = layerOrders.get(override.layerId);
+	if (targetOrder === undefined) return ownOrder;
+	return override.position === 'below'
+		? targetOrder - OVERRIDE_OFFSET
+		: targetOrder + OVERRIDE_OFFSET;
+}
+
+/**
+ * Return the items in the order they should be drawn (bottom first).
+ * Items landing on the same position keep their layer order.
+ */
+export function sortByRenderOrder<T extends RenderItem>(
+	items: T[],
+	layers: RenderOrderLayer[]
+): T[] {
+	const layerOrders = new Map(layers.map((layer) => [layer.id, layer.order]));
+	return items
+		.map((item) => ({
+			item,
+			position: getRenderPosition(item, layerOrders),
+			ownOrder: layerOrders.get(item.layerId) ?? 0
+		}))
+		.sort((a, b) => a.position - b.position || a.ownOrder - b.ownOrder)
+		.map(({ item }) => item);
+}
+
+export interface CompositeStyle {
+	blendMode: BlendMode;
+	opacity: number;
+}
+
+/**
+ * Resolve how a trait is drawn: its own blend mode wins over the layer's,
+ * and the two opacities multiply.
+ */
+export function getCompositeStyle(
+	layer: BlendSettings | undefined,
+	trait: BlendSettings
+): CompositeStyle {
+	return {
+		blendMode: trait.blendMode ?? layer?.blendMode ?? 'source-over',
+		opacity: (layer?.opacity ?? 1) * (trait.opacity ?? 1)
+	};
+}
@@ -0,0 +1,63 @@
+import { describe, expect, it } from 'vite-plus/test';
+import type { OutputRendition } from '$lib/types/project';
+import { findRenditionProblem, getRenditionPath, toRenditionSpecs } from './renditions';
+
+function rendition(overrides: Partial<OutputRendition> = {}): OutputRendition {
+	return {
+		id: 'thumb',
+		name: 'Thumbnail',
+		width: 512,
+		height: 512,
+		format: 'webp',
+		quality: 80,
+		folder: 'thumbnails',
+		metadataField: 'thumbnail',
+		...overrides
+	};
+}
+
+describe('findRenditionProblem', () => {
+	it('accepts distinct folders and metadata fields', () => {
+		expect(
+			findRenditionProblem([
+				rendition(),
+				rendition({ id: 'discord', name: 'Discord', folder: 'discord', metadataField: undefined })
+			])
+		).toBeNull();
+	});
+
+	it('keeps renditions out of the primary folders and fields', () => {
+		expect(findRenditionProblem([rendition({ folder: 'images' })])).toContain('"images" folder');
+		expect(findRenditionProblem([rendition({ folder: '../up' })])).toContain('folder name');
+		expect(findRenditionProblem([rendition({ metadataField: 'image' })])).toContain(
+			'metadata "image" field'
+		);
+	});
+
+	it('rejects renditions that would overwrite each other', () => {
+		expect(
+			findRenditionProblem([
+				rendition(),
+				rendition({ id: 'b', name: 'Other', folder: 'Thumbnails' })
+			])
+		).toBe('Renditions "Thumbnail" and "Other" both use the "Thumbnails" folder.');
+		expect(
+			findRenditionProblem([rendition(), rendition({ id: 'b', name: 'Other', folder: 'small' })])
+		).toBe('Renditions "Thumbnail" and "Other" both write the metadata "thumbnail" field.');
+	});
+});
+
+describe('toRenditionSpecs', () => {
+	it('converts quality to 0–1 and names files after the token and format', () => {
+		const [webp, png] = toRenditionSpecs([
+			rendition(),
+			rendition({ folder: 'full', format: 'png', metadataField: ' ' })
+		]);
+
+		expect(webp.encoding).toEqual({ format: 'webp', quality: 0.8 });
+		expect(png.encoding).toEqual({ format: 'png' });
+		expect(png.metadataField).toBeUndefined();
+		expect(getRenditionPath(webp, 11)).toBe('thumbnails/12.webp');
+		expect(getRenditionPath({ ...png, encoding: { format: 'jpeg' } }, 0)).toBe('full/1.jpg');
+	});
+});
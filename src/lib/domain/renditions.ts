@@ -0,0 +1,102 @@
+/**
+ * Extra output renditions: the same token rendered again at other sizes and
+ * formats, e.g. website thumbnails or small previews for Discord.
+ *
+ * The primary rendition is the project's output size and format in `images/`;
+ * metadata `image` fields always point at it. Each extra rendition goes into
+ * its own folder at the root of the export and can be linked from metadata
+ * through a field of its own.
+ */
+
+import type { OutputRendition } from '$lib/types/project';
+import {
+	DEFAULT_OUTPUT_QUALITY,
+	getImageExtension,
+	isLossyFormat,
+	type ImageEncoding
+} from './image-encoding';
+
+/** What a worker needs to render one extra rendition */
+export interface RenditionSpec {
+	folder: string;
+	width: number;
+	height: number;
+	encoding: ImageEncoding;
+	metadataField?: string;
+}
+
+/** Folders and metadata fields generation already writes */
+const RESERVED_FOLDERS = new Set(['images', 'metadata']);
+const RESERVED_METADATA_FIELDS = new Set(['name', 'description', 'image', 'attributes']);
+
+const FOLDER_PATTERN = /^[A-Za-z0-9_-]+$/;
+const METADATA_FIELD_PATTERN = /^[A-Za-z_][A-Za-z0-9_]*$/;
+const MAX_RENDITION_SIZE = 10000;
+
+/**
+ * Find the first problem that would stop renditions from exporting cleanly,
+ * or null when there is none.
+ */
+export function findRenditionProblem(renditions: OutputRendition[]): string | null {
+	const folders = new Map<string, string>();
+	const fields = new Map<string, string>();
+
+	for (const rendition of renditions) {
+		const label = rendition.name.trim() || rendition.folder || 'Untitled rendition';
+		const folder = rendition.folder.trim();
+		if (!FOLDER_PATTERN.test(folder)) {
+			return `Rendition "${label}" needs a folder name made of letters, digits, "-" or "_".`;
+		}
+		if (RESERVED_FOLDERS.has(folder.toLowerCase())) {
+			return `Rendition "${label}" cannot use the "${folder}" folder; the primary images and metadata go there.`;
+		}
+		const otherFolder = folders.get(folder.toLowerCase());
+		if (otherFolder) {
+			return `Renditions "${otherFolder}" and "${label}" both use the "${folder}" folder.`;
+		}
+		folders.set(folder.toLowerCase(), label);
+
+		for (const size of [rendition.width, rendition.height]) {
+			if (!Number.isInteger(size) || size < 1 || size > MAX_RENDITION_SIZE) {
+				return `Rendition "${label}" must be between 1 and ${MAX_RENDITION_SIZE} pixels on each side.`;
+			}
+		}
+
+		const field = rendition.metadataField?.trim();
+		if (!field) continue;
+		if (!METADATA_FIELD_PATTERN.test(field)) {
+			return `Rendition "${label}" has an invalid metadata field "${field}"; use letters, digits and "_".`;
+		}
+		if (RESERVED_METADATA_FIELDS.has(field)) {
+			return `Rendition "${label}" cannot replace the metadata "${field}" field.`;
+		}
+		const otherField = fields.get(field);
+		if (otherField) {
+			return `Renditions "${otherField}" and "${label}" both write the metadata "${field}" field.`;
+		}
+		fields.set(field, label);
+	}
+
+	return null;
+}
+
+/** Rendition settings as sent to the workers; quality is stored as 1–100 */
+export function toRenditionSpecs(renditions: OutputRendition[] = []): RenditionSpec[] {
+	return renditions.map((rendition) => ({
+		folder: rendition.folder.trim(),
+		width: rendition.width,
+		height: rendition.height,
+		encoding: isLossyFormat(rendition.format)
+			? {
+					format: rendition.format,
+					quality: (rendition.quality ?? DEFAULT_OUTPUT_QUALITY) / 100
+				}
+			: { format: rendition.format },
+		metadataField: rendition.metadataField?.trim() || undefined
+	}));
+}
+
+/** Path of a token's rendition inside the export, e.g. "thumbnails/12.webp" */
+export function getRenditionPath(spec: RenditionSpec, tokenIndex: number): string {
+	return `${spec.folder}/${tokenIndex + 1}.${getImageExtension(spec.encoding.format)}`;
+}
@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vite-plus/test';
+import { unsafeCreateLayerId, unsafeCreateTraitId } from '$lib/types/ids';
+import type { GalleryCollection } from '$lib/types/gallery';
+import type { Layer } from '$lib/types/layer';
+import { planReroll } from './token-reroll';
+
+function makeCollection(tokens: [string, string][]): GalleryCollection {
+	return {
+		id: 'collection-1',
+		name: 'Apes',
+		description: '',
+		projectName: 'Apes',
+		generatedAt: new Date(0),
+		totalSupply: tokens.length,
+		items: tokens.map(([name, background], i) => ({
+			id: `item-${i}`,
+			name,
+			imageData: new ArrayBuffer(0),
+			metadata: { traits: [{ layer: 'Background', trait: background, rarity: 0 }] },
+			rarityScore: 0,
+			rarityRank: 0,
+			collectionId: 'collection-1',
+			generatedAt: new Date(0)
+		}))
+	};
+}
+
+const layers: Layer[] = [
+	{
+		id: unsafeCreateLayerId('background'),
+		name: 'Background',
+		order: 0,
+		traits: [
+			{
+				id: unsafeCreateTraitId('blue'),
+				name: 'Blue',
+				imageData: new ArrayBuffer(0),
+				rarityWeight: 1,
+				exactCount: 2
+			},
+			{
+				id: unsafeCreateTraitId('red'),
+				name: 'Red',
+				imageData: new ArrayBuffer(0),
+				rarityWeight: 1,
+				maxCount: 5
+			}
+		]
+	}
+];
+
+describe('planReroll', () => {
+	it('keeps token numbers and reserves every combination in the collection', () => {
+		const collection = makeCollection([
+			['Apes #1', 'Blue'],
+			['Apes #2', 'Red'],
+			['Apes #3', 'Blue']
+		]);
+
+		const plan = planReroll(collection, ['item-2', 'item-0'], layers);
+
+		expect(plan.tokenIndexes).toEqual([2, 0]);
+		expect(plan.existingAttributes).toHaveLength(3);
+		expect(plan.existingAttributes[1]).toEqual([{ trait_type: 'Background', value: 'Red' }]);
+		expect(plan.keptAttributes).toEqual([[{ trait_type: 'Background', value: 'Red' }]]);
+	});
+
+	it('leaves quotas only the room the kept tokens do not use', () => {
+		const collection = makeCollection([
+			['Apes #1', 'Blue'],
+			['Apes #2', 'Red'],
+			['Apes #3', 'Blue']
+		]);
+
+		const [background] = planReroll(collection, ['item-0'], layers).layers;
+
+		expect(background.traits.map((t) => [t.exactCount, t.maxCount])).toEqual([
+			[1, undefined],
+			[undefined, 4]
+		]);
+		// The project's own layers are untouched
+		expect(layers[0].traits[0].exactCount).toBe(2);
+	});
+
+	it('falls back to collection order when names do not number tokens', () => {
+		const collection = makeCollection([
+			['Alpha', 'Blue'],
+			['Beta', 'Red']
+		]);
+
+		expect(planReroll(collection, ['item-1'], layers).tokenIndexes).toEqual([1]);
+	});
+
+	it('maps renamed and extra attributes back to the project layers', () => {
+		const collection = makeCollection([['Apes #1', 'Blue']]);
+		collection.items[0].metadata.traits = [
+			{ layer: 'Backdrop', trait: 'Blue', rarity: 0 },
+			{ layer: 'Season', trait: '1', rarity: 0 }
+		];
+		const renamed = [{ ...layers[0], attributeName: 'Backdrop' }];
+
+		const plan = planReroll(collection, ['item-0'], renamed, [
+			{ id: 'season', traitType: 'Season', source: 'static', value: '1' }
+		]);
+
+		expect(plan.existingAttributes).toEqual([[{ trait_type: 'Background', value: 'Blue' }]]);
+	});
+
+	it('rejects projects without the collection layers and unknown items', () => {
+		const collection = makeCollection([['Apes #1', 'Blue']]);
+
+		expect(() => planReroll(collection, ['item-0'], [])).toThrow(
+			'The open project has no layer "Background".'
+		);
+		expect(() => planReroll(collection, ['item-9'], layers)).toThrow(
+			'Token item-9 is not in collection "Apes".'
+		);
+	});
+});
@@ -0,0 +1,120 @@
+/**
+ * Re-rolling selected tokens of a gallery collection.
+ *
+ * Re-rolled tokens keep their token numbers but get new trait combinations.
+ * Every combination in the collection — including the re-rolled tokens' own —
+ * is reserved, so a re-roll never repeats a token. Exact and max counts only
+ * have room for what the kept tokens leave over.
+ */
+
+import type { GalleryCollection } from '$lib/types/gallery';
+import type { Layer } from '$lib/types/layer';
+import type { ExtraAttribute, OneOfOneAttribute } from '$lib/types/project';
+import { unmapLayerAttributes } from './attribute-mapping';
+import { parseTokenNumber } from './collection-extension';
+import { matchOneOfOneTraits } from './one-of-ones';
+
+export interface RerollPlan {
+	/** 0-based token index of each re-rolled item, in the order of `itemIds` */
+	tokenIndexes: number[];
+	/** Attributes of every token in the collection; re-rolls never repeat them */
+	existingAttributes: OneOfOneAttribute[][];
+	/** Attributes of the tokens that are not re-rolled; rarity ranks count only these */
+	keptAttributes: OneOfOneAttribute[][];
+	/** Project layers with exact and max counts reduced by what the kept tokens use */
+	layers: Layer[];
+}
+
+/**
+ * Work out how to re-roll `itemIds` of a collection with a project's layers.
+ * The items' attributes are mapped back to layer names with the layers'
+ * attribute settings and `extraAttributes`.
+ *
+ * @throws Error if an item is not in the collection or the project is
+ *   missing a layer the collection uses
+ */
+export function planReroll(
+	collection: GalleryCollection,
+	itemIds: string[],
+	layers: Layer[],
+	extraAttributes: ExtraAttribute[] = []
+): RerollPlan {
+	if (itemIds.length === 0) {
+		throw new Error('Select at least one token to re-roll.');
+	}
+
+	const attributes = new Map(
+		collection.items.map((item) => [item.id, toAttributes(item, layers, extraAttributes)])
+	);
+	const layerNames = new Set(layers.map((layer) => layer.name));
+	for (const itemAttributes of attributes.values()) {
+		const missing = itemAttributes.find((a) => !layerNames.has(a.trait_type));
+		if (missing) {
+			throw new Error(
+				`The open project has no layer "${missing.trait_type}". Open the project "${collection.projectName}" to re-roll its tokens.`
+			);
+		}
+	}
+
+	const positions = new Map(collection.items.map((item, i) => [item.id, i]));
+	const rerolled = new Set(itemIds);
+	const tokenIndexes = itemIds.map((id) => {
+		const position = positions.get(id);
+		if (position === undefined) {
+			throw new Error(`Token ${id} is not in collection "${collection.name}".`);
+		}
+		const tokenNumber = parseTokenNumber(collection.items[position].name);
+		return tokenNumber > 0 ? tokenNumber - 1 : position;
+	});
+
+	const keptAttributes = collection.items
+		.filter((item) => !rerolled.has(item.id))
+		.map((item) => attributes.get(item.id)!);
+
+	return {
+		// Fall back to collection order when names don't number tokens uniquely
+		tokenIndexes:
+			new Set(tokenIndexes).size === tokenIndexes.length
+				? tokenIndexes
+				: itemIds.map((id) => positions.get(id)!),
+		existingAttributes: [...attributes.values()],
+		keptAttributes,
+		layers: withRemainingQuotas(layers, keptAttributes)
+	};
+}
+
+/** Lower each trait's exact and max count by how many kept tokens already have it */
+function withRemainingQuotas(layers: Layer[], keptAttributes: OneOfOneAttribute[][]): Layer[] {
+	const used = new Map<string, number>();
+	for (const attributes of keptAttributes) {
+		for (const trait of matchOneOfOneTraits(attributes, layers).traits.values()) {
+			used.set(trait.id, (used.get(trait.id) ?? 0) + 1);
+		}
+	}
+
+	return layers.map((layer) => ({
+		...layer,
+		traits: layer.traits.map((trait) => {
+			const count = used.get(trait.id) ?? 0;
+			if (count === 0) return trait;
+			return {
+				...trait,
+				exactCount:
+					trait.exactCount === undefined ? undefined : Math.max(0, trait.exactCount - count),
+				maxCount: trait.maxCount === undefined ? undefined : Math.max(0, trait.maxCount - count)
+			};
+		})
+	}));
+}
+
+function toAttributes(
+	item: GalleryCollection['items'][number],
+	layers: Layer[],
+	extraAttributes: ExtraAttribute[]
+): OneOfOneAttribute[] {
+	return unmapLayerAttributes(
+		item.metadata.traits.map((t) => ({ trait_type: t.layer, value: t.trait })),
+		layers,
+		extraAttributes
+	);
+}
@@ -0,0 +1,80 @@
+import { describe, expect, it } from 'vite-plus/test';
+import {
+	findTokenTemplateProblem,
+	getProjectTokenTemplates,
+	getTraitRarityTier,
+	oneOfOneTemplateTraits,
+	renderTokenTemplate,
+	toTemplateTraits,
+	type TokenTemplateContext
+} from './token-templates';
+
+const layers = [
+	{
+		id: 'body',
+		name: 'Body',
+		traits: [
+			{ name: 'Gold', rarityWeight: 1 },
+			{ name: 'Plain', rarityWeight: 99 }
+		]
+	},
+	{ id: 'hat', name: 'Hat', isOptional: true, traits: [{ name: 'Cap', rarityWeight: 1 }] }
+];
+
+const token: TokenTemplateContext = {
+	tokenIndex: 11,
+	projectName: 'Apes',
+	traits: toTemplateTraits(layers, [{ layerId: 'body', trait: layers[0].traits[0] }])
+};
+
+describe('token templates', () => {
+	it('fills token numbers, the project name and trait values', () => {
+		expect(renderTokenTemplate('{project} #{id}', token)).toBe('Apes #12');
+		expect(renderTokenTemplate('{Body} Ape #{id:04}', token)).toBe('Gold Ape #0012');
+		expect(renderTokenTemplate('{body:tier} {BODY}, hat: {Hat}', token)).toBe(
+			'Legendary Gold, hat: None'
+		);
+	});
+
+	it('ranks traits by their share of the layer', () => {
+		expect(getTraitRarityTier(layers[0].traits[1], layers[0])).toBe('Common');
+		expect(getTraitRarityTier({ rarityWeight: 1 }, { traits: [{ rarityWeight: 1 }] })).toBe(
+			'Common'
+		);
+		expect(
+			getTraitRarityTier(
+				{ rarityWeight: 1 },
+				{ isOptional: true, noneProbability: 0.8, traits: [{ rarityWeight: 1 }] }
+			)
+		).toBe('Rare');
+		expect(oneOfOneTemplateTraits([{ trait_type: 'Body', value: 'Robot' }])[0].tier).toBe(
+			'Legendary'
+		);
+	});
+
+	it('does not parse inserted values again', () => {
+		const braces = { ...token, projectName: '{Body}' };
+		expect(renderTokenTemplate('{project}', braces)).toBe('{Body}');
+	});
+
+	it('reports placeholders it cannot fill', () => {
+		const names = layers.map((layer) => layer.name);
+		expect(findTokenTemplateProblem('{Body:tier} #{id:03}', names)).toBeNull();
+		expect(findTokenTemplateProblem('#{id:3}', names)).toBe(
+			'"{id:3}" needs a padding like {id:04} (up to 10 digits).'
+		);
+		expect(findTokenTemplateProblem('{Body:color}', names)).toBe(
+			'"{Body:color}" has an unknown format; only {Layer:tier} is supported.'
+		);
+		expect(findTokenTemplateProblem('{}', names)).toBe('Empty placeholder "{}".');
+		expect(findTokenTemplateProblem('Ape {id', names)).toBe(
+			'Template has an unmatched "{" or "}".'
+		);
+	});
+
+	it('leaves blank templates out so the defaults apply', () => {
+		expect(getProjectTokenTemplates({ nameTemplate: ' ', descriptionTemplate: '{Body}' })).toEqual({
+			description: '{Body}'
+		});
+	});
+});
@@ -0,0 +1,194 @@
+/**
+ * Token name and description templates.
+ *
+ * A template is plain text with placeholders in braces:
+ *
+ * - `{id}` — token number, `{id:04}` zero-pads it to four digits
+ * - `{project}` — project name
+ * - `{Layer}` — metadata value of the token's trait in that layer ("None"
+ *   when it is empty)
+ * - `{Layer:tier}` — rarity tier of that trait, from its share of the layer
+ *
+ * Layer names match case-insensitively; `id` and `project` win over layers
+ * of the same name. Values are inserted as-is and never parsed again.
+ */
+
+import { NONE_TRAIT_VALUE } from '$lib/types/layer';
+import type { Project } from '$lib/types/project';
+import { getTraitMetadataValue } from './attribute-mapping';
+import { DEFAULT_RARITY_TIERS } from './rarity-calculator';
+
+/** How tokens were named before templates existed */
+export const DEFAULT_NAME_TEMPLATE = '{project} #{id}';
+
+/** Templates as sent to the workers; omitted ones keep the defaults */
+export interface TokenTemplates {
+	name?: string;
+	/** The project description is used verbatim when omitted */
+	description?: string;
+}
+
+export interface TokenTemplateTrait {
+	layer: string;
+	value: string;
+	/** Rarity tier name, e.g. "Rare"; empty for layers the token leaves empty */
+	tier: string;
+}
+
+export interface TokenTemplateContext {
+	/** 0-based; rendered as token number `tokenIndex + 1` */
+	tokenIndex: number;
+	projectName: string;
+	traits: TokenTemplateTrait[];
+}
+
+/** Minimal layer shape needed to work out a trait's tier */
+interface TierLayer {
+	isOptional?: boolean;
+	noneProbability?: number;
+	traits: { rarityWeight: number }[];
+}
+
+/** Minimal layer shape needed to list a token's template traits */
+interface TemplateLayer extends TierLayer {
+	id: string;
+	name: string;
+}
+
+const PLACEHOLDER_PATTERN = /\{([^{}]*)\}/g;
+const PAD_PATTERN = /^0(\d{1,2})$/;
+const MAX_PAD_WIDTH = 10;
+
+/** Tier of the rarest traits; 1-of-1s always rank in it */
+const TOP_TIER = DEFAULT_RARITY_TIERS[DEFAULT_RARITY_TIERS.length - 1].name;
+
+/**
+ * Name of the rarity tier a trait falls into, using the same score and tiers
+ * as the gallery's rarity view: 100 divided by the trait's expected
+ * percentage of tokens.
+ */
+export function getTraitRarityTier(trait: { rarityWeight: number }, layer: TierLayer): string {
+	const weight = (t: { rarityWeight: number }) => (t.rarityWeight > 0 ? t.rarityWeight : 1);
+	const total = layer.traits.reduce((sum, t) => sum + weight(t), 0);
+	const filled = layer.isOptional ? 1 - (layer.noneProbability ?? 0) : 1;
+	const share = total > 0 ? (weight(trait) / total) * filled : 0;
+	if (share <= 0) return TOP_TIER;
+
+	const score = 1 / share;
+	return (
+		DEFAULT_RARITY_TIERS.find((t) => score >= t.minScore && score <= t.maxScore)?.name ?? TOP_TIER
+	);
+}
+
+/**
+ * Template traits of a generated token: the chosen trait of every layer, and
+ * "None" for layers the token leaves empty.
+ */
+export function toTemplateTraits(
+	layers: TemplateLayer[],
+	chosen: {
+		layerId: string;
+		trait: { name: string; metadataValue?: string; rarityWeight: number };
+	}[]
+): TokenTemplateTrait[] {
+	return layers.map((layer) => {
+		const trait = chosen.find((c) => c.layerId === layer.id)?.trait;
+		return trait
+			? {
+					layer: layer.name,
+					value: getTraitMetadataValue(trait),
+					tier: getTraitRarityTier(trait, layer)
+				}
+			: { layer: layer.name, value: NONE_TRAIT_VALUE, tier: '' };
+	});
+}
+
+/** Template traits of a hand-made 1-of-1, which ranks in the top tier */
+export function oneOfOneTemplateTraits(
+	attributes: { trait_type: string; value: string }[]
+): TokenTemplateTrait[] {
+	return attributes.map((a) => ({ layer: a.trait_type, value: a.value, tier: TOP_TIER }));
+}
+
+/** The project's templates, leaving out blank ones */
+export function getProjectTokenTemplates(
+	project: Pick<Project, 'nameTemplate' | 'descriptionTemplate'>
+): TokenTemplates {
+	return {
+		...(project.nameTemplate?.trim() ? { name: project.nameTemplate.trim() } : {}),
+		...(project.descriptionTemplate?.trim()
+			? { description: project.descriptionTemplate.trim() }
+			: {})
+	};
+}
+
+/**
+ * Find the first placeholder a template cannot fill, or null when every
+ * placeholder refers to a built-in field or one of `layerNames`.
+ */
+export function findTokenTemplateProblem(template: string, layerNames: string[]): string | null {
+	const layers = new Set(layerNames.map((name) => name.trim().toLowerCase()));
+
+	for (const [placeholder, inner] of template.matchAll(PLACEHOLDER_PATTERN)) {
+		const { key, format } = splitPlaceholder(inner, layers);
+		if (key === '') return `Empty placeholder "${placeholder}".`;
+
+		if (key === 'id') {
+			const pad = format === undefined ? null : PAD_PATTERN.exec(format);
+			if (format !== undefined && (!pad || Number(pad[1]) > MAX_PAD_WIDTH)) {
+				return `"${placeholder}" needs a padding like {id:04} (up to ${MAX_PAD_WIDTH} digits).`;
+			}
+		} else if (key === 'project') {
+			if (format !== undefined) return `"${placeholder}" does not take a format.`;
+		} else if (!layers.has(key)) {
+			return `"${placeholder}" does not match a layer; use {id}, {project} or a layer name.`;
+		} else if (format !== undefined && format !== 'tier') {
+			return `"${placeholder}" has an unknown format; only {Layer:tier} is supported.`;
+		}
+	}
+
+	if (/[{}]/.test(template.replace(PLACEHOLDER_PATTERN, ''))) {
+		return 'Template has an unmatched "{" or "}".';
+	}
+	return null;
+}
+
+/** Fill a template's placeholders for one token */
+export function renderTokenTemplate(template: string, context: TokenTemplateContext): string {
+	const traits = new Map(context.traits.map((t) => [t.layer.trim().toLowerCase(), t]));
+	const layers = new Set(traits.keys());
+
+	return template
+		.replace(PLACEHOLDER_PATTERN, (_placeholder, inner: string) => {
+			const { key, format } = splitPlaceholder(inner, layers);
+			if (key === 'id') {
+				const pad = format === undefined ? null : PAD_PATTERN.exec(format);
+				return String(context.tokenIndex + 1).padStart(pad ? Number(pad[1]) : 0, '0');
+			}
+			if (key === 'project') return context.projectName;
+
+			const trait = traits.get(key);
+			if (!trait) return format === 'tier' ? '' : NONE_TRAIT_VALUE;
+			return format === 'tier' ? trait.tier : trait.value;
+		})
+		.trim();
+}
+
+/**
+ * Split `Layer:format` at its last colon, unless the whole text is itself a
+ * layer name (layer names may contain colons).
+ */
+function splitPlaceholder(
+	inner: string,
+	layers: Set<string>
+): { key: string; format: string | undefined } {
+	const whole = inner.trim().toLowerCase();
+	const colon = inner.lastIndexOf(':');
+	if (colon === -1 || whole === 'id' || whole === 'project' || layers.has(whole)) {
+		return { key: whole, format: undefined };
+	}
+	return {
+		key: inner.slice(0, colon).trim().toLowerCase(),
+		format: inner.slice(colon + 1).trim()
+	};
+}
@@ -0,0 +1,96 @@
+import { describe, expect, it } from 'vite-plus/test';
+import { findTraitLinkProblem, findTraitLinkProblems, linksAllowPair } from './trait-links';
+import { unsafeCreateLayerId, unsafeCreateTraitId } from '$lib/types/ids';
+import type { Layer, Trait } from '$lib/types/layer';
+
+function trait(id: string, overrides: Partial<Trait> = {}): Trait {
+	return {
+		id: unsafeCreateTraitId(id),
+		name: id,
+		imageData: new ArrayBuffer(4),
+		rarityWeight: 1,
+		...overrides
+	};
+}
+
+function layer(id: string, traits: Trait[]): Layer {
+	return { id: unsafeCreateLayerId(id), name: id, order: 0, traits };
+}
+
+function link(layerId: string, traitId: string) {
+	return { layerId: unsafeCreateLayerId(layerId), traitId: unsafeCreateTraitId(traitId) };
+}
+
+describe('linksAllowPair', () => {
+	it('only accepts the linked partner in the linked layer', () => {
+		const red = trait('red', { links: [link('right', 'rightRed')] });
+		expect(linksAllowPair(red, 'left', trait('rightRed'), 'right')).toBe(true);
+		expect(linksAllowPair(red, 'left', trait('rightBlue'), 'right')).toBe(false);
+		expect(linksAllowPair(red, 'left', trait('hat'), 'head')).toBe(true);
+		// Checked from either side
+		expect(linksAllowPair(trait('rightBlue'), 'right', red, 'left')).toBe(false);
+	});
+});
+
+describe('findTraitLinkProblems', () => {
+	it('accepts links that can be satisfied', () => {
+		const layers = [
+			layer('left', [trait('lr', { links: [link('right', 'rr')] }), trait('lb')]),
+			layer('right', [trait('rr', { links: [link('left', 'lr')] }), trait('rb')])
+		];
+		expect(findTraitLinkProblem(layers)).toBeNull();
+	});
+
+	it('reports links to missing traits and into the same layer', () => {
+		const layers = [
+			layer('left', [
+				trait('lr', { links: [link('right', 'gone')] }),
+				trait('lb', { links: [link('left', 'lr')] })
+			]),
+			layer('right', [trait('rr')])
+		];
+		expect(findTraitLinkProblems(layers).map((p) => p.traitId)).toEqual(['lr', 'lb']);
+		expect(findTraitLinkProblem(layers)).toContain('no longer exists');
+	});
+
+	it('reports groups that need two traits of one layer', () => {
+		// lr -> rr -> lb puts two left sleeves on the same token
+		const layers = [
+			layer('left', [trait('lr', { links: [link('right', 'rr')] }), trait('lb')]),
+			layer('right', [trait('rr', { links: [link('left', 'lr'), link('left', 'lb')] })])
+		];
+		const problems = findTraitLinkProblems(layers);
+		expect(problems.map((p) => p.traitId).sort()).toEqual(['lb', 'lr', 'rr']);
+		expect(problems[0].message).toContain('are both in layer "left"');
+	});
+
+	it('reports linked traits that ruler rules keep apart', () => {
+		const layers = [
+			layer('left', [
+				trait('lr', {
+					type: 'ruler',
+					rulerRules: [
+						{
+							layerId: unsafeCreateLayerId('right'),
+							allowedTraitIds: [],
+							forbiddenTraitIds: [unsafeCreateTraitId('rr')]
+						}
+					],
+					links: [link('right', 'rr')]
+				})
+			]),
+			layer('right', [trait('rr', { links: [link('left', 'lr')] })])
+		];
+		expect(findTraitLinkProblem(layers)).toContain('Ruler rules forbid');
+	});
+
+	it('reports exact counts above a linked trait cap', () => {
+		const layers = [
+			layer('left', [trait('lr', { exactCount: 10, links: [link('right', 'rr')] })]),
+			layer('right', [trait('rr', { maxCount: 5, links: [link('left', 'lr')] })])
+		];
+		expect(findTraitLinkProblem(layers)).toBe(
+			'Trait "lr" must appear on 10 tokens, but its linked trait "rr" is limited to 5.'
+		);
+	});
+});
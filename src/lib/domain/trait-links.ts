@@ -0,0 +1,202 @@
+/**
+ * Linked traits.
+ *
+ * A link binds two traits in different layers so that whenever one is on a
+ * token the other is too (e.g. "Left Sleeve: Red" with "Right Sleeve: Red").
+ * Links are stored on both traits; the solver enforces them in both
+ * directions and treats a link into an optional layer as a reason to fill it.
+ */
+
+import type { RulerRule, TraitLink } from '$lib/types/layer';
+
+/**
+ * Minimal trait shape needed to check links. Satisfied by both `Trait` and
+ * `TransferrableTrait`, so the solver and the expected distribution can share it.
+ */
+export interface LinkableTrait {
+	id: string;
+	name: string;
+	type?: string;
+	rulerRules?: RulerRule[];
+	exactCount?: number;
+	maxCount?: number;
+	links?: TraitLink[];
+}
+
+export interface LinkableLayer {
+	id: string;
+	name: string;
+	traits: LinkableTrait[];
+}
+
+export interface TraitLinkProblem {
+	layerId: string;
+	traitId: string;
+	message: string;
+}
+
+/**
+ * Whether a trait's links allow the given trait in another layer: a trait
+ * linked into that layer only accepts its linked partner there.
+ */
+export function linkAllows(
+	trait: Pick<LinkableTrait, 'links'>,
+	targetLayerId: string,
+	targetTraitId: string
+): boolean {
+	if (!trait.links) return true;
+	const link = trait.links.find((l) => l.layerId === targetLayerId);
+	return !link || link.traitId === targetTraitId;
+}
+
+/**
+ * Whether two traits may appear on the same token as far as links go.
+ */
+export function linksAllowPair(
+	traitA: Pick<LinkableTrait, 'links'> & { id: string },
+	layerIdA: string,
+	traitB: Pick<LinkableTrait, 'links'> & { id: string },
+	layerIdB: string
+): boolean {
+	return linkAllows(traitA, layerIdB, traitB.id) && linkAllows(traitB, layerIdA, traitA.id);
+}
+
+/**
+ * Find links that can never be satisfied. Linked traits form groups that are
+ * always chosen together, so a group fails when it needs two traits of one
+ * layer, when ruler rules forbid two of its members together, or when one
+ * member must appear more often than another may. Every trait that can
+ * never be generated because of its links gets one problem.
+ */
+export function findTraitLinkProblems(layers: LinkableLayer[]): TraitLinkProblem[] {
+	const problems: TraitLinkProblem[] = [];
+	const entries = new Map<string, { layer: LinkableLayer; trait: LinkableTrait }>();
+	for (const layer of layers) {
+		for (const trait of layer.traits) {
+			entries.set(linkKey(layer.id, trait.id), { layer, trait });
+		}
+	}
+
+	// Undirected adjacency between "layerId:traitId" keys
+	const neighbors = new Map<string, Set<string>>();
+	const connect = (a: string, b: string) => {
+		if (!neighbors.has(a)) neighbors.set(a, new Set());
+		neighbors.get(a)!.add(b);
+	};
+
+	for (const layer of layers) {
+		for (const trait of layer.traits) {
+			for (const link of trait.links ?? []) {
+				const report = (message: string) =>
+					problems.push({ layerId: layer.id, traitId: trait.id, message });
+
+				if (link.layerId === layer.id) {
+					report(
+						`Trait "${trait.name}" is linked to a trait in its own layer "${layer.name}". Linked traits must be in different layers.`
+					);
+					continue;
+				}
+				const target = entries.get(linkKey(link.layerId, link.traitId));
+				if (!target) {
+					report(
+						`Trait "${trait.name}" in layer "${layer.name}" is linked to a trait that no longer exists.`
+					);
+					continue;
+				}
+				const key = linkKey(layer.id, trait.id);
+				const targetKey = linkKey(link.layerId, link.traitId);
+				connect(key, targetKey);
+				connect(targetKey, key);
+			}
+		}
+	}
+
+	const visited = new Set<string>();
+	for (const start of neighbors.keys()) {
+		if (visited.has(start)) continue;
+
+		const group: string[] = [];
+		const stack = [start];
+		visited.add(start);
+		while (stack.length > 0) {
+			const key = stack.pop()!;
+			group.push(key);
+			for (const next of neighbors.get(key) ?? []) {
+				if (visited.has(next)) continue;
+				visited.add(next);
+				stack.push(next);
+			}
+		}
+
+		const message = findGroupProblem(group.map((key) => entries.get(key)!));
+		if (!message) continue;
+		for (const key of group) {
+			const { layer, trait } = entries.get(key)!;
+			problems.push({ layerId: layer.id, traitId: trait.id, message });
+		}
+	}
+
+	return problems;
+}
+
+/**
+ * First link problem as a user-facing message, or null when every link can
+ * be satisfied.
+ */
+export function findTraitLinkProblem(layers: LinkableLayer[]): string | null {
+	return findTraitLinkProblems(layers)[0]?.message ?? null;
+}
+
+function findGroupProblem(group: { layer: LinkableLayer; trait: LinkableTrait }[]): string | null {
+	const byLayer = new Map<string, LinkableTrait>();
+	for (const { layer, trait } of group) {
+		const other = byLayer.get(layer.id);
+		if (other) {
+			return `Linked traits "${other.name}" and "${trait.name}" are both in layer "${layer.name}", so neither can ever be generated.`;
+		}
+		byLayer.set(layer.id, trait);
+	}
+
+	for (let i = 0; i < group.length; i++) {
+		for (let j = i + 1; j < group.length; j++) {
+			const a = group[i];
+			const b = group[j];
+			if (
+				!rulerAllows(a.trait, b.layer.id, b.trait.id) ||
+				!rulerAllows(b.trait, a.layer.id, a.trait.id)
+			) {
+				return `Ruler rules forbid linked traits "${a.trait.name}" and "${b.trait.name}" together, so neither can ever be generated.`;
+			}
+		}
+	}
+
+	// Every member appears on the same tokens, so the smallest cap binds them all
+	let cap: { trait: LinkableTrait; count: number } | null = null;
+	for (const { trait } of group) {
+		const count = Math.min(trait.exactCount ?? Infinity, trait.maxCount ?? Infinity);
+		if (count !== Infinity && (!cap || count < cap.count)) cap = { trait, count };
+	}
+	if (cap) {
+		for (const { trait } of group) {
+			if (trait.exactCount !== undefined && trait.exactCount > cap.count) {
+				return `Trait "${trait.name}" must appear on ${trait.exactCount} tokens, but its linked trait "${cap.trait.name}" is limited to ${cap.count}.`;
+			}
+		}
+	}
+
+	return null;
+}
+
+function rulerAllows(ruler: LinkableTrait, targetLayerId: string, targetTraitId: string): boolean {
+	if (ruler.type !== 'ruler' || !ruler.rulerRules) return true;
+	const rule = ruler.rulerRules.find((r) => r.layerId === targetLayerId);
+	if (!rule) return true;
+	const forbidden: readonly string[] = rule.forbiddenTraitIds;
+	const allowed: readonly string[] = rule.allowedTraitIds;
+	if (forbidden.includes(targetTraitId)) return false;
+	return allowed.length === 0 || allowed.includes(targetTraitId);
+}
+
+function linkKey(layerId: string, traitId: string): string {
+	return `${layerId}:${traitId}`;
+}
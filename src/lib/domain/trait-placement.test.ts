@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vite-plus/test';
+import {
+	computePlacementRect,
+	DEFAULT_TRAIT_PLACEMENT,
+	isFullCanvasPlacement
+} from './trait-placement';
+import type { TraitPlacement } from '$lib/types/layer';
+
+const canvas = { width: 1000, height: 1000 };
+const badge = { width: 200, height: 100 };
+
+function placement(overrides: Partial<TraitPlacement>): TraitPlacement {
+	return { ...DEFAULT_TRAIT_PLACEMENT, ...overrides };
+}
+
+describe('computePlacementRect', () => {
+	it('fills the canvas without a placement', () => {
+		expect(computePlacementRect(undefined, badge, canvas)).toEqual({
+			x: 0,
+			y: 0,
+			width: 1000,
+			height: 1000
+		});
+	});
+
+	it('keeps the aspect ratio when containing', () => {
+		expect(computePlacementRect(placement({ fit: 'contain' }), badge, canvas)).toEqual({
+			x: 0,
+			y: 250,
+			width: 1000,
+			height: 500
+		});
+	});
+
+	it('anchors original-size images and applies offset and scale', () => {
+		expect(
+			computePlacementRect(
+				placement({ fit: 'none', anchor: 'bottom-right', x: -10, y: -20 }),
+				badge,
+				canvas
+			)
+		).toEqual({ x: 790, y: 880, width: 200, height: 100 });
+
+		expect(
+			computePlacementRect(placement({ fit: 'none', anchor: 'top-left', scale: 2 }), badge, canvas)
+		).toEqual({ x: 0, y: 0, width: 400, height: 200 });
+	});
+
+	it('scales offsets and original sizes to a smaller preview canvas', () => {
+		expect(
+			computePlacementRect(
+				placement({ fit: 'none', anchor: 'top-left', x: 100, y: 50 }),
+				badge,
+				{ width: 500, height: 500 },
+				0.5
+			)
+		).toEqual({ x: 50, y: 25, width: 100, height: 50 });
+	});
+});
+
+describe('isFullCanvasPlacement', () => {
+	it('detects the legacy full-canvas stretch', () => {
+		expect(isFullCanvasPlacement(undefined)).toBe(true);
+		expect(isFullCanvasPlacement(DEFAULT_TRAIT_PLACEMENT)).toBe(true);
+		expect(isFullCanvasPlacement(placement({ x: 5 }))).toBe(false);
+		expect(isFullCanvasPlacement(placement({ fit: 'contain' }))).toBe(false);
+	});
+});
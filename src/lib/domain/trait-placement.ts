@@ -0,0 +1,84 @@
+/**
+ * Trait placement on the output canvas.
+ *
+ * Resolves a trait's `placement` into the rectangle the image is drawn into.
+ * Shared by the live preview and the worker renderer so both agree.
+ */
+
+import type { PlacementAnchor, TraitPlacement } from '$lib/types/layer';
+
+export interface Size {
+	width: number;
+	height: number;
+}
+
+export interface PlacementRect extends Size {
+	x: number;
+	y: number;
+}
+
+export const DEFAULT_TRAIT_PLACEMENT: TraitPlacement = {
+	fit: 'stretch',
+	anchor: 'center',
+	x: 0,
+	y: 0,
+	scale: 1
+};
+
+/**
+ * Whether a trait is drawn as a full-canvas stretch, the legacy behaviour
+ * the renderers can take a fast path for.
+ */
+export function isFullCanvasPlacement(placement: TraitPlacement | undefined): boolean {
+	return (
+		!placement ||
+		(placement.fit === 'stretch' && placement.scale === 1 && placement.x === 0 && placement.y === 0)
+	);
+}
+
+/**
+ * Rectangle to draw a trait image into.
+ *
+ * @param image natural size of the trait image
+ * @param canvas size of the canvas being drawn on
+ * @param outputScale canvas pixels per output pixel; offsets are stored in
+ * output pixels, so the preview passes its display scale here
+ */
+export function computePlacementRect(
+	placement: TraitPlacement | undefined,
+	image: Size,
+	canvas: Size,
+	outputScale = 1
+): PlacementRect {
+	if (!placement) return { x: 0, y: 0, width: canvas.width, height: canvas.height };
+
+	const base = fitSize(placement.fit, image, canvas, outputScale);
+	const width = base.width * placement.scale;
+	const height = base.height * placement.scale;
+	const [ax, ay] = anchorFactors(placement.anchor);
+
+	return {
+		x: (canvas.width - width) * ax + placement.x * outputScale,
+		y: (canvas.height - height) * ay + placement.y * outputScale,
+		width,
+		height
+	};
+}
+
+function fitSize(fit: TraitPlacement['fit'], image: Size, canvas: Size, outputScale: number): Size {
+	if (fit === 'stretch' || image.width <= 0 || image.height <= 0) {
+		return { width: canvas.width, height: canvas.height };
+	}
+	if (fit === 'none') {
+		return { width: image.width * outputScale, height: image.height * outputScale };
+	}
+	const ratio = Math.min(canvas.width / image.width, canvas.height / image.height);
+	return { width: image.width * ratio, height: image.height * ratio };
+}
+
+// Horizontal and vertical position of the anchor: 0 = start, 0.5 = middle, 1 = end
+function anchorFactors(anchor: PlacementAnchor): [number, number] {
+	const x = anchor.endsWith('left') ? 0 : anchor.endsWith('right') ? 1 : 0.5;
+	const y = anchor.startsWith('top') ? 0 : anchor.startsWith('bottom') ? 1 : 0.5;
+	return [x, y];
+}
@@ -22,11 +22,21 @@ import {
 	validateImportedProject,
 	validateLayer,
 	validateLayerName,
+	validateNoneProbability,
+	validateOneOfOne,
+	validateBlendSettings,
+	validateTraitPlacement,
+	validateColorTransform,
+	validateCompatibilityRule,
+	validateExtraAttribute,
 	validateProject,
 	validateProjectName,
 	validateRarityWeight,
 	validateTrait,
-	validateTraitName
+	validateTokenTemplate,
+	validateTraitMetadata,
+	validateTraitName,
+	validateTraitSupply
 } from './validation';
 
 describe('Zod Validation Module', () => {
@@ -226,10 +236,249 @@ describe('Zod Validation Module', () => {
 			}
 		});
 
+		it('accepts fine-grained weights and percentages', () => {
+			expect(validateRarityWeight(1.5).success).toBe(true);
+			expect(validateRarityWeight(0.01).success).toBe(true);
+			expect(validateRarityWeight(42.75).success).toBe(true);
+		});
+
 		it('returns false for invalid rarity weight', () => {
 			expect(validateRarityWeight(0).success).toBe(false);
-			expect(validateRarityWeight(6).success).toBe(false);
-			expect(validateRarityWeight(1.5).success).toBe(false);
+			expect(validateRarityWeight(0.001).success).toBe(false);
+			expect(validateRarityWeight(20000).success).toBe(false);
+		});
+	});
+
+	describe('validateBlendSettings', () => {
+		it('accepts known blend modes and opacities between 0 and 1', () => {
+			expect(validateBlendSettings({}).success).toBe(true);
+			expect(validateBlendSettings({ blendMode: 'multiply', opacity: 0.4 }).success).toBe(true);
+			expect(validateBlendSettings({ blendMode: 'destination-out', opacity: 0 }).success).toBe(
+				true
+			);
+		});
+
+		it('rejects unknown blend modes and out-of-range opacity', () => {
+			expect(validateBlendSettings({ blendMode: 'glow' as never }).success).toBe(false);
+			expect(validateBlendSettings({ opacity: 1.5 }).error).toBe(
+				'Opacity must be between 0% and 100%'
+			);
+		});
+	});
+
+	describe('validateTraitPlacement', () => {
+		const placement = { fit: 'none' as const, anchor: 'center' as const, x: 0, y: 0, scale: 1 };
+
+		it('accepts a valid placement', () => {
+			expect(validateTraitPlacement({ ...placement, x: -40, scale: 0.5 }).success).toBe(true);
+		});
+
+		it('rejects out-of-range scale and offsets', () => {
+			expect(validateTraitPlacement({ ...placement, scale: 0 }).error).toBe(
+				'Scale must be between 0.01 and 100'
+			);
+			expect(validateTraitPlacement({ ...placement, y: 20000 }).error).toBe(
+				'Offset must be between -10000 and 10000 pixels'
+			);
+		});
+	});
+
+	describe('validateColorTransform', () => {
+		it('accepts each transform kind', () => {
+			expect(validateColorTransform({ kind: 'hue-shift', degrees: -90 }).success).toBe(true);
+			expect(
+				validateColorTransform({ kind: 'tint', color: '#A0b1C2', strength: 0.3 }).success
+			).toBe(true);
+			expect(
+				validateColorTransform({
+					kind: 'palette-swap',
+					swaps: [{ from: '#000000', to: '#ffffff' }]
+				}).success
+			).toBe(true);
+		});
+
+		it('rejects malformed colours', () => {
+			expect(validateColorTransform({ kind: 'tint', color: 'red', strength: 0.3 }).error).toBe(
+				'Colours must be hex values like #ff0000'
+			);
+		});
+	});
+
+	describe('validateCompatibilityRule', () => {
+		const layers = [
+			{ id: 'head', name: 'Head', traits: [{ id: 'helmet' }] },
+			{ id: 'hair', name: 'Hair', traits: [{ id: 'long' }] }
+		];
+		const rule = (when: object, target: object) =>
+			({ id: 'r1', kind: 'requires', when, target }) as never;
+
+		it('accepts rules between two layers', () => {
+			expect(
+				validateCompatibilityRule(
+					rule(
+						{ layerId: 'head', traitIds: ['helmet'] },
+						{ layerId: 'hair', traitIds: [], none: true }
+					),
+					layers
+				).success
+			).toBe(true);
+		});
+
+		it('rejects rules that cannot refer to the project', () => {
+			expect(
+				validateCompatibilityRule(
+					rule(
+						{ layerId: 'head', traitIds: ['helmet'] },
+						{ layerId: 'head', traitIds: ['helmet'] }
+					),
+					layers
+				).error
+			).toBe('A rule must compare two different layers');
+			expect(
+				validateCompatibilityRule(
+					rule({ layerId: 'head', traitIds: ['helmet'] }, { layerId: 'hair', traitIds: [] }),
+					layers
+				).error
+			).toBe('Choose at least one trait or "None" for layer "Hair"');
+			expect(
+				validateCompatibilityRule(
+					rule({ layerId: 'head', traitIds: ['long'] }, { layerId: 'hair', traitIds: ['long'] }),
+					layers
+				).error
+			).toBe('Rule refers to a trait that is not in layer "Head"');
+			expect(
+				validateCompatibilityRule(
+					rule({ layerId: 'body', traitIds: ['robot'] }, { layerId: 'hair', traitIds: ['long'] }),
+					layers
+				).error
+			).toBe('Rule refers to a layer that no longer exists');
+		});
+	});
+
+	describe('validateOneOfOne', () => {
+		const oneOfOne = {
+			id: 'legend',
+			name: 'Legend',
+			imageData: new ArrayBuffer(8),
+			attributes: [{ trait_type: ' Head ', value: 'Crown' }],
+			tokenNumber: 1
+		};
+
+		it('accepts 1-of-1s and trims attributes', () => {
+			const result = validateOneOfOne(oneOfOne);
+			expect(result.success).toBe(true);
+			expect(result.data?.attributes).toEqual([{ trait_type: 'Head', value: 'Crown' }]);
+		});
+
+		it('rejects bad names, token numbers and attributes', () => {
+			expect(validateOneOfOne({ ...oneOfOne, name: '' }).success).toBe(false);
+			expect(validateOneOfOne({ ...oneOfOne, tokenNumber: 0 }).error).toBe(
+				'Token number must be a whole number between 1 and 10000'
+			);
+			expect(
+				validateOneOfOne({ ...oneOfOne, attributes: [{ trait_type: 'Head', value: ' ' }] }).error
+			).toBe('Attribute values cannot be empty');
+			expect(
+				validateOneOfOne({
+					...oneOfOne,
+					attributes: [
+						{ trait_type: 'Head', value: 'Crown' },
+						{ trait_type: 'Head', value: 'Cap' }
+					]
+				}).error
+			).toBe('Attribute "Head" is listed more than once');
+		});
+	});
+
+	describe('validateNoneProbability', () => {
+		it('accepts probabilities between 0 and 1', () => {
+			expect(validateNoneProbability(0).success).toBe(true);
+			expect(validateNoneProbability(0.7).success).toBe(true);
+			expect(validateNoneProbability(1).success).toBe(true);
+		});
+
+		it('rejects out-of-range probabilities', () => {
+			expect(validateNoneProbability(-0.1).success).toBe(false);
+			expect(validateNoneProbability(70).success).toBe(false);
+		});
+	});
+
+	describe('validateTokenTemplate', () => {
+		it('accepts built-in fields and layer names', () => {
+			expect(validateTokenTemplate('{Body} Ape #{id:04}', ['Body']).success).toBe(true);
+			expect(validateTokenTemplate('', []).success).toBe(true);
+		});
+
+		it('rejects unknown placeholders and overlong templates', () => {
+			expect(validateTokenTemplate('{Hat} #{id}', ['Body']).error).toBe(
+				'"{Hat}" does not match a layer; use {id}, {project} or a layer name.'
+			);
+			expect(validateTokenTemplate('x'.repeat(501), []).success).toBe(false);
+		});
+	});
+
+	describe('validateExtraAttribute', () => {
+		it('accepts static and computed attributes', () => {
+			expect(
+				validateExtraAttribute({ id: 'a', traitType: 'Season', source: 'static', value: '1' })
+					.success
+			).toBe(true);
+			expect(
+				validateExtraAttribute({
+					id: 'b',
+					traitType: 'Rank',
+					source: 'rarity-rank',
+					displayType: 'number',
+					maxValue: 1000
+				}).success
+			).toBe(true);
+		});
+
+		it('rejects blank trait types and values that cannot be written', () => {
+			expect(validateExtraAttribute({ id: 'a', traitType: ' ', source: 'trait-count' }).error).toBe(
+				'Trait type must be 1-100 characters'
+			);
+			expect(validateExtraAttribute({ id: 'a', traitType: 'Season', source: 'static' }).error).toBe(
+				'Attribute "Season" needs a value.'
+			);
+		});
+	});
+
+	describe('validateTraitMetadata', () => {
+		it('accepts a metadata value and trimmed attributes', () => {
+			expect(
+				validateTraitMetadata({
+					metadataValue: 'Gold',
+					attributes: [{ trait_type: ' Power ', value: '7 ' }]
+				}).data
+			).toEqual({ metadataValue: 'Gold', attributes: [{ trait_type: 'Power', value: '7' }] });
+		});
+
+		it('rejects overlong values and repeated attributes', () => {
+			expect(validateTraitMetadata({ metadataValue: 'x'.repeat(101) }).success).toBe(false);
+			expect(
+				validateTraitMetadata({
+					attributes: [
+						{ trait_type: 'Power', value: '7' },
+						{ trait_type: 'Power', value: '8' }
+					]
+				}).error
+			).toBe('Attribute "Power" is listed more than once');
+		});
+	});
+
+	describe('validateTraitSupply', () => {
+		it('accepts empty and consistent quotas', () => {
+			expect(validateTraitSupply({}).success).toBe(true);
+			expect(validateTraitSupply({ exactCount: 7, maxCount: 10 }).success).toBe(true);
+		});
+
+		it('rejects invalid or conflicting quotas', () => {
+			expect(validateTraitSupply({ maxCount: -1 }).success).toBe(false);
+			expect(validateTraitSupply({ exactCount: 2.5 }).success).toBe(false);
+			expect(validateTraitSupply({ exactCount: 8, maxCount: 5 }).error).toBe(
+				'Exact count (8) cannot exceed max count (5)'
+			);
 		});
 	});
 
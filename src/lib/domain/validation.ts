@@ -5,7 +5,35 @@
 
 import { z } from 'zod';
 import type { LayerId, ProjectId, TraitId } from '$lib/types/ids';
-import type { Layer, Project, Trait } from '$lib/types/project';
+import {
+	BLEND_MODES,
+	PLACEMENT_ANCHORS,
+	type BlendSettings,
+	type ColorTransform,
+	type CompatibilityRule,
+	type LayerAttributeSettings,
+	type TraitCondition,
+	type TraitMetadataSettings,
+	type TraitPlacement,
+	type TraitSupply
+} from '$lib/types/layer';
+import type {
+	ExtraAttribute,
+	Layer,
+	OneOfOne,
+	OutputRendition,
+	Project,
+	Trait
+} from '$lib/types/project';
+import {
+	ATTRIBUTE_DISPLAY_TYPES,
+	EXTRA_ATTRIBUTE_SOURCES,
+	findExtraAttributeProblem
+} from './attribute-mapping';
+import { IMAGE_OUTPUT_FORMATS } from './image-encoding';
+import { MAX_PIXEL_ART_SCALE, MIN_PIXEL_ART_SCALE } from './pixel-art';
+import { isPolicyId } from './metadata/cip25';
+import { findTokenTemplateProblem } from './token-templates';
 
 const UNKNOWN_VALIDATION_ERROR = 'Unknown validation error';
 
@@ -28,7 +56,12 @@ export const NameSchema = z
 	.max(100)
 	.regex(/^[a-zA-Z0-9\s\-_()#.]+$/);
 export const DescriptionSchema = z.string().max(500).optional();
-export const RarityWeightSchema = z.number().int().min(1).max(5);
+// Fine-grained relative weight or percentage (legacy 1–5 integers stay valid)
+export const RarityWeightSchema = z.number().min(0.01).max(10000);
+export const RarityModeSchema = z.enum(['weight', 'percentage']);
+export const SupplyCountSchema = z.number().int().min(0).max(10000);
+// Fraction of tokens that leave an optional layer empty
+export const NoneProbabilitySchema = z.number().min(0).max(1);
 
 // Ruler trait schemas
 export const TraitTypeSchema = z.enum(['normal', 'ruler']).default('normal');
@@ -38,20 +71,158 @@ export const RulerRuleSchema = z.object({
 	forbiddenTraitIds: z.array(IdSchema).default([])
 });
 
+export const RenderOverrideSchema = z.object({
+	layerId: IdSchema,
+	position: z.enum(['below', 'above'])
+});
+
+// Compositing schemas
+export const BlendModeSchema = z.enum(BLEND_MODES);
+export const OpacitySchema = z.number().min(0).max(1);
+export const HexColorSchema = z
+	.string()
+	.regex(/^#[0-9a-f]{6}$/i, 'Colours must be hex values like #ff0000');
+export const ColorTransformSchema = z.discriminatedUnion('kind', [
+	z.object({ kind: z.literal('hue-shift'), degrees: z.number().min(-360).max(360) }),
+	z.object({
+		kind: z.literal('tint'),
+		color: HexColorSchema,
+		strength: z.number().min(0).max(1)
+	}),
+	z.object({
+		kind: z.literal('palette-swap'),
+		swaps: z.array(z.object({ from: HexColorSchema, to: HexColorSchema })).max(256)
+	})
+]);
+export const ColorVariantSchema = z.object({
+	baseTraitId: IdSchema,
+	transform: ColorTransformSchema
+});
+export const TraitLinkSchema = z.object({
+	layerId: IdSchema,
+	traitId: IdSchema
+});
+export const TraitPlacementSchema = z.object({
+	fit: z.enum(['stretch', 'contain', 'none']),
+	anchor: z.enum(PLACEMENT_ANCHORS),
+	x: z.number().min(-10000).max(10000),
+	y: z.number().min(-10000).max(10000),
+	scale: z.number().min(0.01).max(100)
+});
+
+// Compatibility rule schemas
+export const CompatibilityRuleKindSchema = z.enum(['requires', 'excludes']);
+export const TraitConditionSchema = z.object({
+	layerId: IdSchema,
+	traitIds: z.array(IdSchema),
+	none: z.boolean().optional()
+});
+export const CompatibilityRuleSchema = z.object({
+	id: IdSchema,
+	kind: CompatibilityRuleKindSchema,
+	when: TraitConditionSchema,
+	target: TraitConditionSchema
+});
+// Exported rule files refer to layers and traits by name so they can move between projects
+const NamedTraitConditionSchema = z.object({
+	layer: z.string().min(1),
+	traits: z.array(z.string().min(1)).default([]),
+	none: z.boolean().optional()
+});
+export const CompatibilityRulesFileSchema = z.object({
+	version: z.literal(1),
+	rules: z.array(
+		z.object({
+			kind: CompatibilityRuleKindSchema,
+			when: NamedTraitConditionSchema,
+			target: NamedTraitConditionSchema
+		})
+	)
+});
+
+// 1-of-1 schemas
+export const OneOfOneAttributeSchema = z.object({
+	trait_type: z.string().trim().min(1, 'Attribute names cannot be empty').max(100),
+	value: z.string().trim().min(1, 'Attribute values cannot be empty').max(100)
+});
+const OneOfOneFieldsSchema = z.object({
+	id: IdSchema,
+	name: NameSchema,
+	attributes: z.array(OneOfOneAttributeSchema).max(50),
+	tokenNumber: z.number().int().min(1).max(10000).optional()
+});
+export const OneOfOneSchema = OneOfOneFieldsSchema.extend({
+	imageData: z.instanceof(ArrayBuffer)
+});
+// Images are stored next to the project file, not inside it
+export const ImportedOneOfOneSchema = OneOfOneFieldsSchema.extend({
+	imageData: z.instanceof(ArrayBuffer).optional()
+});
+
 // Project schemas
 export const ProjectDimensionsSchema = z.object({
 	width: z.number().int().min(1).max(10000),
 	height: z.number().int().min(1).max(10000)
 });
 
+export const OutputFormatSchema = z.enum(IMAGE_OUTPUT_FORMATS);
+
+export const OutputQualitySchema = z.number().int().min(1).max(100);
+
+export const PixelArtScaleSchema = z
+	.number()
+	.int()
+	.min(MIN_PIXEL_ART_SCALE)
+	.max(MAX_PIXEL_ART_SCALE);
+
+export const TokenTemplateSchema = z.string().max(500);
+
+export const PolicyIdSchema = z.string().refine(isPolicyId);
+
+export const AttributeNameSchema = z.string().max(100);
+
+export const MetadataValueSchema = z.string().max(100);
+
+export const TraitAttributesSchema = z.array(OneOfOneAttributeSchema).max(20);
+
+export const ExtraAttributeSchema = z.object({
+	id: IdSchema,
+	traitType: z.string().trim().min(1).max(100),
+	source: z.enum(EXTRA_ATTRIBUTE_SOURCES),
+	value: z.string().max(200).optional(),
+	displayType: z.enum(ATTRIBUTE_DISPLAY_TYPES).optional(),
+	maxValue: z.number().finite().positive().optional()
+});
+
+export const OutputRenditionSchema = z.object({
+	id: IdSchema,
+	name: z.string().max(100),
+	width: z.number().int().min(1).max(10000),
+	height: z.number().int().min(1).max(10000),
+	format: OutputFormatSchema,
+	quality: OutputQualitySchema.optional(),
+	folder: z.string().min(1).max(100),
+	metadataField: z.string().max(100).optional()
+});
+
 export const TraitSchema = z.object({
 	id: IdSchema,
 	name: NameSchema,
 	imageData: z.instanceof(ArrayBuffer),
 	imageUrl: z.string().optional(),
 	rarityWeight: RarityWeightSchema.optional(),
+	metadataValue: MetadataValueSchema.optional(),
+	attributes: TraitAttributesSchema.optional(),
 	type: TraitTypeSchema.optional(),
-	rulerRules: z.array(RulerRuleSchema).optional()
+	rulerRules: z.array(RulerRuleSchema).optional(),
+	exactCount: SupplyCountSchema.optional(),
+	maxCount: SupplyCountSchema.optional(),
+	renderOverride: RenderOverrideSchema.optional(),
+	blendMode: BlendModeSchema.optional(),
+	opacity: OpacitySchema.optional(),
+	placement: TraitPlacementSchema.optional(),
+	variant: ColorVariantSchema.optional(),
+	links: z.array(TraitLinkSchema).optional()
 });
 
 export const LayerSchema = z.object({
@@ -59,6 +230,13 @@ export const LayerSchema = z.object({
 	name: NameSchema,
 	order: z.number().int().min(0),
 	isOptional: z.boolean().optional(),
+	noneProbability: NoneProbabilitySchema.optional(),
+	emitNoneAttribute: z.boolean().optional(),
+	attributeName: AttributeNameSchema.optional(),
+	hideAttribute: z.boolean().optional(),
+	rarityMode: RarityModeSchema.optional(),
+	blendMode: BlendModeSchema.optional(),
+	opacity: OpacitySchema.optional(),
 	traits: z.array(TraitSchema)
 });
 
@@ -67,7 +245,18 @@ export const ProjectSchema = z.object({
 	name: NameSchema,
 	description: DescriptionSchema,
 	outputSize: ProjectDimensionsSchema,
-	layers: z.array(LayerSchema)
+	outputFormat: OutputFormatSchema.optional(),
+	outputQuality: OutputQualitySchema.optional(),
+	renditions: z.array(OutputRenditionSchema).optional(),
+	pixelArt: z.boolean().optional(),
+	pixelArtScale: PixelArtScaleSchema.optional(),
+	nameTemplate: TokenTemplateSchema.optional(),
+	descriptionTemplate: TokenTemplateSchema.optional(),
+	extraAttributes: z.array(ExtraAttributeSchema).optional(),
+	policyId: PolicyIdSchema.optional(),
+	layers: z.array(LayerSchema),
+	compatibilityRules: z.array(CompatibilityRuleSchema).optional(),
+	oneOfOnes: z.array(OneOfOneSchema).optional()
 });
 
 // Import/export schemas (more lenient for compatibility)
@@ -78,9 +267,20 @@ export const ImportedTraitSchema = z.object({
 	// imageData may be missing in imports/exports
 	imageData: z.instanceof(ArrayBuffer).optional(),
 	imageUrl: z.string().optional(),
+	metadataValue: MetadataValueSchema.optional(),
+	attributes: TraitAttributesSchema.optional(),
 	// Ruler trait fields
 	type: TraitTypeSchema.optional(),
-	rulerRules: z.array(RulerRuleSchema).optional()
+	rulerRules: z.array(RulerRuleSchema).optional(),
+	// Supply quotas
+	exactCount: SupplyCountSchema.optional(),
+	maxCount: SupplyCountSchema.optional(),
+	renderOverride: RenderOverrideSchema.optional(),
+	blendMode: BlendModeSchema.optional(),
+	opacity: OpacitySchema.optional(),
+	placement: TraitPlacementSchema.optional(),
+	variant: ColorVariantSchema.optional(),
+	links: z.array(TraitLinkSchema).optional()
 });
 
 export const ImportedLayerSchema = z.object({
@@ -88,6 +288,13 @@ export const ImportedLayerSchema = z.object({
 	name: NameSchema,
 	order: z.number().int().min(0).optional(),
 	isOptional: z.boolean().optional(),
+	noneProbability: NoneProbabilitySchema.optional(),
+	emitNoneAttribute: z.boolean().optional(),
+	attributeName: AttributeNameSchema.optional(),
+	hideAttribute: z.boolean().optional(),
+	rarityMode: RarityModeSchema.optional(),
+	blendMode: BlendModeSchema.optional(),
+	opacity: OpacitySchema.optional(),
 	traits: z.array(ImportedTraitSchema)
 });
 
@@ -96,7 +303,18 @@ export const ImportedProjectSchema = z.object({
 	name: NameSchema,
 	description: DescriptionSchema.optional(),
 	outputSize: ProjectDimensionsSchema.optional(),
-	layers: z.array(ImportedLayerSchema)
+	outputFormat: OutputFormatSchema.optional(),
+	outputQuality: OutputQualitySchema.optional(),
+	renditions: z.array(OutputRenditionSchema).optional(),
+	pixelArt: z.boolean().optional(),
+	pixelArtScale: PixelArtScaleSchema.optional(),
+	nameTemplate: TokenTemplateSchema.optional(),
+	descriptionTemplate: TokenTemplateSchema.optional(),
+	extraAttributes: z.array(ExtraAttributeSchema).optional(),
+	policyId: PolicyIdSchema.optional(),
+	layers: z.array(ImportedLayerSchema),
+	compatibilityRules: z.array(CompatibilityRuleSchema).optional(),
+	oneOfOnes: z.array(ImportedOneOfOneSchema).optional()
 });
 
 // File validation schemas
@@ -262,7 +480,7 @@ export function validateRarityWeight(weight: number): ValidationResult {
 		const result = RarityWeightSchema.safeParse(weight);
 		return {
 			success: result.success,
-			error: result.success ? undefined : 'Rarity weight must be an integer between 1 and 5',
+			error: result.success ? undefined : 'Rarity weight must be between 0.01 and 10000',
 			data: result.success ? result.data : undefined
 		};
 	} catch (error) {
@@ -273,6 +491,262 @@ export function validateRarityWeight(weight: number): ValidationResult {
 	}
 }
 
+export function validateNoneProbability(probability: number): ValidationResult {
+	const result = NoneProbabilitySchema.safeParse(probability);
+	return {
+		success: result.success,
+		error: result.success ? undefined : 'None probability must be between 0% and 100%',
+		data: result.success ? result.data : undefined
+	};
+}
+
+export function validateBlendSettings(settings: BlendSettings): ValidationResult {
+	if (settings.blendMode !== undefined && !BlendModeSchema.safeParse(settings.blendMode).success) {
+		return { success: false, error: `Unknown blend mode "${settings.blendMode}"` };
+	}
+	if (settings.opacity !== undefined && !OpacitySchema.safeParse(settings.opacity).success) {
+		return { success: false, error: 'Opacity must be between 0% and 100%' };
+	}
+	return { success: true, data: settings };
+}
+
+export function validateLayerAttributeSettings(settings: LayerAttributeSettings): ValidationResult {
+	if (
+		settings.attributeName !== undefined &&
+		!AttributeNameSchema.safeParse(settings.attributeName).success
+	) {
+		return { success: false, error: 'Attribute names cannot exceed 100 characters' };
+	}
+	return { success: true, data: settings };
+}
+
+export function validateTraitMetadata(settings: TraitMetadataSettings): ValidationResult {
+	if (
+		settings.metadataValue !== undefined &&
+		!MetadataValueSchema.safeParse(settings.metadataValue).success
+	) {
+		return { success: false, error: 'Metadata values cannot exceed 100 characters' };
+	}
+
+	const result = TraitAttributesSchema.safeParse(settings.attributes ?? []);
+	if (!result.success) {
+		return {
+			success: false,
+			error:
+				result.error.issues[0]?.code === 'too_big' && result.error.issues[0].path.length === 0
+					? 'A trait can have at most 20 attributes'
+					: (result.error.issues[0]?.message ?? 'Invalid trait attribute')
+		};
+	}
+
+	const seen = new Set<string>();
+	for (const attribute of result.data) {
+		if (seen.has(attribute.trait_type)) {
+			return {
+				success: false,
+				error: `Attribute "${attribute.trait_type}" is listed more than once`
+			};
+		}
+		seen.add(attribute.trait_type);
+	}
+
+	return {
+		success: true,
+		data: { ...settings, ...(settings.attributes ? { attributes: result.data } : {}) }
+	};
+}
+
+export function validateTraitPlacement(placement: TraitPlacement): ValidationResult {
+	const result = TraitPlacementSchema.safeParse(placement);
+	if (result.success) return { success: true, data: result.data };
+	const field = result.error.issues[0]?.path[0];
+	return {
+		success: false,
+		error:
+			field === 'scale'
+				? 'Scale must be between 0.01 and 100'
+				: field === 'x' || field === 'y'
+					? 'Offset must be between -10000 and 10000 pixels'
+					: 'Invalid trait placement'
+	};
+}
+
+export function validateColorTransform(transform: ColorTransform): ValidationResult {
+	const result = ColorTransformSchema.safeParse(transform);
+	return {
+		success: result.success,
+		error: result.success
+			? undefined
+			: (result.error.issues[0]?.message ?? 'Invalid colour transform'),
+		data: result.success ? result.data : undefined
+	};
+}
+
+/** Minimal layer shape needed to resolve a rule's references */
+interface RuleReferenceLayer {
+	id: string;
+	name: string;
+	traits: { id: string }[];
+}
+
+/**
+ * Check a compatibility rule's shape and that it refers to two different
+ * layers and to traits that exist in them.
+ */
+export function validateCompatibilityRule(
+	rule: CompatibilityRule,
+	layers: RuleReferenceLayer[]
+): ValidationResult {
+	if (!CompatibilityRuleSchema.safeParse(rule).success) {
+		return { success: false, error: 'Invalid compatibility rule' };
+	}
+	if (rule.when.layerId === rule.target.layerId) {
+		return { success: false, error: 'A rule must compare two different layers' };
+	}
+
+	for (const condition of [rule.when, rule.target]) {
+		const error = findTraitConditionError(condition, layers);
+		if (error) return { success: false, error };
+	}
+
+	return { success: true, data: rule };
+}
+
+function findTraitConditionError(
+	condition: TraitCondition,
+	layers: RuleReferenceLayer[]
+): string | null {
+	const layer = layers.find((l) => l.id === condition.layerId);
+	if (!layer) return 'Rule refers to a layer that no longer exists';
+	if (condition.traitIds.length === 0 && !condition.none) {
+		return `Choose at least one trait or "None" for layer "${layer.name}"`;
+	}
+	const missing = condition.traitIds.find((id) => !layer.traits.some((t) => t.id === id));
+	if (missing) return `Rule refers to a trait that is not in layer "${layer.name}"`;
+	return null;
+}
+
+/**
+ * Check a 1-of-1's name, attributes and token number. Attribute names must be
+ * unique so the token's metadata has one value per trait type.
+ */
+export function validateOneOfOne(oneOfOne: OneOfOne): ValidationResult {
+	const result = OneOfOneSchema.safeParse(oneOfOne);
+	if (!result.success) {
+		const issue = result.error.issues[0];
+		const field = issue?.path[0];
+		return {
+			success: false,
+			error:
+				field === 'name'
+					? 'Name must be 1-100 characters and contain only letters, numbers, spaces, hyphens, and underscores'
+					: field === 'tokenNumber'
+						? 'Token number must be a whole number between 1 and 10000'
+						: (issue?.message ?? 'Invalid 1-of-1')
+		};
+	}
+
+	const seen = new Set<string>();
+	for (const attribute of result.data.attributes) {
+		if (seen.has(attribute.trait_type)) {
+			return {
+				success: false,
+				error: `Attribute "${attribute.trait_type}" is listed more than once`
+			};
+		}
+		seen.add(attribute.trait_type);
+	}
+
+	return { success: true, data: result.data };
+}
+
+export function validateOutputRendition(rendition: OutputRendition): ValidationResult {
+	const result = OutputRenditionSchema.safeParse(rendition);
+	if (!result.success) {
+		const field = result.error.issues[0]?.path[0];
+		return {
+			success: false,
+			error:
+				field === 'width' || field === 'height'
+					? 'Rendition width and height must be whole numbers between 1 and 10000'
+					: field === 'quality'
+						? 'Rendition quality must be between 1 and 100'
+						: field === 'folder'
+							? 'Rendition folder cannot be empty'
+							: (result.error.issues[0]?.message ?? 'Invalid rendition')
+		};
+	}
+	return { success: true, data: result.data };
+}
+
+/**
+ * Check a token name or description template: its length and that every
+ * placeholder refers to a built-in field or one of the project's layers.
+ */
+export function validateTokenTemplate(template: string, layerNames: string[]): ValidationResult {
+	if (!TokenTemplateSchema.safeParse(template).success) {
+		return { success: false, error: 'Templates cannot exceed 500 characters' };
+	}
+	const problem = findTokenTemplateProblem(template, layerNames);
+	if (problem) return { success: false, error: problem };
+	return { success: true, data: template };
+}
+
+/** Check a Cardano policy ID; blank IDs are allowed and clear the setting */
+export function validatePolicyId(policyId: string): ValidationResult {
+	const normalized = policyId.trim().toLowerCase();
+	if (normalized && !PolicyIdSchema.safeParse(normalized).success) {
+		return { success: false, error: 'Policy ID must be 56 hexadecimal characters' };
+	}
+	return { success: true, data: normalized };
+}
+
+/**
+ * Check an extra attribute: its trait type, and that its value, display type
+ * and maximum make a valid metadata attribute together.
+ */
+export function validateExtraAttribute(attribute: ExtraAttribute): ValidationResult {
+	const result = ExtraAttributeSchema.safeParse(attribute);
+	if (!result.success) {
+		const field = result.error.issues[0]?.path[0];
+		return {
+			success: false,
+			error:
+				field === 'traitType'
+					? 'Trait type must be 1-100 characters'
+					: field === 'value'
+						? 'Attribute values cannot exceed 200 characters'
+						: field === 'maxValue'
+							? 'Maximum must be a positive number'
+							: (result.error.issues[0]?.message ?? 'Invalid attribute')
+		};
+	}
+	const problem = findExtraAttributeProblem(result.data);
+	if (problem) return { success: false, error: problem };
+	return { success: true, data: result.data };
+}
+
+export function validateTraitSupply(supply: TraitSupply): ValidationResult {
+	const { exactCount, maxCount } = supply;
+	for (const count of [exactCount, maxCount]) {
+		if (count !== undefined && !SupplyCountSchema.safeParse(count).success) {
+			return {
+				success: false,
+				error: 'Supply counts must be whole numbers between 0 and 10000'
+			};
+		}
+	}
+
+	if (exactCount !== undefined && maxCount !== undefined && exactCount > maxCount) {
+		return {
+			success: false,
+			error: `Exact count (${exactCount}) cannot exceed max count (${maxCount})`
+		};
+	}
+
+	return { success: true, data: { exactCount, maxCount } };
+}
+
 export function validateProject(project: unknown): ValidationResult {
 	try {
 		const result = ProjectSchema.safeParse(project);
@@ -8,6 +8,12 @@
 export {
 	runGeneration,
 	cancelGeneration,
+	resumeGeneration,
+	listResumableGenerations,
+	discardGeneration,
+	rerollTokens,
 	type GenerationCallbacks,
-	type GenerationConfig
+	type GenerationConfig,
+	type RerollConfig,
+	type ResumableGeneration
 } from '$lib/workers/generation.orchestrator';
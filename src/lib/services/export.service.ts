@@ -3,6 +3,9 @@ import { isFlagEnabled } from '$lib/config/feature-flags';
 import { MemoryMonitor } from '$lib/utils/memory-monitor';
 import { iterateBySize } from '$lib/utils/streaming-storage';
 
+/** Root-level file describing how the collection was generated (seed, size, standard) */
+export const GENERATION_MANIFEST_FILENAME = 'generation.json';
+
 export interface ExportOptions {
 	project: Project;
 	images: { name: string; imageData: ArrayBuffer }[];
@@ -421,7 +424,12 @@ export function startStreamingZip(taskId?: string, projectName?: string): void {
  * The image ArrayBuffers are transferred (zero-copy) — caller should nullify references.
  */
 export function addStreamingChunk(
-	images: { name: string; data: ArrayBuffer }[],
+	images: {
+		name: string;
+		data: ArrayBuffer;
+		/** Extra renditions by path from the export root */
+		renditions?: { path: string; imageData: ArrayBuffer }[];
+	}[],
 	metadata: { name: string; data: Record<string, unknown> }[]
 ): void {
 	const imageFiles: Array<{ path: string; data: ArrayBuffer }> = [];
@@ -437,6 +445,9 @@ export function addStreamingChunk(
 
 	for (const img of images) {
 		imageFiles.push({ path: `images/${img.name}`, data: img.data });
+		for (const rendition of img.renditions ?? []) {
+			imageFiles.push({ path: rendition.path, data: rendition.imageData });
+		}
 	}
 	for (const meta of metadata) {
 		const jsonStr = JSON.stringify(meta.data, null, 2);
@@ -451,6 +462,16 @@ export function addStreamingChunk(
 	sendZipChunk(imageFiles, false);
 }
 
+/**
+ * Add a single JSON file at the given path to the streaming ZIP.
+ * Used for collection-level files such as the generation manifest.
+ */
+export function addStreamingFile(path: string, data: object): void {
+	const encoded = new TextEncoder().encode(JSON.stringify(data, null, 2));
+	const buffer = encoded.buffer.slice(encoded.byteOffset, encoded.byteOffset + encoded.byteLength);
+	sendZipChunk([{ path, data: buffer }], false);
+}
+
 /**
  * Finalize the streaming ZIP and return the complete blob.
  * Cleans up the persistent ZIP worker.
@@ -486,12 +507,14 @@ export function cancelStreamingZip(): void {
  * Package ZIP files directly from storage in size-bounded batches.
  * Each batch creates its own ZIP, downloads immediately, then GC frees the memory.
  * RAM stays bounded at targetChunkBytes regardless of collection size.
+ * `rootFiles` are written as JSON at the root of the first part.
  */
 export async function packageFromStorageBySize(
 	sessionId: string,
 	projectName: string,
 	targetChunkBytes: number,
-	onProgress?: (progress: { processed: number; total: number; message: string }) => Promise<void>
+	onProgress?: (progress: { processed: number; total: number; message: string }) => Promise<void>,
+	rootFiles: { path: string; data: object }[] = []
 ): Promise<void> {
 	const { default: JSZip } = await import('jszip');
 	let batchIndex = 0;
@@ -507,8 +530,17 @@ export async function packageFromStorageBySize(
 		const imagesFolder = zip.folder('images');
 		const metadataFolder = zip.folder('metadata');
 
+		if (idx === 0) {
+			for (const file of rootFiles) {
+				zip.file(file.path, JSON.stringify(file.data, null, 2));
+			}
+		}
+
 		for (const img of batch.images) {
 			imagesFolder?.file(img.name, img.imageData);
+			for (const rendition of img.renditions ?? []) {
+				zip.file(rendition.path, rendition.imageData);
+			}
 		}
 		for (const meta of batch.metadata) {
 			metadataFolder?.file(meta.name, JSON.stringify(meta.data, null, 2));
@@ -114,6 +114,37 @@ describe('PersistenceService object storage', () => {
 		expect(loadedProject?.layers[0].traits[0].imageUrl).toBeUndefined();
 	});
 
+	it('stores 1-of-1 images outside the manifest and hydrates them on load', async () => {
+		const service = new PersistenceService();
+		const project = createProject();
+		project.oneOfOnes = [
+			{
+				id: 'legend',
+				name: 'Legend',
+				imageData: buffer([10, 11]),
+				attributes: [{ trait_type: 'Legend', value: 'Yes' }],
+				tokenNumber: 1
+			}
+		];
+		await service.saveProject(project);
+
+		const manifest = await backend.json.readJson<{
+			oneOfOnes: Array<Record<string, unknown>>;
+		}>(storagePaths.projectManifest());
+		expect(manifest?.oneOfOnes[0].imageData).toBeUndefined();
+		expect(bytes(await backend.binary.read(storagePaths.projectOneOfOneAsset('legend')))).toEqual([
+			10, 11
+		]);
+
+		const loadedProject = await new PersistenceService().loadProject();
+		expect(loadedProject?.oneOfOnes?.[0]).toMatchObject({
+			id: 'legend',
+			attributes: [{ trait_type: 'Legend', value: 'Yes' }],
+			tokenNumber: 1
+		});
+		expect(bytes(loadedProject?.oneOfOnes?.[0].imageData ?? null)).toEqual([10, 11]);
+	});
+
 	it('removes stale trait files when a dirty layer is rewritten', async () => {
 		const service = new PersistenceService();
 		const project = createProject();
@@ -14,11 +14,12 @@ import { getStorageBackend } from '$lib/storage/backend';
 import { requestPersistentStorageOnce } from '$lib/storage/capabilities';
 import { storagePaths } from '$lib/storage/paths';
 import type { ObjectStorageBackend } from '$lib/storage/types';
-import type { Layer, Project, Trait } from '$lib/types/project';
+import type { Layer, OneOfOne, Project, Trait } from '$lib/types/project';
 import { logger } from '$lib/utils/logger';
 
 const METADATA_KEY = 'gnstudio-project-metadata';
 const LAYER_ASSETS_PREFIX = 'gnstudio-layer-assets-';
+const ONE_OF_ONE_ASSETS_KEY = 'gnstudio-one-of-one-assets';
 const LEGACY_STORAGE_KEY = 'gnstudio-project';
 const PROJECT_BOOT_HINT_KEY = 'gnstudio-project-boot-hint';
 const LEGACY_ASSETS_DB_NAME = 'gnstudio-assets';
@@ -30,6 +31,10 @@ interface LegacyLayerAssets {
 	traits: { id: string; imageData: ArrayBuffer }[];
 }
 
+interface LegacyOneOfOneAssets {
+	oneOfOnes: { id: string; imageData: ArrayBuffer }[];
+}
+
 type StoredProjectTrait = Omit<Trait, 'imageData' | 'imageUrl'> & {
 	imageData?: never;
 	imageUrl?: never;
@@ -39,8 +44,11 @@ type StoredProjectLayer = Omit<Layer, 'traits'> & {
 	traits: StoredProjectTrait[];
 };
 
-type StoredProjectManifest = Omit<Project, 'layers'> & {
+type StoredOneOfOne = Omit<OneOfOne, 'imageData'> & { imageData?: never };
+
+type StoredProjectManifest = Omit<Project, 'layers' | 'oneOfOnes'> & {
 	layers: StoredProjectLayer[];
+	oneOfOnes?: StoredOneOfOne[];
 };
 
 interface ProjectBootHint {
@@ -66,6 +74,7 @@ export class PersistenceService {
 	private lastSavedMetadata: string | null = null;
 	private lastSavedLayerFingerprints = new Map<string, string>();
 	private lastSavedTraitBuffers = new Map<string, ArrayBuffer>();
+	private lastSavedOneOfOneBuffers = new Map<string, ArrayBuffer>();
 	private dirtyMetadata = false;
 	private dirtyLayers = new Set<string>();
 
@@ -73,6 +82,10 @@ export class PersistenceService {
 		return new LegacyIndexedDbStore<LegacyLayerAssets>(`${LAYER_ASSETS_PREFIX}${layerId}`);
 	}
 
+	private getLegacyOneOfOneStorage(): LegacyIndexedDbStore<LegacyOneOfOneAssets> {
+		return new LegacyIndexedDbStore<LegacyOneOfOneAssets>(ONE_OF_ONE_ASSETS_KEY);
+	}
+
 	/**
 	 * Schedule a debounced save. Service detects changes internally.
 	 * Subsequent calls within the debounce window collapse into one save.
@@ -278,12 +291,29 @@ export class PersistenceService {
 			name: layer.name,
 			order: layer.order,
 			isOptional: layer.isOptional,
+			noneProbability: layer.noneProbability,
+			emitNoneAttribute: layer.emitNoneAttribute,
+			attributeName: layer.attributeName,
+			hideAttribute: layer.hideAttribute,
+			blendMode: layer.blendMode,
+			opacity: layer.opacity,
+			rarityMode: layer.rarityMode,
 			traits: layer.traits.map((trait) => ({
 				id: trait.id,
 				name: trait.name,
 				rarityWeight: trait.rarityWeight,
+				metadataValue: trait.metadataValue,
+				attributes: trait.attributes,
 				type: trait.type,
 				rulerRules: trait.rulerRules,
+				exactCount: trait.exactCount,
+				maxCount: trait.maxCount,
+				renderOverride: trait.renderOverride,
+				blendMode: trait.blendMode,
+				opacity: trait.opacity,
+				placement: trait.placement,
+				variant: trait.variant,
+				links: trait.links,
 				byteLength: isArrayBuffer(trait.imageData) ? trait.imageData.byteLength : 0
 			}))
 		});
@@ -313,6 +343,7 @@ export class PersistenceService {
 
 		if (shouldSaveManifest) {
 			await this.removeStaleProjectLayersFromObjectStorage(backend, project);
+			await this.saveOneOfOneAssetsToObjectStorage(backend, project, options.forceFullAssetWrite);
 			await backend.json.writeJson(storagePaths.projectManifest(), manifest);
 			this.lastSavedMetadata = manifestJson;
 			this.dirtyMetadata = false;
@@ -335,6 +366,12 @@ export class PersistenceService {
 
 		if (shouldSaveManifest) {
 			await this.metaStorage.save(manifest);
+			await this.getLegacyOneOfOneStorage().save({
+				oneOfOnes: (project.oneOfOnes ?? []).map((oneOfOne) => ({
+					id: oneOfOne.id,
+					imageData: isArrayBuffer(oneOfOne.imageData) ? oneOfOne.imageData : new ArrayBuffer(0)
+				}))
+			});
 			this.lastSavedMetadata = manifestJson;
 			this.dirtyMetadata = false;
 		}
@@ -412,6 +449,44 @@ export class PersistenceService {
 		);
 	}
 
+	/**
+	 * Write 1-of-1 images that changed since the last save and remove the
+	 * images of deleted ones. They change rarely, so this runs with the manifest.
+	 */
+	private async saveOneOfOneAssetsToObjectStorage(
+		backend: ObjectStorageBackend,
+		project: Project,
+		force = false
+	): Promise<void> {
+		const oneOfOnes = project.oneOfOnes ?? [];
+		const ids = new Set(oneOfOnes.map((oneOfOne) => oneOfOne.id));
+
+		await Promise.all(
+			oneOfOnes.map(async (oneOfOne) => {
+				if (!isArrayBuffer(oneOfOne.imageData) || oneOfOne.imageData.byteLength === 0) return;
+				if (!force && this.lastSavedOneOfOneBuffers.get(oneOfOne.id) === oneOfOne.imageData) {
+					return;
+				}
+				await backend.binary.write(
+					storagePaths.projectOneOfOneAsset(oneOfOne.id),
+					oneOfOne.imageData
+				);
+			})
+		);
+
+		const fileNames = await backend.binary.list(storagePaths.projectOneOfOnesRoot());
+		await Promise.all(
+			fileNames.map(async (fileName) => {
+				if (!fileName.endsWith('.bin')) return;
+
+				const oneOfOneId = fileName.slice(0, -'.bin'.length);
+				if (ids.has(oneOfOneId)) return;
+
+				await backend.binary.remove(storagePaths.projectOneOfOneAsset(oneOfOneId));
+			})
+		);
+	}
+
 	private async removeStaleProjectLayersFromObjectStorage(
 		backend: ObjectStorageBackend,
 		project: Project
@@ -454,6 +529,9 @@ export class PersistenceService {
 
 				await Promise.all(
 					layer.traits.map(async (trait) => {
+						// Colour variants render from their base trait and have no asset
+						if (trait.variant) return;
+
 						const path = storagePaths.projectTraitAsset(layer.id, trait.id);
 						const storedAsset = await backend.binary.read(path);
 						if (storedAsset) {
@@ -494,6 +572,15 @@ export class PersistenceService {
 			})
 		);
 
+		await Promise.all(
+			(project.oneOfOnes ?? []).map(async (oneOfOne) => {
+				const storedAsset = await backend.binary.read(
+					storagePaths.projectOneOfOneAsset(oneOfOne.id)
+				);
+				if (storedAsset) oneOfOne.imageData = storedAsset;
+			})
+		);
+
 		this.rememberSavedProject(project);
 		return project;
 	}
@@ -503,6 +590,7 @@ export class PersistenceService {
 		if (skeleton) {
 			const project = this.hydrateProjectManifest(skeleton);
 			await this.hydrateProjectFromLegacyLayerAssets(project);
+			await this.hydrateOneOfOnesFromLegacyStorage(project);
 			this.rememberSavedProject(project);
 			return project;
 		}
@@ -539,6 +627,16 @@ export class PersistenceService {
 		);
 	}
 
+	private async hydrateOneOfOnesFromLegacyStorage(project: Project): Promise<void> {
+		if (!project.oneOfOnes?.length) return;
+
+		const assets = await this.getLegacyOneOfOneStorage().load();
+		for (const asset of assets?.oneOfOnes ?? []) {
+			const oneOfOne = project.oneOfOnes.find((o) => o.id === asset.id);
+			if (oneOfOne && isArrayBuffer(asset.imageData)) oneOfOne.imageData = asset.imageData;
+		}
+	}
+
 	private createProjectManifest(project: Project): StoredProjectManifest {
 		return {
 			...project,
@@ -548,7 +646,11 @@ export class PersistenceService {
 					const { imageData: _imageData, imageUrl: _imageUrl, ...storedTrait } = trait;
 					return storedTrait;
 				})
-			}))
+			})),
+			oneOfOnes: project.oneOfOnes?.map((oneOfOne) => {
+				const { imageData: _imageData, ...storedOneOfOne } = oneOfOne;
+				return storedOneOfOne;
+			})
 		};
 	}
 
@@ -561,6 +663,10 @@ export class PersistenceService {
 					...trait,
 					imageData: new ArrayBuffer(0)
 				}))
+			})),
+			oneOfOnes: manifest.oneOfOnes?.map((oneOfOne) => ({
+				...oneOfOne,
+				imageData: new ArrayBuffer(0)
 			}))
 		} as Project);
 	}
@@ -575,6 +681,10 @@ export class PersistenceService {
 					imageData: isArrayBuffer(trait.imageData) ? trait.imageData : new ArrayBuffer(0),
 					imageUrl: undefined
 				}))
+			})),
+			oneOfOnes: project.oneOfOnes?.map((oneOfOne) => ({
+				...oneOfOne,
+				imageData: isArrayBuffer(oneOfOne.imageData) ? oneOfOne.imageData : new ArrayBuffer(0)
 			}))
 		};
 	}
@@ -589,6 +699,13 @@ export class PersistenceService {
 	private refreshLayerSnapshots(project: Project): void {
 		this.lastSavedLayerFingerprints.clear();
 		this.lastSavedTraitBuffers.clear();
+		this.lastSavedOneOfOneBuffers.clear();
+
+		for (const oneOfOne of project.oneOfOnes ?? []) {
+			if (isArrayBuffer(oneOfOne.imageData)) {
+				this.lastSavedOneOfOneBuffers.set(oneOfOne.id, oneOfOne.imageData);
+			}
+		}
 
 		for (const layer of project.layers) {
 			this.lastSavedLayerFingerprints.set(layer.id, this.computeLayerFingerprint(layer));
@@ -604,6 +721,7 @@ export class PersistenceService {
 		this.lastSavedMetadata = null;
 		this.lastSavedLayerFingerprints.clear();
 		this.lastSavedTraitBuffers.clear();
+		this.lastSavedOneOfOneBuffers.clear();
 		this.dirtyMetadata = false;
 		this.dirtyLayers.clear();
 	}
@@ -676,6 +794,7 @@ export class PersistenceService {
 							typeof key === 'string' &&
 							(key === METADATA_KEY ||
 								key === LEGACY_STORAGE_KEY ||
+								key === ONE_OF_ONE_ASSETS_KEY ||
 								key.startsWith(LAYER_ASSETS_PREFIX))
 						) {
 							store.delete(key);
@@ -9,7 +9,23 @@
 
 import * as validation from '$lib/domain/validation';
 import type { MetadataStandard } from '$lib/domain/metadata/metadata.strategy';
-import type { Project, ProjectDimensions } from '$lib/types/project';
+import type {
+	BlendSettings,
+	ColorTransform,
+	CompatibilityRule,
+	LayerAttributeSettings,
+	TraitMetadataSettings,
+	TraitPlacement,
+	TraitSupply
+} from '$lib/types/layer';
+import type {
+	ExtraAttribute,
+	Layer,
+	OneOfOne,
+	OutputRendition,
+	Project,
+	ProjectDimensions
+} from '$lib/types/project';
 import { createProjectId } from '$lib/types/ids';
 
 export interface FieldError {
@@ -30,6 +46,7 @@ export interface ProjectUpdateInput {
 	sellerFeeBasisPoints?: number;
 	externalUrl?: string;
 	animationUrl?: string;
+	policyId?: string;
 	metadataStandard?: MetadataStandard;
 }
 
@@ -64,6 +81,84 @@ export class ValidationService {
 		return result.data as number;
 	}
 
+	validateNoneProbability(probability: number): number {
+		const result = validation.validateNoneProbability(probability);
+		if (!result.success) throw new Error(result.error);
+		return result.data as number;
+	}
+
+	validateBlendSettings(settings: BlendSettings): BlendSettings {
+		const result = validation.validateBlendSettings(settings);
+		if (!result.success) throw new Error(result.error);
+		return result.data as BlendSettings;
+	}
+
+	validateLayerAttributeSettings(settings: LayerAttributeSettings): LayerAttributeSettings {
+		const result = validation.validateLayerAttributeSettings(settings);
+		if (!result.success) throw new Error(result.error);
+		return result.data as LayerAttributeSettings;
+	}
+
+	validateTraitMetadata(settings: TraitMetadataSettings): TraitMetadataSettings {
+		const result = validation.validateTraitMetadata(settings);
+		if (!result.success) throw new Error(result.error);
+		return result.data as TraitMetadataSettings;
+	}
+
+	validateTraitPlacement(placement: TraitPlacement): TraitPlacement {
+		const result = validation.validateTraitPlacement(placement);
+		if (!result.success) throw new Error(result.error);
+		return result.data as TraitPlacement;
+	}
+
+	validateColorTransform(transform: ColorTransform): ColorTransform {
+		const result = validation.validateColorTransform(transform);
+		if (!result.success) throw new Error(result.error);
+		return result.data as ColorTransform;
+	}
+
+	validateCompatibilityRule(rule: CompatibilityRule, layers: Layer[]): CompatibilityRule {
+		const result = validation.validateCompatibilityRule(rule, layers);
+		if (!result.success) throw new Error(result.error);
+		return result.data as CompatibilityRule;
+	}
+
+	validateOneOfOne(oneOfOne: OneOfOne): OneOfOne {
+		const result = validation.validateOneOfOne(oneOfOne);
+		if (!result.success) throw new Error(result.error);
+		return result.data as OneOfOne;
+	}
+
+	validateOutputRendition(rendition: OutputRendition): OutputRendition {
+		const result = validation.validateOutputRendition(rendition);
+		if (!result.success) throw new Error(result.error);
+		return result.data as OutputRendition;
+	}
+
+	validateExtraAttribute(attribute: ExtraAttribute): ExtraAttribute {
+		const result = validation.validateExtraAttribute(attribute);
+		if (!result.success) throw new Error(result.error);
+		return result.data as ExtraAttribute;
+	}
+
+	validateTokenTemplate(template: string, layerNames: string[]): string {
+		const result = validation.validateTokenTemplate(template, layerNames);
+		if (!result.success) throw new Error(result.error);
+		return result.data as string;
+	}
+
+	validatePolicyId(policyId: string): string {
+		const result = validation.validatePolicyId(policyId);
+		if (!result.success) throw new Error(result.error);
+		return result.data as string;
+	}
+
+	validateTraitSupply(supply: TraitSupply): TraitSupply {
+		const result = validation.validateTraitSupply(supply);
+		if (!result.success) throw new Error(result.error);
+		return result.data as TraitSupply;
+	}
+
 	/**
 	 * Compose multiple field validations and return all errors at once.
 	 * Use this for form submission where every problem should be surfaced
@@ -105,6 +200,11 @@ export class ValidationService {
 			}
 		}
 
+		if (updates.policyId !== undefined) {
+			const r = validation.validatePolicyId(updates.policyId);
+			if (!r.success) errors.push({ field: 'policyId', message: r.error ?? 'Invalid policy ID' });
+		}
+
 		return { valid: errors.length === 0, errors };
 	}
 
@@ -14,6 +14,9 @@ describe('storage paths', () => {
 		expect(storagePaths.galleryItemImage('collection-1', 'item-2')).toBe(
 			'gnstudio/gallery/collections/collection-1/items/item-2.bin'
 		);
+		expect(storagePaths.galleryItemRevisionImage('collection-1', 'item-2', 'rev-3')).toBe(
+			'gnstudio/gallery/collections/collection-1/history/item-2/rev-3.bin'
+		);
 		expect(storagePaths.galleryItemLookup('item-2')).toBe(
 			'gnstudio/gallery/item-index/item-2.json'
 		);
@@ -22,6 +25,9 @@ describe('storage paths', () => {
 		expect(storagePaths.generationImage('gen-123', 4)).toBe(
 			'gnstudio/generation/gen-123/images/4.bin'
 		);
+		expect(storagePaths.generationRendition('gen-123', 4, 1)).toBe(
+			'gnstudio/generation/gen-123/renditions/4/1.bin'
+		);
 	});
 
 	it('joins sanitized path segments', () => {
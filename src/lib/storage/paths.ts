@@ -26,6 +26,9 @@ export const storagePaths = {
 		joinStoragePath('gnstudio', 'projects', 'current', 'layers', layerId),
 	projectTraitAsset: (layerId: string, traitId: string) =>
 		joinStoragePath('gnstudio', 'projects', 'current', 'layers', layerId, `${traitId}.bin`),
+	projectOneOfOnesRoot: () => joinStoragePath('gnstudio', 'projects', 'current', 'one-of-ones'),
+	projectOneOfOneAsset: (oneOfOneId: string) =>
+		joinStoragePath('gnstudio', 'projects', 'current', 'one-of-ones', `${oneOfOneId}.bin`),
 	galleryRoot: () => joinStoragePath('gnstudio', 'gallery'),
 	galleryIndex: () => joinStoragePath('gnstudio', 'gallery', 'index.json'),
 	galleryCollectionsRoot: () => joinStoragePath('gnstudio', 'gallery', 'collections'),
@@ -37,6 +40,16 @@ export const storagePaths = {
 		joinStoragePath('gnstudio', 'gallery', 'collections', collectionId, 'items'),
 	galleryItemImage: (collectionId: string, itemId: string) =>
 		joinStoragePath('gnstudio', 'gallery', 'collections', collectionId, 'items', `${itemId}.bin`),
+	galleryItemRevisionImage: (collectionId: string, itemId: string, revisionId: string) =>
+		joinStoragePath(
+			'gnstudio',
+			'gallery',
+			'collections',
+			collectionId,
+			'history',
+			itemId,
+			`${revisionId}.bin`
+		),
 	galleryItemLookup: (itemId: string) =>
 		joinStoragePath('gnstudio', 'gallery', 'item-index', `${itemId}.json`),
 	generationRoot: () => joinStoragePath('gnstudio', 'generation'),
@@ -44,8 +57,21 @@ export const storagePaths = {
 		joinStoragePath('gnstudio', 'generation', sessionId, 'manifest.json'),
 	generationImage: (sessionId: string, index: number) =>
 		joinStoragePath('gnstudio', 'generation', sessionId, 'images', `${index}.bin`),
+	generationRendition: (sessionId: string, index: number, renditionIndex: number) =>
+		joinStoragePath(
+			'gnstudio',
+			'generation',
+			sessionId,
+			'renditions',
+			String(index),
+			`${renditionIndex}.bin`
+		),
 	generationMetadata: (sessionId: string, index: number) =>
 		joinStoragePath('gnstudio', 'generation', sessionId, 'metadata', `${index}.json`),
+	generationCheckpoint: (sessionId: string) =>
+		joinStoragePath('gnstudio', 'generation', sessionId, 'checkpoint.json'),
+	generationPlanChunk: (sessionId: string, chunkIndex: number) =>
+		joinStoragePath('gnstudio', 'generation', sessionId, 'plan', `${chunkIndex}.json`),
 	generationSessionRoot: (sessionId: string) =>
 		joinStoragePath('gnstudio', 'generation', sessionId),
 	migrationManifest: (migrationId: string) =>
@@ -6,7 +6,7 @@
  *   - {@link loadProjectFromZip} — read ZIP, return ready-to-use Project
  *   - {@link ProjectImporter}    — interface for future import formats
  *
- * ID remapping, ruler-rule rewriting, and image hydration are handled
+ * ID remapping, trait-reference rewriting, and image hydration are handled
  * internally during load. Callers receive a Project they can render directly.
  */
 
@@ -56,18 +56,51 @@ function stripImageData(project: Project) {
 		name: project.name,
 		description: project.description,
 		outputSize: project.outputSize,
+		outputFormat: project.outputFormat,
+		outputQuality: project.outputQuality,
+		renditions: project.renditions,
+		pixelArt: project.pixelArt,
+		pixelArtScale: project.pixelArtScale,
+		nameTemplate: project.nameTemplate,
+		descriptionTemplate: project.descriptionTemplate,
+		extraAttributes: project.extraAttributes,
+		policyId: project.policyId,
 		layers: project.layers.map((layer: Layer) => ({
 			id: layer.id,
 			name: layer.name,
 			order: layer.order,
 			isOptional: layer.isOptional,
+			noneProbability: layer.noneProbability,
+			emitNoneAttribute: layer.emitNoneAttribute,
+			attributeName: layer.attributeName,
+			hideAttribute: layer.hideAttribute,
+			blendMode: layer.blendMode,
+			opacity: layer.opacity,
+			rarityMode: layer.rarityMode,
 			traits: layer.traits.map((trait: Trait) => ({
 				id: trait.id,
 				name: trait.name,
 				rarityWeight: trait.rarityWeight,
+				metadataValue: trait.metadataValue,
+				attributes: trait.attributes,
 				type: trait.type,
-				rulerRules: trait.rulerRules
+				rulerRules: trait.rulerRules,
+				exactCount: trait.exactCount,
+				maxCount: trait.maxCount,
+				renderOverride: trait.renderOverride,
+				blendMode: trait.blendMode,
+				opacity: trait.opacity,
+				placement: trait.placement,
+				variant: trait.variant,
+				links: trait.links
 			}))
+		})),
+		compatibilityRules: project.compatibilityRules,
+		oneOfOnes: project.oneOfOnes?.map((oneOfOne) => ({
+			id: oneOfOne.id,
+			name: oneOfOne.name,
+			attributes: oneOfOne.attributes,
+			tokenNumber: oneOfOne.tokenNumber
 		}))
 	};
 }
@@ -91,6 +124,13 @@ function collectImageFiles(project: Project): {
 		}
 	}
 
+	for (const oneOfOne of project.oneOfOnes ?? []) {
+		if (oneOfOne.imageData && oneOfOne.imageData.byteLength > 0) {
+			imageFiles.push({ path: oneOfOneImagePath(oneOfOne.id), data: oneOfOne.imageData });
+			transferables.push(oneOfOne.imageData);
+		}
+	}
+
 	return { imageFiles, transferables };
 }
 
@@ -138,7 +178,9 @@ async function ensureAllImagesLoaded(project: Project): Promise<void> {
 
 	const hasEmptyImageData = () =>
 		project.layers.some((layer) =>
-			layer.traits.some((trait) => !trait.imageData || trait.imageData.byteLength === 0)
+			layer.traits.some(
+				(trait) => !trait.variant && (!trait.imageData || trait.imageData.byteLength === 0)
+			)
 		);
 
 	while (hasEmptyImageData() && Date.now() - startTime < IMAGE_LOAD_TIMEOUT_MS) {
@@ -224,7 +266,8 @@ async function parseAndHydrateProject(zip: JSZip, fileName: string): Promise<Pro
 	const storedProject = validationResult.data as Project;
 	const idRemap = remapProjectIds(storedProject);
 	await hydrateTraitImages(zip, storedProject, idRemap);
-	rewriteRulerRules(storedProject, idRemap);
+	await hydrateOneOfOneImages(zip, storedProject);
+	rewriteTraitReferences(storedProject, idRemap);
 
 	return storedProject;
 }
@@ -266,6 +309,12 @@ async function hydrateTraitImages(zip: JSZip, project: Project, remap: IdRemap):
 		const originalLayerId = newToOriginalLayer.get(layer.id) ?? layer.id;
 
 		for (const trait of layer.traits) {
+			// Colour variants render from their base trait and have no image in the ZIP
+			if (trait.variant) {
+				trait.imageData = new ArrayBuffer(0);
+				continue;
+			}
+
 			const originalTraitId = newToOriginalTrait.get(trait.id) ?? trait.id;
 			const imagePath = `images/${originalLayerId}/${originalTraitId}.png`;
 			const imageFile = zip.file(imagePath);
@@ -286,9 +335,60 @@ async function hydrateTraitImages(zip: JSZip, project: Project, remap: IdRemap):
 	}
 }
 
-function rewriteRulerRules(project: Project, remap: IdRemap): void {
+/**
+ * Load 1-of-1 images and give each 1-of-1 a fresh ID, as done for traits.
+ */
+async function hydrateOneOfOneImages(zip: JSZip, project: Project): Promise<void> {
+	for (const oneOfOne of project.oneOfOnes ?? []) {
+		const imagePath = oneOfOneImagePath(oneOfOne.id);
+		const imageFile = zip.file(imagePath);
+		oneOfOne.id = crypto.randomUUID();
+
+		if (!imageFile) {
+			console.error(`[loadProjectFromZip] Image not found in ZIP: ${imagePath}`);
+			oneOfOne.imageData = new ArrayBuffer(0);
+			continue;
+		}
+
+		oneOfOne.imageData = await imageFile.async('arraybuffer');
+	}
+}
+
+function oneOfOneImagePath(oneOfOneId: string): string {
+	return `one-of-ones/${oneOfOneId}.png`;
+}
+
+/**
+ * Point ruler rules, render overrides, colour variants, trait links and
+ * compatibility rules at the remapped IDs.
+ */
+function rewriteTraitReferences(project: Project, remap: IdRemap): void {
+	for (const rule of project.compatibilityRules ?? []) {
+		for (const condition of [rule.when, rule.target]) {
+			condition.layerId = (remap.layers.get(condition.layerId) ?? condition.layerId) as LayerId;
+			condition.traitIds = condition.traitIds.map(
+				(traitId) => (remap.traits.get(traitId) ?? traitId) as TraitId
+			);
+		}
+	}
+
 	for (const layer of project.layers) {
 		for (const trait of layer.traits) {
+			if (trait.renderOverride) {
+				const targetLayerId = trait.renderOverride.layerId;
+				trait.renderOverride.layerId = (remap.layers.get(targetLayerId) ??
+					targetLayerId) as LayerId;
+			}
+			if (trait.variant) {
+				const baseTraitId = trait.variant.baseTraitId;
+				trait.variant.baseTraitId = (remap.traits.get(baseTraitId) ?? baseTraitId) as TraitId;
+			}
+			if (trait.links) {
+				trait.links = trait.links.map((link) => ({
+					layerId: (remap.layers.get(link.layerId) ?? link.layerId) as LayerId,
+					traitId: (remap.traits.get(link.traitId) ?? link.traitId) as TraitId
+				}));
+			}
 			if (!trait.rulerRules) continue;
 
 			trait.rulerRules = trait.rulerRules.map((rule) => ({
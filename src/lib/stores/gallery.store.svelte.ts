@@ -5,6 +5,7 @@
 
 import type {
 	GalleryItem,
+	GalleryItemRevision,
 	GalleryCollection,
 	GalleryState,
 	GalleryFilterOptions,
@@ -18,6 +19,9 @@ import {
 	saveCollection,
 	saveItemImage,
 	getItemImage as fetchItemImage,
+	archiveItemImage,
+	getItemRevisionImage,
+	deleteItemRevisionImage,
 	deleteCollection,
 	clearAllCollections,
 	getStorageEstimate
@@ -683,6 +687,160 @@ class GalleryStore {
 		}
 	}
 
+	/**
+	 * Append newly generated tokens to an existing collection, e.g. a second
+	 * wave of a drop. Images go straight to storage. Rarity is not recalculated
+	 * here; call `recalculateRarity` once every token is in.
+	 */
+	async appendItems(
+		collectionId: string,
+		items: Array<{
+			index: number;
+			name: string;
+			imageData: ArrayBuffer;
+			traits: GalleryItem['metadata']['traits'];
+			imageFormat?: string;
+		}>
+	): Promise<void> {
+		const collection = this._state.collections.find((c) => c.id === collectionId);
+		if (!collection) {
+			throw new Error('Collection not found');
+		}
+
+		const newItems: GalleryItem[] = [];
+		for (const item of items) {
+			const itemId = `item-${collectionId}-${item.index}`;
+			await saveItemImage(itemId, collectionId, item.imageData);
+			newItems.push({
+				id: itemId,
+				name: item.name,
+				imageData: new ArrayBuffer(0),
+				imageFormat: item.imageFormat || 'png',
+				metadata: { traits: item.traits },
+				rarityScore: 0,
+				rarityRank: 0,
+				collectionId,
+				generatedAt: new Date()
+			});
+		}
+
+		collection.items.push(...newItems);
+		collection.totalSupply = collection.items.length;
+		this.clearCollectionCache(collectionId);
+		this.debouncedSaveToStorage();
+	}
+
+	/**
+	 * Recalculate rarity scores and ranks of a collection's items.
+	 */
+	recalculateRarity(collectionId: string) {
+		const collection = this._state.collections.find((c) => c.id === collectionId);
+		if (!collection) return;
+
+		const updated = updateCollectionWithRarity(collection, RarityMethod.TRAIT_RARITY);
+		this.updateCollection(collectionId, { items: updated.items });
+		if (this._state.selectedCollection?.id === collectionId) {
+			this._state.selectedCollection =
+				this._state.collections.find((c) => c.id === collectionId) ?? null;
+		}
+		const selectedItemId = this._state.selectedItem?.id;
+		if (selectedItemId && this._state.selectedItem?.collectionId === collectionId) {
+			this._state.selectedItem =
+				updated.items.find((item) => item.id === selectedItemId) ?? this._state.selectedItem;
+		}
+		this.clearCollectionCache(collectionId);
+	}
+
+	/**
+	 * Replace re-rolled tokens with their new versions. Items keep their id,
+	 * and their name unless a new one is given (name templates can use trait
+	 * values); the previous version moves into the item's history.
+	 * Rarity is recalculated afterwards.
+	 */
+	async replaceItems(
+		collectionId: string,
+		replacements: Array<{
+			itemId: string;
+			imageData: ArrayBuffer;
+			traits: GalleryItem['metadata']['traits'];
+			imageFormat?: string;
+			name?: string;
+		}>
+	): Promise<void> {
+		const collection = this._state.collections.find((c) => c.id === collectionId);
+		if (!collection) {
+			throw new Error('Collection not found');
+		}
+
+		for (const replacement of replacements) {
+			const item = collection.items.find((i) => i.id === replacement.itemId);
+			if (!item) {
+				throw new Error(`Item ${replacement.itemId} not found`);
+			}
+
+			const revision = await this.archiveItem(collectionId, item);
+			await saveItemImage(item.id, collectionId, replacement.imageData);
+			item.history = [...(item.history ?? []), revision];
+			item.imageData = new ArrayBuffer(0);
+			item.imageFormat = replacement.imageFormat || 'png';
+			item.metadata = { ...item.metadata, traits: replacement.traits };
+			if (replacement.name) item.name = replacement.name;
+		}
+
+		this.recalculateRarity(collectionId);
+	}
+
+	/**
+	 * Bring back an earlier version of an item. The current version takes
+	 * its place in the history, so a restore can be undone the same way.
+	 */
+	async restoreItemRevision(
+		collectionId: string,
+		itemId: string,
+		revisionId: string
+	): Promise<void> {
+		const collection = this._state.collections.find((c) => c.id === collectionId);
+		const item = collection?.items.find((i) => i.id === itemId);
+		const revision = item?.history?.find((r) => r.id === revisionId);
+		if (!item || !revision) {
+			throw new Error('Item version not found');
+		}
+
+		const imageData = await getItemRevisionImage(collectionId, itemId, revisionId);
+		if (!imageData) {
+			throw new Error('The image of this version is no longer in storage');
+		}
+
+		const current = await this.archiveItem(collectionId, item);
+		await saveItemImage(itemId, collectionId, imageData);
+		await deleteItemRevisionImage(collectionId, itemId, revisionId);
+		item.history = [...(item.history ?? []).filter((r) => r.id !== revisionId), current];
+		item.imageData = new ArrayBuffer(0);
+		item.imageFormat = revision.imageFormat;
+		item.metadata = revision.metadata;
+		if (revision.name) item.name = revision.name;
+
+		this.recalculateRarity(collectionId);
+	}
+
+	/** Copy an item's current image, name and traits into a new history entry */
+	private async archiveItem(collectionId: string, item: GalleryItem): Promise<GalleryItemRevision> {
+		// Images still in memory may not have been saved yet
+		if (item.imageData instanceof ArrayBuffer && item.imageData.byteLength > 0) {
+			await saveItemImage(item.id, collectionId, item.imageData);
+		}
+
+		const revision: GalleryItemRevision = {
+			id: `rev-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+			name: item.name,
+			imageFormat: item.imageFormat,
+			metadata: $state.snapshot(item.metadata),
+			replacedAt: new Date()
+		};
+		await archiveItemImage(collectionId, item.id, revision.id);
+		return revision;
+	}
+
 	/**
 	 * Fetch a single item's image data from storage on demand.
 	 */
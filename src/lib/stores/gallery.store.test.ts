@@ -81,6 +81,150 @@ describe('gallery.store', () => {
 		});
 	});
 
+	describe('appendItems', () => {
+		it('appends generated tokens and recalculates rarity on request', async () => {
+			const collection = galleryStore.importCollection(
+				[
+					{
+						name: 'Apes #1',
+						imageData: new ArrayBuffer(100),
+						metadata: { traits: [{ layer: 'Background', trait: 'Blue', rarity: 0 }] },
+						index: 0
+					}
+				],
+				'Apes',
+				'Wave 1'
+			);
+
+			await galleryStore.appendItems(collection.id, [
+				{
+					index: 1,
+					name: 'Apes #2',
+					imageData: new ArrayBuffer(10),
+					traits: [{ layer: 'Background', trait: 'Red', rarity: 0 }]
+				}
+			]);
+
+			const [updated] = galleryStore.collections;
+			expect(updated.items.map((item) => item.name)).toEqual(['Apes #1', 'Apes #2']);
+			expect(updated.totalSupply).toBe(2);
+			expect(galleryStorage.saveItemImage).toHaveBeenCalledWith(
+				`item-${collection.id}-1`,
+				collection.id,
+				expect.any(ArrayBuffer)
+			);
+			expect(updated.items[1].rarityRank).toBe(0);
+
+			galleryStore.recalculateRarity(collection.id);
+			expect(galleryStore.collections[0].items.every((item) => item.rarityRank > 0)).toBe(true);
+		});
+
+		it('rejects unknown collections', async () => {
+			await expect(galleryStore.appendItems('missing', [])).rejects.toThrow('Collection not found');
+		});
+	});
+
+	describe('replaceItems', () => {
+		function importApes() {
+			return galleryStore.importCollection(
+				['Blue', 'Red', 'Red'].map((background, index) => ({
+					name: `Apes #${index + 1}`,
+					imageData: new ArrayBuffer(10),
+					metadata: { traits: [{ layer: 'Background', trait: background, rarity: 0 }] },
+					index
+				})),
+				'Apes'
+			);
+		}
+
+		it('keeps the token, archives the old version and re-ranks the collection', async () => {
+			const collection = importApes();
+			const itemId = `item-${collection.id}-0`;
+
+			await galleryStore.replaceItems(collection.id, [
+				{
+					itemId,
+					imageData: new ArrayBuffer(20),
+					traits: [{ layer: 'Background', trait: 'Red', rarity: 0 }]
+				}
+			]);
+
+			const item = galleryStore.collections[0].items.find((i) => i.id === itemId)!;
+			expect(item.name).toBe('Apes #1');
+			expect(item.metadata.traits[0].trait).toBe('Red');
+			expect(item.history).toHaveLength(1);
+			expect(item.history![0].metadata.traits[0].trait).toBe('Blue');
+			expect(galleryStorage.archiveItemImage).toHaveBeenCalledWith(
+				collection.id,
+				itemId,
+				item.history![0].id
+			);
+			expect(galleryStorage.saveItemImage).toHaveBeenLastCalledWith(
+				itemId,
+				collection.id,
+				expect.objectContaining({ byteLength: 20 })
+			);
+			// Every token now has the same background, so all share one score
+			const scores = galleryStore.collections[0].items.map((i) => i.rarityScore);
+			expect(new Set(scores).size).toBe(1);
+		});
+
+		it('restores an earlier version and keeps the replaced one in history', async () => {
+			const collection = importApes();
+			const itemId = `item-${collection.id}-0`;
+			await galleryStore.replaceItems(collection.id, [
+				{
+					itemId,
+					imageData: new ArrayBuffer(20),
+					traits: [{ layer: 'Background', trait: 'Red', rarity: 0 }]
+				}
+			]);
+			const [original] = galleryStore.collections[0].items.find((i) => i.id === itemId)!.history!;
+			vi.mocked(galleryStorage.getItemRevisionImage).mockResolvedValue(new ArrayBuffer(10));
+
+			await galleryStore.restoreItemRevision(collection.id, itemId, original.id);
+
+			const item = galleryStore.collections[0].items.find((i) => i.id === itemId)!;
+			expect(item.metadata.traits[0].trait).toBe('Blue');
+			expect(item.history!.map((r) => r.metadata.traits[0].trait)).toEqual(['Red']);
+			expect(galleryStorage.deleteItemRevisionImage).toHaveBeenCalledWith(
+				collection.id,
+				itemId,
+				original.id
+			);
+		});
+
+		it('renames re-rolled tokens and restores the old name with the old version', async () => {
+			const collection = importApes();
+			const itemId = `item-${collection.id}-0`;
+			await galleryStore.replaceItems(collection.id, [
+				{
+					itemId,
+					imageData: new ArrayBuffer(20),
+					traits: [{ layer: 'Background', trait: 'Red', rarity: 0 }],
+					name: 'Red Ape #1'
+				}
+			]);
+			const item = galleryStore.collections[0].items.find((i) => i.id === itemId)!;
+			expect(item.name).toBe('Red Ape #1');
+			vi.mocked(galleryStorage.getItemRevisionImage).mockResolvedValue(new ArrayBuffer(10));
+
+			await galleryStore.restoreItemRevision(collection.id, itemId, item.history![0].id);
+
+			expect(galleryStore.collections[0].items.find((i) => i.id === itemId)!.name).toBe('Apes #1');
+		});
+
+		it('rejects items that are not in the collection', async () => {
+			const collection = importApes();
+
+			await expect(
+				galleryStore.replaceItems(collection.id, [
+					{ itemId: 'missing', imageData: new ArrayBuffer(1), traits: [] }
+				])
+			).rejects.toThrow('Item missing not found');
+		});
+	});
+
 	describe('loadFromStorage', () => {
 		it('loads collections from storage', async () => {
 			const mockCollections = [
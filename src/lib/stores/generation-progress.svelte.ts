@@ -20,6 +20,7 @@ export interface StartGenerationConfig {
 	collectionSize: number;
 	strictPairConfig?: StrictPairConfig;
 	metadataStandard?: MetadataStandard;
+	seed?: number;
 }
 
 export interface GenerationProgressUpdate {
@@ -51,6 +52,9 @@ export interface GenerationState {
 	error: string | null;
 	sessionId: string | null;
 
+	// Seed used for trait selection — lets the user rebuild the same collection
+	seed: number | null;
+
 	// Worker-reported memory usage
 	memoryUsage: number | { used: number; available: number; units: string } | null;
 
@@ -74,6 +78,7 @@ const DEFAULT_STATE: GenerationState = {
 	previews: [],
 	error: null,
 	sessionId: null,
+	seed: null,
 	memoryUsage: null,
 	itemsPerSecond: null,
 	eta: null,
@@ -96,6 +101,7 @@ export function startGeneration(config: StartGenerationConfig): string {
 		isGenerating: true,
 		totalItems: config.collectionSize,
 		sessionId,
+		seed: config.seed ?? null,
 		startTime: Date.now(),
 		statusText: 'Starting generation...'
 	});
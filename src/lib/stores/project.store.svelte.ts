@@ -9,26 +9,55 @@
  */
 
 import { calculateAdaptiveDelay } from '$lib/config/performance.config';
+import type { ImageOutputFormat } from '$lib/domain/image-encoding';
 import type { MetadataStandard } from '$lib/domain/metadata/metadata.strategy';
 import {
 	updateProjectName as mutateProjectName,
 	updateProjectDescription as mutateProjectDescription,
 	updateProjectDimensions as mutateProjectDimensions,
 	updateProjectMetadataStandard as mutateProjectMetadataStandard,
+	updateProjectOutputFormat as mutateProjectOutputFormat,
+	updateProjectOutputQuality as mutateProjectOutputQuality,
+	updateProjectPixelArt as mutateProjectPixelArt,
+	updateProjectPixelArtScale as mutateProjectPixelArtScale,
+	updateProjectNameTemplate as mutateProjectNameTemplate,
+	updateProjectDescriptionTemplate as mutateProjectDescriptionTemplate,
 	updateProjectSymbol as mutateProjectSymbol,
 	updateProjectSellerFee as mutateProjectSellerFee,
 	updateProjectExternalUrl as mutateProjectExternalUrl,
 	updateProjectAnimationUrl as mutateProjectAnimationUrl,
+	updateProjectPolicyId as mutateProjectPolicyId,
+	updateProjectRights as mutateProjectRights,
 	updateProjectCreators as mutateProjectCreators,
 	updateProjectPartial as mutateProjectPartial,
 	addLayer as mutateAddLayer,
 	removeLayer as mutateRemoveLayer,
 	updateLayerName as mutateLayerName,
 	updateLayer as mutateLayer,
+	updateLayerRarityMode as mutateLayerRarityMode,
 	reorderLayers as mutateReorderLayers,
 	removeTrait as mutateRemoveTrait,
 	updateTraitName as mutateTraitName,
 	updateTraitRarity as mutateTraitRarity,
+	updateTraitSupply as mutateTraitSupply,
+	addColorVariant as mutateAddColorVariant,
+	updateColorVariant as mutateColorVariant,
+	updateTraitRenderOverride as mutateTraitRenderOverride,
+	addCompatibilityRule as mutateAddCompatibilityRule,
+	updateCompatibilityRule as mutateCompatibilityRule,
+	removeCompatibilityRule as mutateRemoveCompatibilityRule,
+	replaceCompatibilityRules as mutateReplaceCompatibilityRules,
+	addOneOfOne as mutateAddOneOfOne,
+	updateOneOfOne as mutateOneOfOne,
+	removeOneOfOne as mutateRemoveOneOfOne,
+	addOutputRendition as mutateAddOutputRendition,
+	updateOutputRendition as mutateOutputRendition,
+	removeOutputRendition as mutateRemoveOutputRendition,
+	addExtraAttribute as mutateAddExtraAttribute,
+	updateExtraAttribute as mutateExtraAttribute,
+	removeExtraAttribute as mutateRemoveExtraAttribute,
+	linkTraits as mutateLinkTraits,
+	unlinkTraits as mutateUnlinkTraits,
 	updateTrait as mutateTrait,
 	toggleTraitType as mutateToggleTraitType,
 	updateTraitRulerRules as mutateTraitRulerRules,
@@ -42,9 +71,39 @@ import {
 	type TraitBatchUpdate,
 	type LayerBatchUpdate
 } from '$lib/domain/collection-design-mutator';
+import { renderColorVariantBlob, resolveImageSource } from '$lib/domain/color-variants';
+import {
+	exportCompatibilityRules as serializeCompatibilityRules,
+	importCompatibilityRules as parseCompatibilityRules
+} from '$lib/domain/compatibility-rules';
 import type { LayerId, ProjectId, TraitId } from '$lib/types/ids';
-import type { RulerRule, StrictPairConfig, TraitType } from '$lib/types/layer';
-import type { Layer, Project, ProjectDimensions, Trait } from '$lib/types/project';
+import type {
+	BlendSettings,
+	ColorTransform,
+	CompatibilityRule,
+	LayerAttributeSettings,
+	OptionalLayerSettings,
+	RarityMode,
+	RenderOverride,
+	RulerRule,
+	StrictPairConfig,
+	TraitLink,
+	TraitMetadataSettings,
+	TraitPlacement,
+	TraitSupply,
+	TraitType
+} from '$lib/types/layer';
+import type {
+	ExtraAttribute,
+	Layer,
+	OneOfOne,
+	OneOfOneAttribute,
+	OutputRendition,
+	Project,
+	ProjectDimensions,
+	Trait
+} from '$lib/types/project';
+import { fileToArrayBuffer } from '$lib/utils';
 import { performanceMonitor } from '$lib/utils/performance-monitor';
 import { persistenceService } from '../services/persistence.service';
 import { validationService } from '../services/validation.service';
@@ -108,6 +167,44 @@ export function updateProjectMetadataStandard(standard: MetadataStandard): void
 	handleMutationResult(result);
 }
 
+export function updateProjectOutputFormat(format: ImageOutputFormat): void {
+	const result = mutateProjectOutputFormat(project, format);
+	handleMutationResult(result);
+}
+
+export function updateProjectOutputQuality(quality: number): void {
+	const result = mutateProjectOutputQuality(project, quality);
+	handleMutationResult(result);
+}
+
+export function updateProjectPixelArt(enabled: boolean): void {
+	const result = mutateProjectPixelArt(project, enabled);
+	handleMutationResult(result);
+}
+
+export function updateProjectPixelArtScale(scale: number): void {
+	const result = mutateProjectPixelArtScale(project, scale);
+	handleMutationResult(result);
+}
+
+export function updateProjectNameTemplate(template: string): void {
+	validationService.validateTokenTemplate(
+		template,
+		project.layers.map((layer) => layer.name)
+	);
+	const result = mutateProjectNameTemplate(project, template);
+	handleMutationResult(result);
+}
+
+export function updateProjectDescriptionTemplate(template: string): void {
+	validationService.validateTokenTemplate(
+		template,
+		project.layers.map((layer) => layer.name)
+	);
+	const result = mutateProjectDescriptionTemplate(project, template);
+	handleMutationResult(result);
+}
+
 export function updateProjectSymbol(symbol: string): void {
 	const result = mutateProjectSymbol(project, symbol);
 	handleMutationResult(result);
@@ -133,6 +230,17 @@ export function updateProjectCreators(creators: { address: string; share: number
 	handleMutationResult(result);
 }
 
+export function updateProjectPolicyId(policyId: string): void {
+	validationService.validatePolicyId(policyId);
+	const result = mutateProjectPolicyId(project, policyId);
+	handleMutationResult(result);
+}
+
+export function updateProjectRights(rights: string): void {
+	const result = mutateProjectRights(project, rights);
+	handleMutationResult(result);
+}
+
 export function updateProjectDimensions(dimensions: ProjectDimensions): void {
 	validationService.validateDimensions(dimensions);
 	const result = mutateProjectDimensions(project, dimensions);
@@ -146,6 +254,38 @@ export function updateLayer(layerId: LayerId, updates: Partial<Layer>): void {
 	handleMutationResult(result);
 }
 
+export function updateOptionalLayerSettings(
+	layerId: LayerId,
+	settings: OptionalLayerSettings
+): void {
+	if (settings.noneProbability !== undefined) {
+		validationService.validateNoneProbability(settings.noneProbability);
+	}
+	const result = mutateLayer(project, layerId, settings);
+	handleMutationResult(result);
+}
+
+/** A blank attribute name goes back to the layer name */
+export function updateLayerAttributeSettings(
+	layerId: LayerId,
+	settings: LayerAttributeSettings
+): void {
+	const validated = validationService.validateLayerAttributeSettings(settings);
+	const result = mutateLayer(project, layerId, {
+		...('attributeName' in settings
+			? { attributeName: validated.attributeName?.trim() || undefined }
+			: {}),
+		...('hideAttribute' in settings ? { hideAttribute: validated.hideAttribute } : {})
+	});
+	handleMutationResult(result);
+}
+
+export function updateLayerBlending(layerId: LayerId, settings: BlendSettings): void {
+	const validated = validationService.validateBlendSettings(settings);
+	const result = mutateLayer(project, layerId, validated);
+	handleMutationResult(result);
+}
+
 export function addLayer(name: string): void {
 	validationService.validateLayerName(name);
 	const result = mutateAddLayer(project, name);
@@ -172,6 +312,11 @@ export function updateLayerName(layerId: LayerId, name: string): void {
 	handleMutationResult(result);
 }
 
+export function updateLayerRarityMode(layerId: LayerId, mode: RarityMode): void {
+	const result = mutateLayerRarityMode(project, layerId, mode);
+	handleMutationResult(result);
+}
+
 export function reorderLayers(layerIds: LayerId[]): void {
 	const result = mutateReorderLayers(project, layerIds);
 	handleMutationResult(result);
@@ -184,6 +329,47 @@ export function updateTrait(layerId: LayerId, traitId: TraitId, updates: Partial
 	handleMutationResult(result);
 }
 
+export function updateTraitBlending(
+	layerId: LayerId,
+	traitId: TraitId,
+	settings: BlendSettings
+): void {
+	const validated = validationService.validateBlendSettings(settings);
+	const result = mutateTrait(project, layerId, traitId, validated);
+	handleMutationResult(result);
+}
+
+/**
+ * Position a trait on the canvas, or pass undefined to stretch it over the full canvas.
+ */
+export function updateTraitPlacement(
+	layerId: LayerId,
+	traitId: TraitId,
+	placement: TraitPlacement | undefined
+): void {
+	const validated = placement ? validationService.validateTraitPlacement(placement) : undefined;
+	const result = mutateTrait(project, layerId, traitId, { placement: validated });
+	handleMutationResult(result);
+}
+
+/** A blank metadata value goes back to the trait name */
+export function updateTraitMetadata(
+	layerId: LayerId,
+	traitId: TraitId,
+	settings: TraitMetadataSettings
+): void {
+	const validated = validationService.validateTraitMetadata(settings);
+	const result = mutateTrait(project, layerId, traitId, {
+		...('metadataValue' in settings
+			? { metadataValue: validated.metadataValue?.trim() || undefined }
+			: {}),
+		...('attributes' in settings
+			? { attributes: validated.attributes?.length ? validated.attributes : undefined }
+			: {})
+	});
+	handleMutationResult(result);
+}
+
 export async function addTrait(layerId: LayerId, file: File): Promise<void> {
 	const layer = project.layers.find((l) => l.id === layerId);
 	if (!layer) throw new Error(`Layer with ID ${layerId} not found`);
@@ -199,15 +385,83 @@ export function removeTrait(layerId: LayerId, traitId: TraitId): void {
 	const layer = project.layers.find((l) => l.id === layerId);
 	if (!layer) return;
 
-	const trait = layer.traits.find((t) => t.id === traitId);
-	if (trait?.imageUrl) {
-		globalResourceManager.removeObjectUrl(trait.imageUrl);
+	// Colour variants of the trait are removed with it
+	for (const trait of layer.traits) {
+		if ((trait.id === traitId || trait.variant?.baseTraitId === traitId) && trait.imageUrl) {
+			globalResourceManager.removeObjectUrl(trait.imageUrl);
+		}
 	}
 
 	const result = mutateRemoveTrait(project, layerId, traitId);
 	handleMutationResult(result);
 }
 
+/**
+ * Add a trait rendered from `baseTraitId`'s image through a colour transform.
+ */
+export function addColorVariant(
+	layerId: LayerId,
+	baseTraitId: TraitId,
+	name: string,
+	transform: ColorTransform
+): Trait | undefined {
+	validationService.validateTraitName(name);
+	const validated = validationService.validateColorTransform(transform);
+	const base = project.layers
+		.find((l) => l.id === layerId)
+		?.traits.find((t) => t.id === baseTraitId);
+	if (!base) throw new Error(`Trait with ID ${baseTraitId} not found`);
+	if (base.variant)
+		throw new Error('Variants can only be created from traits with their own image');
+
+	const result = mutateAddColorVariant(project, layerId, baseTraitId, name, validated);
+	handleMutationResult(result);
+	return result.trait;
+}
+
+export function updateColorVariant(
+	layerId: LayerId,
+	traitId: TraitId,
+	transform: ColorTransform
+): void {
+	const validated = validationService.validateColorTransform(transform);
+	const trait = project.layers.find((l) => l.id === layerId)?.traits.find((t) => t.id === traitId);
+	// The rendered image is stale; the trait card renders it again
+	if (trait?.imageUrl) {
+		globalResourceManager.removeObjectUrl(trait.imageUrl);
+		trait.imageUrl = undefined;
+	}
+	const result = mutateColorVariant(project, layerId, traitId, validated);
+	handleMutationResult(result);
+}
+
+/**
+ * Render a colour variant's image from its base and set its `imageUrl`.
+ * Returns the URL, or undefined when the base image is not available.
+ */
+export async function ensureColorVariantImage(
+	layerId: LayerId,
+	traitId: TraitId
+): Promise<string | undefined> {
+	const layer = project.layers.find((l) => l.id === layerId);
+	const trait = layer?.traits.find((t) => t.id === traitId);
+	if (!layer || !trait?.variant) return undefined;
+	if (trait.imageUrl) return trait.imageUrl;
+
+	const base = resolveImageSource(layer.traits, trait);
+	if (!base || base.imageData.byteLength === 0) return undefined;
+
+	const transform = trait.variant.transform;
+	const blob = await renderColorVariantBlob(base.imageData, transform);
+	// The transform may have changed while rendering
+	if (trait.imageUrl || trait.variant?.transform !== transform) return trait.imageUrl;
+
+	const url = URL.createObjectURL(blob);
+	globalResourceManager.addObjectUrl(url);
+	trait.imageUrl = url;
+	return url;
+}
+
 export function updateTraitName(layerId: LayerId, traitId: TraitId, name: string): void {
 	validationService.validateTraitName(name);
 	const result = mutateTraitName(project, layerId, traitId, name);
@@ -220,6 +474,55 @@ export function updateTraitRarity(layerId: LayerId, traitId: TraitId, rarityWeig
 	handleMutationResult(result);
 }
 
+export function updateTraitSupply(layerId: LayerId, traitId: TraitId, supply: TraitSupply): void {
+	const validated = validationService.validateTraitSupply(supply);
+	const result = mutateTraitSupply(project, layerId, traitId, validated);
+	handleMutationResult(result);
+}
+
+/**
+ * Draw a trait below or above another layer, or pass undefined to follow layer order.
+ */
+export function updateTraitRenderOverride(
+	layerId: LayerId,
+	traitId: TraitId,
+	renderOverride: RenderOverride | undefined
+): void {
+	if (renderOverride) {
+		if (renderOverride.layerId === layerId) {
+			throw new Error('A trait cannot be drawn relative to its own layer');
+		}
+		if (!project.layers.some((layer) => layer.id === renderOverride.layerId)) {
+			throw new Error('Render order target layer not found');
+		}
+	}
+	const result = mutateTraitRenderOverride(project, layerId, traitId, renderOverride);
+	handleMutationResult(result);
+}
+
+/**
+ * Link two traits in different layers so they always appear together.
+ * Replaces an earlier link of either trait into the other's layer.
+ */
+export function linkTraits(a: TraitLink, b: TraitLink): void {
+	if (a.layerId === b.layerId) {
+		throw new Error('Linked traits must be in different layers');
+	}
+	for (const end of [a, b]) {
+		const exists = project.layers
+			.find((layer) => layer.id === end.layerId)
+			?.traits.some((trait) => trait.id === end.traitId);
+		if (!exists) throw new Error(`Trait with ID ${end.traitId} not found`);
+	}
+	const result = mutateLinkTraits(project, a, b);
+	handleMutationResult(result);
+}
+
+export function unlinkTraits(a: TraitLink, b: TraitLink): void {
+	const result = mutateUnlinkTraits(project, a, b);
+	handleMutationResult(result);
+}
+
 export function toggleTraitType(layerId: LayerId, traitId: TraitId): TraitType | undefined {
 	const result = mutateToggleTraitType(project, layerId, traitId);
 	handleMutationResult(result);
@@ -468,6 +771,149 @@ export function getActiveLayerCombinations(): string[] {
 	);
 }
 
+// Compatibility rules
+
+export function addCompatibilityRule(rule: Omit<CompatibilityRule, 'id'>): CompatibilityRule {
+	const newRule = validationService.validateCompatibilityRule(
+		{ ...rule, id: crypto.randomUUID() },
+		project.layers
+	);
+	const result = mutateAddCompatibilityRule(project, newRule);
+	handleMutationResult(result);
+	return newRule;
+}
+
+export function updateCompatibilityRule(rule: CompatibilityRule): void {
+	const validated = validationService.validateCompatibilityRule(rule, project.layers);
+	const result = mutateCompatibilityRule(project, validated);
+	handleMutationResult(result);
+}
+
+export function removeCompatibilityRule(ruleId: string): void {
+	const result = mutateRemoveCompatibilityRule(project, ruleId);
+	handleMutationResult(result);
+}
+
+/**
+ * Rules as JSON, with layers and traits referred to by name.
+ */
+export function exportCompatibilityRules(): string {
+	return serializeCompatibilityRules(project.compatibilityRules ?? [], project.layers);
+}
+
+/**
+ * Replace the rule set with the rules in a JSON file. Nothing changes when
+ * any rule is invalid. Returns the number of imported rules.
+ */
+export function importCompatibilityRules(json: string): number {
+	const rules = parseCompatibilityRules(json, project.layers);
+	const result = mutateReplaceCompatibilityRules(project, rules);
+	handleMutationResult(result);
+	return rules.length;
+}
+
+// 1-of-1 tokens
+
+/**
+ * Add a hand-made token from an image file, named after the file. It is
+ * placed at `tokenNumber` or, when omitted, at a random free position.
+ */
+export async function addOneOfOne(
+	file: File,
+	attributes: OneOfOneAttribute[] = [],
+	tokenNumber?: number
+): Promise<OneOfOne> {
+	const oneOfOne = validationService.validateOneOfOne({
+		id: crypto.randomUUID(),
+		name: file.name.replace(/\.[^/.]+$/, ''),
+		imageData: await fileToArrayBuffer(file),
+		attributes,
+		tokenNumber
+	});
+	const result = mutateAddOneOfOne(project, oneOfOne);
+	handleMutationResult(result);
+	return oneOfOne;
+}
+
+export function updateOneOfOne(
+	oneOfOneId: string,
+	updates: Partial<Pick<OneOfOne, 'name' | 'attributes' | 'tokenNumber'>>
+): void {
+	const oneOfOne = project.oneOfOnes?.find((o) => o.id === oneOfOneId);
+	if (!oneOfOne) throw new Error(`1-of-1 with ID ${oneOfOneId} not found`);
+
+	const validated = validationService.validateOneOfOne({ ...oneOfOne, ...updates });
+	const result = mutateOneOfOne(project, oneOfOneId, {
+		...('name' in updates ? { name: validated.name } : {}),
+		...('attributes' in updates ? { attributes: validated.attributes } : {}),
+		...('tokenNumber' in updates ? { tokenNumber: validated.tokenNumber } : {})
+	});
+	handleMutationResult(result);
+}
+
+export function removeOneOfOne(oneOfOneId: string): void {
+	const result = mutateRemoveOneOfOne(project, oneOfOneId);
+	handleMutationResult(result);
+}
+
+// Output renditions
+
+export function addOutputRendition(rendition: Omit<OutputRendition, 'id'>): OutputRendition {
+	const newRendition = validationService.validateOutputRendition({
+		...rendition,
+		id: crypto.randomUUID()
+	});
+	const result = mutateAddOutputRendition(project, newRendition);
+	handleMutationResult(result);
+	return newRendition;
+}
+
+export function updateOutputRendition(
+	renditionId: string,
+	updates: Partial<Omit<OutputRendition, 'id'>>
+): void {
+	const rendition = project.renditions?.find((r) => r.id === renditionId);
+	if (!rendition) throw new Error(`Rendition with ID ${renditionId} not found`);
+
+	const validated = validationService.validateOutputRendition({ ...rendition, ...updates });
+	const result = mutateOutputRendition(project, renditionId, validated);
+	handleMutationResult(result);
+}
+
+export function removeOutputRendition(renditionId: string): void {
+	const result = mutateRemoveOutputRendition(project, renditionId);
+	handleMutationResult(result);
+}
+
+// Extra attributes
+
+export function addExtraAttribute(attribute: Omit<ExtraAttribute, 'id'>): ExtraAttribute {
+	const newAttribute = validationService.validateExtraAttribute({
+		...attribute,
+		id: crypto.randomUUID()
+	});
+	const result = mutateAddExtraAttribute(project, newAttribute);
+	handleMutationResult(result);
+	return newAttribute;
+}
+
+export function updateExtraAttribute(
+	attributeId: string,
+	updates: Partial<Omit<ExtraAttribute, 'id'>>
+): void {
+	const attribute = project.extraAttributes?.find((a) => a.id === attributeId);
+	if (!attribute) throw new Error(`Attribute with ID ${attributeId} not found`);
+
+	const validated = validationService.validateExtraAttribute({ ...attribute, ...updates });
+	const result = mutateExtraAttribute(project, attributeId, validated);
+	handleMutationResult(result);
+}
+
+export function removeExtraAttribute(attributeId: string): void {
+	const result = mutateRemoveExtraAttribute(project, attributeId);
+	handleMutationResult(result);
+}
+
 export function resetProject(): void {
 	globalResourceManager.cleanup();
 	persistenceService.clearData();
@@ -25,6 +25,19 @@ export interface GalleryItem {
 	collectionId: string;
 	generatedAt: Date;
 	isBlobUrl?: boolean; // Optional flag to indicate if imageData is a blob URL
+	history?: GalleryItemRevision[]; // Earlier versions replaced by re-rolls, oldest first
+}
+
+/**
+ * An earlier version of a gallery item, kept when the item is re-rolled
+ */
+export interface GalleryItemRevision {
+	id: string;
+	/** Name of the version; older revisions predate name templates and keep the item's name */
+	name?: string;
+	imageFormat?: string;
+	metadata: GalleryItem['metadata'];
+	replacedAt: Date;
 }
 
 /**
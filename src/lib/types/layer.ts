@@ -13,9 +13,90 @@ export interface Layer {
 	name: string;
 	order: number;
 	isOptional?: boolean;
+	/**
+	 * Chance (0–1) that an optional layer is left empty on a token. Without it
+	 * the layer is only filled when uniqueness needs it.
+	 */
+	noneProbability?: number;
+	/** Emit a "None" attribute in metadata for tokens that leave this layer empty */
+	emitNoneAttribute?: boolean;
+	/** Metadata `trait_type` of the layer's attribute; the layer name when omitted */
+	attributeName?: string;
+	/** Leave the layer's attribute out of token metadata */
+	hideAttribute?: boolean;
+	/** How trait rarity values are entered; defaults to 'weight' */
+	rarityMode?: RarityMode;
+	/** Composite operation for the layer's traits; defaults to 'source-over' */
+	blendMode?: BlendMode;
+	/** Opacity (0–1) of the layer's traits; defaults to 1 */
+	opacity?: number;
 	traits: Trait[];
 }
 
+/**
+ * Settings controlling whether and how often a layer is left empty.
+ */
+export type OptionalLayerSettings = Pick<
+	Layer,
+	'isOptional' | 'noneProbability' | 'emitNoneAttribute'
+>;
+
+/**
+ * Settings controlling how a layer's attribute appears in token metadata.
+ */
+export type LayerAttributeSettings = Pick<Layer, 'attributeName' | 'hideAttribute'>;
+
+/** Attribute value used for layers a token leaves empty */
+export const NONE_TRAIT_VALUE = 'None';
+
+/**
+ * Canvas composite operations a layer or trait can be drawn with. The blend
+ * modes come first; the rest are the Porter-Duff operations.
+ */
+export const BLEND_MODES = [
+	'source-over',
+	'multiply',
+	'screen',
+	'overlay',
+	'darken',
+	'lighten',
+	'color-dodge',
+	'color-burn',
+	'hard-light',
+	'soft-light',
+	'difference',
+	'exclusion',
+	'hue',
+	'saturation',
+	'color',
+	'luminosity',
+	'source-in',
+	'source-out',
+	'source-atop',
+	'destination-over',
+	'destination-in',
+	'destination-out',
+	'destination-atop',
+	'lighter',
+	'copy',
+	'xor'
+] as const satisfies readonly GlobalCompositeOperation[];
+
+export type BlendMode = (typeof BLEND_MODES)[number];
+
+/**
+ * How a layer or trait is blended onto the traits below it. A trait's blend
+ * mode replaces its layer's; opacities multiply.
+ */
+export type BlendSettings = Pick<Layer, 'blendMode' | 'opacity'>;
+
+/**
+ * Rarity input mode for a layer:
+ * - 'weight': relative weights (legacy 1–5 scale or any fine-grained value)
+ * - 'percentage': explicit percentages that must add up to 100
+ */
+export type RarityMode = 'weight' | 'percentage';
+
 /**
  * Trait type enumeration
  */
@@ -42,12 +123,141 @@ export interface Trait {
 	imageData: ArrayBuffer;
 	imageUrl?: string;
 	rarityWeight: number;
+	/** Attribute value written to token metadata; the trait name when omitted */
+	metadataValue?: string;
+	/** Extra attributes written on every token that carries this trait */
+	attributes?: TraitAttribute[];
 	/** Type of trait - normal or ruler */
 	type?: TraitType;
 	/** Compatibility rules for ruler traits */
 	rulerRules?: RulerRule[];
+	/** Exact number of tokens that must carry this trait across the collection */
+	exactCount?: number;
+	/** Maximum number of tokens that may carry this trait across the collection */
+	maxCount?: number;
+	/** Draw position override; the trait still belongs to its own layer in metadata */
+	renderOverride?: RenderOverride;
+	/** Overrides the layer's blend mode for this trait */
+	blendMode?: BlendMode;
+	/** Opacity (0–1), applied on top of the layer's opacity */
+	opacity?: number;
+	/** Size and position on the canvas; without it the image is stretched to fill */
+	placement?: TraitPlacement;
+	/**
+	 * Set on colour variants: the image is rendered from another trait of the
+	 * same layer, so the variant stores no image of its own.
+	 */
+	variant?: ColorVariant;
+	/**
+	 * Traits in other layers that are always chosen together with this one.
+	 * Links are kept on both traits.
+	 */
+	links?: TraitLink[];
 }
 
+/**
+ * Extra metadata attribute of a trait, e.g. "Power: 7".
+ */
+export interface TraitAttribute {
+	trait_type: string;
+	value: string;
+}
+
+/**
+ * Settings controlling what a trait writes to token metadata.
+ */
+export type TraitMetadataSettings = Pick<Trait, 'metadataValue' | 'attributes'>;
+
+/**
+ * Reference to a trait bound to another trait: whenever either is on a
+ * token, the other is too (e.g. matching left and right sleeves).
+ */
+export interface TraitLink {
+	layerId: LayerId;
+	traitId: TraitId;
+}
+
+/**
+ * A trait derived from a base trait's image by a colour transform.
+ */
+export interface ColorVariant {
+	/** Trait in the same layer whose image is transformed */
+	baseTraitId: TraitId;
+	transform: ColorTransform;
+}
+
+/**
+ * Colour transform applied to a base image:
+ * - 'hue-shift': rotate every pixel's hue by `degrees`
+ * - 'tint': blend towards `color` (keeping shading) by `strength` (0–1)
+ * - 'palette-swap': replace exact source colours with target colours
+ */
+export type ColorTransform =
+	| { kind: 'hue-shift'; degrees: number }
+	| { kind: 'tint'; color: string; strength: number }
+	| { kind: 'palette-swap'; swaps: ColorSwap[] };
+
+export type ColorTransformKind = ColorTransform['kind'];
+
+/** Hex colours (#rrggbb) */
+export interface ColorSwap {
+	from: string;
+	to: string;
+}
+
+/**
+ * Draw a trait directly below or above another layer instead of at its own
+ * layer's position (e.g. long hair behind the body). Only compositing changes.
+ */
+export interface RenderOverride {
+	/** Layer the trait is drawn next to */
+	layerId: LayerId;
+	position: RenderPosition;
+}
+
+export type RenderPosition = 'below' | 'above';
+
+/**
+ * How a trait image is sized and positioned on the output canvas, so traits
+ * can be uploaded tightly cropped instead of as full-size transparent PNGs.
+ */
+export interface TraitPlacement {
+	fit: FitMode;
+	/** Point of the canvas (and of the image) the image is aligned on */
+	anchor: PlacementAnchor;
+	/** Offset from the anchor, in output pixels */
+	x: number;
+	y: number;
+	/** Multiplier applied after fitting */
+	scale: number;
+}
+
+/**
+ * - 'stretch': fill the canvas, ignoring aspect ratio
+ * - 'contain': largest size that fits the canvas, keeping aspect ratio
+ * - 'none': the image's own pixel size
+ */
+export type FitMode = 'stretch' | 'contain' | 'none';
+
+export const PLACEMENT_ANCHORS = [
+	'top-left',
+	'top',
+	'top-right',
+	'left',
+	'center',
+	'right',
+	'bottom-left',
+	'bottom',
+	'bottom-right'
+] as const;
+
+export type PlacementAnchor = (typeof PLACEMENT_ANCHORS)[number];
+
+/**
+ * Supply quotas for a trait. Omitted fields mean "no quota".
+ */
+export type TraitSupply = Pick<Trait, 'exactCount' | 'maxCount'>;
+
 /**
  * Layer creation options interface
  */
@@ -76,6 +286,33 @@ export interface StrictPairConfig {
 	layerCombinations: LayerCombination[];
 }
 
+/**
+ * Project-level compatibility rule between the traits of any two layers,
+ * independent of trait type:
+ * - 'requires': tokens matching `when` must also match `target`
+ *   ("if Head is Helmet then Hair is None")
+ * - 'excludes': no token matches both `when` and `target`
+ *   ("never Eyes: Laser with Mouth: Pipe")
+ */
+export interface CompatibilityRule {
+	id: string;
+	kind: CompatibilityRuleKind;
+	when: TraitCondition;
+	target: TraitCondition;
+}
+
+export type CompatibilityRuleKind = 'requires' | 'excludes';
+
+/**
+ * Matches tokens whose trait in `layerId` is one of `traitIds`, or that leave
+ * the layer empty when `none` is set.
+ */
+export interface TraitCondition {
+	layerId: LayerId;
+	traitIds: TraitId[];
+	none?: boolean;
+}
+
 /**
  * Layer combination definition for Strict Pair tracking
  */
@@ -23,17 +23,93 @@ export interface Project {
 	description: string;
 	outputSize: ProjectDimensions;
 	metadataStandard?: import('$lib/domain/metadata/metadata.strategy').MetadataStandard;
+	/** Image format of generated tokens; PNG when omitted */
+	outputFormat?: import('$lib/domain/image-encoding').ImageOutputFormat;
+	/** 1–100 quality for WebP and JPEG output */
+	outputQuality?: number;
+	/** Extra sizes and formats rendered from every token next to the primary image */
+	renditions?: OutputRendition[];
+	/** Upscale with nearest-neighbour scaling instead of smoothing */
+	pixelArt?: boolean;
+	/** Whole-number factor applied to `outputSize` in pixel-art mode */
+	pixelArtScale?: number;
+	/** Token name with placeholders, e.g. "{Body} Ape #{id:04}"; "{project} #{id}" when omitted */
+	nameTemplate?: string;
+	/** Token description with placeholders; the project description when omitted */
+	descriptionTemplate?: string;
+	/** Attributes added to every token after its layer attributes */
+	extraAttributes?: ExtraAttribute[];
 	symbol?: string;
 	sellerFeeBasisPoints?: number;
 	externalUrl?: string;
 	animationUrl?: string;
 	creators?: { address: string; share: number }[];
+	/** Cardano minting policy the CIP-25 metadata is written under */
+	policyId?: string;
+	/** License or rights statement written as TZIP-21 `rights` */
+	rights?: string;
 	layers: Layer[];
 	/** Strict Pair configuration for trait combination uniqueness */
 	strictPairConfig?: import('./layer').StrictPairConfig;
+	/** Compatibility rules between traits of any layers, enforced by the solver */
+	compatibilityRules?: import('./layer').CompatibilityRule[];
+	/** Hand-made tokens injected into every generated collection */
+	oneOfOnes?: OneOfOne[];
 	_needsProperLoad?: boolean;
 }
 
+/**
+ * Hand-made token ("1-of-1") placed into a generated collection as-is. Its
+ * image is drawn full canvas and its own attributes replace layer traits.
+ */
+export interface OneOfOne {
+	id: string;
+	name: string;
+	imageData: ArrayBuffer;
+	attributes: OneOfOneAttribute[];
+	/** 1-based token number; a random free position is used when omitted */
+	tokenNumber?: number;
+}
+
+/**
+ * An extra rendition of every token, written to its own folder of the export.
+ * Metadata `image` fields keep pointing at the primary image.
+ */
+export interface OutputRendition {
+	id: string;
+	name: string;
+	width: number;
+	height: number;
+	format: import('$lib/domain/image-encoding').ImageOutputFormat;
+	/** 1–100 quality for WebP and JPEG */
+	quality?: number;
+	/** Folder at the export root, e.g. "thumbnails" */
+	folder: string;
+	/** Metadata field that links the rendition, e.g. "thumbnail"; none when omitted */
+	metadataField?: string;
+}
+
+/**
+ * An attribute every token gets besides its layers' traits: a static value
+ * or one computed per token. See attribute-mapping for the sources.
+ */
+export interface ExtraAttribute {
+	id: string;
+	traitType: string;
+	source: import('$lib/domain/attribute-mapping').ExtraAttributeSource;
+	/** Value of a static attribute; written as a number when it has a display type */
+	value?: string;
+	/** OpenSea `display_type`, e.g. "boost_percentage" */
+	displayType?: import('$lib/domain/attribute-mapping').AttributeDisplayType;
+	/** OpenSea `max_value` of a numeric attribute */
+	maxValue?: number;
+}
+
+export interface OneOfOneAttribute {
+	trait_type: string;
+	value: string;
+}
+
 /**
  * Generation settings interface
  */
@@ -45,4 +121,9 @@ export interface GenerationSettings {
 }
 
 export type { Layer, Trait };
-export type { StrictPairConfig, LayerCombination } from './layer';
+export type {
+	StrictPairConfig,
+	LayerCombination,
+	CompatibilityRule,
+	TraitCondition
+} from './layer';
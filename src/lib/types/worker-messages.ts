@@ -1,7 +1,19 @@
 // src/lib/types/worker-messages.ts
 
 import type { LayerId, TraitId, TaskId } from './ids';
-import type { TraitType, RulerRule } from './layer';
+import type {
+	TraitType,
+	RulerRule,
+	RenderOverride,
+	BlendMode,
+	TraitPlacement,
+	ColorVariant,
+	TraitLink,
+	TraitAttribute,
+	StrictPairConfig,
+	CompatibilityRule
+} from './layer';
+import type { OneOfOneAttribute } from './project';
 
 // Worker message interfaces for generation worker
 export interface TransferrableTrait {
@@ -9,12 +21,35 @@ export interface TransferrableTrait {
 	name: string;
 	imageData: ArrayBuffer;
 	rarityWeight: number;
+	// Written to token metadata in place of the name, plus extra attributes
+	metadataValue?: string;
+	attributes?: TraitAttribute[];
 	// Add width/height for better memory management
 	width?: number;
 	height?: number;
 	// Ruler trait properties
 	type?: TraitType;
 	rulerRules?: RulerRule[];
+	// Supply quotas enforced across the whole collection by the solver
+	exactCount?: number;
+	maxCount?: number;
+	renderOverride?: RenderOverride;
+	// Compositing
+	blendMode?: BlendMode;
+	opacity?: number;
+	placement?: TraitPlacement;
+	// Colour variants carry their base trait's imageData and transform it
+	variant?: ColorVariant;
+	// Enforced by the solver in both directions
+	links?: TraitLink[];
+}
+
+// Hand-made token rendered from its own image instead of layer traits
+export interface TransferrableOneOfOne {
+	id: string;
+	name: string;
+	imageData: ArrayBuffer;
+	attributes: { trait_type: string; value: string }[];
 }
 
 export interface TransferrableLayer {
@@ -22,6 +57,12 @@ export interface TransferrableLayer {
 	name: string;
 	order: number;
 	isOptional?: boolean;
+	noneProbability?: number;
+	emitNoneAttribute?: boolean;
+	attributeName?: string;
+	hideAttribute?: boolean;
+	blendMode?: BlendMode;
+	opacity?: number;
 	traits: TransferrableTrait[];
 	// Add layer-level width/height for consistent sizing
 	width?: number;
@@ -59,11 +100,19 @@ export interface ProgressMessage extends BaseOutgoingMessage {
 	};
 }
 
+/** A rendered token image; its extra renditions travel with it */
+export interface GeneratedImage {
+	name: string;
+	imageData: ArrayBuffer;
+	/** Extra renditions by export path, e.g. "thumbnails/1.webp" */
+	renditions?: { path: string; imageData: ArrayBuffer }[];
+}
+
 // Generation complete message
 export interface CompleteMessage extends BaseOutgoingMessage {
 	type: 'complete';
 	payload: {
-		images: { name: string; imageData: ArrayBuffer }[];
+		images: GeneratedImage[];
 		metadata: { name: string; data: object }[];
 		isChunk?: boolean; // Flag to indicate if this is a chunked response
 		generatedCount?: number;
@@ -111,13 +160,24 @@ export interface PreviewMessage extends BaseOutgoingMessage {
 export interface BatchMessage extends BaseIncomingMessage {
 	type: 'batch';
 	payload: {
-		solutions: { index: number; traits: { layerId: string; trait: TransferrableTrait }[] }[];
+		solutions: {
+			index: number;
+			traits: { layerId: string; trait: TransferrableTrait }[];
+			oneOfOne?: TransferrableOneOfOne;
+			rarityRank?: number;
+		}[];
 		layers: TransferrableLayer[];
 		collectionSize: number;
 		outputSize: { width: number; height: number };
 		projectName: string;
 		projectDescription: string;
 		metadataStandard?: import('$lib/domain/metadata/metadata.strategy').MetadataStandard;
+		imageEncoding?: import('$lib/domain/image-encoding').ImageEncoding;
+		renditions?: import('$lib/domain/renditions').RenditionSpec[];
+		/** Nearest-neighbour upscale factor; `outputSize` is already scaled */
+		pixelArtScale?: number;
+		tokenTemplates?: import('$lib/domain/token-templates').TokenTemplates;
+		extraAttributes?: import('$lib/types/project').ExtraAttribute[];
 		extraData?: Record<string, unknown>;
 	};
 }
@@ -137,12 +197,20 @@ export interface BatchRefMessage extends BaseIncomingMessage {
 		solutions: {
 			index: number;
 			traitRefs: { layerId: string; traitId: string }[];
+			oneOfOne?: TransferrableOneOfOne;
+			rarityRank?: number;
 		}[];
 		collectionSize: number;
 		outputSize: { width: number; height: number };
 		projectName: string;
 		projectDescription: string;
 		metadataStandard?: import('$lib/domain/metadata/metadata.strategy').MetadataStandard;
+		imageEncoding?: import('$lib/domain/image-encoding').ImageEncoding;
+		renditions?: import('$lib/domain/renditions').RenditionSpec[];
+		/** Nearest-neighbour upscale factor; `outputSize` is already scaled */
+		pixelArtScale?: number;
+		tokenTemplates?: import('$lib/domain/token-templates').TokenTemplates;
+		extraAttributes?: import('$lib/types/project').ExtraAttribute[];
 		extraData?: Record<string, unknown>;
 	};
 }
@@ -153,7 +221,7 @@ export interface BatchRefMessage extends BaseIncomingMessage {
 export interface GenerationChunkMessage extends BaseOutgoingMessage {
 	type: 'chunk';
 	payload: {
-		images: { name: string; imageData: ArrayBuffer }[];
+		images: GeneratedImage[];
 		metadata: { name: string; data: object }[];
 		generatedCount: number;
 		totalCount: number;
@@ -203,3 +271,44 @@ export type WorkerPoolDispatchMessage =
 
 /** @deprecated Use WorkerPoolDispatchMessage. */
 export type GenerationWorkerMessage = WorkerPoolDispatchMessage;
+
+// Messages exchanged with the dedicated solver worker. The worker runs one
+// solve per instance and is terminated to cancel, so no task ids are needed.
+
+// Solve a collection and stream the results back in batches
+export interface SolveMessage {
+	type: 'solve';
+	payload: {
+		layers: TransferrableLayer[];
+		collectionSize: number;
+		strictPairConfig?: StrictPairConfig;
+		seed?: number;
+		compatibilityRules?: CompatibilityRule[];
+		reservedAttributes?: OneOfOneAttribute[][];
+		/** Most tokens per streamed batch */
+		batchSize: number;
+	};
+}
+
+// Batch of solved tokens, as trait references in layer order
+export interface SolvedBatchMessage {
+	type: 'solved';
+	payload: {
+		solutions: { index: number; traitRefs: { layerId: string; traitId: string }[] }[];
+		solvedCount: number;
+		totalCount: number;
+	};
+}
+
+// Every token has been solved
+export interface SolveCompleteMessage {
+	type: 'solve-complete';
+}
+
+// Solving failed, e.g. the unique combinations ran out
+export interface SolveErrorMessage {
+	type: 'solve-error';
+	payload: { message: string };
+}
+
+export type SolverWorkerResponse = SolvedBatchMessage | SolveCompleteMessage | SolveErrorMessage;
@@ -0,0 +1,28 @@
+import { bench, describe } from 'vite-plus/test';
+import { CombinationIndexer, type CombinationKey } from './combination-indexer';
+import { createSeededRandom } from './seeded-random';
+
+const TOKENS = 100_000;
+
+function trackCombinations(radices: number[]): void {
+	const indexer = new CombinationIndexer(radices);
+	const random = createSeededRandom(2024);
+	const used = new Set<CombinationKey>();
+	while (used.size < TOKENS) {
+		used.add(indexer.pack(radices.map((radix) => Math.floor(random() * radix))));
+	}
+}
+
+describe('CombinationIndexer: 100k tokens with 15 layers', () => {
+	bench(
+		'BigInt keys (400 backgrounds, 14 layers of 8 traits)',
+		() => trackCombinations([401, ...Array.from({ length: 14 }, () => 9)]),
+		{ iterations: 3 }
+	);
+
+	bench(
+		'number keys (15 layers of 10 traits)',
+		() => trackCombinations(Array.from({ length: 15 }, () => 11)),
+		{ iterations: 3 }
+	);
+});
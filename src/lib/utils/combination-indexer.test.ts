@@ -0,0 +1,92 @@
+import { describe, expect, it } from 'vite-plus/test';
+import { CombinationIndexer, type CombinationKey } from './combination-indexer';
+import { createSeededRandom } from './seeded-random';
+
+/** 15 layers: 400 backgrounds plus 14 layers of 8 traits, each with "None" */
+const LARGE_RADICES = [401, ...Array.from({ length: 14 }, () => 9)];
+
+describe('CombinationIndexer', () => {
+	it('packs and unpacks digits in mixed radix', () => {
+		const indexer = new CombinationIndexer([3, 4, 2]);
+
+		expect(indexer.pack([2, 1, 0])).toBe(5);
+		expect(indexer.pack([2, 3, 1])).toBe(23);
+		expect(indexer.unpack(23)).toEqual([2, 3, 1]);
+		expect(indexer.usesBigInt).toBe(false);
+	});
+
+	it('switches to BigInt keys once combinations outgrow safe integers', () => {
+		const indexer = new CombinationIndexer(LARGE_RADICES);
+		const digits = [399, 8, 0, 7, 1, 2, 3, 4, 5, 6, 8, 0, 1, 2, 3];
+		const key = indexer.pack(digits);
+
+		expect(indexer.usesBigInt).toBe(true);
+		expect(typeof key).toBe('bigint');
+		expect(indexer.unpack(key)).toEqual(digits);
+		expect(indexer.pack(LARGE_RADICES.map((radix) => radix - 1))).toBe(
+			LARGE_RADICES.reduce((product, radix) => product * BigInt(radix), 1n) - 1n
+		);
+	});
+
+	it('rejects invalid radices and digits', () => {
+		expect(() => new CombinationIndexer([3, 0])).toThrow('Received 0');
+		const indexer = new CombinationIndexer([3, 4]);
+		expect(() => indexer.pack([1])).toThrow('Expected 2 combination digits');
+		expect(() => indexer.pack([3, 0])).toThrow('Digit 3 at position 0 is outside 0-2.');
+		expect(() => indexer.pack([0, 1.5])).toThrow('outside 0-3');
+	});
+
+	// Timings live in combination-indexer.bench.ts; these only check correctness at scale
+	describe('100k tokens with 15 layers', () => {
+		const TOKENS = 100_000;
+
+		function trackCombinations(radices: number[]) {
+			const indexer = new CombinationIndexer(radices);
+			const random = createSeededRandom(2024);
+			const used = new Set<CombinationKey>();
+			let duplicates = 0;
+
+			while (used.size < TOKENS) {
+				const digits = radices.map((radix) => Math.floor(random() * radix));
+				const key = indexer.pack(digits);
+				if (used.has(key)) {
+					duplicates++;
+					continue;
+				}
+				used.add(key);
+			}
+			// Every stored combination is found again as a duplicate
+			const first = indexer.pack(indexer.unpack(used.values().next().value!));
+			const found = used.has(first);
+
+			return { indexer, used, duplicates, found };
+		}
+
+		it('tracks unique combinations with BigInt keys', () => {
+			const { indexer, used, found } = trackCombinations(LARGE_RADICES);
+
+			expect(indexer.usesBigInt).toBe(true);
+			expect(used.size).toBe(TOKENS);
+			expect(found).toBe(true);
+		});
+
+		it('tracks unique combinations with number keys', () => {
+			// 15 layers of 10 traits plus "None" still fit in a safe integer
+			const { indexer, used, found } = trackCombinations(Array.from({ length: 15 }, () => 11));
+
+			expect(indexer.usesBigInt).toBe(false);
+			expect(used.size).toBe(TOKENS);
+			expect(found).toBe(true);
+		});
+
+		it('detects repeated combinations without false matches', () => {
+			// 2 × 3^14 ≈ 9.5M combinations: the birthday bound makes repeats certain
+			const radices = [2, ...Array.from({ length: 14 }, () => 3)];
+			const { used, duplicates } = trackCombinations(radices);
+			const keys = [...used];
+
+			expect(new Set(keys.map(String)).size).toBe(TOKENS);
+			expect(duplicates).toBeGreaterThan(0);
+		});
+	});
+});
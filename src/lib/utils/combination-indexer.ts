@@ -1,79 +1,125 @@
 /**
- * Bit-packed combination indexing for O(1) lookups and 80% memory reduction
- * Packs up to 8 traits into a single 64-bit integer for fast validation
+ * Mixed-radix combination keys for O(1) duplicate checks at any scale.
+ *
+ * Each position of a combination (one layer) has its own radix: the number of
+ * values it can take, e.g. its trait count plus one for "None". A combination
+ * is packed by reading its digits in those bases, so every combination gets
+ * its own key whatever the number of layers or traits per layer. Keys are
+ * plain numbers while every combination fits below Number.MAX_SAFE_INTEGER and
+ * BigInts beyond that; both are primitives, so Set lookups stay constant time.
  */
 
+export type CombinationKey = number | bigint;
+
 export class CombinationIndexer {
-	private static readonly BITS_PER_TRAIT = 8; // Supports 256 traits per layer (0-255)
-	private static readonly MAX_TRAITS = 8; // Total: 64 bits (8 traits × 8 bits)
-	private static readonly TRAIT_MASK = (1 << this.BITS_PER_TRAIT) - 1; // 0xFF
+	private readonly radices: number[];
+	/** Place value of each position when keys fit in a number */
+	private readonly weights: number[] | null;
+	/** Place value of each position when keys need a BigInt */
+	private readonly bigWeights: bigint[] | null;
+
+	/**
+	 * @param radices Number of values each position can take (positive integers)
+	 * @throws Error if a radix is not a positive integer
+	 */
+	constructor(radices: number[]) {
+		for (const radix of radices) {
+			if (!Number.isInteger(radix) || radix < 1) {
+				throw new Error(`Combination radix must be a positive integer. Received ${radix}.`);
+			}
+		}
+		this.radices = [...radices];
+
+		let capacity = 1;
+		const weights: number[] = [];
+		for (const radix of radices) {
+			weights.push(capacity);
+			capacity *= radix;
+		}
+
+		if (capacity <= Number.MAX_SAFE_INTEGER) {
+			this.weights = weights;
+			this.bigWeights = null;
+		} else {
+			let weight = 1n;
+			this.bigWeights = radices.map((radix) => {
+				const current = weight;
+				weight *= BigInt(radix);
+				return current;
+			});
+			this.weights = null;
+		}
+	}
+
+	/**
+	 * Whether keys are BigInts because the combinations outgrow safe integers.
+	 */
+	get usesBigInt(): boolean {
+		return this.bigWeights !== null;
+	}
 
 	/**
-	 * Pack trait IDs into a single 64-bit integer
-	 * Each trait uses 8 bits: Trait 0 in bits 0-7, Trait 1 in bits 8-15, etc.
+	 * Pack one digit per position into a key.
 	 *
-	 * @param traitIds Array of trait IDs to pack (must be ≤ 8 traits)
-	 * @returns BigInt representing the packed combination
-	 * @throws Error if too many traits or trait ID exceeds 255
+	 * @param digits Value index per position, each below its radix
+	 * @throws Error if the digit count or a digit is out of range
 	 *
 	 * @example
-	 * pack([1, 5, 10]) // Returns 0x00000A0501n
+	 * new CombinationIndexer([3, 4]).pack([2, 1]) // 2 + 1 × 3 = 5
 	 */
-	static pack(traitIds: number[]): bigint {
-		if (traitIds.length > this.MAX_TRAITS) {
+	pack(digits: number[]): CombinationKey {
+		if (digits.length !== this.radices.length) {
 			throw new Error(
-				`Maximum ${this.MAX_TRAITS} traits supported for bit-packed indexing. ` +
-					`Received ${traitIds.length} traits.`
+				`Expected ${this.radices.length} combination digits. Received ${digits.length}.`
 			);
 		}
 
-		let index = 0n;
-
-		for (let i = 0; i < traitIds.length; i++) {
-			const traitId = traitIds[i];
-
-			// Validate trait ID fits in 8 bits (0-255)
-			if (traitId < 0 || traitId > this.TRAIT_MASK) {
-				throw new Error(
-					`Trait ID ${traitId} exceeds maximum value ${this.TRAIT_MASK}. ` +
-						`Bit-packed indexing requires trait IDs ≤ 255.`
-				);
+		if (this.weights) {
+			let key = 0;
+			for (let i = 0; i < digits.length; i++) {
+				key += this.checkDigit(digits[i], i) * this.weights[i];
 			}
-
-			index |= BigInt(traitId) << BigInt(i * this.BITS_PER_TRAIT);
+			return key;
 		}
 
-		return index;
+		let key = 0n;
+		for (let i = 0; i < digits.length; i++) {
+			key += BigInt(this.checkDigit(digits[i], i)) * this.bigWeights![i];
+		}
+		return key;
 	}
 
 	/**
-	 * Unpack a 64-bit integer back into trait IDs
-	 *
-	 * @param index BigInt representing the packed combination
-	 * @param expectedLength Expected number of traits (for validation)
-	 * @returns Array of trait IDs
+	 * Unpack a key back into one digit per position.
 	 *
 	 * @example
-	 * unpack(0x00000A0501n, 3) // Returns [1, 5, 10]
+	 * new CombinationIndexer([3, 4]).unpack(5) // [2, 1]
 	 */
-	static unpack(index: bigint, expectedLength?: number): number[] {
-		const traitIds: number[] = [];
-		const mask = BigInt(this.TRAIT_MASK);
-
-		// Determine actual length if not provided
-		const maxIterations = expectedLength || this.MAX_TRAITS;
-
-		for (let i = 0; i < maxIterations; i++) {
-			const traitId = Number((index >> BigInt(i * this.BITS_PER_TRAIT)) & mask);
+	unpack(key: CombinationKey): number[] {
+		if (typeof key === 'number') {
+			let rest = key;
+			return this.radices.map((radix) => {
+				const digit = rest % radix;
+				rest = (rest - digit) / radix;
+				return digit;
+			});
+		}
 
-			// If we hit a zero at expected length, stop
-			if (traitId === 0 && i >= (expectedLength || 0) && i > 0) {
-				break;
-			}
+		let rest = key;
+		return this.radices.map((radix) => {
+			const big = BigInt(radix);
+			const digit = rest % big;
+			rest /= big;
+			return Number(digit);
+		});
+	}
 
-			traitIds.push(traitId);
+	private checkDigit(digit: number, position: number): number {
+		if (!Number.isInteger(digit) || digit < 0 || digit >= this.radices[position]) {
+			throw new Error(
+				`Digit ${digit} at position ${position} is outside 0-${this.radices[position] - 1}.`
+			);
 		}
-
-		return traitIds;
+		return digit;
 	}
 }
@@ -2,6 +2,8 @@
  * Shared gallery utility functions
  */
 
+import type { GalleryItem } from '$lib/types/gallery';
+
 export function getRarityColor(rank: number, total: number): string {
 	const percentage = (rank / total) * 100;
 	if (percentage <= 5) return 'bg-red-500 text-white';
@@ -10,3 +12,12 @@ export function getRarityColor(rank: number, total: number): string {
 	if (percentage <= 50) return 'bg-green-500 text-white';
 	return 'bg-blue-500 text-white';
 }
+
+/**
+ * Cache key for an item's current image. Changes whenever a re-roll or a
+ * restore replaces the image, so stale object URLs are never reused.
+ */
+export function getItemImageKey(item: Pick<GalleryItem, 'id' | 'history'>): string {
+	const latest = item.history?.at(-1);
+	return latest ? `${item.id}@${latest.id}` : item.id;
+}
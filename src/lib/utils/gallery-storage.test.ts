@@ -5,10 +5,12 @@ import { storagePaths } from '$lib/storage/paths';
 import type { ObjectStorageBackend } from '$lib/storage/types';
 import type { GalleryCollection, GalleryItem } from '$lib/types/gallery';
 import {
+	archiveItemImage,
 	clearAllCollections,
 	deleteCollection,
 	getAllCollections,
 	getItemImage,
+	getItemRevisionImage,
 	saveCollection,
 	saveItemImage
 } from './gallery-storage';
@@ -139,6 +141,31 @@ describe('gallery storage', () => {
 		expect((await getAllCollections())[0].items.map((item) => item.id)).toEqual(['item-a']);
 	});
 
+	it('keeps archived versions of an item through collection rewrites', async () => {
+		const item = createItem('item-a', 'collection-a', [1]);
+		await saveCollection(createCollection('collection-a', [item]));
+
+		await archiveItemImage('collection-a', 'item-a', 'rev-1');
+		await saveItemImage('item-a', 'collection-a', buffer([2]));
+		const replacedAt = new Date('2024-02-01T00:00:00.000Z');
+		await saveCollection(
+			createCollection('collection-a', [
+				{
+					...item,
+					imageData: new ArrayBuffer(0),
+					history: [{ id: 'rev-1', imageFormat: 'png', metadata: item.metadata, replacedAt }]
+				}
+			])
+		);
+
+		expect(bytes(await getItemImage('item-a'))).toEqual([2]);
+		expect(bytes(await getItemRevisionImage('collection-a', 'item-a', 'rev-1'))).toEqual([1]);
+		const [loaded] = (await getAllCollections())[0].items;
+		expect(loaded.history).toEqual([
+			{ id: 'rev-1', imageFormat: 'png', metadata: item.metadata, replacedAt }
+		]);
+	});
+
 	it('deletes a collection tree and its index entries', async () => {
 		const collection = createCollection();
 
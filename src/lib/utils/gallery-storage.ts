@@ -10,7 +10,7 @@ import {
 } from '$lib/storage/capabilities';
 import { storagePaths } from '$lib/storage/paths';
 import type { ObjectStorageBackend } from '$lib/storage/types';
-import type { GalleryCollection, GalleryItem } from '$lib/types/gallery';
+import type { GalleryCollection, GalleryItem, GalleryItemRevision } from '$lib/types/gallery';
 import { productionMonitor } from '$lib/utils/performance-monitor';
 
 interface GalleryIndex {
@@ -23,12 +23,17 @@ interface GalleryItemLookup {
 	updatedAt: number;
 }
 
+type StoredGalleryItemRevision = Omit<GalleryItemRevision, 'replacedAt'> & {
+	replacedAt: string | Date;
+};
+
 type StoredGalleryItem = Omit<
 	GalleryItem,
-	'generatedAt' | 'imageData' | 'imageUrl' | 'isBlobUrl'
+	'generatedAt' | 'imageData' | 'imageUrl' | 'isBlobUrl' | 'history'
 > & {
 	generatedAt: string | Date;
 	imageData?: never;
+	history?: StoredGalleryItemRevision[];
 };
 
 type StoredGalleryCollection = Omit<GalleryCollection, 'generatedAt' | 'items'> & {
@@ -61,7 +66,16 @@ function serializeCollection(collection: GalleryCollection): StoredGalleryCollec
 			rarityRank: item.rarityRank,
 			collectionId: item.collectionId,
 			generatedAt:
-				item.generatedAt instanceof Date ? item.generatedAt.toISOString() : item.generatedAt
+				item.generatedAt instanceof Date ? item.generatedAt.toISOString() : item.generatedAt,
+			history: item.history?.map((revision) => ({
+				id: revision.id,
+				imageFormat: revision.imageFormat,
+				metadata: JSON.parse(JSON.stringify(revision.metadata)),
+				replacedAt:
+					revision.replacedAt instanceof Date
+						? revision.replacedAt.toISOString()
+						: revision.replacedAt
+			}))
 		}))
 	};
 }
@@ -83,7 +97,13 @@ function hydrateCollection(stored: StoredGalleryCollection): GalleryCollection {
 			rarityRank: item.rarityRank,
 			collectionId: item.collectionId,
 			generatedAt: item.generatedAt ? new Date(item.generatedAt) : new Date(),
-			imageData: new ArrayBuffer(0)
+			imageData: new ArrayBuffer(0),
+			history: item.history?.map((revision) => ({
+				id: revision.id,
+				imageFormat: revision.imageFormat,
+				metadata: revision.metadata,
+				replacedAt: new Date(revision.replacedAt)
+			}))
 		})),
 		totalSupply: stored.totalSupply
 	};
@@ -273,6 +293,55 @@ export async function getItemImage(itemId: string): Promise<ArrayBuffer | null>
 	return backend.binary.read(storagePaths.galleryItemImage(collectionId, itemId));
 }
 
+/**
+ * Copy an item's current image into its history as `revisionId`.
+ */
+export async function archiveItemImage(
+	collectionId: string,
+	itemId: string,
+	revisionId: string
+): Promise<void> {
+	const backend = await getGalleryStorageBackend();
+
+	const imageData = await backend.binary.read(storagePaths.galleryItemImage(collectionId, itemId));
+	if (imageData) {
+		await backend.binary.write(
+			storagePaths.galleryItemRevisionImage(collectionId, itemId, revisionId),
+			imageData
+		);
+	}
+}
+
+/**
+ * Get the image of an earlier version of an item.
+ */
+export async function getItemRevisionImage(
+	collectionId: string,
+	itemId: string,
+	revisionId: string
+): Promise<ArrayBuffer | null> {
+	const backend = await getGalleryStorageBackend();
+
+	return backend.binary.read(
+		storagePaths.galleryItemRevisionImage(collectionId, itemId, revisionId)
+	);
+}
+
+/**
+ * Delete the image of an earlier version of an item.
+ */
+export async function deleteItemRevisionImage(
+	collectionId: string,
+	itemId: string,
+	revisionId: string
+): Promise<void> {
+	const backend = await getGalleryStorageBackend();
+
+	await backend.binary.remove(
+		storagePaths.galleryItemRevisionImage(collectionId, itemId, revisionId)
+	);
+}
+
 /**
  * Get all collections from durable gallery storage.
  */
@@ -54,6 +54,18 @@ export function detectImageFormat(buffer: ArrayBuffer): string {
 	return 'unknown';
 }
 
+/**
+ * Reads the pixel size of a PNG from its header without decoding it
+ * @param buffer - The image data as ArrayBuffer
+ * @returns The width and height, or null when the data is not a PNG
+ */
+export function readPngDimensions(buffer: ArrayBuffer): { width: number; height: number } | null {
+	// Signature (8 bytes), IHDR length and type (8 bytes), then width and height
+	if (buffer.byteLength < 24 || detectImageFormat(buffer) !== 'png') return null;
+	const view = new DataView(buffer);
+	return { width: view.getUint32(16), height: view.getUint32(20) };
+}
+
 /**
  * Gets the MIME type for a given image format
  * @param format - The image format
@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vite-plus/test';
+import { createSeededRandom, generateSeed, isValidSeed, MAX_SEED } from './seeded-random';
+
+describe('seeded-random', () => {
+	it('repeats the same sequence for the same seed', () => {
+		const a = createSeededRandom(42);
+		const b = createSeededRandom(42);
+		const seqA = Array.from({ length: 5 }, () => a());
+		const seqB = Array.from({ length: 5 }, () => b());
+
+		expect(seqA).toEqual(seqB);
+	});
+
+	it('returns values in [0, 1)', () => {
+		const random = createSeededRandom(MAX_SEED);
+		for (let i = 0; i < 1000; i++) {
+			const value = random();
+			expect(value).toBeGreaterThanOrEqual(0);
+			expect(value).toBeLessThan(1);
+		}
+	});
+
+	it('generates valid seeds', () => {
+		expect(isValidSeed(generateSeed())).toBe(true);
+		expect(isValidSeed(1.5)).toBe(false);
+		expect(isValidSeed(MAX_SEED + 1)).toBe(false);
+		expect(isValidSeed('42')).toBe(false);
+	});
+});
@@ -4,9 +4,16 @@ import { createMemoryStorageBackend } from '$lib/storage/memory';
 import { storagePaths } from '$lib/storage/paths';
 import type { ObjectStorageBackend } from '$lib/storage/types';
 import {
+	appendGenerationPlan,
 	clearSession,
 	cleanupStaleGenerationSessions,
+	completeGenerationPlan,
+	getRenderedIndexes,
 	iterateBySize,
+	listResumableGenerationSessions,
+	readGenerationCheckpoint,
+	readGenerationPlan,
+	saveGenerationCheckpoint,
 	streamBatch,
 	waitForSessionWrites
 } from './streaming-storage';
@@ -96,6 +103,43 @@ describe('streaming storage', () => {
 		]);
 	});
 
+	it('keeps extra renditions with their image and counts them in batch sizes', async () => {
+		await streamBatch(
+			'session-r',
+			0,
+			[
+				{
+					name: '1.png',
+					imageData: buffer(4),
+					renditions: [{ path: 'thumbnails/1.webp', imageData: buffer(2, 7) }]
+				},
+				{
+					name: '2.png',
+					imageData: buffer(4),
+					renditions: [{ path: 'thumbnails/2.webp', imageData: buffer(2, 8) }]
+				}
+			],
+			[]
+		);
+
+		const batches: Array<{ path: string; bytes: number[] }[]> = [];
+		await iterateBySize('session-r', 8, async (batch) => {
+			batches.push(
+				batch.images.flatMap((img) =>
+					(img.renditions ?? []).map((r) => ({
+						path: r.path,
+						bytes: Array.from(new Uint8Array(r.imageData))
+					}))
+				)
+			);
+		});
+
+		expect(batches).toEqual([
+			[{ path: 'thumbnails/1.webp', bytes: [7, 7] }],
+			[{ path: 'thumbnails/2.webp', bytes: [8, 8] }]
+		]);
+	});
+
 	it('tolerates missing metadata records', async () => {
 		await streamBatch(
 			'session-c',
@@ -192,4 +236,71 @@ describe('streaming storage', () => {
 			await backend.binary.exists(storagePaths.galleryItemImage('collection-1', 'item-1'))
 		).toBe(true);
 	});
+
+	describe('resumable sessions', () => {
+		const plan = [
+			{ index: 0, traitRefs: [{ layerId: 'head', traitId: 'cap' }] },
+			{ index: 1, traitRefs: [], oneOfOneId: 'one-1' },
+			{ index: 2, traitRefs: [{ layerId: 'head', traitId: 'crown' }] }
+		];
+
+		async function createResumableSession(sessionId: string) {
+			await saveGenerationCheckpoint(sessionId, { projectName: 'Apes', collectionSize: 3 });
+			await appendGenerationPlan(sessionId, plan.slice(0, 2));
+			await appendGenerationPlan(sessionId, plan.slice(2));
+			await completeGenerationPlan(sessionId);
+			await streamBatch(sessionId, 1, [{ name: '2.png', imageData: buffer(3) }], []);
+		}
+
+		it('saves the plan and checkpoint in order', async () => {
+			await createResumableSession('session-r');
+
+			const checkpoint = await readGenerationCheckpoint('session-r');
+			expect(checkpoint).toMatchObject({
+				sessionId: 'session-r',
+				settings: { projectName: 'Apes', collectionSize: 3 },
+				plannedCount: 3,
+				planChunkCount: 2,
+				planComplete: true
+			});
+			expect(await readGenerationPlan('session-r')).toEqual(plan);
+			expect(await getRenderedIndexes('session-r')).toEqual(new Set([1]));
+		});
+
+		it('fails to read a plan with a missing chunk', async () => {
+			await createResumableSession('session-r');
+			await backend.json.removeJson(storagePaths.generationPlanChunk('session-r', 1));
+
+			await expect(readGenerationPlan('session-r')).rejects.toThrow('missing part of its plan');
+		});
+
+		it('lists only sessions whose plan is complete', async () => {
+			await createResumableSession('session-r');
+			await saveGenerationCheckpoint('session-partial', { projectName: 'Apes' });
+			await appendGenerationPlan('session-partial', plan.slice(0, 1));
+
+			const sessions = await listResumableGenerationSessions();
+			expect(sessions.map((s) => [s.checkpoint.sessionId, s.renderedCount])).toEqual([
+				['session-r', 1]
+			]);
+			expect(await listResumableGenerationSessions({ activeSessionIds: ['session-r'] })).toEqual(
+				[]
+			);
+		});
+
+		it('keeps resumable sessions during stale cleanup', async () => {
+			await createResumableSession('session-r');
+			await saveGenerationCheckpoint('session-partial', { projectName: 'Apes' });
+			await streamBatch('session-partial', 0, [{ name: '1.png', imageData: buffer(3) }], []);
+
+			const result = await cleanupStaleGenerationSessions({ maxAgeMs: 0 });
+
+			expect(result.removedSessionIds).toEqual(['session-partial']);
+			expect(result.skippedSessionIds).toEqual(['session-r']);
+			expect(await readGenerationPlan('session-r')).toEqual(plan);
+
+			await clearSession('session-r');
+			expect(await listResumableGenerationSessions()).toEqual([]);
+		});
+	});
 });
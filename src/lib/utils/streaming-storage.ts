@@ -16,6 +16,8 @@ interface GenerationSessionManifestItem {
 	imageName?: string;
 	imageBytes: number;
 	metadataName?: string;
+	/** Export paths and sizes of the token's extra renditions, in storage order */
+	renditions?: { path: string; bytes: number }[];
 }
 
 interface GenerationSessionManifest {
@@ -25,6 +27,37 @@ interface GenerationSessionManifest {
 	items: GenerationSessionManifestItem[];
 }
 
+/** One planned token: its traits by reference, or the 1-of-1 placed there */
+export interface GenerationPlanEntry {
+	index: number;
+	traitRefs: { layerId: string; traitId: string }[];
+	oneOfOneId?: string;
+	/** Set when the run ranked its tokens for a rarity rank attribute */
+	rarityRank?: number;
+}
+
+/**
+ * Saved with a session so an interrupted generation can be resumed: the
+ * settings it renders with and how much of its plan has been written. Which
+ * tokens are already rendered is tracked by the session manifest.
+ */
+export interface GenerationCheckpoint<TSettings = Record<string, unknown>> {
+	sessionId: string;
+	settings: TSettings;
+	/** Tokens written to the plan so far */
+	plannedCount: number;
+	planChunkCount: number;
+	/** Set once every token is planned; only then can the session be resumed */
+	planComplete: boolean;
+	createdAt: number;
+	updatedAt: number;
+}
+
+export interface ResumableGenerationSession<TSettings = Record<string, unknown>> {
+	checkpoint: GenerationCheckpoint<TSettings>;
+	renderedCount: number;
+}
+
 export interface CleanupStaleGenerationSessionsOptions {
 	activeSessionIds?: Iterable<string>;
 	maxAgeMs?: number;
@@ -156,7 +189,12 @@ async function writeSessionManifest(
 
 function mergeSessionManifest(
 	manifest: GenerationSessionManifest,
-	images: Array<{ index: number; name: string; bytes: number }>,
+	images: Array<{
+		index: number;
+		name: string;
+		bytes: number;
+		renditions?: { path: string; bytes: number }[];
+	}>,
 	metadata: Array<{ index: number; name: string }>
 ): GenerationSessionManifest {
 	const items = new Map<number, GenerationSessionManifestItem>();
@@ -170,7 +208,8 @@ function mergeSessionManifest(
 		items.set(image.index, {
 			...current,
 			imageName: image.name,
-			imageBytes: image.bytes
+			imageBytes: image.bytes,
+			renditions: image.renditions
 		});
 	}
 
@@ -188,9 +227,34 @@ function mergeSessionManifest(
 	};
 }
 
+/** Bytes a token adds to an export, renditions included */
+function itemBytes(item: GenerationSessionManifestItem): number {
+	return (item.renditions ?? []).reduce((sum, r) => sum + r.bytes, item.imageBytes);
+}
+
+async function readRenditions(
+	backend: ObjectStorageBackend,
+	sessionId: string,
+	item: GenerationSessionManifestItem
+): Promise<{ path: string; imageData: ArrayBuffer }[]> {
+	const renditions = await Promise.all(
+		(item.renditions ?? []).map(async (r, i) => ({
+			path: r.path,
+			imageData: await backend.binary.read(
+				storagePaths.generationRendition(sessionId, item.index, i)
+			)
+		}))
+	);
+	return renditions.filter(
+		(r): r is { path: string; imageData: ArrayBuffer } => r.imageData !== null
+	);
+}
+
 export interface StreamedImage {
 	name: string;
 	imageData: ArrayBuffer;
+	/** Extra renditions by path from the export root */
+	renditions?: { path: string; imageData: ArrayBuffer }[];
 }
 
 export interface StreamedMetadata {
@@ -210,7 +274,8 @@ export async function streamBatch(
 	const imageEntries = images.map((img, i) => ({
 		index: startIndex + i,
 		name: img.name,
-		imageData: img.imageData.slice(0)
+		imageData: img.imageData.slice(0),
+		renditions: img.renditions?.map((r) => ({ path: r.path, imageData: r.imageData.slice(0) }))
 	}));
 	const metadataEntries = metadata.map((meta, i) => ({
 		index: startIndex + i,
@@ -235,6 +300,14 @@ export async function streamBatch(
 			...imageEntries.map((img) =>
 				backend.binary.write(storagePaths.generationImage(sessionId, img.index), img.imageData)
 			),
+			...imageEntries.flatMap((img) =>
+				(img.renditions ?? []).map((r, i) =>
+					backend.binary.write(
+						storagePaths.generationRendition(sessionId, img.index, i),
+						r.imageData
+					)
+				)
+			),
 			...metadataEntries.map((meta) =>
 				backend.json.writeJson(storagePaths.generationMetadata(sessionId, meta.index), {
 					name: meta.name,
@@ -249,7 +322,8 @@ export async function streamBatch(
 			imageEntries.map((img) => ({
 				index: img.index,
 				name: img.name,
-				bytes: img.imageData.byteLength
+				bytes: img.imageData.byteLength,
+				renditions: img.renditions?.map((r) => ({ path: r.path, bytes: r.imageData.byteLength }))
 			})),
 			metadataEntries.map((meta) => ({
 				index: meta.index,
@@ -292,7 +366,7 @@ export async function iterateBySize(
 	}
 
 	const effectiveTargetBytes = Math.max(1, targetBytes);
-	const totalSize = items.reduce((sum, item) => sum + item.imageBytes, 0);
+	const totalSize = items.reduce((sum, item) => sum + itemBytes(item), 0);
 	const estimatedBatches = Math.max(1, Math.ceil(totalSize / effectiveTargetBytes));
 
 	if (import.meta.env.DEV) {
@@ -322,7 +396,13 @@ export async function iterateBySize(
 			]);
 
 			if (imageData && item.imageName) {
-				images.push({ name: item.imageName, imageData });
+				images.push({
+					name: item.imageName,
+					imageData,
+					...(item.renditions?.length
+						? { renditions: await readRenditions(backend, sessionId, item) }
+						: {})
+				});
 			}
 
 			if (metaRecord) {
@@ -340,12 +420,12 @@ export async function iterateBySize(
 	};
 
 	for (const item of items) {
-		if (batchBytes + item.imageBytes > effectiveTargetBytes && batchItems.length > 0) {
+		if (batchBytes + itemBytes(item) > effectiveTargetBytes && batchItems.length > 0) {
 			await flushBatch();
 		}
 
 		batchItems.push(item);
-		batchBytes += item.imageBytes;
+		batchBytes += itemBytes(item);
 	}
 
 	if (batchItems.length > 0) {
@@ -353,6 +433,191 @@ export async function iterateBySize(
 	}
 }
 
+async function readCheckpoint<TSettings>(
+	backend: ObjectStorageBackend,
+	sessionId: string
+): Promise<GenerationCheckpoint<TSettings> | null> {
+	try {
+		return await backend.json.readJson<GenerationCheckpoint<TSettings>>(
+			storagePaths.generationCheckpoint(sessionId)
+		);
+	} catch {
+		return null;
+	}
+}
+
+async function requireCheckpoint(
+	backend: ObjectStorageBackend,
+	sessionId: string
+): Promise<GenerationCheckpoint> {
+	const checkpoint = await readCheckpoint<Record<string, unknown>>(backend, sessionId);
+	if (!checkpoint) {
+		throw new Error(`Generation session ${sessionId} has no checkpoint.`);
+	}
+	return checkpoint;
+}
+
+async function writeCheckpoint(
+	backend: ObjectStorageBackend,
+	checkpoint: GenerationCheckpoint
+): Promise<void> {
+	await backend.json.writeJson(storagePaths.generationCheckpoint(checkpoint.sessionId), {
+		...checkpoint,
+		updatedAt: Date.now()
+	});
+}
+
+/**
+ * Start a session's checkpoint with the settings needed to resume it.
+ */
+export async function saveGenerationCheckpoint<TSettings>(
+	sessionId: string,
+	settings: TSettings
+): Promise<void> {
+	const now = Date.now();
+	const checkpoint: GenerationCheckpoint<TSettings> = {
+		sessionId,
+		settings: cloneJson(settings),
+		plannedCount: 0,
+		planChunkCount: 0,
+		planComplete: false,
+		createdAt: now,
+		updatedAt: now
+	};
+
+	return enqueueSessionWrite(sessionId, async () => {
+		const backend = await getGenerationStorageBackend();
+		await backend.json.writeJson(storagePaths.generationCheckpoint(sessionId), checkpoint);
+	});
+}
+
+/**
+ * Append solved tokens to a session's plan, in order.
+ */
+export async function appendGenerationPlan(
+	sessionId: string,
+	entries: GenerationPlanEntry[]
+): Promise<void> {
+	const chunk = cloneJson(entries);
+
+	return enqueueSessionWrite(sessionId, async () => {
+		const backend = await getGenerationStorageBackend();
+		const checkpoint = await requireCheckpoint(backend, sessionId);
+		await backend.json.writeJson(
+			storagePaths.generationPlanChunk(sessionId, checkpoint.planChunkCount),
+			chunk
+		);
+		await writeCheckpoint(backend, {
+			...checkpoint,
+			plannedCount: checkpoint.plannedCount + chunk.length,
+			planChunkCount: checkpoint.planChunkCount + 1
+		});
+	});
+}
+
+/**
+ * Mark a session's plan as complete, which makes the session resumable.
+ */
+export async function completeGenerationPlan(sessionId: string): Promise<void> {
+	return enqueueSessionWrite(sessionId, async () => {
+		const backend = await getGenerationStorageBackend();
+		const checkpoint = await requireCheckpoint(backend, sessionId);
+		await writeCheckpoint(backend, { ...checkpoint, planComplete: true });
+	});
+}
+
+/**
+ * Read a session's checkpoint, or null when it has none.
+ */
+export async function readGenerationCheckpoint<TSettings = Record<string, unknown>>(
+	sessionId: string
+): Promise<GenerationCheckpoint<TSettings> | null> {
+	await waitForSessionWrites(sessionId, { ignoreErrors: true });
+	return readCheckpoint<TSettings>(await getGenerationStorageBackend(), sessionId);
+}
+
+/**
+ * Read a session's whole plan in token order.
+ */
+export async function readGenerationPlan(sessionId: string): Promise<GenerationPlanEntry[]> {
+	await waitForSessionWrites(sessionId);
+
+	const backend = await getGenerationStorageBackend();
+	const checkpoint = await requireCheckpoint(backend, sessionId);
+	const plan: GenerationPlanEntry[] = [];
+	for (let chunkIndex = 0; chunkIndex < checkpoint.planChunkCount; chunkIndex++) {
+		const chunk = await backend.json.readJson<GenerationPlanEntry[]>(
+			storagePaths.generationPlanChunk(sessionId, chunkIndex)
+		);
+		if (!chunk) {
+			throw new Error(`Generation session ${sessionId} is missing part of its plan.`);
+		}
+		plan.push(...chunk);
+	}
+	return plan;
+}
+
+/**
+ * Token indexes whose image is already stored in a session.
+ */
+export async function getRenderedIndexes(sessionId: string): Promise<Set<number>> {
+	await waitForSessionWrites(sessionId, { ignoreErrors: true });
+
+	const backend = await getGenerationStorageBackend();
+	const manifest = await readSessionManifest(backend, sessionId);
+	return new Set(
+		manifest.items.filter((item) => item.imageName && item.imageBytes > 0).map((i) => i.index)
+	);
+}
+
+/**
+ * Metadata of every token stored in a session, in token order.
+ */
+export async function readSessionMetadata(sessionId: string): Promise<Record<string, unknown>[]> {
+	await waitForSessionWrites(sessionId);
+
+	const backend = await getGenerationStorageBackend();
+	const manifest = await readSessionManifest(backend, sessionId);
+	const records = await Promise.all(
+		manifest.items
+			.filter((item) => item.metadataName)
+			.sort((a, b) => a.index - b.index)
+			.map((item) =>
+				backend.json.readJson<{ name: string; data: Record<string, unknown> }>(
+					storagePaths.generationMetadata(sessionId, item.index)
+				)
+			)
+	);
+	return records.flatMap((record) => (record ? [record.data] : []));
+}
+
+/**
+ * Sessions with a complete plan that were interrupted before their export
+ * was packaged, most recent first.
+ */
+export async function listResumableGenerationSessions<TSettings = Record<string, unknown>>(
+	options: { activeSessionIds?: Iterable<string> } = {}
+): Promise<ResumableGenerationSession<TSettings>[]> {
+	const backend = await getGenerationStorageBackend();
+	const activeSessionIds = new Set(options.activeSessionIds ?? []);
+	const sessions: ResumableGenerationSession<TSettings>[] = [];
+
+	for (const sessionId of await backend.binary.list(storagePaths.generationRoot())) {
+		if (activeSessionIds.has(sessionId)) continue;
+
+		const checkpoint = await readCheckpoint<TSettings>(backend, sessionId);
+		if (!checkpoint?.planComplete) continue;
+
+		const manifest = await readSessionManifest(backend, sessionId);
+		const renderedCount = manifest.items.filter(
+			(item) => item.imageName && item.imageBytes > 0
+		).length;
+		sessions.push({ checkpoint, renderedCount });
+	}
+
+	return sessions.sort((a, b) => b.checkpoint.updatedAt - a.checkpoint.updatedAt);
+}
+
 /**
  * Clear all data for a generation session.
  */
@@ -401,6 +666,13 @@ export async function cleanupStaleGenerationSessions(
 			continue;
 		}
 
+		// Kept until the user resumes or discards the generation
+		const checkpoint = await readCheckpoint(backend, sessionId);
+		if (checkpoint?.planComplete) {
+			result.skippedSessionIds.push(sessionId);
+			continue;
+		}
+
 		try {
 			await waitForSessionWrites(sessionId, { ignoreErrors: true });
 			await backend.binary.removeTree(storagePaths.generationSessionRoot(sessionId));
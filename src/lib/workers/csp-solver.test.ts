@@ -6,6 +6,7 @@
 
 import { describe, expect, it } from 'vite-plus/test';
 import type { TransferrableLayer, TransferrableTrait } from '$lib/types/worker-messages';
+import type { CombinationKey } from '$lib/utils/combination-indexer';
 import { CSPSolver } from './csp-solver';
 
 function makeTrait(
@@ -96,8 +97,8 @@ describe('CSPSolver', () => {
 	it('returns null when there is no valid combination', () => {
 		// Single trait for each layer, but usedCombinations already has it
 		const layers = [makeLayer('L1', 'BG', [makeTrait('T1', 'Blue')])];
-		const usedCombinations = new Map<string, Set<bigint | string>>();
-		usedCombinations.set('__global__', new Set<bigint | string>());
+		const usedCombinations = new Map<string, Set<CombinationKey>>();
+		usedCombinations.set('__global__', new Set<CombinationKey>());
 
 		const solver = new CSPSolver(layers, usedCombinations, makeStrictPairConfig(['L1']));
 
@@ -254,23 +255,22 @@ describe('CSPSolver', () => {
 		expect(() => solver.clearCaches()).not.toThrow();
 	});
 
-	// BUG-1 fix: String keys are stored directly in the set for non-bit-packable combos
-	it('stores string keys directly for large trait sets that cannot be bit-packed', () => {
-		// Create a layer combination with 10 layers (exceeds the 8-layer bit-packing limit)
-		// to force the string-key fallback path
+	it('packs keys for combinations beyond 8 layers and 256 traits per layer', () => {
+		// 10 layers, one with 400 traits, outgrow the old 8 × 8-bit packing
 		const layerIds: string[] = [];
 		const layers: any[] = [];
-		const expectedTraits: { layerId: string; traitName: string }[] = [];
 
 		for (let i = 0; i < 10; i++) {
 			const lid = `L${i}`;
 			layerIds.push(lid);
-			const traits = [makeTrait(`T${i}a`, `Trait${i}A`), makeTrait(`T${i}b`, `Trait${i}B`)];
+			const traits =
+				i === 0
+					? Array.from({ length: 400 }, (_, t) => makeTrait(`T0_${t}`, `Background${t}`))
+					: [makeTrait(`T${i}a`, `Trait${i}A`), makeTrait(`T${i}b`, `Trait${i}B`)];
 			layers.push(makeLayer(lid, `Layer${i}`, traits));
-			expectedTraits.push({ layerId: lid, traitName: `Trait${i}A` });
 		}
 
-		const usedCombinations = new Map<string, Set<bigint | string>>();
+		const usedCombinations = new Map<string, Set<CombinationKey>>();
 		const solver = new CSPSolver(layers as unknown as TransferrableLayer[], usedCombinations, {
 			enabled: true,
 			layerCombinations: [{ id: '__global__', layerIds, active: true }]
@@ -286,19 +286,15 @@ describe('CSPSolver', () => {
 		expect(r2).not.toBeNull();
 		solver.markCombinationAsUsed();
 
-		// Verify that string keys are stored in the usedCombinations set
-		// (since bit-packing cannot handle >8 layers)
 		const comboSet = usedCombinations.get('__global__');
-		expect(comboSet).toBeDefined();
-		// Should contain string keys because bit-packing throws for >8 traits
-		const hasStringKeys = Array.from(comboSet!).some((v) => typeof v === 'string');
-		expect(hasStringKeys).toBe(true);
+		expect(comboSet!.size).toBe(2);
+		expect(Array.from(comboSet!).every((v) => typeof v === 'number')).toBe(true);
 	});
 
-	// BUG-1 fix: String-key fallback prevents birthday-paradox hash collisions
+	// BUG-1 fix: Collision-free keys prevent birthday-paradox hash collisions
 	it('does not produce false duplicates with many unique combinations (stress test)', () => {
 		// This test generates many unique combinations and verifies that
-		// the string-key fallback never falsely rejects a valid combination.
+		// combination keys never falsely reject a valid combination.
 		// With the old 32-bit hash, this would fail at ~50k items.
 		const layers = [
 			makeLayer('L1', 'BG', [
@@ -316,7 +312,7 @@ describe('CSPSolver', () => {
 			]),
 			makeLayer('L3', 'Mouth', [makeTrait('T10', 'J'), makeTrait('T11', 'K')])
 		] as TransferrableLayer[];
-		const usedCombinations = new Map<string, Set<bigint | string>>();
+		const usedCombinations = new Map<string, Set<CombinationKey>>();
 		const solver = new CSPSolver(
 			layers,
 			usedCombinations,
@@ -359,7 +355,7 @@ describe('CSPSolver', () => {
 		];
 		// Start with usedCombinations that makes L1's only remaining option impossible
 		// by pre-populating with some combinations so the solver's AC-3 prunes domains
-		const usedCombinations = new Map<string, Set<bigint | string>>();
+		const usedCombinations = new Map<string, Set<CombinationKey>>();
 		const solver = new CSPSolver(
 			layers,
 			usedCombinations,
@@ -403,4 +399,448 @@ describe('CSPSolver', () => {
 		const stats = solver.getPerformanceStats();
 		expect(stats.constraintChecks).toBeGreaterThanOrEqual(0);
 	});
+
+	describe('seeded runs', () => {
+		function seededLayers(): TransferrableLayer[] {
+			return [
+				makeLayer('L1', 'BG', [
+					makeTrait('T1', 'Blue', { rarityWeight: 5 }),
+					makeTrait('T2', 'Red', { rarityWeight: 2 }),
+					makeTrait('T3', 'Green', { rarityWeight: 1 })
+				]),
+				makeLayer('L2', 'Eyes', [
+					makeTrait('T4', 'Brown', { rarityWeight: 3 }),
+					makeTrait('T5', 'Blue', { rarityWeight: 3 }),
+					makeTrait('T6', 'Laser', { rarityWeight: 1 })
+				]),
+				makeLayer('L3', 'Hat', [
+					makeTrait('T7', 'Cap', { rarityWeight: 4 }),
+					makeTrait('T8', 'Crown', { rarityWeight: 1 })
+				])
+			];
+		}
+
+		function solveSequence(seed: number, count: number): string[] {
+			const solver = new CSPSolver(
+				seededLayers(),
+				new Map(),
+				makeStrictPairConfig(['L1', 'L2', 'L3']),
+				{ seed }
+			);
+			const keys: string[] = [];
+			for (let i = 0; i < count; i++) {
+				const result = solver.solve();
+				expect(result).not.toBeNull();
+				solver.markCombinationAsUsed();
+				keys.push(['L1', 'L2', 'L3'].map((layerId) => result!.get(layerId)?.id ?? '-').join(','));
+			}
+			return keys;
+		}
+
+		it('produces the same assignment for the same seed', () => {
+			expect(solveSequence(1234, 12)).toEqual(solveSequence(1234, 12));
+		});
+
+		it('produces a different assignment for a different seed', () => {
+			expect(solveSequence(1234, 12)).not.toEqual(solveSequence(98765, 12));
+		});
+	});
+
+	describe('supply quotas', () => {
+		function solveCollection(solver: CSPSolver, size: number): Map<string, TransferrableTrait>[] {
+			const results: Map<string, TransferrableTrait>[] = [];
+			for (let i = 0; i < size; i++) {
+				const result = solver.solve();
+				expect(result).not.toBeNull();
+				solver.markCombinationAsUsed();
+				results.push(result!);
+			}
+			return results;
+		}
+
+		function countTrait(results: Map<string, TransferrableTrait>[], traitId: string): number {
+			return results.filter((r) => Array.from(r.values()).some((t) => t.id === traitId)).length;
+		}
+
+		it('places a trait with an exact count on exactly that many tokens', () => {
+			const layers = [
+				makeLayer('L1', 'Hat', [
+					makeTrait('T1', 'Gold Crown', { exactCount: 7 }),
+					makeTrait('T2', 'Cap', { rarityWeight: 5 }),
+					makeTrait('T3', 'Beanie', { rarityWeight: 5 })
+				]),
+				makeLayer('L2', 'Eyes', [
+					makeTrait('T4', 'Blue'),
+					makeTrait('T5', 'Green'),
+					makeTrait('T6', 'Red'),
+					makeTrait('T7', 'Brown'),
+					makeTrait('T8', 'Grey'),
+					makeTrait('T9', 'Hazel'),
+					makeTrait('T10', 'Amber'),
+					makeTrait('T11', 'Violet'),
+					makeTrait('T12', 'Black'),
+					makeTrait('T13', 'White')
+				])
+			];
+
+			for (const seed of [1, 2, 3]) {
+				const solver = new CSPSolver(layers, new Map(), makeStrictPairConfig(['L1', 'L2']), {
+					seed,
+					collectionSize: 15
+				});
+				expect(countTrait(solveCollection(solver, 15), 'T1')).toBe(7);
+			}
+		});
+
+		it('never exceeds a max count', () => {
+			const layers = [
+				makeLayer('L1', 'Eyes', [
+					makeTrait('T1', 'Laser', { rarityWeight: 5, maxCount: 2 }),
+					makeTrait('T2', 'Blue', { rarityWeight: 1 }),
+					makeTrait('T3', 'Green', { rarityWeight: 1 })
+				]),
+				makeLayer('L2', 'Mouth', [
+					makeTrait('T4', 'Smile'),
+					makeTrait('T5', 'Frown'),
+					makeTrait('T6', 'Open')
+				])
+			];
+			const solver = new CSPSolver(layers, new Map(), makeStrictPairConfig(['L1', 'L2']), {
+				collectionSize: 8
+			});
+
+			expect(countTrait(solveCollection(solver, 8), 'T1')).toBeLessThanOrEqual(2);
+		});
+
+		it('fills an optional layer when its exact counts need every remaining token', () => {
+			const layers = [
+				makeLayer('L1', 'BG', [makeTrait('T1', 'Blue'), makeTrait('T2', 'Red')]),
+				makeLayer('L2', 'Hat', [makeTrait('T3', 'Crown', { exactCount: 2 })], 1, true)
+			];
+			const solver = new CSPSolver(layers, new Map(), makeStrictPairConfig(['L1', 'L2']), {
+				collectionSize: 2
+			});
+
+			expect(countTrait(solveCollection(solver, 2), 'T3')).toBe(2);
+		});
+	});
+
+	describe('optional layers', () => {
+		function manyTraits(prefix: string, count: number): TransferrableTrait[] {
+			return Array.from({ length: count }, (_, i) => makeTrait(`${prefix}${i}`, `${prefix}${i}`));
+		}
+
+		it('handles an optional layer with fewer traits than the required ones', () => {
+			const layers = [
+				makeLayer('L1', 'BG', manyTraits('B', 3)),
+				makeLayer('L2', 'Accessory', [makeTrait('H1', 'Hat')], 1, true)
+			];
+			const solver = new CSPSolver(layers, new Map(), makeStrictPairConfig(['L1', 'L2']));
+
+			for (let i = 0; i < 6; i++) {
+				expect(solver.solve()).not.toBeNull();
+				solver.markCombinationAsUsed();
+			}
+		});
+
+		it('counts an empty optional layer as a value for uniqueness', () => {
+			const layers = [
+				makeLayer('L1', 'BG', manyTraits('B', 2)),
+				makeLayer('L2', 'Accessory', [makeTrait('H1', 'Hat')], 1, true)
+			];
+			const solver = new CSPSolver(layers, new Map(), makeStrictPairConfig(['L1', 'L2']));
+
+			const keys = new Set<string>();
+			for (let i = 0; i < 4; i++) {
+				const result = solver.solve();
+				expect(result).not.toBeNull();
+				solver.markCombinationAsUsed();
+				keys.add(`${result!.get('L1')?.id},${result!.get('L2')?.id ?? 'none'}`);
+			}
+
+			expect(keys.size).toBe(4);
+			expect(solver.solve()).toBeNull();
+		});
+
+		it('leaves the layer empty on roughly noneProbability of the tokens', () => {
+			const layers = [
+				makeLayer('L1', 'BG', manyTraits('B', 300)),
+				{
+					...makeLayer('L2', 'Accessory', manyTraits('H', 2), 1, true),
+					noneProbability: 0.7
+				}
+			];
+			const solver = new CSPSolver(layers, new Map(), makeStrictPairConfig(['L1', 'L2']), {
+				seed: 42
+			});
+
+			let empty = 0;
+			for (let i = 0; i < 200; i++) {
+				const result = solver.solve();
+				expect(result).not.toBeNull();
+				solver.markCombinationAsUsed();
+				if (!result!.has('L2')) empty++;
+			}
+
+			expect(empty).toBeGreaterThan(115);
+			expect(empty).toBeLessThan(165);
+		});
+
+		it('fills the layer whenever possible with a zero none probability', () => {
+			const layers = [
+				makeLayer('L1', 'BG', manyTraits('B', 3)),
+				{ ...makeLayer('L2', 'Accessory', manyTraits('H', 2), 1, true), noneProbability: 0 }
+			];
+			const solver = new CSPSolver(layers, new Map(), makeStrictPairConfig(['L1', 'L2']));
+
+			for (let i = 0; i < 6; i++) {
+				expect(solver.solve()!.has('L2')).toBe(true);
+				solver.markCombinationAsUsed();
+			}
+			// Filled combinations are used up; uniqueness falls back to empty tokens
+			expect(solver.solve()!.has('L2')).toBe(false);
+		});
+
+		it('leaves an optional layer empty when ruler rules forbid all of its traits', () => {
+			const layers = [
+				makeLayer('L1', 'BG', [
+					makeTrait('B1', 'Gold', {
+						type: 'ruler',
+						rulerRules: [
+							{ layerId: 'L2' as never, allowedTraitIds: [], forbiddenTraitIds: ['H1' as never] }
+						]
+					})
+				]),
+				{ ...makeLayer('L2', 'Accessory', [makeTrait('H1', 'Hat')], 1, true), noneProbability: 0 }
+			];
+			const solver = new CSPSolver(layers, new Map(), makeStrictPairConfig(['L1', 'L2']));
+
+			const result = solver.solve();
+			expect(result).not.toBeNull();
+			expect(result!.has('L2')).toBe(false);
+		});
+	});
+
+	describe('linked traits', () => {
+		function link(layerId: string, traitId: string) {
+			return { layerId: layerId as never, traitId: traitId as never };
+		}
+
+		function solveAll(solver: CSPSolver): Map<string, TransferrableTrait>[] {
+			const results: Map<string, TransferrableTrait>[] = [];
+			let result = solver.solve();
+			while (result) {
+				results.push(result);
+				solver.markCombinationAsUsed();
+				result = solver.solve();
+			}
+			return results;
+		}
+
+		function sleeveLayers(rightIsOptional = false): TransferrableLayer[] {
+			return [
+				makeLayer('L1', 'Left Sleeve', [
+					makeTrait('LR', 'Red', { links: [link('L2', 'RR')] }),
+					makeTrait('LB', 'Blue')
+				]),
+				makeLayer(
+					'L2',
+					'Right Sleeve',
+					[
+						makeTrait('RR', 'Red', { links: [link('L1', 'LR')] }),
+						makeTrait('RB', 'Blue'),
+						makeTrait('RG', 'Green')
+					],
+					1,
+					rightIsOptional
+				)
+			];
+		}
+
+		it('always chooses linked traits together', () => {
+			const solver = new CSPSolver(sleeveLayers(), new Map(), makeStrictPairConfig(['L1', 'L2']), {
+				seed: 3
+			});
+
+			const results = solveAll(solver);
+			// Red only pairs with red: LR+RR, LB+RB, LB+RG
+			expect(results).toHaveLength(3);
+			for (const result of results) {
+				expect(result.get('L1')!.id === 'LR').toBe(result.get('L2')!.id === 'RR');
+			}
+		});
+
+		it('fills an optional layer that a chosen trait is linked into', () => {
+			const layers = sleeveLayers(true).map((layer) =>
+				layer.id === 'L2' ? { ...layer, noneProbability: 1 } : layer
+			);
+			const solver = new CSPSolver(layers, new Map(), makeStrictPairConfig(['L1', 'L2']), {
+				seed: 5
+			});
+
+			for (const result of solveAll(solver)) {
+				if (result.get('L1')!.id === 'LR') expect(result.get('L2')?.id).toBe('RR');
+				if (!result.has('L2')) expect(result.get('L1')!.id).toBe('LB');
+			}
+		});
+
+		it('enforces links stored on one trait only', () => {
+			const layers = [
+				makeLayer('L1', 'Left Sleeve', [makeTrait('LR', 'Red'), makeTrait('LB', 'Blue')]),
+				makeLayer(
+					'L2',
+					'Right Sleeve',
+					[makeTrait('RR', 'Red', { links: [link('L1', 'LR')] }), makeTrait('RB', 'Blue')],
+					1
+				)
+			];
+			const solver = new CSPSolver(layers, new Map(), makeStrictPairConfig(['L1', 'L2']));
+
+			const results = solveAll(solver);
+			expect(results.some((r) => r.get('L2')!.id === 'RR' && r.get('L1')!.id !== 'LR')).toBe(false);
+		});
+	});
+
+	describe('compatibility rules', () => {
+		function condition(layerId: string, traitIds: string[], none?: boolean) {
+			return {
+				layerId: layerId as never,
+				traitIds: traitIds as never[],
+				...(none ? { none } : {})
+			};
+		}
+
+		function solveAll(solver: CSPSolver): Map<string, TransferrableTrait>[] {
+			const results: Map<string, TransferrableTrait>[] = [];
+			let result = solver.solve();
+			while (result) {
+				results.push(result);
+				solver.markCombinationAsUsed();
+				result = solver.solve();
+			}
+			return results;
+		}
+
+		it('never combines traits an "excludes" rule forbids', () => {
+			const layers = [
+				makeLayer('L1', 'Eyes', [makeTrait('laser', 'Laser'), makeTrait('plain', 'Plain')]),
+				makeLayer('L2', 'Mouth', [makeTrait('pipe', 'Pipe'), makeTrait('smile', 'Smile')], 1)
+			];
+			const solver = new CSPSolver(layers, new Map(), makeStrictPairConfig(['L1', 'L2']), {
+				seed: 2,
+				compatibilityRules: [
+					{
+						id: 'r1',
+						kind: 'excludes',
+						when: condition('L1', ['laser']),
+						target: condition('L2', ['pipe'])
+					}
+				]
+			});
+
+			const results = solveAll(solver);
+			expect(results).toHaveLength(3);
+			expect(results.some((r) => r.get('L1')!.id === 'laser' && r.get('L2')!.id === 'pipe')).toBe(
+				false
+			);
+		});
+
+		it('leaves an optional layer empty when a rule requires "None"', () => {
+			const layers = [
+				makeLayer('L1', 'Head', [makeTrait('helmet', 'Helmet'), makeTrait('cap', 'Cap')]),
+				makeLayer('L2', 'Hair', [makeTrait('long', 'Long'), makeTrait('short', 'Short')], 1, true)
+			];
+			const solver = new CSPSolver(layers, new Map(), makeStrictPairConfig(['L1', 'L2']), {
+				seed: 4,
+				compatibilityRules: [
+					{
+						id: 'r1',
+						kind: 'requires',
+						when: condition('L1', ['helmet']),
+						target: condition('L2', [], true)
+					}
+				]
+			});
+
+			for (let i = 0; i < 20; i++) {
+				const result = solver.solve();
+				if (!result) break;
+				if (result.get('L1')!.id === 'helmet') expect(result.has('L2')).toBe(false);
+				solver.markCombinationAsUsed();
+			}
+		});
+
+		it('supports rules over trait sets', () => {
+			// Background in {Gold, Silver} requires Body:Robot
+			const layers = [
+				makeLayer('L1', 'Background', [
+					makeTrait('gold', 'Gold'),
+					makeTrait('silver', 'Silver'),
+					makeTrait('blue', 'Blue')
+				]),
+				makeLayer('L2', 'Body', [makeTrait('robot', 'Robot'), makeTrait('human', 'Human')], 1)
+			];
+			const solver = new CSPSolver(layers, new Map(), makeStrictPairConfig(['L1', 'L2']), {
+				seed: 6,
+				compatibilityRules: [
+					{
+						id: 'r1',
+						kind: 'requires',
+						when: condition('L1', ['gold', 'silver']),
+						target: condition('L2', ['robot'])
+					}
+				]
+			});
+
+			const results = solveAll(solver);
+			// gold+robot, silver+robot, blue+robot, blue+human
+			expect(results).toHaveLength(4);
+			for (const result of results) {
+				if (result.get('L1')!.id !== 'blue') expect(result.get('L2')!.id).toBe('robot');
+			}
+		});
+	});
+
+	describe('reserveCombination', () => {
+		it('never generates a reserved combination', () => {
+			const layers = [
+				makeLayer('L1', 'Head', [makeTrait('cap', 'Cap'), makeTrait('crown', 'Crown')]),
+				makeLayer('L2', 'Eyes', [makeTrait('blue', 'Blue'), makeTrait('gold', 'Gold')], 1)
+			];
+			const solver = new CSPSolver(layers, new Map(), makeStrictPairConfig(['L1', 'L2']), {
+				seed: 3
+			});
+			solver.reserveCombination(
+				new Map([
+					['L1', layers[0].traits[1]],
+					['L2', layers[1].traits[1]]
+				])
+			);
+
+			const results: Map<string, TransferrableTrait>[] = [];
+			let result = solver.solve();
+			while (result) {
+				results.push(result);
+				solver.markCombinationAsUsed();
+				result = solver.solve();
+			}
+			expect(results).toHaveLength(3);
+			expect(results.some((r) => r.get('L1')!.id === 'crown' && r.get('L2')!.id === 'gold')).toBe(
+				false
+			);
+		});
+
+		it('reserves nothing for groups with a layer no trait can match', () => {
+			const layers = [
+				makeLayer('L1', 'Head', [makeTrait('cap', 'Cap')]),
+				makeLayer('L2', 'Eyes', [makeTrait('blue', 'Blue')], 1)
+			];
+			const solver = new CSPSolver(layers, new Map(), makeStrictPairConfig(['L1', 'L2']), {
+				seed: 3
+			});
+			solver.reserveCombination(new Map([['L1', layers[0].traits[0]]]), new Set(['L2']));
+
+			expect(solver.solve()).not.toBeNull();
+		});
+	});
 });
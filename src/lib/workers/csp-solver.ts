@@ -9,9 +9,14 @@
 //   4. optimizedBacktrack() — MRV-ordered search with trail-based undo
 // Stats and constraint cache are isolated for testability and monitoring.
 
+import { indexRulesByLayer, ruleAllows, rulesAllowPair } from '$lib/domain/compatibility-rules';
+import { getRarityWeight } from '$lib/domain/expected-distribution';
+import { linksAllowPair } from '$lib/domain/trait-links';
+import type { CompatibilityRule } from '$lib/types/layer';
 import type { TransferrableLayer, TransferrableTrait } from '$lib/types/worker-messages';
-import { CombinationIndexer } from '$lib/utils/combination-indexer';
+import { CombinationIndexer, type CombinationKey } from '$lib/utils/combination-indexer';
 import { logger } from '$lib/utils/logger';
+import { createSeededRandom } from '$lib/utils/seeded-random';
 import { ConstraintCache } from './csp/constraint-cache';
 import { SolverStats, type SolverStatsSnapshot } from './csp/solver-stats';
 
@@ -20,7 +25,7 @@ export type { SolverStatsSnapshot } from './csp/solver-stats';
 interface SolverContext {
 	layers: TransferrableLayer[];
 	selectedTraits: Map<string, TransferrableTrait>;
-	usedCombinations: Map<string, Set<bigint | string>>; // BUG-1 fix: accepts string keys
+	usedCombinations: Map<string, Set<CombinationKey>>;
 	strictPairConfig?: {
 		enabled: boolean;
 		layerCombinations: Array<{
@@ -31,6 +36,26 @@ interface SolverContext {
 	};
 }
 
+/**
+ * Optional solver behaviour that is not part of the constraint model itself.
+ */
+export interface CSPSolverOptions {
+	/**
+	 * Seed for the weighted candidate shuffle. Two solvers built from the same
+	 * layers, config and seed produce the same sequence of solutions.
+	 * Falls back to `Math.random()` when omitted.
+	 */
+	seed?: number;
+	/**
+	 * Number of solutions the caller will request. Needed to steer traits with
+	 * an `exactCount` onto exactly that many tokens; without it exact counts
+	 * only act as caps.
+	 */
+	collectionSize?: number;
+	/** Project-level compatibility rules between traits of any two layers */
+	compatibilityRules?: CompatibilityRule[];
+}
+
 // Enhanced performance optimization with predictive caching
 interface ImpossibleCombination {
 	partialAssignment: string;
@@ -75,8 +100,10 @@ export class CSPSolver {
 	private stats = new SolverStats();
 	private maxCacheSize = 1000;
 	private constraintOrdering: Arc[] = []; // Pre-ordered constraints for faster processing
-	private layerTraitIdToIndex = new Map<string, Map<string, number>>(); // layerId -> traitId -> numericId (0-255)
+	private layerTraitIdToIndex = new Map<string, Map<string, number>>(); // layerId -> traitId -> index in layer
+	private combinationIndexers = new Map<string, CombinationIndexer>(); // combination id -> key packer
 	private layerIdsSorted: string[] = []; // Pre-sorted layer IDs for fast getAssignmentKey
+	private layersById = new Map<string, TransferrableLayer>();
 	// BUG-3: Debug flag gating O(n²) verification - disabled in production
 	private debugConstraintVerification =
 		typeof process !== 'undefined' && process.env.NODE_ENV === 'test';
@@ -86,10 +113,26 @@ export class CSPSolver {
 	// so we can restore only what changed (O(modified) vs O(L×D) for full snapshot).
 	private domainChangeStack: DomainChangeFrame[] = [];
 
+	// Source of randomness for candidate ordering (seeded for reproducible runs)
+	private random: () => number;
+
+	// Supply quota tracking (exactCount / maxCount across the whole collection)
+	private collectionSize?: number;
+	private hasSupplyQuotas: boolean;
+	private solvedCount = 0;
+	private traitUsage = new Map<string, number>(); // quota key -> tokens using the trait
+	private forcedLayers = new Set<string>(); // optional layers that must be filled this solve
+
+	// Optional layer handling: each optional layer is either filled or skipped
+	private skippedLayers = new Set<string>(); // optional layers left empty on the current branch
+	private preferEmptyLayers = new Set<string>(); // optional layers that try "empty" first this solve
+	private rulesByLayer: Map<string, CompatibilityRule[]>; // layerId -> compatibility rules touching it
+
 	constructor(
 		layers: TransferrableLayer[],
-		usedCombinations: Map<string, Set<bigint | string>>, // BUG-1 fix: accepts string keys
-		strictPairConfig?: SolverContext['strictPairConfig']
+		usedCombinations: Map<string, Set<CombinationKey>>,
+		strictPairConfig?: SolverContext['strictPairConfig'],
+		options: CSPSolverOptions = {}
 	) {
 		this.context = {
 			layers,
@@ -97,6 +140,12 @@ export class CSPSolver {
 			usedCombinations,
 			strictPairConfig
 		};
+		this.random = options.seed !== undefined ? createSeededRandom(options.seed) : Math.random;
+		this.collectionSize = options.collectionSize;
+		this.rulesByLayer = indexRulesByLayer(options.compatibilityRules ?? []);
+		this.hasSupplyQuotas = layers.some((layer) =>
+			layer.traits.some((t) => t.exactCount !== undefined || t.maxCount !== undefined)
+		);
 
 		// Log ruler configuration once per session
 		if (!hasLoggedRulerInfo) {
@@ -131,6 +180,7 @@ export class CSPSolver {
 
 		// Pre-sort layer IDs for fast getAssignmentKey
 		this.layerIdsSorted = layers.map((l) => l.id).sort((a, b) => a.localeCompare(b));
+		this.layersById = new Map(layers.map((l) => [l.id, l]));
 
 		// Initialize AC-3 domains and constraints
 		this.initializeDomains();
@@ -141,8 +191,15 @@ export class CSPSolver {
 		// Reset domains and selected traits for a fresh solve attempt
 		this.initializeDomains();
 		this.context.selectedTraits.clear();
+		this.skippedLayers.clear();
+		this.rollOptionalLayers();
 		this.stats.start();
 
+		if (this.hasSupplyQuotas && !this.applySupplyQuotas()) {
+			logger.debug(`[CSP SOLVE] Supply quotas leave a required layer without traits`);
+			return null;
+		}
+
 		const startTime = Date.now();
 		const layerCount = this.context.layers.length;
 
@@ -204,7 +261,7 @@ export class CSPSolver {
 	 */
 	private initializeDomains(): void {
 		for (const layer of this.context.layers) {
-			// Create mapping for this layer: TraitId -> index (0-255)
+			// Create mapping for this layer: TraitId -> index
 			const traitToIndex = new Map<string, number>();
 			layer.traits.forEach((trait, index) => {
 				traitToIndex.set(trait.id, index);
@@ -220,13 +277,105 @@ export class CSPSolver {
 		}
 	}
 
+	/**
+	 * Narrow domains to honour supply quotas for the next token:
+	 *   - traits that reached their exact/max count are removed
+	 *   - when a layer's outstanding exact counts need every remaining token,
+	 *     only those traits stay available (and an optional layer must be filled)
+	 *
+	 * @returns false if a layer that must be filled has no traits left
+	 */
+	private applySupplyQuotas(): boolean {
+		this.forcedLayers.clear();
+		const remaining =
+			this.collectionSize !== undefined ? this.collectionSize - this.solvedCount : undefined;
+
+		for (const layer of this.context.layers) {
+			const domain = this.domains.get(layer.id);
+			if (!domain) continue;
+
+			let available = domain.availableTraits.filter(
+				(trait) => this.getRemainingSupply(layer.id, trait) > 0
+			);
+
+			if (remaining !== undefined && remaining > 0) {
+				const owed = available.filter((trait) => trait.exactCount !== undefined);
+				const deficit = owed.reduce(
+					(sum, trait) => sum + this.getRemainingSupply(layer.id, trait),
+					0
+				);
+				if (owed.length > 0 && deficit >= remaining) {
+					available = owed;
+					this.forcedLayers.add(layer.id);
+				}
+			}
+
+			domain.availableTraits = available;
+			if (available.length === 0 && this.isRequiredLayer(layer)) {
+				return false;
+			}
+		}
+
+		return true;
+	}
+
+	/**
+	 * Decide which optional layers should preferably stay empty on this token.
+	 * Layers with a noneProbability roll against it; the others keep the
+	 * default of staying empty unless uniqueness needs them. The search still
+	 * falls back to the other branch when the preferred one leads nowhere.
+	 */
+	private rollOptionalLayers(): void {
+		this.preferEmptyLayers.clear();
+		for (const layer of this.context.layers) {
+			if (!layer.isOptional) continue;
+			if (layer.noneProbability === undefined || this.random() < layer.noneProbability) {
+				this.preferEmptyLayers.add(layer.id);
+			}
+		}
+	}
+
+	/**
+	 * How many more tokens may carry this trait (Infinity when uncapped).
+	 */
+	private getRemainingSupply(layerId: string, trait: TransferrableTrait): number {
+		const cap = Math.min(trait.exactCount ?? Infinity, trait.maxCount ?? Infinity);
+		if (cap === Infinity) return Infinity;
+		return cap - (this.traitUsage.get(this.getQuotaKey(layerId, trait.id)) ?? 0);
+	}
+
+	private getQuotaKey(layerId: string, traitId: string): string {
+		return `${layerId}:${traitId}`;
+	}
+
+	/**
+	 * A layer must be filled if it is not optional, or if supply quotas force it.
+	 */
+	private isRequiredLayer(layer: TransferrableLayer): boolean {
+		return !layer.isOptional || this.forcedLayers.has(layer.id);
+	}
+
+	/**
+	 * Whether an emptied domain for this layer is acceptable (it will be skipped).
+	 */
+	private canLeaveEmpty(layerId: string): boolean {
+		const layer = this.layersById.get(layerId);
+		return layer !== undefined && !this.isRequiredLayer(layer);
+	}
+
 	/**
 	 * Pre-compute constraint relationships between layers with weights
-	 * For AC-3: which layers constrain which other layers
+	 * For AC-3: which layers constrain which other layers.
+	 * Ruler rules constrain their target layer; links and compatibility rules
+	 * constrain both ends.
 	 */
 	private precomputeConstraints(): void {
 		for (const layer of this.context.layers) {
-			const constrainedLayers = new Set<string>();
+			this.constraints.set(layer.id, new Set());
+		}
+
+		for (const layer of this.context.layers) {
+			const constrainedLayers = this.constraints.get(layer.id)!;
 
 			for (const trait of layer.traits) {
 				if (trait.type === 'ruler' && trait.rulerRules) {
@@ -234,17 +383,29 @@ export class CSPSolver {
 						constrainedLayers.add(rule.layerId);
 					}
 				}
+				for (const link of trait.links ?? []) {
+					if (link.layerId === layer.id || !this.layersById.has(link.layerId)) continue;
+					constrainedLayers.add(link.layerId);
+					this.constraints.get(link.layerId)!.add(layer.id);
+				}
 			}
 
-			this.constraints.set(layer.id, constrainedLayers);
+			for (const rule of this.rulesByLayer.get(layer.id) ?? []) {
+				const otherId = rule.when.layerId === layer.id ? rule.target.layerId : rule.when.layerId;
+				if (otherId !== layer.id && this.layersById.has(otherId)) {
+					constrainedLayers.add(otherId);
+				}
+			}
+		}
 
+		for (const [layerId, constrainedLayers] of this.constraints) {
 			// Build reverse constraint index: for each layer that this layer constrains,
 			// record that this layer is a reverse constraint of that layer.
 			for (const targetId of constrainedLayers) {
 				if (!this.reverseConstraints.has(targetId)) {
 					this.reverseConstraints.set(targetId, new Set());
 				}
-				this.reverseConstraints.get(targetId)!.add(layer.id);
+				this.reverseConstraints.get(targetId)!.add(layerId);
 			}
 		}
 
@@ -292,6 +453,11 @@ export class CSPSolver {
 					}
 				}
 			}
+			// A link pins the target layer to a single trait
+			weight += (trait.links ?? []).filter((link) => link.layerId === toLayerId).length * 2;
+		}
+		for (const rule of this.rulesByLayer.get(fromLayerId) ?? []) {
+			if (rule.when.layerId === toLayerId || rule.target.layerId === toLayerId) weight += 2;
 		}
 		return weight;
 	}
@@ -350,8 +516,11 @@ export class CSPSolver {
 			if (this.revise(arc)) {
 				const fromDomain = this.domains.get(arc.fromLayerId);
 
-				// If domain is empty, no solution possible
-				if (!fromDomain || fromDomain.availableTraits.length === 0) {
+				// If a required domain is empty, no solution possible
+				if (
+					!fromDomain ||
+					(fromDomain.availableTraits.length === 0 && !this.canLeaveEmpty(arc.fromLayerId))
+				) {
 					return false;
 				}
 
@@ -389,6 +558,9 @@ export class CSPSolver {
 
 		if (!fromDomain || !toDomain) return false;
 
+		// A trait needs no support in a layer that may stay empty
+		if (this.canLeaveEmpty(arc.toLayerId)) return false;
+
 		const originalSize = fromDomain.availableTraits.length;
 
 		// Filter traits that have no support in toDomain with smart caching
@@ -486,9 +658,47 @@ export class CSPSolver {
 			}
 		}
 
+		// Linked traits only accept their partner in the linked layer
+		if (!linksAllowPair(traitA, layerIdA, traitB, layerIdB)) return false;
+
+		return rulesAllowPair(this.rulesByLayer, layerIdA, traitA.id, layerIdB, traitB.id);
+	}
+
+	/**
+	 * Check compatibility rules against layers that are already decided, with
+	 * `null` for leaving this layer empty. Trait pairs are also pruned through
+	 * isConsistent; this catches rules that involve "None".
+	 */
+	private rulesAllowDecision(layerId: string, trait: TransferrableTrait | null): boolean {
+		const rules = this.rulesByLayer.get(layerId);
+		if (!rules) return true;
+
+		for (const rule of rules) {
+			const otherId = rule.when.layerId === layerId ? rule.target.layerId : rule.when.layerId;
+			const other = this.context.selectedTraits.get(otherId);
+			if (!other && !this.skippedLayers.has(otherId)) continue;
+			if (!ruleAllows(rule, layerId, trait?.id ?? null, otherId, other?.id ?? null)) return false;
+		}
 		return true;
 	}
 
+	/**
+	 * Whether a chosen trait is linked into this layer, so it cannot stay empty.
+	 */
+	private isLinkTarget(layerId: string): boolean {
+		for (const trait of this.context.selectedTraits.values()) {
+			if (trait.links?.some((link) => link.layerId === layerId)) return true;
+		}
+		return false;
+	}
+
+	/**
+	 * Whether a trait is linked into a layer that was left empty on this branch.
+	 */
+	private isLinkedToSkippedLayer(trait: TransferrableTrait): boolean {
+		return trait.links?.some((link) => this.skippedLayers.has(link.layerId)) ?? false;
+	}
+
 	/**
 	 * Optimized backtracking with MRV heuristic using AC-3 pruned domains
 	 * Processes layers in order of fewest remaining options
@@ -506,7 +716,7 @@ export class CSPSolver {
 			return null;
 		}
 
-		// Base case: all required layers processed
+		// Base case: every layer is either filled or deliberately left empty
 		if (this.isComplete()) {
 			if (this.isValidCombination()) {
 				// BUG-3 fix: Gate O(n²) verification behind debug flag
@@ -522,18 +732,17 @@ export class CSPSolver {
 		// Select next layer using MRV heuristic (Most Constrained Variable)
 		const nextLayer = this.selectNextLayer();
 		if (!nextLayer) {
-			if (this.isValidCombination()) {
-				if (this.debugConstraintVerification && !this.verifyAllConstraints()) {
-					return null;
-				}
-				return new Map(this.context.selectedTraits);
-			}
+			// Dead end: a layer that must be filled has no traits left
 			return null;
 		}
 
-		// Handle optional layers specially
-		if (nextLayer.isOptional) {
-			const skipResult = this.optimizedBacktrack();
+		// Optional layers (unless quotas or a chosen linked trait require a trait
+		// here) branch between "empty" and "filled"; the rolled preference decides
+		// which comes first
+		const canSkip = !this.isRequiredLayer(nextLayer) && !this.isLinkTarget(nextLayer.id);
+		const preferEmpty = canSkip && this.preferEmptyLayers.has(nextLayer.id);
+		if (preferEmpty) {
+			const skipResult = this.backtrackWithLayerSkipped(nextLayer.id);
 			if (skipResult) return skipResult;
 		}
 
@@ -546,6 +755,10 @@ export class CSPSolver {
 		const neighborIds = this.constraints.get(nextLayer.id) || null;
 
 		for (const trait of candidates) {
+			// Its linked partner can no longer be placed
+			if (this.isLinkedToSkippedLayer(trait)) continue;
+			if (!this.rulesAllowDecision(nextLayer.id, trait)) continue;
+
 			// PERF-2: Start a new domain change frame.
 			// Save the assigned layer's current domain + all neighbor domains
 			// before any modifications.
@@ -570,6 +783,11 @@ export class CSPSolver {
 			this.context.selectedTraits.delete(nextLayer.id);
 		}
 
+		if (canSkip && !preferEmpty) {
+			const skipResult = this.backtrackWithLayerSkipped(nextLayer.id);
+			if (skipResult) return skipResult;
+		}
+
 		// Cache this impossible combination to avoid retrying
 		this.cacheImpossibleCombination(cacheKey, 'no_valid_combination');
 		this.stats.backtracks++;
@@ -577,6 +795,17 @@ export class CSPSolver {
 		return null;
 	}
 
+	/**
+	 * Continue the search with an optional layer left empty.
+	 */
+	private backtrackWithLayerSkipped(layerId: string): Map<string, TransferrableTrait> | null {
+		if (!this.rulesAllowDecision(layerId, null)) return null;
+		this.skippedLayers.add(layerId);
+		const result = this.optimizedBacktrack();
+		this.skippedLayers.delete(layerId);
+		return result;
+	}
+
 	/**
 	 * PERF-2: Start a new domain change frame by snapshotting only the domains
 	 * that will be affected by the assignment (assigned layer + its neighbors).
@@ -659,8 +888,13 @@ export class CSPSolver {
 				this.isConsistent(assignedTrait, assignedLayerId, neighborTrait, neighborId)
 			);
 
-			// Dead end: neighbor has no valid traits left
-			if (neighborDomain.availableTraits.length === 0) {
+			// Dead end: neighbor has no valid traits left (optional neighbors are skipped
+			// instead, unless the assigned trait is linked into them)
+			if (
+				neighborDomain.availableTraits.length === 0 &&
+				(!this.canLeaveEmpty(neighborId) ||
+					assignedTrait.links?.some((link) => link.layerId === neighborId))
+			) {
 				return false;
 			}
 
@@ -681,7 +915,7 @@ export class CSPSolver {
 		let key = '';
 		for (const layerId of this.layerIdsSorted) {
 			const trait = this.context.selectedTraits.get(layerId);
-			key += trait ? trait.id : '_';
+			key += trait ? trait.id : this.skippedLayers.has(layerId) ? '-' : '_';
 			key += ';';
 		}
 		return key;
@@ -696,9 +930,14 @@ export class CSPSolver {
 
 		for (const layer of this.context.layers) {
 			if (this.context.selectedTraits.has(layer.id)) continue; // Already assigned
+			if (this.skippedLayers.has(layer.id)) continue; // Left empty
 
 			const validCount = this.getValidTraitCount(layer);
-			if (validCount === 0) return null; // Dead end detected
+			if (validCount === 0) {
+				// An exhausted optional layer can only be left empty: decide it now
+				if (!this.isRequiredLayer(layer)) return layer;
+				return null; // Dead end detected
+			}
 
 			if (validCount < minValidCount) {
 				minValidCount = validCount;
@@ -718,11 +957,12 @@ export class CSPSolver {
 	}
 
 	/**
-	 * Check if assignment is complete (all required layers assigned)
+	 * Check if assignment is complete (every layer assigned or left empty)
 	 */
 	private isComplete(): boolean {
-		const requiredLayers = this.context.layers.filter((layer) => !layer.isOptional);
-		return requiredLayers.every((layer) => this.context.selectedTraits.has(layer.id));
+		return this.context.layers.every(
+			(layer) => this.context.selectedTraits.has(layer.id) || this.skippedLayers.has(layer.id)
+		);
 	}
 
 	/**
@@ -738,13 +978,14 @@ export class CSPSolver {
 		}
 
 		const traits = [...domain.availableTraits];
+		const quotaWeights = this.getQuotaWeights(layer.id, traits);
 
 		// Efraimidis–Spirakis weighted shuffle:
 		// key = -log(U) / weight
 		// Lower keys are more likely, producing a weighted permutation without replacement.
 		const weighted = traits.map((trait) => {
-			const weight = Math.max(1, trait.rarityWeight || 1);
-			const u = Math.max(Number.EPSILON, Math.random());
+			const weight = quotaWeights?.get(trait.id) ?? getRarityWeight(trait);
+			const u = Math.max(Number.EPSILON, this.random());
 			return { trait, key: -Math.log(u) / weight };
 		});
 
@@ -752,6 +993,46 @@ export class CSPSolver {
 		return weighted.map((x) => x.trait);
 	}
 
+	/**
+	 * Selection weights for a layer that has outstanding exact counts.
+	 *
+	 * Each owed trait gets probability (owed tokens / remaining tokens) so exact
+	 * counts are spread across the collection instead of piling up at the end;
+	 * the leftover probability is shared by the other traits by rarityWeight.
+	 * Returns null when plain rarity weights should be used.
+	 */
+	private getQuotaWeights(
+		layerId: string,
+		traits: TransferrableTrait[]
+	): Map<string, number> | null {
+		if (!this.hasSupplyQuotas || this.collectionSize === undefined) return null;
+		const remaining = this.collectionSize - this.solvedCount;
+		if (remaining <= 0 || !traits.some((t) => t.exactCount !== undefined)) return null;
+
+		const weights = new Map<string, number>();
+		let owedShare = 0;
+		let freeWeightTotal = 0;
+
+		for (const trait of traits) {
+			if (trait.exactCount !== undefined) {
+				const share = this.getRemainingSupply(layerId, trait) / remaining;
+				weights.set(trait.id, share);
+				owedShare += share;
+			} else {
+				freeWeightTotal += getRarityWeight(trait);
+			}
+		}
+
+		const freeShare = Math.max(0, 1 - owedShare);
+		for (const trait of traits) {
+			if (trait.exactCount !== undefined) continue;
+			const weight = getRarityWeight(trait);
+			weights.set(trait.id, (freeShare * weight) / freeWeightTotal);
+		}
+
+		return weights;
+	}
+
 	/**
 	 * Assign a trait to a layer (removes it from domain)
 	 */
@@ -784,8 +1065,6 @@ export class CSPSolver {
 
 	/**
 	 * Optimized strict pair validation with early exit.
-	 *
-	 * BUG-1 fix: Falls back to collision-proof string-key lookups instead of 32-bit hash.
 	 */
 	private isValidCombination(): boolean {
 		for (const layerCombination of this.context.strictPairConfig?.layerCombinations || []) {
@@ -793,62 +1072,72 @@ export class CSPSolver {
 				continue;
 			}
 
-			const traitIds: string[] = [];
-			let allLayersPresent = true;
-
-			for (const layerId of layerCombination.layerIds) {
-				const trait = this.context.selectedTraits.get(layerId);
-				if (trait) {
-					traitIds.push(trait.id);
-				} else {
-					allLayersPresent = false;
-					break;
-				}
-			}
-
-			if (!allLayersPresent) {
-				continue;
-			}
-
 			const usedSet = this.context.usedCombinations.get(layerCombination.id);
 			if (!usedSet || usedSet.size === 0) {
 				continue;
 			}
 
-			// Try bit-packed lookup for O(1) performance
-			try {
-				const numericIds: number[] = [];
-				for (const layerId of layerCombination.layerIds) {
-					const trait = this.context.selectedTraits.get(layerId);
-					const index = trait ? this.layerTraitIdToIndex.get(layerId)?.get(trait.id) : undefined;
-					if (index !== undefined) {
-						numericIds.push(index);
-					} else {
-						throw new Error('Trait not found in mapping');
-					}
-				}
-
-				if (numericIds.every((id) => id <= 255) && numericIds.length <= 8) {
-					const combinationIndex = CombinationIndexer.pack(numericIds);
-					if (usedSet.has(combinationIndex)) {
-						return false;
-					}
-				} else {
-					throw new Error('Incompatible for bit-packing');
-				}
-			} catch {
-				// BUG-1 FIX: Use string key directly instead of lossy 32-bit hash.
-				// Prevents birthday-paradox collisions at scale (~50k items).
-				const fallbackKey = traitIds.slice().sort().join('|');
-				if (usedSet.has(fallbackKey)) {
-					return false;
-				}
+			const key = this.getCombinationKey(layerCombination);
+			if (key !== null && usedSet.has(key)) {
+				return false;
 			}
 		}
 
 		return true;
 	}
 
+	/**
+	 * Key of the current assignment for one uniqueness combination. A layer the
+	 * token leaves empty counts as a "None" value, so two tokens that differ only
+	 * by an empty optional layer are still told apart. Returns null when none of
+	 * the combination's layers are filled.
+	 *
+	 * Keys are mixed-radix packed per combination (see CombinationIndexer), so
+	 * duplicate checks stay O(1) for any number of layers and traits.
+	 */
+	private getCombinationKey(layerCombination: {
+		id: string;
+		layerIds: string[];
+	}): CombinationKey | null {
+		const digits: number[] = [];
+		let filledCount = 0;
+
+		for (const layerId of layerCombination.layerIds) {
+			const trait = this.context.selectedTraits.get(layerId);
+			const traitToIndex = this.layerTraitIdToIndex.get(layerId);
+			if (trait && traitToIndex?.has(trait.id)) {
+				filledCount++;
+				digits.push(traitToIndex.get(trait.id)!);
+			} else {
+				// One past the last trait index stands for "None"
+				digits.push(traitToIndex?.size ?? 0);
+			}
+		}
+
+		if (filledCount === 0) {
+			return null;
+		}
+
+		return this.getCombinationIndexer(layerCombination).pack(digits);
+	}
+
+	private getCombinationIndexer(layerCombination: {
+		id: string;
+		layerIds: string[];
+	}): CombinationIndexer {
+		let indexer = this.combinationIndexers.get(layerCombination.id);
+		if (!indexer) {
+			// Each layer takes one of its traits or "None"
+			indexer = new CombinationIndexer(
+				layerCombination.layerIds.map(
+					(layerId) => (this.layerTraitIdToIndex.get(layerId)?.size ?? 0) + 1
+				)
+			);
+			this.combinationIndexers.set(layerCombination.id, indexer);
+		}
+		return indexer;
+	}
+
 	/**
 	 * Verify that all ruler constraints are satisfied in the current assignment
 	 */
@@ -872,65 +1161,60 @@ export class CSPSolver {
 	}
 
 	/**
-	 * Mark the current combination as used to prevent duplicates
-	 *
-	 * BUG-1 fix: Stores string key directly when bit-packing is not possible,
-	 * eliminating birthday-paradox collisions.
+	 * Mark the current combination as used to prevent duplicates, and count
+	 * its traits against their supply quotas.
 	 */
 	markCombinationAsUsed(): void {
+		if (this.hasSupplyQuotas) {
+			for (const [layerId, trait] of this.context.selectedTraits) {
+				const key = this.getQuotaKey(layerId, trait.id);
+				this.traitUsage.set(key, (this.traitUsage.get(key) ?? 0) + 1);
+			}
+		}
+		this.solvedCount++;
+		this.recordUsedCombinations();
+	}
+
+	/**
+	 * Reserve the combination of a token made outside the solver (a 1-of-1)
+	 * so no solution repeats it. Layers missing from `traits` count as empty.
+	 * Uniqueness groups with a layer in `unmatchedLayerIds` are skipped: that
+	 * layer's value is not one of its traits, so no solution can match it.
+	 * Supply quotas are not affected.
+	 */
+	reserveCombination(
+		traits: Map<string, TransferrableTrait>,
+		unmatchedLayerIds: ReadonlySet<string> = new Set()
+	): void {
+		const selectedTraits = this.context.selectedTraits;
+		this.context.selectedTraits = new Map(traits);
+		try {
+			this.recordUsedCombinations(unmatchedLayerIds);
+		} finally {
+			this.context.selectedTraits = selectedTraits;
+		}
+	}
+
+	private recordUsedCombinations(skipGroupsWith: ReadonlySet<string> = new Set()): void {
 		for (const layerCombination of this.context.strictPairConfig?.layerCombinations || []) {
 			if (!layerCombination.active) {
 				continue;
 			}
-
-			const traitIds: string[] = [];
-			let allLayersPresent = true;
-
-			for (const layerId of layerCombination.layerIds) {
-				const trait = this.context.selectedTraits.get(layerId);
-				if (trait) {
-					traitIds.push(trait.id);
-				} else {
-					allLayersPresent = false;
-					break;
-				}
+			if (layerCombination.layerIds.some((layerId) => skipGroupsWith.has(layerId))) {
+				continue;
 			}
 
-			if (!allLayersPresent) {
+			const key = this.getCombinationKey(layerCombination);
+			if (key === null) {
 				continue;
 			}
 
 			let usedSet = this.context.usedCombinations.get(layerCombination.id);
 			if (!usedSet) {
-				usedSet = new Set<bigint | string>();
+				usedSet = new Set<CombinationKey>();
 				this.context.usedCombinations.set(layerCombination.id, usedSet);
 			}
-
-			// Try bit-packed first
-			try {
-				const numericIds: number[] = [];
-				for (const layerId of layerCombination.layerIds) {
-					const trait = this.context.selectedTraits.get(layerId);
-					const index = trait ? this.layerTraitIdToIndex.get(layerId)?.get(trait.id) : undefined;
-					if (index !== undefined) {
-						numericIds.push(index);
-					} else {
-						throw new Error('Trait not found in mapping');
-					}
-				}
-
-				if (numericIds.every((id) => id <= 255) && numericIds.length <= 8) {
-					const combinationIndex = CombinationIndexer.pack(numericIds);
-					usedSet.add(combinationIndex);
-					continue;
-				}
-			} catch {
-				// Continue to fallback
-			}
-
-			// BUG-1 FIX: Fallback to string key instead of lossy 32-bit hash.
-			const stringKey = traitIds.slice().sort().join('|');
-			usedSet.add(stringKey);
+			usedSet.add(key);
 		}
 	}
 
@@ -0,0 +1,29 @@
+import { bench, describe } from 'vite-plus/test';
+import type { TransferrableLayer } from '$lib/types/worker-messages';
+import { solveCollection } from './solve-collection';
+
+/** 15 layers: 400 backgrounds plus 14 layers of 8 traits with uneven weights */
+const LAYERS: TransferrableLayer[] = Array.from({ length: 15 }, (_, layerIndex) => ({
+	id: `L${layerIndex}` as never,
+	name: `Layer ${layerIndex}`,
+	order: layerIndex,
+	traits: Array.from({ length: layerIndex === 0 ? 400 : 8 }, (_, traitIndex) => ({
+		id: `L${layerIndex}-T${traitIndex}` as never,
+		name: `Trait ${traitIndex}`,
+		imageData: new ArrayBuffer(0),
+		rarityWeight: 1 + (traitIndex % 5)
+	}))
+}));
+
+describe('solveCollection: 15 layers', () => {
+	bench(
+		'100k tokens',
+		() => {
+			for (const _token of solveCollection(LAYERS, 100_000, { seed: 1 })) {
+				// Drain the generator
+			}
+		},
+		// One pass takes about a minute
+		{ iterations: 1, time: 0, warmupIterations: 0, warmupTime: 0 }
+	);
+});
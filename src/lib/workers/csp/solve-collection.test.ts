@@ -0,0 +1,38 @@
+import { describe, expect, it } from 'vite-plus/test';
+import type { TransferrableLayer } from '$lib/types/worker-messages';
+import { solveCollection } from './solve-collection';
+
+/** 15 layers: 400 backgrounds plus 14 layers of 8 traits, as in the 100k benchmark */
+function makeLayers(): TransferrableLayer[] {
+	return Array.from({ length: 15 }, (_, layerIndex) => ({
+		id: `L${layerIndex}` as never,
+		name: `Layer ${layerIndex}`,
+		order: layerIndex,
+		traits: Array.from({ length: layerIndex === 0 ? 400 : 8 }, (_, traitIndex) => ({
+			id: `L${layerIndex}-T${traitIndex}` as never,
+			name: `Trait ${traitIndex}`,
+			imageData: new ArrayBuffer(0),
+			rarityWeight: 1 + (traitIndex % 5)
+		}))
+	}));
+}
+
+describe('solveCollection', () => {
+	// The full 100k run takes tens of seconds; it lives in solve-collection.bench.ts
+	it('solves unique tokens over 15 layers', () => {
+		const tokens = [...solveCollection(makeLayers(), 2_000, { seed: 1 })];
+		const combinations = tokens.map((token) =>
+			token.traitRefs.map((ref) => `${ref.layerId}:${ref.traitId}`).join('|')
+		);
+
+		expect(tokens.map((token) => token.index)).toEqual(Array.from({ length: 2_000 }, (_, i) => i));
+		expect(tokens.every((token) => token.traitRefs.length === 15)).toBe(true);
+		expect(new Set(combinations).size).toBe(2_000);
+	});
+
+	it('solves the same collection for the same seed', () => {
+		const solve = () => [...solveCollection(makeLayers(), 200, { seed: 42 })];
+
+		expect(solve()).toEqual(solve());
+	});
+});
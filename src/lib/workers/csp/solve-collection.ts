@@ -0,0 +1,153 @@
+/**
+ * Solve a whole collection one token at a time.
+ *
+ * Shared by the solver worker and the main-thread fallback so both produce
+ * the same token-to-trait assignment for the same seed. Tokens are yielded as
+ * trait references (layer id + trait id) in layer order, which keeps worker
+ * messages small; callers resolve them against their own layers.
+ */
+
+import { findSupplyQuotaProblem } from '$lib/domain/generation.validation';
+import { matchOneOfOneTraits } from '$lib/domain/one-of-ones';
+import { findTraitLinkProblem } from '$lib/domain/trait-links';
+import type { CompatibilityRule, StrictPairConfig } from '$lib/types/layer';
+import type { OneOfOneAttribute } from '$lib/types/project';
+import type {
+	SolveMessage,
+	SolverWorkerResponse,
+	TransferrableLayer
+} from '$lib/types/worker-messages';
+import type { CombinationKey } from '$lib/utils/combination-indexer';
+import { CSPSolver } from '../csp-solver';
+
+export interface SolveCollectionOptions {
+	strictPairConfig?: StrictPairConfig;
+	seed?: number;
+	compatibilityRules?: CompatibilityRule[];
+	/** Attributes of 1-of-1s and existing tokens; no solved token may repeat their traits */
+	reservedAttributes?: OneOfOneAttribute[][];
+}
+
+export interface SolvedTokenRef {
+	index: number;
+	traitRefs: { layerId: string; traitId: string }[];
+}
+
+/**
+ * Yield `collectionSize` unique tokens.
+ *
+ * @throws Error up front when supply quotas or links can never be satisfied,
+ *   and on the token where the unique combinations run out
+ */
+export function* solveCollection(
+	layers: TransferrableLayer[],
+	collectionSize: number,
+	options: SolveCollectionOptions = {}
+): Generator<SolvedTokenRef> {
+	// Fail fast when exact/max counts can never fill the collection
+	const quotaProblem = findSupplyQuotaProblem(layers, collectionSize);
+	if (quotaProblem) {
+		throw new Error(quotaProblem);
+	}
+
+	// Links that can never be satisfied would otherwise exhaust the search
+	const linkProblem = findTraitLinkProblem(layers);
+	if (linkProblem) {
+		throw new Error(linkProblem);
+	}
+
+	const usedCombinations = new Map<string, Set<CombinationKey>>();
+
+	const activeConfig = options.strictPairConfig?.enabled
+		? { ...options.strictPairConfig }
+		: {
+				enabled: true,
+				layerCombinations: [
+					{
+						id: '__global__',
+						layerIds: layers.map((l) => l.id),
+						active: true,
+						description: 'Global Uniqueness'
+					}
+				]
+			};
+
+	const solver = new CSPSolver(layers, usedCombinations, activeConfig, {
+		seed: options.seed,
+		collectionSize,
+		compatibilityRules: options.compatibilityRules
+	});
+	// Generated tokens must not repeat the traits a 1-of-1 or an existing token claims
+	for (const attributes of options.reservedAttributes ?? []) {
+		const { traits, unmatchedLayerIds } = matchOneOfOneTraits(attributes, layers);
+		solver.reserveCombination(traits, unmatchedLayerIds);
+	}
+
+	const layerOrder = new Map(layers.map((l) => [l.id as string, l.order || 0]));
+	const hasQuotas = layers.some((l) =>
+		l.traits.some((t) => t.exactCount !== undefined || t.maxCount !== undefined)
+	);
+
+	for (let i = 0; i < collectionSize; i++) {
+		const solutionMap = solver.solve();
+		if (!solutionMap) {
+			throw new Error(
+				`Exhausted all possible valid unique combinations at item ${i + 1}.` +
+					(hasQuotas
+						? ' Supply quotas may conflict with ruler rules or uniqueness — try loosening exact or max counts.'
+						: '')
+			);
+		}
+		solver.markCombinationAsUsed();
+
+		const traitRefs = Array.from(solutionMap.entries())
+			.map(([layerId, trait]) => ({ layerId, traitId: trait.id as string }))
+			.sort((a, b) => (layerOrder.get(a.layerId) ?? 0) - (layerOrder.get(b.layerId) ?? 0));
+
+		yield { index: i, traitRefs };
+	}
+}
+
+/** Longest a solved token waits before its batch is posted */
+const MAX_BATCH_DELAY_MS = 250;
+
+/**
+ * Solve a request and post the tokens in batches of `batchSize`, or sooner
+ * when solving is slow so rendering and progress never stall. Ends with
+ * `solve-complete`, or `solve-error` if solving fails.
+ */
+export function postSolvedBatches(
+	request: SolveMessage['payload'],
+	post: (message: SolverWorkerResponse) => void
+): void {
+	const { layers, collectionSize, batchSize, ...options } = request;
+	let batch: SolvedTokenRef[] = [];
+	let solvedCount = 0;
+	let lastPostedAt = performance.now();
+
+	const flush = () => {
+		post({
+			type: 'solved',
+			payload: { solutions: batch, solvedCount, totalCount: collectionSize }
+		});
+		batch = [];
+		lastPostedAt = performance.now();
+	};
+
+	try {
+		for (const token of solveCollection(layers, collectionSize, options)) {
+			batch.push(token);
+			solvedCount++;
+			if (batch.length >= batchSize || performance.now() - lastPostedAt >= MAX_BATCH_DELAY_MS) {
+				flush();
+			}
+		}
+		if (batch.length > 0) flush();
+		post({ type: 'solve-complete' });
+	} catch (error) {
+		post({
+			type: 'solve-error',
+			payload: { message: error instanceof Error ? error.message : String(error) }
+		});
+	}
+}
@@ -1,4 +1,4 @@
-import { describe, it, expect, vi, beforeEach } from 'vite-plus/test';
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vite-plus/test';
 import type { TransferrableLayer, TransferrableTrait } from '$lib/types/worker-messages';
 
 // Mock dependencies before importing the module under test
@@ -16,7 +16,12 @@ vi.mock('./pool', () => ({
 }));
 
 vi.mock('./trait-batch-scheduler', () => {
-	const mockScheduleBatches = vi.fn().mockResolvedValue(undefined);
+	// Drain the solution stream like the real scheduler, so solving runs
+	const mockScheduleBatches = vi.fn(async (solutions: AsyncIterable<unknown>) => {
+		for await (const _batch of solutions) {
+			// Rendering is not under test
+		}
+	});
 	class MockTraitBatchScheduler {
 		scheduleBatches = mockScheduleBatches;
 	}
@@ -29,8 +34,10 @@ vi.mock('./trait-batch-scheduler', () => {
 vi.mock('$lib/services/export.service', () => ({
 	startStreamingZip: vi.fn(),
 	addStreamingChunk: vi.fn(),
+	addStreamingFile: vi.fn(),
 	finalizeStreamingZip: vi.fn().mockResolvedValue(undefined),
-	cancelStreamingZip: vi.fn()
+	cancelStreamingZip: vi.fn(),
+	GENERATION_MANIFEST_FILENAME: 'generation.json'
 }));
 
 import {
@@ -120,6 +127,12 @@ describe('runGeneration', () => {
 	beforeEach(() => {
 		vi.clearAllMocks();
 		setFeatureFlags({ enableStreamingStorage: false });
+		// No real workers in jsdom: the solver falls back to the main thread
+		vi.stubGlobal('Worker', undefined);
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
 	});
 
 	function noopCallbacks(): GenerationCallbacks {
@@ -1,12 +1,30 @@
 import { describe, it, expect, vi, beforeAll, beforeEach, afterEach } from 'vitest';
-import { runGeneration, cancelGeneration, parseIndexFromName } from './generation.orchestrator';
+import {
+	runGeneration,
+	cancelGeneration,
+	parseIndexFromName,
+	rerollTokens,
+	resumeGeneration,
+	listResumableGenerations
+} from './generation.orchestrator';
 import type { GenerationConfig, GenerationCallbacks } from './generation.orchestrator';
 import { createResultStreamer, type ResultStreamer } from './result-streamer';
 import * as pool from './pool';
 import * as projectDomain from '$lib/domain/project.domain';
 import { CSPSolver } from './csp-solver';
 import { addStreamingChunk } from '$lib/services/export.service';
-import { streamBatch } from '$lib/utils/streaming-storage';
+import {
+	appendGenerationPlan,
+	clearSession,
+	completeGenerationPlan,
+	getRenderedIndexes,
+	listResumableGenerationSessions,
+	readGenerationCheckpoint,
+	readGenerationPlan,
+	saveGenerationCheckpoint,
+	streamBatch
+} from '$lib/utils/streaming-storage';
+import { WorkerError } from '$lib/utils/typed-errors';
 import { setFeatureFlags, resetFeatureFlags } from '$lib/config/feature-flags';
 import { unsafeCreateLayerId, unsafeCreateTraitId } from '$lib/types/ids';
 import type { Layer } from '$lib/types/layer';
@@ -18,15 +36,25 @@ vi.mock('$lib/services/export.service', () => ({
 	addStreamingChunk: vi.fn()
 }));
 vi.mock('$lib/utils/streaming-storage', () => ({
-	streamBatch: vi.fn().mockResolvedValue(undefined)
+	streamBatch: vi.fn().mockResolvedValue(undefined),
+	saveGenerationCheckpoint: vi.fn().mockResolvedValue(undefined),
+	appendGenerationPlan: vi.fn().mockResolvedValue(undefined),
+	completeGenerationPlan: vi.fn().mockResolvedValue(undefined),
+	readGenerationCheckpoint: vi.fn(),
+	readGenerationPlan: vi.fn(),
+	getRenderedIndexes: vi.fn(),
+	listResumableGenerationSessions: vi.fn().mockResolvedValue([]),
+	clearSession: vi.fn().mockResolvedValue(undefined)
 }));
 vi.mock('./result-streamer', () => ({
 	createResultStreamer: vi.fn(() => ({
 		mode: 'zip-stream',
 		sessionId: 'test-session',
 		start: vi.fn(),
+		collectMetadata: vi.fn(),
 		finalize: vi.fn().mockResolvedValue(undefined),
-		cancel: vi.fn()
+		cancel: vi.fn(),
+		close: vi.fn()
 	}))
 }));
 
@@ -45,6 +73,9 @@ describe('generation.orchestrator', () => {
 	});
 
 	beforeEach(() => {
+		// No real workers in jsdom: the solver falls back to the main thread
+		vi.stubGlobal('Worker', undefined);
+
 		mockCallbacks = {
 			onProgress: vi.fn(),
 			onPreview: vi.fn(),
@@ -173,6 +204,7 @@ describe('generation.orchestrator', () => {
 
 	afterEach(() => {
 		vi.clearAllMocks();
+		vi.unstubAllGlobals();
 		resetFeatureFlags();
 	});
 
@@ -187,8 +219,10 @@ describe('generation.orchestrator', () => {
 			mode: 'zip-stream',
 			sessionId: 'test-session',
 			start: vi.fn(),
+			collectMetadata: vi.fn(),
 			finalize: vi.fn().mockResolvedValue(undefined),
 			cancel: vi.fn(),
+			close: vi.fn(),
 			...overrides
 		} as unknown as ResultStreamer;
 	}
@@ -217,6 +251,43 @@ describe('generation.orchestrator', () => {
 			expect(mockCallbacks.onComplete).toHaveBeenCalledTimes(1);
 		});
 
+		it('sends the output image settings with every batch', async () => {
+			const imageEncoding = { format: 'webp', quality: 0.8 } as const;
+			const tokenTemplates = { name: '{Body} #{id:04}' };
+			const renditions = [
+				{ folder: 'thumbnails', width: 32, height: 32, encoding: { format: 'png' as const } }
+			];
+			const promise = runGeneration(
+				{ ...mockConfig, imageEncoding, renditions, pixelArtScale: 4, tokenTemplates },
+				mockCallbacks
+			);
+
+			setTimeout(() => {
+				const messageCallback = vi.mocked(pool.setMessageCallback).mock.calls[0]?.[0];
+				messageCallback?.({
+					type: 'complete',
+					taskId: 'test-task-id' as any,
+					payload: { images: [], metadata: [] }
+				});
+			}, 10);
+
+			await promise;
+
+			const batches = vi
+				.mocked(pool.postMessageToPool)
+				.mock.calls.map(([message]) => message)
+				.filter((message) => message.type === 'batch' || message.type === 'batch-ref');
+			expect(batches.length).toBeGreaterThan(0);
+			for (const batch of batches) {
+				expect(batch.payload).toMatchObject({
+					imageEncoding,
+					renditions,
+					pixelArtScale: 4,
+					tokenTemplates
+				});
+			}
+		});
+
 		it('initializes worker pool if not running', async () => {
 			vi.mocked(pool.getWorkerPoolStatus).mockReturnValue(null);
 
@@ -266,6 +337,200 @@ describe('generation.orchestrator', () => {
 			expect(pool.terminateWorkerPool).toHaveBeenCalled();
 			expect(pool.initializeWorkerPool).toHaveBeenCalled();
 		});
+
+		it('places 1-of-1s at their token numbers and reserves their traits', async () => {
+			const promise = runGeneration(
+				{
+					...mockConfig,
+					oneOfOnes: [
+						{
+							id: 'legend',
+							name: 'Legend',
+							imageData: new ArrayBuffer(10),
+							attributes: [{ trait_type: 'Background', value: 'Red' }],
+							tokenNumber: 2
+						}
+					]
+				},
+				mockCallbacks
+			);
+
+			setTimeout(() => {
+				poolBridge({
+					type: 'complete',
+					taskId: 'test-task-id' as any,
+					payload: { images: [], metadata: [] }
+				});
+			}, 10);
+
+			await promise;
+
+			const [reserved] = vi.mocked(CSPSolver.prototype.reserveCombination).mock.calls[0];
+			expect(reserved.get('layer-1')?.id).toBe('trait-2');
+
+			const solutions = vi
+				.mocked(pool.postMessageToPool)
+				.mock.calls.map(([message]) => message)
+				.filter((message) => message.type === 'batch' || message.type === 'batch-ref')
+				.flatMap(
+					(message) =>
+						(message.payload as { solutions: { index: number; oneOfOne?: { id: string } }[] })
+							.solutions
+				);
+			expect(solutions).toHaveLength(mockConfig.collectionSize);
+			expect(solutions.find((s) => s.index === 1)?.oneOfOne?.id).toBe('legend');
+			expect(solutions.filter((s) => s.oneOfOne)).toHaveLength(1);
+		});
+
+		it('extends a collection: reserves existing tokens and numbers after them', async () => {
+			const onItems = vi.fn();
+			let resolveFinalize!: () => void;
+			const streamer = mockStreamer({
+				finalize: vi.fn(
+					() =>
+						new Promise<void>((r) => {
+							resolveFinalize = r;
+						})
+				)
+			});
+			vi.mocked(createResultStreamer).mockReturnValue(streamer);
+
+			const promise = runGeneration(
+				{
+					...mockConfig,
+					tokenOffset: 10,
+					existingAttributes: [
+						[
+							{ trait_type: 'Background', value: 'Blue' },
+							{ trait_type: 'Character', value: 'Dog' }
+						]
+					]
+				},
+				{ ...mockCallbacks, onItems }
+			);
+
+			await vi.waitFor(() => expect(streamer.finalize).toHaveBeenCalled());
+			poolBridge({
+				type: 'progress',
+				taskId: 'test-task-id' as any,
+				payload: { generatedCount: 12, totalCount: 4, statusText: 'Batch processing: 2/4' }
+			});
+			poolBridge({
+				type: 'complete',
+				taskId: 'test-task-id' as any,
+				payload: {
+					images: [{ name: '11.png', imageData: new ArrayBuffer(4) }],
+					metadata: [{ name: '11.json', data: { name: 'Test Collection #11' } }]
+				}
+			});
+			resolveFinalize();
+			await promise;
+
+			const [reserved] = vi.mocked(CSPSolver.prototype.reserveCombination).mock.calls[0];
+			expect(reserved.get('layer-2')?.id).toBe('trait-4');
+
+			const solutions = vi
+				.mocked(pool.postMessageToPool)
+				.mock.calls.map(([message]) => message)
+				.filter((message) => message.type === 'batch' || message.type === 'batch-ref')
+				.flatMap((message) => (message.payload as { solutions: { index: number }[] }).solutions);
+			expect(solutions.map((s) => s.index)).toEqual([10, 11, 12, 13]);
+
+			expect(mockCallbacks.onProgress).toHaveBeenCalledWith(
+				expect.objectContaining({ payload: expect.objectContaining({ generatedCount: 2 }) })
+			);
+			expect(onItems).toHaveBeenCalledWith([
+				{
+					index: 10,
+					name: '11.png',
+					imageData: expect.any(ArrayBuffer),
+					metadata: { name: 'Test Collection #11' }
+				}
+			]);
+		});
+	});
+
+	describe('rerollTokens', () => {
+		it('renders new combinations at the re-rolled indexes without exporting', async () => {
+			const onItems = vi.fn();
+			// Workers finish each batch before the pool resolves it
+			vi.mocked(pool.postMessageToPool).mockImplementation(async (message) => {
+				const { solutions } = (message as { payload: { solutions: { index: number }[] } }).payload;
+				poolBridge({
+					type: 'complete',
+					taskId: 'test-task-id' as any,
+					payload: {
+						images: solutions.map((s) => ({
+							name: `${s.index + 1}.png`,
+							imageData: new ArrayBuffer(4)
+						})),
+						metadata: solutions.map((s) => ({ name: `${s.index + 1}.json`, data: {} }))
+					}
+				});
+			});
+
+			await rerollTokens(
+				{
+					layers: mockLayers,
+					outputSize: mockConfig.outputSize,
+					projectName: mockConfig.projectName,
+					projectDescription: mockConfig.projectDescription,
+					tokenIndexes: [7, 2],
+					existingAttributes: [
+						[
+							{ trait_type: 'Background', value: 'Blue' },
+							{ trait_type: 'Character', value: 'Dog' }
+						],
+						[
+							{ trait_type: 'Background', value: 'Red' },
+							{ trait_type: 'Character', value: 'Cat' }
+						]
+					],
+					keptAttributes: []
+				},
+				{ ...mockCallbacks, onItems }
+			);
+
+			expect(CSPSolver.prototype.reserveCombination).toHaveBeenCalledTimes(2);
+			expect(createResultStreamer).not.toHaveBeenCalled();
+			expect(onItems.mock.calls.flat(2).map((item) => item.index)).toEqual([7, 2]);
+			expect(mockCallbacks.onComplete).toHaveBeenCalledTimes(1);
+		});
+
+		it('ranks re-rolled tokens against the kept tokens only', async () => {
+			const blueDog = [
+				{ trait_type: 'Background', value: 'Blue' },
+				{ trait_type: 'Character', value: 'Dog' }
+			];
+
+			await rerollTokens(
+				{
+					layers: mockLayers,
+					outputSize: mockConfig.outputSize,
+					projectName: mockConfig.projectName,
+					projectDescription: mockConfig.projectDescription,
+					extraAttributes: [{ id: 'rank', traitType: 'Rarity Rank', source: 'rarity-rank' }],
+					tokenIndexes: [1],
+					// The replaced Red/Cat was the rarest token of the collection
+					existingAttributes: [
+						blueDog,
+						[
+							{ trait_type: 'Background', value: 'Red' },
+							{ trait_type: 'Character', value: 'Cat' }
+						],
+						blueDog
+					],
+					keptAttributes: [blueDog, blueDog]
+				},
+				mockCallbacks
+			);
+
+			// The solver re-rolls Blue/Cat, now the only Cat of three tokens
+			const [message] = vi.mocked(pool.postMessageToPool).mock.calls[0];
+			const { solutions } = (message as { payload: { solutions: { rarityRank?: number }[] } })
+				.payload;
+			expect(solutions.map((s) => s.rarityRank)).toEqual([1]);
+		});
 	});
 
 	describe('parseIndexFromName', () => {
@@ -400,6 +665,260 @@ describe('generation.orchestrator', () => {
 
 			resolveFinalize();
 			await promise;
+
+			// Every dispatched token is in the saved plan, which is then completed
+			const planned = vi
+				.mocked(appendGenerationPlan)
+				.mock.calls.flatMap(([, entries]) => entries.map((entry) => entry.index));
+			expect(planned).toEqual([0, 1, 2, 3]);
+			expect(completeGenerationPlan).toHaveBeenCalledWith(expect.any(String));
+		});
+	});
+
+	describe('resumeGeneration', () => {
+		const dispatchedSolutions = () =>
+			vi
+				.mocked(pool.postMessageToPool)
+				.mock.calls.map(([message]) => message)
+				.filter((message) => message.type === 'batch' || message.type === 'batch-ref')
+				.flatMap(
+					(message) =>
+						(message.payload as { solutions: { index: number; oneOfOne?: { id: string } }[] })
+							.solutions
+				);
+
+		beforeEach(() => {
+			setFeatureFlags({ enableStreamingStorage: true });
+			vi.mocked(readGenerationCheckpoint).mockResolvedValue({
+				sessionId: 'gen-interrupted',
+				settings: {
+					projectName: 'Test Collection',
+					projectDescription: 'Test Description',
+					collectionSize: 4,
+					outputSize: { width: 500, height: 500 },
+					manifest: { seed: 7 }
+				},
+				plannedCount: 4,
+				planChunkCount: 1,
+				planComplete: true,
+				createdAt: 1,
+				updatedAt: 2
+			});
+			vi.mocked(readGenerationPlan).mockResolvedValue([
+				{ index: 0, traitRefs: [{ layerId: 'layer-1', traitId: 'trait-1' }] },
+				{ index: 1, traitRefs: [], oneOfOneId: 'legend' },
+				{ index: 2, traitRefs: [{ layerId: 'layer-1', traitId: 'trait-2' }] },
+				{ index: 3, traitRefs: [{ layerId: 'layer-2', traitId: 'trait-4' }] }
+			]);
+			vi.mocked(getRenderedIndexes).mockResolvedValue(new Set([0, 2]));
+		});
+
+		it('renders only the missing tokens, then packages the session', async () => {
+			const streamer = mockStreamer({ mode: 'storage-stream' });
+			vi.mocked(createResultStreamer).mockReturnValue(streamer);
+
+			await resumeGeneration(
+				'gen-interrupted',
+				{
+					layers: mockLayers,
+					oneOfOnes: [
+						{
+							id: 'legend',
+							name: 'Legend',
+							imageData: new ArrayBuffer(10),
+							attributes: [],
+							tokenNumber: 2
+						}
+					]
+				},
+				mockCallbacks
+			);
+
+			const solutions = dispatchedSolutions();
+			expect(solutions.map((s) => s.index)).toEqual([1, 3]);
+			expect(solutions[0].oneOfOne?.id).toBe('legend');
+			expect(CSPSolver.prototype.solve).not.toHaveBeenCalled();
+			expect(createResultStreamer).toHaveBeenCalledWith(
+				expect.objectContaining({ sessionId: 'gen-interrupted', manifest: { seed: 7 } })
+			);
+			expect(streamer.finalize).toHaveBeenCalled();
+			expect(mockCallbacks.onComplete).toHaveBeenCalledTimes(1);
+		});
+
+		it('streams tokens with gaps between them to their own indexes', async () => {
+			let resolveFinalize!: () => void;
+			const streamer = mockStreamer({
+				mode: 'storage-stream',
+				finalize: vi.fn(
+					() =>
+						new Promise<void>((r) => {
+							resolveFinalize = r;
+						})
+				)
+			});
+			vi.mocked(createResultStreamer).mockReturnValue(streamer);
+			vi.mocked(getRenderedIndexes).mockResolvedValue(new Set([0, 1, 2]));
+
+			const promise = resumeGeneration('gen-interrupted', { layers: mockLayers }, mockCallbacks);
+
+			await vi.waitFor(() => expect(streamer.start).toHaveBeenCalled());
+			poolBridge({
+				type: 'chunk',
+				taskId: 'test-task-id' as any,
+				payload: {
+					images: [
+						{ name: '2.png', imageData: new ArrayBuffer(4) },
+						{ name: '4.png', imageData: new ArrayBuffer(4) },
+						{ name: '5.png', imageData: new ArrayBuffer(4) }
+					],
+					metadata: [],
+					generatedCount: 3,
+					totalCount: 4
+				}
+			});
+
+			expect(
+				vi
+					.mocked(streamBatch)
+					.mock.calls.map(([sessionId, start, images]) => [
+						sessionId,
+						start,
+						images.map((img) => img.name)
+					])
+			).toEqual([
+				['gen-interrupted', 1, ['2.png']],
+				['gen-interrupted', 3, ['4.png', '5.png']]
+			]);
+
+			resolveFinalize();
+			await promise;
+		});
+
+		it('refuses to resume when a planned trait was removed', async () => {
+			vi.mocked(getRenderedIndexes).mockResolvedValue(new Set([0, 1, 2]));
+			vi.mocked(projectDomain.prepareLayersForWorker).mockResolvedValue([]);
+
+			await expect(
+				resumeGeneration('gen-interrupted', { layers: [] }, mockCallbacks)
+			).rejects.toThrow(
+				"Trait trait-4 was removed from layer layer-2, so this generation can't be resumed."
+			);
+			expect(pool.postMessageToPool).not.toHaveBeenCalled();
+		});
+
+		it('refuses to resume while another generation is running', async () => {
+			let resolveFinalize!: () => void;
+			const streamer = mockStreamer({
+				mode: 'storage-stream',
+				finalize: vi.fn(
+					() =>
+						new Promise<void>((r) => {
+							resolveFinalize = r;
+						})
+				)
+			});
+			vi.mocked(createResultStreamer).mockReturnValue(streamer);
+
+			const running = runGeneration(mockConfig, mockCallbacks);
+			await vi.waitFor(() => expect(streamer.finalize).toHaveBeenCalled());
+
+			await expect(
+				resumeGeneration('gen-interrupted', { layers: mockLayers }, mockCallbacks)
+			).rejects.toThrow('Wait for the current generation to finish before resuming another one.');
+			expect(readGenerationCheckpoint).not.toHaveBeenCalled();
+
+			resolveFinalize();
+			await running;
+		});
+
+		it('keeps the gallery collection an extension adds to', async () => {
+			vi.mocked(createResultStreamer).mockReturnValue(mockStreamer({ mode: 'storage-stream' }));
+			await runGeneration({ ...mockConfig, extendCollectionId: 'col-1' }, mockCallbacks);
+			const [[sessionId, settings]] = vi.mocked(saveGenerationCheckpoint).mock.calls;
+			expect(settings).toMatchObject({ extendCollectionId: 'col-1' });
+
+			vi.mocked(listResumableGenerationSessions).mockResolvedValueOnce([
+				{
+					checkpoint: {
+						sessionId,
+						settings,
+						plannedCount: 4,
+						planChunkCount: 1,
+						planComplete: true,
+						createdAt: 1,
+						updatedAt: 2
+					},
+					renderedCount: 2
+				}
+			]);
+			const [resumable] = await listResumableGenerations();
+			expect(resumable).toMatchObject({ sessionId, extendCollectionId: 'col-1' });
+		});
+
+		it('keeps the session resumable when the resume fails', async () => {
+			const streamer = mockStreamer({
+				mode: 'storage-stream',
+				finalize: vi.fn().mockRejectedValue(new WorkerError('Worker crashed'))
+			});
+			vi.mocked(createResultStreamer).mockReturnValue(streamer);
+			vi.mocked(getRenderedIndexes).mockResolvedValue(new Set([0, 1, 2]));
+
+			await expect(
+				resumeGeneration('gen-interrupted', { layers: mockLayers }, mockCallbacks)
+			).rejects.toThrow('Worker crashed');
+
+			expect(streamer.cancel).not.toHaveBeenCalled();
+			expect(streamer.close).toHaveBeenCalled();
+			expect(clearSession).not.toHaveBeenCalled();
+
+			const checkpoint = await readGenerationCheckpoint('gen-interrupted');
+			vi.mocked(listResumableGenerationSessions).mockImplementationOnce(
+				async ({ activeSessionIds = [] } = {}) =>
+					[...activeSessionIds].includes('gen-interrupted')
+						? []
+						: [{ checkpoint: checkpoint!, renderedCount: 2 }]
+			);
+			const sessions = await listResumableGenerations();
+			expect(sessions.map((s) => s.sessionId)).toEqual(['gen-interrupted']);
+		});
+
+		it('refuses sessions whose plan was never completed', async () => {
+			vi.mocked(readGenerationCheckpoint).mockResolvedValue(null);
+
+			await expect(
+				resumeGeneration('gen-interrupted', { layers: mockLayers }, mockCallbacks)
+			).rejects.toThrow('This generation can no longer be resumed.');
+		});
+	});
+
+	describe('retries', () => {
+		afterEach(() => {
+			vi.useRealTimers();
+		});
+
+		it("discards the failed attempt's checkpoint before retrying", async () => {
+			vi.useFakeTimers();
+			setFeatureFlags({ enableStreamingStorage: true });
+			const failing = mockStreamer({
+				mode: 'storage-stream',
+				finalize: vi.fn().mockRejectedValue(new WorkerError('Worker crashed'))
+			});
+			vi.mocked(createResultStreamer)
+				.mockReturnValueOnce(failing)
+				.mockReturnValueOnce(mockStreamer({ mode: 'storage-stream' }));
+
+			const promise = runGeneration(mockConfig, mockCallbacks);
+			await vi.waitFor(() => expect(mockCallbacks.onError).toHaveBeenCalled());
+			await vi.advanceTimersByTimeAsync(20000);
+			await promise;
+
+			const [first, second] = vi
+				.mocked(saveGenerationCheckpoint)
+				.mock.calls.map(([sessionId]) => sessionId);
+			expect(second).not.toBe(first);
+			expect(clearSession).toHaveBeenCalledWith(first);
+			expect(clearSession).not.toHaveBeenCalledWith(second);
+			expect(mockCallbacks.onComplete).toHaveBeenCalledTimes(1);
 		});
 	});
 
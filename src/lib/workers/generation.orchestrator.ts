@@ -3,27 +3,37 @@
  *
  * Single entry point for the entire generation pipeline:
  *   1. Validate & prepare layers
- *   2. Solve CSP (unique trait combinations)
- *   3. Schedule batches → Worker Pool
+ *   2. Solve CSP (unique trait combinations) in the solver worker
+ *   3. Schedule batches → Worker Pool as they are solved
  *   4. Stream results → ZIP export
  *
  * Consumed by GenerationForm.svelte via simple callbacks.
  */
 
-import type { Layer, StrictPairConfig } from '$lib/types/layer';
+import type { CompatibilityRule, Layer, StrictPairConfig } from '$lib/types/layer';
+import type { ExtraAttribute, OneOfOne, OneOfOneAttribute } from '$lib/types/project';
 import type {
 	CompleteMessage,
+	GeneratedImage,
 	PoolForwardedWorkerMessage,
 	PreviewMessage,
 	TransferrableLayer,
+	TransferrableOneOfOne,
 	TransferrableTrait
 } from '$lib/types/worker-messages';
-import { MetadataStandard } from '$lib/domain/metadata/strategies';
+import { getMetadataStrategy, MetadataStandard } from '$lib/domain/metadata/strategies';
+import { PNG_ENCODING, type ImageEncoding } from '$lib/domain/image-encoding';
+import type { RenditionSpec } from '$lib/domain/renditions';
+import type { TokenTemplates } from '$lib/domain/token-templates';
+import { mapLayerAttributes, needsRarityRank, rankByRarity } from '$lib/domain/attribute-mapping';
 import { prepareLayersForWorker } from '$lib/domain/project.domain';
+import { cloneCompatibilityRule } from '$lib/domain/compatibility-rules';
+import { createOneOfOneMerger, findOneOfOneProblem, placeOneOfOnes } from '$lib/domain/one-of-ones';
 import { performanceMonitor } from '$lib/utils/performance-monitor';
 import { withRetry } from '$lib/utils/error-handler';
-import { CSPSolver } from './csp-solver';
-import { TraitBatchScheduler } from './trait-batch-scheduler';
+import { generateSeed } from '$lib/utils/seeded-random';
+import { streamSolutions, type SolutionStream } from './solver-worker-client';
+import { TraitBatchScheduler, type Solution } from './trait-batch-scheduler';
 import {
 	initializeWorkerPool,
 	setMessageCallback,
@@ -32,7 +42,18 @@ import {
 } from './pool';
 import { addStreamingChunk } from '$lib/services/export.service';
 import { isFlagEnabled } from '$lib/config/feature-flags';
-import { streamBatch } from '$lib/utils/streaming-storage';
+import {
+	appendGenerationPlan,
+	clearSession,
+	completeGenerationPlan,
+	getRenderedIndexes,
+	listResumableGenerationSessions,
+	readGenerationCheckpoint,
+	readGenerationPlan,
+	saveGenerationCheckpoint,
+	streamBatch,
+	type GenerationPlanEntry
+} from '$lib/utils/streaming-storage';
 import { createResultStreamer, type ResultStreamer } from './result-streamer';
 
 // ─── Public interface ─────────────────────────────────────────
@@ -55,6 +76,18 @@ export interface GenerationCallbacks {
 		images: { name: string; imageData: ArrayBuffer }[];
 		metadata: { name: string; data: Record<string, unknown> }[];
 	}) => void;
+	/**
+	 * Called with every rendered token, e.g. to add it to a gallery collection.
+	 * Images are copies, so they stay usable after the export takes its own.
+	 */
+	onItems?: (
+		items: {
+			index: number;
+			name: string;
+			imageData: ArrayBuffer;
+			metadata: Record<string, unknown>;
+		}[]
+	) => void;
 	/** Called on unrecoverable error */
 	onError: (error: Error) => void;
 	/** Called when user cancels */
@@ -62,14 +95,119 @@ export interface GenerationCallbacks {
 }
 
 export interface GenerationConfig {
+	/** Lets interrupted generations be listed per project */
+	projectId?: string;
 	layers: Layer[];
 	collectionSize: number;
 	outputSize: { width: number; height: number };
 	projectName: string;
 	projectDescription: string;
 	metadataStandard?: MetadataStandard;
+	/** Format tokens are encoded in; PNG when omitted */
+	imageEncoding?: ImageEncoding;
+	/** Extra sizes and formats rendered from each token into folders of their own */
+	renditions?: RenditionSpec[];
+	/**
+	 * Pixel-art upscale factor. Traits are scaled up with nearest-neighbour
+	 * sampling; `outputSize` is the size after scaling.
+	 */
+	pixelArtScale?: number;
+	/** Token name and description templates; see renderTokenTemplate */
+	tokenTemplates?: TokenTemplates;
+	/**
+	 * Attributes added to every token after its layer attributes. A rarity
+	 * rank makes the whole collection solve before rendering starts.
+	 */
+	extraAttributes?: ExtraAttribute[];
 	strictPairConfig?: StrictPairConfig;
+	compatibilityRules?: CompatibilityRule[];
+	/** Hand-made tokens placed into the collection; the solver fills the rest */
+	oneOfOnes?: OneOfOne[];
 	extraData?: Record<string, unknown>;
+	/**
+	 * Number new tokens after this many existing ones, e.g. when extending a
+	 * collection: token indexes (and file names) start at `tokenOffset`.
+	 */
+	tokenOffset?: number;
+	/** Attributes of tokens that already exist; no new token repeats them */
+	existingAttributes?: OneOfOneAttribute[][];
+	/**
+	 * Gallery collection the new tokens are added to. Only recorded, so a
+	 * resumed extension keeps adding to the same collection.
+	 */
+	extendCollectionId?: string;
+	/**
+	 * Seed for trait selection. The same seed, layers and collection size
+	 * always produce the same token-to-trait assignment. A random seed is
+	 * picked when omitted; either way it is recorded in the export manifest.
+	 */
+	seed?: number;
+}
+
+/**
+ * Re-roll selected tokens of an existing collection: they get new trait
+ * combinations but keep their token indexes.
+ */
+export interface RerollConfig extends Pick<
+	GenerationConfig,
+	| 'layers'
+	| 'outputSize'
+	| 'projectName'
+	| 'projectDescription'
+	| 'metadataStandard'
+	| 'imageEncoding'
+	| 'pixelArtScale'
+	| 'tokenTemplates'
+	| 'extraAttributes'
+	| 'strictPairConfig'
+	| 'compatibilityRules'
+	| 'extraData'
+	| 'seed'
+> {
+	/** 0-based indexes of the tokens to re-roll */
+	tokenIndexes: number[];
+	/** Attributes of every token in the collection, re-rolled ones included */
+	existingAttributes: OneOfOneAttribute[][];
+	/**
+	 * Attributes of the tokens that are kept. Ranks count only these, so the
+	 * replaced combinations neither shift frequencies nor take rank positions.
+	 */
+	keptAttributes: OneOfOneAttribute[][];
+}
+
+/** A generation that was interrupted and can be resumed */
+export interface ResumableGeneration {
+	sessionId: string;
+	projectName: string;
+	collectionSize: number;
+	/** Tokens already rendered to storage */
+	renderedCount: number;
+	seed?: number;
+	/** Set when the generation extends a gallery collection */
+	extendCollectionId?: string;
+	updatedAt: number;
+}
+
+/**
+ * Everything needed to render and package a solved collection. Saved with a
+ * streaming-storage session so an interrupted generation can be resumed.
+ */
+interface RenderSettings {
+	projectId?: string;
+	extendCollectionId?: string;
+	projectName: string;
+	projectDescription: string;
+	collectionSize: number;
+	tokenOffset?: number;
+	outputSize: { width: number; height: number };
+	metadataStandard?: MetadataStandard;
+	imageEncoding?: ImageEncoding;
+	renditions?: RenditionSpec[];
+	pixelArtScale?: number;
+	tokenTemplates?: TokenTemplates;
+	extraAttributes?: ExtraAttribute[];
+	extraData?: Record<string, unknown>;
+	manifest: Record<string, unknown>;
 }
 
 // ─── Session encapsulation ────────────────────────────────────
@@ -84,16 +222,30 @@ class GenerationSession {
 	readonly id: string;
 	readonly projectName: string;
 	readonly callbacks: GenerationCallbacks;
+	/** False when rendered tokens only go to `onItems`, as for re-rolls */
+	readonly exportResults: boolean;
 	readonly useStreamingStorage: boolean;
+	/** Token indexes start here; worker progress is reported relative to it */
+	tokenOffset = 0;
 	streamer: ResultStreamer | null = null;
+	solver: SolutionStream | null = null;
+	/** Set once the worker pool reports render progress, which then drives the progress bar */
+	renderingStarted = false;
+	/** Set once the whole plan is saved: from then on the session can be resumed */
+	planComplete = false;
 	private cancelled = false;
 	private cancellationNotified = false;
 
-	constructor(config: GenerationConfig, callbacks: GenerationCallbacks) {
-		this.id = `gen-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
-		this.projectName = config.projectName || 'collection';
+	constructor(
+		projectName: string,
+		callbacks: GenerationCallbacks,
+		options: { id?: string; exportResults?: boolean } = {}
+	) {
+		this.id = options.id ?? `gen-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`;
+		this.projectName = projectName || 'collection';
 		this.callbacks = callbacks;
-		this.useStreamingStorage = isFlagEnabled('enableStreamingStorage');
+		this.exportResults = options.exportResults ?? true;
+		this.useStreamingStorage = this.exportResults && isFlagEnabled('enableStreamingStorage');
 	}
 
 	get storageSessionId(): string {
@@ -120,6 +272,29 @@ class GenerationSession {
 			this.streamer = null;
 		}
 	}
+
+	/**
+	 * Stop streaming after an error. A session whose plan is saved stays in
+	 * storage so it can be resumed; only the user cancelling or discarding it
+	 * deletes it.
+	 */
+	abandonStreamer(): void {
+		if (!this.planComplete) {
+			this.cancelStreamer();
+			return;
+		}
+		if (this.streamer) {
+			this.streamer.close();
+			this.streamer = null;
+		}
+	}
+
+	cancelSolver(): void {
+		if (this.solver) {
+			this.solver.cancel();
+			this.solver = null;
+		}
+	}
 }
 
 /** Currently active session — null when not generating */
@@ -145,103 +320,100 @@ export async function runGeneration(
 	config: GenerationConfig,
 	callbacks: GenerationCallbacks
 ): Promise<void> {
+	// Resolve the seed once so retries replay the same assignment
+	const seed = config.seed ?? generateSeed();
+
+	const oneOfOnes = config.oneOfOnes ?? [];
+	// A retry plans the collection again, so the failed attempt's checkpoint could never be resumed
+	let previousSessionId: string | null = null;
+	const oneOfOneProblem = findOneOfOneProblem(oneOfOnes, config.collectionSize);
+	if (oneOfOneProblem) {
+		throw new Error(oneOfOneProblem);
+	}
+
+	const settings: RenderSettings = {
+		projectId: config.projectId,
+		extendCollectionId: config.extendCollectionId,
+		projectName: config.projectName,
+		projectDescription: config.projectDescription,
+		collectionSize: config.collectionSize,
+		tokenOffset: config.tokenOffset,
+		outputSize: config.outputSize,
+		metadataStandard: config.metadataStandard,
+		imageEncoding: config.imageEncoding,
+		renditions: config.renditions,
+		pixelArtScale: config.pixelArtScale,
+		tokenTemplates: config.tokenTemplates,
+		extraAttributes: config.extraAttributes,
+		extraData: config.extraData,
+		manifest: buildGenerationManifest(config, seed)
+	};
+
 	return withRetry(
 		async () => {
-			const timerId = performanceMonitor.startTimer('generation.runGeneration');
-
 			// 1 ─ Prepare layers for workers
-			const transferrableLayers = await withRetry(
-				async () => prepareLayersForWorker(config.layers),
-				'file',
-				{
-					operation: 'prepareLayersForWorker',
-					enableRetry: true,
-					retryConfig: { maxAttempts: 3, initialDelayMs: 1000, backoffFactor: 2 }
-				}
-			);
+			const transferrableLayers = await prepareLayers(config.layers);
 
 			// 2 ─ Ensure worker pool has proper capacity
-			const poolStatus = getWorkerPoolStatus();
-			if (!poolStatus) {
-				await initializeWorkerPool();
-			} else if (poolStatus.totalWorkers < 2) {
-				await terminateWorkerPool();
-				await initializeWorkerPool();
-			}
+			await ensureWorkerPool();
 
 			// 3 ─ Set up session
-			const session = new GenerationSession(config, callbacks);
-			_activeSession = session;
-
-			// 4 ─ Create result streamer (handles ZIP vs storage branching internally)
-			const streamer = createResultStreamer({
-				sessionId: session.id,
-				projectName: session.projectName,
-				collectionSize: config.collectionSize,
-				onProgress: (event) => {
-					callbacks.onProgress({
-						type: 'progress',
-						payload: {
-							generatedCount: config.collectionSize,
-							totalCount: config.collectionSize,
-							statusText: event.message
+			if (previousSessionId) {
+				await clearSession(previousSessionId);
+				previousSessionId = null;
+			}
+			const session = new GenerationSession(config.projectName, callbacks);
+			if (session.useStreamingStorage) {
+				await saveGenerationCheckpoint(session.id, settings);
+				previousSessionId = session.id;
+			}
+
+			await renderSession(
+				session,
+				settings,
+				transferrableLayers,
+				'generation.runGeneration',
+				() => {
+					// 5 ─ Solve CSP in the solver worker, streaming batches as they are solved
+					const solver = streamSolutions(
+						{
+							layers: transferrableLayers,
+							collectionSize: config.collectionSize - oneOfOnes.length,
+							strictPairConfig: config.strictPairConfig,
+							seed,
+							compatibilityRules: config.compatibilityRules?.map(cloneCompatibilityRule),
+							reservedAttributes: [
+								...oneOfOnes.map((oneOfOne) => oneOfOne.attributes),
+								...(config.existingAttributes ?? [])
+							]
+						},
+						{
+							onProgress: (solvedCount, totalCount) => {
+								if (session.renderingStarted) return;
+								callbacks.onProgress({
+									type: 'progress',
+									payload: {
+										generatedCount: solvedCount,
+										totalCount,
+										statusText: `Solving trait combinations (${solvedCount}/${totalCount})...`
+									}
+								});
+							}
 						}
-					});
-				}
-			});
-			streamer.start();
-			session.streamer = streamer;
-
-			try {
-				// 5 ─ Solve CSP (main-thread; single worker fallback omitted — main thread is fast enough)
-				const solutions = await solveOnMainThread(
-					transferrableLayers,
-					config.collectionSize,
-					config.strictPairConfig,
-					() => session.isCancelled
-				);
-				if (session.isCancelled) return;
-
-				// 6 ─ Schedule batches to worker pool
-				const scheduler = new TraitBatchScheduler({
-					layers: transferrableLayers,
-					collectionSize: config.collectionSize,
-					outputSize: config.outputSize,
-					projectName: config.projectName,
-					projectDescription: config.projectDescription,
-					metadataStandard: config.metadataStandard,
-					extraData: config.extraData
-				});
-				await scheduler.scheduleBatches(solutions);
-				if (session.isCancelled) return;
-
-				// 7 ─ Finalize via streamer
-				await streamer.finalize();
-				session.streamer = null;
-				if (session.isCancelled) return;
-
-				// 8 ─ Done
-				performanceMonitor.stopTimer(timerId);
-				callbacks.onComplete({ images: [], metadata: [] });
-			} catch (error) {
-				if (session.isCancelled) {
-					performanceMonitor.stopTimer(timerId, { cancelled: true });
-					return;
-				}
+					);
+					session.solver = solver;
 
-				// Clean up streamer on error
-				session.cancelStreamer();
-				performanceMonitor.stopTimer(timerId, { error: String(error) });
-
-				// Notify callbacks before re-throwing for retry
-				const err = error instanceof Error ? error : new Error(String(error));
-				callbacks.onError(err);
-				throw err;
-			} finally {
-				if (_activeSession === session) {
-					_activeSession = null;
+					const placed = withTokenOffset(
+						withOneOfOnes(solver, placeOneOfOnes(oneOfOnes, config.collectionSize, seed)),
+						config.tokenOffset ?? 0
+					);
+					const solutions = needsRarityRank(config.extraAttributes)
+						? withRarityRanks(placed, transferrableLayers, config.existingAttributes)
+						: placed;
+					// The plan lets an interrupted run resume from storage
+					return session.useStreamingStorage ? recordPlan(solutions, session) : solutions;
 				}
-			}
+			);
 		},
 		'worker',
 		{
@@ -261,6 +433,132 @@ export async function runGeneration(
 	);
 }
 
+/**
+ * Resume a generation interrupted by a crash or reload. Only the tokens whose
+ * images are missing from its storage session are rendered, then the whole
+ * collection is packaged as usual. The layers and 1-of-1s must still contain
+ * every trait the session planned.
+ */
+export async function resumeGeneration(
+	sessionId: string,
+	source: { layers: Layer[]; oneOfOnes?: OneOfOne[] },
+	callbacks: GenerationCallbacks
+): Promise<void> {
+	if (_activeSession) {
+		throw new Error('Wait for the current generation to finish before resuming another one.');
+	}
+	if (!isFlagEnabled('enableStreamingStorage')) {
+		throw new Error('Resuming a generation needs streaming storage to be enabled.');
+	}
+
+	const checkpoint = await readGenerationCheckpoint<RenderSettings>(sessionId);
+	if (!checkpoint?.planComplete) {
+		throw new Error('This generation can no longer be resumed.');
+	}
+
+	const [plan, renderedIndexes] = await Promise.all([
+		readGenerationPlan(sessionId),
+		getRenderedIndexes(sessionId)
+	]);
+	const transferrableLayers = await prepareLayers(source.layers);
+	const solutions = resolvePlan(
+		plan.filter((entry) => !renderedIndexes.has(entry.index)),
+		transferrableLayers,
+		source.oneOfOnes ?? []
+	);
+
+	await ensureWorkerPool();
+
+	const { settings } = checkpoint;
+	const session = new GenerationSession(settings.projectName, callbacks, { id: sessionId });
+	session.planComplete = true;
+	await renderSession(
+		session,
+		settings,
+		transferrableLayers,
+		'generation.resumeGeneration',
+		() => solutions
+	);
+}
+
+/**
+ * Re-roll selected tokens of a collection. Each gets a new combination that
+ * no token in the collection has and that satisfies the project's rules.
+ * Nothing is exported: rendered tokens are handed to `onItems` with the
+ * indexes of the tokens they replace.
+ */
+export async function rerollTokens(
+	config: RerollConfig,
+	callbacks: GenerationCallbacks
+): Promise<void> {
+	if (_activeSession) {
+		throw new Error('Wait for the current generation to finish before re-rolling tokens.');
+	}
+
+	const seed = config.seed ?? generateSeed();
+	const settings: RenderSettings = {
+		projectName: config.projectName,
+		projectDescription: config.projectDescription,
+		collectionSize: config.tokenIndexes.length,
+		outputSize: config.outputSize,
+		metadataStandard: config.metadataStandard,
+		imageEncoding: config.imageEncoding,
+		pixelArtScale: config.pixelArtScale,
+		tokenTemplates: config.tokenTemplates,
+		extraAttributes: config.extraAttributes,
+		extraData: config.extraData,
+		manifest: {}
+	};
+
+	const transferrableLayers = await prepareLayers(config.layers);
+	await ensureWorkerPool();
+
+	const session = new GenerationSession(config.projectName, callbacks, { exportResults: false });
+	await renderSession(session, settings, transferrableLayers, 'generation.rerollTokens', () => {
+		const solver = streamSolutions({
+			layers: transferrableLayers,
+			collectionSize: config.tokenIndexes.length,
+			strictPairConfig: config.strictPairConfig,
+			seed,
+			compatibilityRules: config.compatibilityRules?.map(cloneCompatibilityRule),
+			reservedAttributes: config.existingAttributes
+		});
+		session.solver = solver;
+		const solutions = withTokenIndexes(solver, config.tokenIndexes);
+		return needsRarityRank(config.extraAttributes)
+			? withRarityRanks(solutions, transferrableLayers, config.keptAttributes)
+			: solutions;
+	});
+}
+
+/**
+ * Generations interrupted before their export was packaged, most recent
+ * first. Pass a project id to only list that project's generations.
+ */
+export async function listResumableGenerations(projectId?: string): Promise<ResumableGeneration[]> {
+	if (!isFlagEnabled('enableStreamingStorage')) return [];
+
+	const sessions = await listResumableGenerationSessions<RenderSettings>({
+		activeSessionIds: _activeSession ? [_activeSession.id] : []
+	});
+	return sessions
+		.filter(({ checkpoint }) => !projectId || checkpoint.settings.projectId === projectId)
+		.map(({ checkpoint, renderedCount }) => ({
+			sessionId: checkpoint.sessionId,
+			projectName: checkpoint.settings.projectName,
+			collectionSize: checkpoint.settings.collectionSize,
+			renderedCount,
+			seed: checkpoint.settings.manifest.seed as number | undefined,
+			extendCollectionId: checkpoint.settings.extendCollectionId,
+			updatedAt: checkpoint.updatedAt
+		}));
+}
+
+/** Delete an interrupted generation that will not be resumed. */
+export async function discardGeneration(sessionId: string): Promise<void> {
+	await clearSession(sessionId);
+}
+
 /**
  * Cancel an in-progress generation. Terminates the worker pool
  * and re-initializes it for future use.
@@ -268,6 +566,7 @@ export async function runGeneration(
 export async function cancelGeneration(): Promise<void> {
 	if (_activeSession) {
 		_activeSession.markCancelled();
+		_activeSession.cancelSolver();
 		_activeSession.cancelStreamer();
 		_activeSession.notifyCancelled();
 		_activeSession = null;
@@ -277,101 +576,332 @@ export async function cancelGeneration(): Promise<void> {
 	await initializeWorkerPool();
 }
 
-// ─── CSP Solving ──────────────────────────────────────────────
+/**
+ * Describe how a collection was generated. Written to `generation.json` at the
+ * root of the export so a drop can be rebuilt exactly from the same project.
+ */
+export function buildGenerationManifest(
+	config: GenerationConfig,
+	seed: number
+): Record<string, unknown> {
+	return {
+		projectName: config.projectName,
+		collectionSize: config.collectionSize,
+		seed,
+		metadataStandard: config.metadataStandard ?? MetadataStandard.ERC721,
+		outputSize: config.outputSize,
+		imageEncoding: config.imageEncoding ?? PNG_ENCODING,
+		...(config.renditions?.length ? { renditions: config.renditions } : {}),
+		...(config.pixelArtScale ? { pixelArtScale: config.pixelArtScale } : {}),
+		...(config.tokenTemplates?.name || config.tokenTemplates?.description
+			? { tokenTemplates: config.tokenTemplates }
+			: {}),
+		...(config.extraAttributes?.length ? { extraAttributes: config.extraAttributes } : {}),
+		...(config.tokenOffset ? { tokenOffset: config.tokenOffset } : {}),
+		generatedAt: new Date().toISOString()
+	};
+}
+
+// ─── Session rendering ────────────────────────────────────────
+
+async function prepareLayers(layers: Layer[]): Promise<TransferrableLayer[]> {
+	return withRetry(async () => prepareLayersForWorker(layers), 'file', {
+		operation: 'prepareLayersForWorker',
+		enableRetry: true,
+		retryConfig: { maxAttempts: 3, initialDelayMs: 1000, backoffFactor: 2 }
+	});
+}
+
+async function ensureWorkerPool(): Promise<void> {
+	const poolStatus = getWorkerPoolStatus();
+	if (!poolStatus) {
+		await initializeWorkerPool();
+	} else if (poolStatus.totalWorkers < 2) {
+		await terminateWorkerPool();
+		await initializeWorkerPool();
+	}
+}
 
 /**
- * Solve CSP on the main thread with periodic UI yield.
- * Exported for testing.
+ * Render a session's solutions on the worker pool and package the results
+ * (sessions that don't export only hand them to `onItems`). `solve` is
+ * called once the result streamer is running.
  */
-export async function solveOnMainThread(
+async function renderSession(
+	session: GenerationSession,
+	settings: RenderSettings,
 	layers: TransferrableLayer[],
-	collectionSize: number,
-	strictPairConfig?: StrictPairConfig,
-	shouldCancel: () => boolean = () => false
-): Promise<{ index: number; traits: { layerId: string; trait: TransferrableTrait }[] }[]> {
-	const usedCombinations = new Map<string, Set<bigint | string>>();
-
-	const activeConfig = strictPairConfig?.enabled
-		? { ...strictPairConfig }
-		: {
-				enabled: true,
-				layerCombinations: [
-					{
-						id: '__global__',
-						layerIds: layers.map((l) => l.id),
-						active: true,
-						description: 'Global Uniqueness'
-					}
-				]
-			};
+	timerName: string,
+	solve: () => Solution[] | AsyncIterable<Solution[]>
+): Promise<void> {
+	const { callbacks } = session;
+	const timerId = performanceMonitor.startTimer(timerName);
+	session.tokenOffset = settings.tokenOffset ?? 0;
+	_activeSession = session;
 
-	const solver = new CSPSolver(layers, usedCombinations, activeConfig);
-	const solutions: { index: number; traits: { layerId: string; trait: TransferrableTrait }[] }[] =
-		[];
+	// 4 ─ Create result streamer (handles ZIP vs storage branching internally)
+	const streamer = session.exportResults ? startResultStreamer(session, settings) : null;
+	session.streamer = streamer;
 
-	const preSolveTimer = performanceMonitor.startTimer('generation.preSolve');
+	try {
+		const solutions = solve();
 
-	for (let i = 0; i < collectionSize; i++) {
-		if (shouldCancel()) {
-			performanceMonitor.stopTimer(preSolveTimer, { cancelled: true });
-			return [];
+		// 6 ─ Render batches on the worker pool while the rest is still solving
+		const scheduler = new TraitBatchScheduler({
+			layers,
+			collectionSize: settings.collectionSize,
+			outputSize: settings.outputSize,
+			projectName: settings.projectName,
+			projectDescription: settings.projectDescription,
+			metadataStandard: settings.metadataStandard,
+			imageEncoding: settings.imageEncoding,
+			renditions: settings.renditions,
+			pixelArtScale: settings.pixelArtScale,
+			tokenTemplates: settings.tokenTemplates,
+			extraAttributes: settings.extraAttributes,
+			extraData: settings.extraData,
+			shouldCancel: () => session.isCancelled
+		});
+		await scheduler.scheduleBatches(solutions);
+		if (session.isCancelled) return;
+
+		// 7 ─ Finalize via streamer
+		if (streamer) {
+			await streamer.finalize();
+			session.streamer = null;
+			if (session.isCancelled) return;
 		}
 
-		if (i % 50 === 0) {
-			if (_activeSession) {
-				_activeSession.callbacks.onProgress({
-					type: 'progress',
-					payload: {
-						generatedCount: i,
-						totalCount: collectionSize,
-						statusText: `Solving trait combinations (${i}/${collectionSize})...`
-					}
-				});
-			}
-			if (collectionSize >= 200) {
-				await new Promise((r) => setTimeout(r, 0));
-			}
+		// 8 ─ Done
+		performanceMonitor.stopTimer(timerId);
+		callbacks.onComplete({ images: [], metadata: [] });
+	} catch (error) {
+		if (session.isCancelled) {
+			performanceMonitor.stopTimer(timerId, { cancelled: true });
+			return;
 		}
 
-		const solutionMap = solver.solve();
-		if (!solutionMap) {
-			throw new Error(`Exhausted all possible valid unique combinations at item ${i + 1}.`);
+		// Clean up streamer on error
+		session.abandonStreamer();
+		performanceMonitor.stopTimer(timerId, { error: String(error) });
+
+		// Notify callbacks before re-throwing for retry
+		const err = error instanceof Error ? error : new Error(String(error));
+		callbacks.onError(err);
+		throw err;
+	} finally {
+		session.cancelSolver();
+		if (_activeSession === session) {
+			_activeSession = null;
 		}
-		solver.markCombinationAsUsed();
+	}
+}
+
+function startResultStreamer(session: GenerationSession, settings: RenderSettings): ResultStreamer {
+	const streamer = createResultStreamer({
+		sessionId: session.id,
+		projectName: session.projectName,
+		collectionSize: settings.collectionSize,
+		manifest: settings.manifest,
+		collectionFile: getMetadataStrategy(settings.metadataStandard ?? MetadataStandard.ERC721)
+			.collectionFile,
+		onProgress: (event) => {
+			session.callbacks.onProgress({
+				type: 'progress',
+				payload: {
+					generatedCount: settings.collectionSize,
+					totalCount: settings.collectionSize,
+					statusText: event.message
+				}
+			});
+		}
+	});
+	streamer.start();
+	return streamer;
+}
 
-		const sortedTraits = Array.from(solutionMap.entries())
-			.map(([layerId, trait]) => {
-				const layer = layers.find((l) => l.id === layerId);
-				return {
+/** Save each batch to the session's plan before it is rendered */
+async function* recordPlan(
+	solutions: AsyncIterable<Solution[]>,
+	session: GenerationSession
+): AsyncGenerator<Solution[]> {
+	for await (const batch of solutions) {
+		await appendGenerationPlan(
+			session.id,
+			batch.map((solution) => ({
+				index: solution.index,
+				traitRefs: solution.traits.map(({ layerId, trait }) => ({
 					layerId,
-					trait: cloneTraitForSolution(trait),
-					order: layer?.order || 0
-				};
-			})
-			.sort((a, b) => a.order - b.order)
-			.map(({ layerId, trait }) => ({ layerId, trait }));
+					traitId: trait.id as string
+				})),
+				oneOfOneId: solution.oneOfOne?.id,
+				rarityRank: solution.rarityRank
+			}))
+		);
+		yield batch;
+	}
+	await completeGenerationPlan(session.id);
+	session.planComplete = true;
+}
 
-		solutions.push({ index: i, traits: sortedTraits });
+/**
+ * Turn saved plan entries back into solutions.
+ *
+ * @throws Error if the project no longer has a planned trait or 1-of-1
+ */
+function resolvePlan(
+	entries: GenerationPlanEntry[],
+	layers: TransferrableLayer[],
+	oneOfOnes: OneOfOne[]
+): Solution[] {
+	const traits = new Map<string, TransferrableTrait>();
+	for (const layer of layers) {
+		for (const trait of layer.traits) {
+			traits.set(`${layer.id}:${trait.id}`, trait);
+		}
 	}
+	const oneOfOnesById = new Map(oneOfOnes.map((oneOfOne) => [oneOfOne.id as string, oneOfOne]));
+
+	return entries.map((entry) => {
+		if (entry.oneOfOneId) {
+			const oneOfOne = oneOfOnesById.get(entry.oneOfOneId);
+			if (!oneOfOne) {
+				throw new Error(
+					`1-of-1 ${entry.oneOfOneId} was removed from the project, so this generation can't be resumed.`
+				);
+			}
+			return {
+				index: entry.index,
+				traits: [],
+				oneOfOne: toTransferrableOneOfOne(oneOfOne),
+				rarityRank: entry.rarityRank
+			};
+		}
+		return {
+			index: entry.index,
+			rarityRank: entry.rarityRank,
+			traits: entry.traitRefs.map(({ layerId, traitId }) => {
+				const trait = traits.get(`${layerId}:${traitId}`);
+				if (!trait) {
+					throw new Error(
+						`Trait ${traitId} was removed from layer ${layerId}, so this generation can't be resumed.`
+					);
+				}
+				return { layerId, trait };
+			})
+		};
+	});
+}
+
+// ─── CSP Solving ──────────────────────────────────────────────
 
-	performanceMonitor.stopTimer(preSolveTimer);
+/**
+ * Solve the whole collection on the main thread, yielding to the UI between
+ * batches. Generation streams from the solver worker instead; this is for
+ * callers that need every solution at once. Exported for testing.
+ */
+export async function solveOnMainThread(
+	layers: TransferrableLayer[],
+	collectionSize: number,
+	strictPairConfig?: StrictPairConfig,
+	shouldCancel: () => boolean = () => false,
+	seed?: number,
+	compatibilityRules?: CompatibilityRule[],
+	reservedAttributes: OneOfOneAttribute[][] = []
+): Promise<Solution[]> {
+	const stream = streamSolutions(
+		{ layers, collectionSize, strictPairConfig, seed, compatibilityRules, reservedAttributes },
+		{ useWorker: false }
+	);
+
+	const solutions: Solution[] = [];
+	for await (const batch of stream) {
+		if (shouldCancel()) return [];
+		solutions.push(...batch);
+	}
 	return solutions;
 }
 
-function cloneTraitForSolution(trait: TransferrableTrait): TransferrableTrait {
+/** 1-of-1s take their token numbers; generated tokens fill the gaps as they stream in */
+async function* withOneOfOnes(
+	solutions: AsyncIterable<Solution[]>,
+	placements: Map<number, OneOfOne>
+): AsyncGenerator<Solution[]> {
+	const merger = createOneOfOneMerger(
+		placements,
+		(index, oneOfOne): Solution => ({
+			index,
+			traits: [],
+			oneOfOne: toTransferrableOneOfOne(oneOfOne)
+		})
+	);
+	for await (const batch of solutions) {
+		yield merger.add(batch);
+	}
+	yield merger.finish();
+}
+
+/** Shift token indexes so numbering continues after existing tokens */
+async function* withTokenOffset(
+	solutions: AsyncIterable<Solution[]>,
+	tokenOffset: number
+): AsyncGenerator<Solution[]> {
+	for await (const batch of solutions) {
+		yield tokenOffset === 0
+			? batch
+			: batch.map((solution) => ({ ...solution, index: solution.index + tokenOffset }));
+	}
+}
+
+/**
+ * Rank every token by rarity before any is rendered, since a token's rank
+ * depends on the whole collection. Tokens minted earlier (`others`) count
+ * towards the ranking too.
+ */
+async function* withRarityRanks(
+	solutions: AsyncIterable<Solution[]>,
+	layers: TransferrableLayer[],
+	others: OneOfOneAttribute[][] = []
+): AsyncGenerator<Solution[]> {
+	const all: Solution[] = [];
+	for await (const batch of solutions) {
+		all.push(...batch);
+	}
+
+	const layerNames = new Map(layers.map((layer) => [layer.id as string, layer.name]));
+	const ranks = rankByRarity(
+		all.map((solution) =>
+			mapLayerAttributes(
+				solution.oneOfOne
+					? solution.oneOfOne.attributes
+					: solution.traits.map(({ layerId, trait }) => ({
+							trait_type: layerNames.get(layerId) ?? layerId,
+							value: trait.name
+						})),
+				layers
+			)
+		),
+		others.map((attributes) => mapLayerAttributes(attributes, layers))
+	);
+	yield all.map((solution, i) => ({ ...solution, rarityRank: ranks[i] }));
+}
+
+/** Give solved tokens the indexes of the tokens they replace */
+async function* withTokenIndexes(
+	solutions: AsyncIterable<Solution[]>,
+	tokenIndexes: number[]
+): AsyncGenerator<Solution[]> {
+	for await (const batch of solutions) {
+		yield batch.map((solution) => ({ ...solution, index: tokenIndexes[solution.index] }));
+	}
+}
+
+function toTransferrableOneOfOne(oneOfOne: OneOfOne): TransferrableOneOfOne {
 	return {
-		id: trait.id,
-		name: trait.name,
-		imageData: trait.imageData,
-		rarityWeight: trait.rarityWeight,
-		type: trait.type,
-		rulerRules: trait.rulerRules
-			? trait.rulerRules.map((r) => ({
-					layerId: r.layerId,
-					allowedTraitIds: [...r.allowedTraitIds],
-					forbiddenTraitIds: [...r.forbiddenTraitIds]
-				}))
-			: undefined
+		id: oneOfOne.id,
+		name: oneOfOne.name,
+		imageData: oneOfOne.imageData,
+		attributes: oneOfOne.attributes.map((a) => ({ trait_type: a.trait_type, value: a.value }))
 	};
 }
 
@@ -397,7 +927,21 @@ function routePoolMessage(data: PoolForwardedWorkerMessage, session: GenerationS
 	const callbacks = session.callbacks;
 	switch (data.type) {
 		case 'progress':
-			callbacks.onProgress(data);
+			session.renderingStarted = true;
+			// Re-rolled tokens are scattered, so index-based progress means nothing;
+			// callers count what arrives through `onItems` instead
+			if (!session.exportResults) break;
+			callbacks.onProgress(
+				session.tokenOffset === 0
+					? data
+					: {
+							...data,
+							payload: {
+								...data.payload,
+								generatedCount: data.payload.generatedCount - session.tokenOffset
+							}
+						}
+			);
 			break;
 
 		case 'preview': {
@@ -414,27 +958,23 @@ function routePoolMessage(data: PoolForwardedWorkerMessage, session: GenerationS
 		case 'chunk': {
 			// Intermediate chunk from worker — stream directly to ZIP or storage.
 			const msg = data;
+			emitItems(session, msg.payload.images, msg.payload.metadata);
 			if (session.useStreamingStorage) {
-				const firstIdx = parseIndexFromName(msg.payload.images[0]?.name);
-				streamBatch(
-					session.storageSessionId,
-					firstIdx,
-					msg.payload.images.map((img) => ({ name: img.name, imageData: img.imageData })),
-					(msg.payload.metadata || []) as unknown as {
-						name: string;
-						data: Record<string, unknown>;
-					}[]
-				).catch((err) => {
-					console.warn('Storage stream failed:', err);
-				});
+				streamToStorage(session, msg.payload.images, msg.payload.metadata);
 			} else if (msg.payload.images.length > 0 && session.streamer?.mode === 'zip-stream') {
+				const metadata = (msg.payload.metadata || []) as unknown as {
+					name: string;
+					data: Record<string, unknown>;
+				}[];
 				addStreamingChunk(
-					msg.payload.images.map((img) => ({ name: img.name, data: img.imageData })),
-					(msg.payload.metadata || []) as unknown as {
-						name: string;
-						data: Record<string, unknown>;
-					}[]
+					msg.payload.images.map((img) => ({
+						name: img.name,
+						data: img.imageData,
+						renditions: img.renditions
+					})),
+					metadata
 				);
+				session.streamer.collectMetadata(metadata);
 				// Clear arrays so caller can free references
 				msg.payload.images.length = 0;
 			}
@@ -445,27 +985,23 @@ function routePoolMessage(data: PoolForwardedWorkerMessage, session: GenerationS
 			// Final complete from a batch — stream remaining to ZIP or storage.
 			const msg = data as CompleteMessage;
 			if (msg.payload.images && msg.payload.images.length > 0) {
+				emitItems(session, msg.payload.images, msg.payload.metadata);
 				if (session.useStreamingStorage) {
-					const firstIdx = parseIndexFromName(msg.payload.images[0]?.name);
-					streamBatch(
-						session.storageSessionId,
-						firstIdx,
-						msg.payload.images.map((img) => ({ name: img.name, imageData: img.imageData })),
-						(msg.payload.metadata || []) as unknown as {
-							name: string;
-							data: Record<string, unknown>;
-						}[]
-					).catch((err) => {
-						console.warn('Storage stream failed:', err);
-					});
+					streamToStorage(session, msg.payload.images, msg.payload.metadata);
 				} else if (session.streamer?.mode === 'zip-stream' && msg.payload.isChunk) {
+					const metadata = (msg.payload.metadata || []) as unknown as {
+						name: string;
+						data: Record<string, unknown>;
+					}[];
 					addStreamingChunk(
-						msg.payload.images.map((img) => ({ name: img.name, data: img.imageData })),
-						(msg.payload.metadata || []) as unknown as {
-							name: string;
-							data: Record<string, unknown>;
-						}[]
+						msg.payload.images.map((img) => ({
+							name: img.name,
+							data: img.imageData,
+							renditions: img.renditions
+						})),
+						metadata
 					);
+					session.streamer.collectMetadata(metadata);
 					msg.payload.images.length = 0;
 				}
 			}
@@ -473,7 +1009,7 @@ function routePoolMessage(data: PoolForwardedWorkerMessage, session: GenerationS
 		}
 
 		case 'error':
-			session.cancelStreamer();
+			session.abandonStreamer();
 			callbacks.onError(new Error(data.payload.message));
 			break;
 
@@ -484,3 +1020,55 @@ function routePoolMessage(data: PoolForwardedWorkerMessage, session: GenerationS
 			break;
 	}
 }
+
+/**
+ * Write rendered images and metadata to the session's storage. A resumed
+ * generation renders only missing tokens, so a batch can skip indexes; each
+ * run of consecutive tokens is streamed separately.
+ */
+function streamToStorage(
+	session: GenerationSession,
+	images: GeneratedImage[],
+	metadata: { name: string; data: object }[] = []
+): void {
+	const entries = metadata as { name: string; data: Record<string, unknown> }[];
+	let runStart = 0;
+	for (let i = 1; i <= images.length; i++) {
+		const startIndex = parseIndexFromName(images[runStart]?.name);
+		if (i < images.length && parseIndexFromName(images[i].name) === startIndex + i - runStart) {
+			continue;
+		}
+		streamBatch(
+			session.storageSessionId,
+			startIndex,
+			images.slice(runStart, i).map((img) => ({
+				name: img.name,
+				imageData: img.imageData,
+				renditions: img.renditions
+			})),
+			entries.slice(runStart, i)
+		).catch((err) => {
+			console.warn('Storage stream failed:', err);
+		});
+		runStart = i;
+	}
+}
+
+/** Hand rendered tokens to `onItems`, copying images before the export takes them */
+function emitItems(
+	session: GenerationSession,
+	images: { name: string; imageData: ArrayBuffer }[],
+	metadata: { name: string; data: object }[] = []
+): void {
+	const { onItems } = session.callbacks;
+	if (!onItems || images.length === 0) return;
+
+	onItems(
+		images.map((img, i) => ({
+			index: parseIndexFromName(img.name),
+			name: img.name,
+			imageData: img.imageData.slice(0),
+			metadata: (metadata[i]?.data ?? {}) as Record<string, unknown>
+		}))
+	);
+}
@@ -1,11 +1,36 @@
 // generation.worker.ts
 
 import { getMetadataStrategy, MetadataStandard } from '$lib/domain/metadata/strategies';
+import {
+	getImageEncodeOptions,
+	getImageExtension,
+	getImageMimeType,
+	PNG_ENCODING
+} from '$lib/domain/image-encoding';
+import { getRenditionPath, type RenditionSpec } from '$lib/domain/renditions';
+import {
+	DEFAULT_NAME_TEMPLATE,
+	oneOfOneTemplateTraits,
+	renderTokenTemplate,
+	toTemplateTraits,
+	type TokenTemplateContext
+} from '$lib/domain/token-templates';
+import {
+	buildExtraAttributes,
+	buildTraitAttributes,
+	mapLayerAttributes
+} from '$lib/domain/attribute-mapping';
+import { getCompositeStyle, sortByRenderOrder } from '$lib/domain/render-order';
+import { computePlacementRect, isFullCanvasPlacement } from '$lib/domain/trait-placement';
+import { renderColorVariant } from '$lib/domain/color-variants';
 import type { TaskId } from '$lib/types/ids';
+import { NONE_TRAIT_VALUE, type ColorVariant } from '$lib/types/layer';
 import type {
 	CompleteMessage,
+	GeneratedImage,
 	IncomingMessage,
 	TransferrableLayer,
+	TransferrableOneOfOne,
 	TransferrableTrait
 } from '$lib/types/worker-messages';
 import type {
@@ -118,14 +143,44 @@ async function createImageBitmapFromBuffer(
 }
 
 /**
- * Direct-to-Canvas composition
+ * Render a colour variant. Its imageData is the base trait's image, decoded
+ * once per base and cached per variant, size, resize quality and transform.
+ */
+async function createColorVariantBitmap(
+	trait: TransferrableTrait,
+	variant: ColorVariant,
+	options?: { resizeWidth?: number; resizeHeight?: number; resizeQuality?: 'pixelated' }
+): Promise<ImageBitmap> {
+	const cacheKey = `variant_${trait.id}_${options?.resizeWidth || 0}_${options?.resizeHeight || 0}_${options?.resizeQuality || 'default'}_${JSON.stringify(variant.transform)}`;
+	const cachedBitmap = getImageBitmap(cacheKey);
+	if (cachedBitmap) return cachedBitmap;
+
+	const baseBitmap = await createImageBitmapFromBuffer(
+		trait.imageData,
+		`base_${variant.baseTraitId}`,
+		options
+	);
+	const bitmap = await createImageBitmap(renderColorVariant(baseBitmap, variant.transform));
+	setImageBitmap(cacheKey, bitmap);
+	return bitmap;
+}
+
+/**
+ * Direct-to-Canvas composition. Traits are drawn in the order given, which
+ * callers resolve with `sortByRenderOrder`, using their layer's blend settings
+ * and their own placement.
+ *
+ * With a pixel-art scale, traits are enlarged with nearest-neighbour sampling
+ * and placement offsets, given in source pixels, are multiplied by the scale.
  */
 async function compositeTraitsDirect(
 	selectedTraits: { layerId: string; trait: TransferrableTrait }[],
+	layers: TransferrableLayer[],
 	ctx: OffscreenCanvasRenderingContext2D,
 	targetWidth: number,
 	targetHeight: number,
-	itemIndex: number
+	itemIndex: number,
+	pixelArtScale?: number
 ): Promise<void> {
 	if (!selectedTraits || selectedTraits.length === 0) {
 		console.warn(`Item ${itemIndex}: No traits to composite!`);
@@ -139,12 +194,37 @@ async function compositeTraitsDirect(
 		}
 
 		try {
-			const imageBitmap = await createImageBitmapFromBuffer(trait.imageData, trait.name, {
-				resizeWidth: targetWidth,
-				resizeHeight: targetHeight
-			});
+			// Full-canvas traits are decoded at the target size; placed ones at their own size
+			const fullCanvas = isFullCanvasPlacement(trait.placement);
+			const resizeOptions = fullCanvas
+				? {
+						resizeWidth: targetWidth,
+						resizeHeight: targetHeight,
+						...(pixelArtScale ? { resizeQuality: 'pixelated' as const } : {})
+					}
+				: undefined;
+			const imageBitmap = trait.variant
+				? await createColorVariantBitmap(trait, trait.variant, resizeOptions)
+				: await createImageBitmapFromBuffer(trait.imageData, trait.name, resizeOptions);
+			const rect = computePlacementRect(
+				fullCanvas ? undefined : trait.placement,
+				imageBitmap,
+				{ width: targetWidth, height: targetHeight },
+				pixelArtScale
+			);
 
-			ctx.drawImage(imageBitmap, 0, 0, targetWidth, targetHeight);
+			const style = getCompositeStyle(
+				layers.find((l) => l.id === layerId),
+				trait
+			);
+			ctx.save();
+			try {
+				ctx.globalCompositeOperation = style.blendMode;
+				ctx.globalAlpha = style.opacity;
+				ctx.drawImage(imageBitmap, rect.x, rect.y, rect.width, rect.height);
+			} finally {
+				ctx.restore();
+			}
 		} catch (err) {
 			console.error(
 				`Item ${itemIndex}: Failed to draw trait ${trait.name} on layer ${layerId}:`,
@@ -154,27 +234,148 @@ async function compositeTraitsDirect(
 	}
 }
 
+/**
+ * Draw a hand-made token over the whole canvas. Each image is used once, so
+ * it is decoded without going through the bitmap cache.
+ */
+async function drawOneOfOne(
+	oneOfOne: TransferrableOneOfOne,
+	ctx: OffscreenCanvasRenderingContext2D,
+	targetWidth: number,
+	targetHeight: number,
+	pixelArt = false
+): Promise<void> {
+	if (oneOfOne.imageData.byteLength === 0) {
+		throw new Error(`Image data is empty for 1-of-1 "${oneOfOne.name}"`);
+	}
+	const bitmap = await createImageBitmap(new Blob([oneOfOne.imageData]), {
+		resizeWidth: targetWidth,
+		resizeHeight: targetHeight,
+		...(pixelArt ? { resizeQuality: 'pixelated' as const } : {})
+	});
+	try {
+		ctx.drawImage(bitmap, 0, 0, targetWidth, targetHeight);
+	} finally {
+		bitmap.close();
+	}
+}
+
+/**
+ * Metadata attributes for a token, in layer order and named after the layers
+ * and traits (mapLayerAttributes renames and hides them). Layers the token leaves empty
+ * get a "None" attribute when the layer asks for it.
+ */
+function buildAttributes(
+	solutionTraits: { trait: TransferrableTrait; layerId: string }[],
+	layers: TransferrableLayer[]
+): { trait_type: string; value: string }[] {
+	const attributes = solutionTraits.map((st) => ({
+		trait_type: layers.find((l) => l.id === st.layerId)?.name || 'Unknown',
+		value: st.trait.name,
+		order: layers.find((l) => l.id === st.layerId)?.order ?? 0
+	}));
+
+	for (const layer of layers) {
+		if (!layer.emitNoneAttribute || solutionTraits.some((st) => st.layerId === layer.id)) continue;
+		attributes.push({ trait_type: layer.name, value: NONE_TRAIT_VALUE, order: layer.order });
+	}
+
+	return attributes
+		.sort((a, b) => a.order - b.order)
+		.map(({ trait_type, value }) => ({ trait_type, value }));
+}
+
 type QueuedGeneratedItem = {
 	index: number;
 	name: string;
 	blob: Blob;
+	renditions: QueuedRendition[];
 	metadata: object;
 };
 
+type QueuedRendition = { path: string; blob: Blob };
+
+/** A solved token of a batch, with its traits resolved */
+type BatchSolution = {
+	index: number;
+	traits: { trait: TransferrableTrait; layerId: string }[];
+	oneOfOne?: TransferrableOneOfOne;
+	rarityRank?: number;
+};
+
+/**
+ * Per-run render settings, the same for every token of a batch: everything in
+ * the batch message except the solutions.
+ */
+type BatchRenderSettings = Omit<BatchRefMessage['payload'], 'solutions'>;
+
+/** JPEG has no alpha channel; without a backdrop transparent pixels turn black */
+function fillOpaqueBackground(
+	ctx: OffscreenCanvasRenderingContext2D,
+	targetWidth: number,
+	targetHeight: number
+): void {
+	ctx.save();
+	ctx.globalCompositeOperation = 'destination-over';
+	ctx.fillStyle = '#ffffff';
+	ctx.fillRect(0, 0, targetWidth, targetHeight);
+	ctx.restore();
+}
+
+/**
+ * Scale a rendered token into an extra rendition. Drawn from the finished
+ * composite, so every rendition shows exactly the same token.
+ */
+async function renderRendition(
+	source: OffscreenCanvas,
+	spec: RenditionSpec,
+	index: number,
+	pixelArt = false
+): Promise<QueuedRendition> {
+	const canvas = memoryManager.getCanvas(spec.width, spec.height);
+	try {
+		const ctx = canvas.getContext('2d');
+		if (!ctx) {
+			throw new Error(`Failed to get 2D context for the ${spec.folder} rendition`);
+		}
+		ctx.clearRect(0, 0, spec.width, spec.height);
+		// Pooled canvases keep their context state, so set smoothing either way
+		ctx.imageSmoothingEnabled = !pixelArt;
+		ctx.imageSmoothingQuality = 'high';
+		ctx.drawImage(source, 0, 0, spec.width, spec.height);
+		if (spec.encoding.format === 'jpeg') {
+			fillOpaqueBackground(ctx, spec.width, spec.height);
+		}
+		return {
+			path: getRenditionPath(spec, index),
+			blob: await canvas.convertToBlob(getImageEncodeOptions(spec.encoding))
+		};
+	} finally {
+		memoryManager.returnCanvas(canvas);
+	}
+}
+
 /**
  * Generate a single pre-solved item using an isolated canvas
  */
 async function generateIsolatedItem(
-	index: number,
-	solutionTraits: { trait: TransferrableTrait; layerId: string }[],
+	solution: BatchSolution,
 	layers: TransferrableLayer[],
-	targetWidth: number,
-	targetHeight: number,
-	projectName: string,
-	projectDescription: string,
-	metadataStandard: MetadataStandard = MetadataStandard.ERC721,
-	extraData?: Record<string, unknown>
+	settings: BatchRenderSettings
 ): Promise<QueuedGeneratedItem | undefined> {
+	const { index, traits: solutionTraits, oneOfOne, rarityRank } = solution;
+	const {
+		outputSize: { width: targetWidth, height: targetHeight },
+		projectName,
+		projectDescription,
+		metadataStandard = MetadataStandard.ERC721,
+		extraData,
+		imageEncoding = PNG_ENCODING,
+		renditions: renditionSpecs = [],
+		pixelArtScale,
+		tokenTemplates = {},
+		extraAttributes = []
+	} = settings;
 	let canvas: OffscreenCanvas | undefined;
 
 	try {
@@ -189,34 +390,100 @@ async function generateIsolatedItem(
 		const generationStartTime = performance.now();
 
 		ctx.clearRect(0, 0, targetWidth, targetHeight);
-		await compositeTraitsDirect(solutionTraits, ctx, targetWidth, targetHeight, index);
+		ctx.imageSmoothingEnabled = !pixelArtScale;
+		if (oneOfOne) {
+			await drawOneOfOne(oneOfOne, ctx, targetWidth, targetHeight, !!pixelArtScale);
+		} else {
+			await compositeTraitsDirect(
+				sortByRenderOrder(solutionTraits, layers),
+				layers,
+				ctx,
+				targetWidth,
+				targetHeight,
+				index,
+				pixelArtScale
+			);
+		}
+
+		// Before the JPEG backdrop, so transparent renditions stay transparent
+		const renditions: QueuedRendition[] = [];
+		for (const spec of renditionSpecs) {
+			renditions.push(await renderRendition(canvas, spec, index, !!pixelArtScale));
+		}
 
-		const blob = await canvas.convertToBlob({ type: 'image/png' });
+		if (imageEncoding.format === 'jpeg') {
+			fillOpaqueBackground(ctx, targetWidth, targetHeight);
+		}
+
+		const blob = await canvas.convertToBlob(getImageEncodeOptions(imageEncoding));
+		const imageName = `${index + 1}.${getImageExtension(imageEncoding.format)}`;
 
 		if (blob.size < 100) {
 			console.warn(`Item ${index}: Generated blob is suspiciously small (${blob.size} bytes)`);
 		}
 
 		const metadataStrategy = getMetadataStrategy(metadataStandard);
-		const attributes = solutionTraits.map((st) => ({
-			trait_type: layers.find((l) => l.id === st.layerId)?.name || 'Unknown',
-			value: st.trait.name
-		}));
+		const renditionFields = Object.fromEntries(
+			renditionSpecs
+				.filter((spec) => spec.metadataField)
+				.map((spec) => [spec.metadataField, getRenditionPath(spec, index)])
+		);
+
+		const templateContext: TokenTemplateContext = {
+			tokenIndex: index,
+			projectName,
+			traits: oneOfOne
+				? oneOfOneTemplateTraits(oneOfOne.attributes)
+				: toTemplateTraits(layers, solutionTraits)
+		};
+
+		const tokenAttributes = oneOfOne
+			? oneOfOne.attributes
+			: buildAttributes(solutionTraits, layers);
+		const layerAttributes = mapLayerAttributes(tokenAttributes, layers);
+		const attributes = [
+			...layerAttributes,
+			...buildTraitAttributes(tokenAttributes, layers, [
+				...layerAttributes.map((a) => a.trait_type),
+				...extraAttributes.map((extra) => extra.traitType)
+			]),
+			...buildExtraAttributes(extraAttributes, layerAttributes, layers, {
+				traits: templateContext.traits,
+				rarityRank
+			})
+		];
 
 		const metadata = metadataStrategy.format(
-			`${projectName} #${index + 1}`,
-			projectDescription,
-			`images/${index + 1}.png`,
+			renderTokenTemplate(tokenTemplates.name ?? DEFAULT_NAME_TEMPLATE, templateContext),
+			tokenTemplates.description !== undefined
+				? renderTokenTemplate(tokenTemplates.description, templateContext)
+				: projectDescription,
+			`images/${imageName}`,
 			attributes,
-			extraData
+			renditionSpecs.length > 0 ? { ...extraData, ...renditionFields } : extraData,
+			[
+				{
+					uri: `images/${imageName}`,
+					mimeType: getImageMimeType(imageEncoding.format),
+					width: targetWidth,
+					height: targetHeight
+				},
+				...renditionSpecs.map((spec) => ({
+					uri: getRenditionPath(spec, index),
+					mimeType: getImageMimeType(spec.encoding.format),
+					width: spec.width,
+					height: spec.height
+				}))
+			]
 		);
 
 		perfMonitor.recordBatchItem(performance.now() - generationStartTime);
 
 		return {
 			index,
-			name: `${index + 1}.png`,
+			name: imageName,
 			blob,
+			renditions,
 			metadata
 		};
 	} catch (error) {
@@ -239,43 +506,25 @@ function getMemoryUsage(): number {
  * Main batch generation handler
  */
 async function handleBatchGeneration(
-	solutions: {
-		index: number;
-		traits: { trait: TransferrableTrait; layerId: string }[];
-	}[],
+	solutions: BatchSolution[],
 	layers: TransferrableLayer[],
-	collectionSize: number,
-	outputSize: { width: number; height: number },
-	projectName: string,
-	projectDescription: string,
-	taskId?: TaskId,
-	metadataStandard: MetadataStandard = MetadataStandard.ERC721,
-	extraData?: Record<string, unknown>
+	settings: BatchRenderSettings,
+	taskId?: TaskId
 ) {
 	perfMonitor.startBatch(solutions.length);
 
 	const CHUNK_FLUSH_SIZE = 10;
-	let chunkImages: { name: string; blob: Blob }[] = [];
+	let chunkImages: { name: string; blob: Blob; renditions: QueuedRendition[] }[] = [];
 	let chunkMetadata: { name: string; data: object }[] = [];
 	let processedInChunk = 0;
 	const TOTAL_IN_BATCH = solutions.length;
 
 	try {
 		for (const solution of solutions) {
-			const item = await generateIsolatedItem(
-				solution.index,
-				solution.traits,
-				layers,
-				outputSize.width,
-				outputSize.height,
-				projectName,
-				projectDescription,
-				metadataStandard,
-				extraData
-			);
+			const item = await generateIsolatedItem(solution, layers, settings);
 
 			if (item) {
-				chunkImages.push({ name: item.name, blob: item.blob });
+				chunkImages.push({ name: item.name, blob: item.blob, renditions: item.renditions });
 				chunkMetadata.push({
 					name: `${item.index + 1}.json`,
 					data: item.metadata
@@ -297,7 +546,7 @@ async function handleBatchGeneration(
 					taskId,
 					payload: {
 						generatedCount: solution.index + 1,
-						totalCount: collectionSize,
+						totalCount: settings.collectionSize,
 						statusText: `Batch processing: ${processedInChunk}/${TOTAL_IN_BATCH}`,
 						memoryUsage: getMemoryUsage()
 					}
@@ -327,7 +576,7 @@ async function handleBatchGeneration(
  * so streaming intermediate results does not trigger premature completion.
  */
 async function flushGenerationChunk(
-	images: { name: string; blob: Blob }[],
+	images: { name: string; blob: Blob; renditions?: QueuedRendition[] }[],
 	metadata: { name: string; data: object }[],
 	taskId: TaskId | undefined,
 	isFinal: boolean
@@ -335,24 +584,34 @@ async function flushGenerationChunk(
 	// Skip only when there's nothing to send and it's not the final flush
 	if (images.length === 0 && !isFinal) return;
 
-	const imageBuffers = await Promise.all(
+	const generatedImages: GeneratedImage[] = await Promise.all(
 		images.map(async (img) => ({
 			name: img.name,
-			buffer: await img.blob.arrayBuffer()
+			imageData: await img.blob.arrayBuffer(),
+			...(img.renditions?.length
+				? {
+						renditions: await Promise.all(
+							img.renditions.map(async (r) => ({
+								path: r.path,
+								imageData: await r.blob.arrayBuffer()
+							}))
+						)
+					}
+				: {})
 		}))
 	);
 
 	const payload = {
-		images: imageBuffers.map((img) => ({
-			name: img.name,
-			imageData: img.buffer
-		})),
+		images: generatedImages,
 		metadata: metadata as { name: string; data: Record<string, unknown> }[],
 		generatedCount: images.length,
 		totalCount: images.length
 	};
 
-	const transferrables = imageBuffers.map((img) => img.buffer) as unknown as Transferable[];
+	const transferrables = generatedImages.flatMap((img) => [
+		img.imageData,
+		...(img.renditions ?? []).map((r) => r.imageData)
+	]) as unknown as Transferable[];
 
 	// taskId must be present for all worker responses
 	if (!taskId) {
@@ -415,28 +674,9 @@ self.addEventListener('message', (e: MessageEvent) => {
 	currentTaskQueue = currentTaskQueue
 		.then(async () => {
 			if (message.type === 'batch') {
-				const {
-					solutions,
-					layers,
-					collectionSize,
-					outputSize,
-					projectName,
-					projectDescription,
-					metadataStandard,
-					extraData
-				} = message.payload;
+				const { solutions, layers, ...settings } = message.payload;
 				try {
-					await handleBatchGeneration(
-						solutions,
-						layers,
-						collectionSize,
-						outputSize,
-						projectName,
-						projectDescription,
-						message.taskId,
-						metadataStandard,
-						extraData
-					);
+					await handleBatchGeneration(solutions, layers, settings, message.taskId);
 				} catch (error) {
 					self.postMessage({
 						type: 'error',
@@ -454,32 +694,16 @@ self.addEventListener('message', (e: MessageEvent) => {
 					payload: { initialized: true }
 				});
 			} else if (message.type === 'batch-ref') {
-				const {
-					solutions,
-					collectionSize,
-					outputSize,
-					projectName,
-					projectDescription,
-					metadataStandard,
-					extraData
-				} = (message as BatchRefMessage).payload;
+				const { solutions, ...settings } = (message as BatchRefMessage).payload;
 				const resolvedSolutions = solutions.map((s) => ({
 					index: s.index,
-					traits: resolveTraitRefs(s.traitRefs)
+					traits: resolveTraitRefs(s.traitRefs),
+					oneOfOne: s.oneOfOne,
+					rarityRank: s.rarityRank
 				}));
 				const layers = Array.from(layerMap.values());
 				try {
-					await handleBatchGeneration(
-						resolvedSolutions,
-						layers,
-						collectionSize,
-						outputSize,
-						projectName,
-						projectDescription,
-						message.taskId,
-						metadataStandard,
-						extraData
-					);
+					await handleBatchGeneration(resolvedSolutions, layers, settings, message.taskId);
 				} catch (error) {
 					self.postMessage({
 						type: 'error',
@@ -2,18 +2,27 @@
  * ResultStreamer — unifies ZIP-streaming vs storage-streaming behind one interface.
  *
  * Generation pipeline calls `start()`, `onProgress()`, then `finalize()` or
- * `cancel()`. The streamer hides the feature-flag branching and session
- * cleanup details.
+ * `cancel()` (or `close()` after an error). The streamer hides the
+ * feature-flag branching and session cleanup details. Standards with a
+ * collection-wide metadata file get it written next to the manifest when
+ * the export is finalized.
  */
 
 import { isFlagEnabled } from '$lib/config/feature-flags';
+import type { CollectionMetadataFile } from '$lib/domain/metadata/metadata.strategy';
 import {
+	addStreamingFile,
 	cancelStreamingZip,
 	finalizeStreamingZip,
+	GENERATION_MANIFEST_FILENAME,
 	packageFromStorageBySize,
 	startStreamingZip
 } from '$lib/services/export.service';
-import { cleanupStaleGenerationSessions, clearSession } from '$lib/utils/streaming-storage';
+import {
+	cleanupStaleGenerationSessions,
+	clearSession,
+	readSessionMetadata
+} from '$lib/utils/streaming-storage';
 
 export interface StreamerProgressEvent {
 	message: string;
@@ -23,6 +32,10 @@ export interface ResultStreamerOptions {
 	sessionId: string;
 	projectName: string;
 	collectionSize: number;
+	/** Written to the export root as generation.json (seed, size, standard) */
+	manifest?: Record<string, unknown>;
+	/** Collection-wide metadata file of the metadata standard, if it has one */
+	collectionFile?: CollectionMetadataFile;
 	onProgress: (event: StreamerProgressEvent) => void;
 }
 
@@ -30,29 +43,50 @@ export interface ResultStreamer {
 	readonly mode: 'zip-stream' | 'storage-stream';
 	readonly sessionId: string;
 	start(): void;
+	/** Keep streamed token metadata for the collection file; storage reads it back instead */
+	collectMetadata(metadata: { data: Record<string, unknown> }[]): void;
 	finalize(): Promise<void>;
+	/** Stop and delete everything streamed so far */
 	cancel(): void;
+	/** Stop without deleting a storage session, so it can be resumed */
+	close(): void;
 }
 
 class ZipStreamer implements ResultStreamer {
 	readonly mode = 'zip-stream' as const;
 	readonly sessionId: string;
 	private readonly projectName: string;
+	private readonly manifest?: Record<string, unknown>;
+	private readonly collectionFile?: CollectionMetadataFile;
 	private readonly onProgress: (event: StreamerProgressEvent) => void;
+	private readonly collected: Record<string, unknown>[] = [];
 	private active = false;
 
 	constructor(opts: ResultStreamerOptions) {
 		this.sessionId = opts.sessionId;
 		this.projectName = opts.projectName;
+		this.manifest = opts.manifest;
+		this.collectionFile = opts.collectionFile;
 		this.onProgress = opts.onProgress;
 	}
 
 	start(): void {
 		startStreamingZip(this.sessionId, this.projectName);
 		this.active = true;
+		if (this.manifest) {
+			addStreamingFile(GENERATION_MANIFEST_FILENAME, this.manifest);
+		}
+	}
+
+	collectMetadata(metadata: { data: Record<string, unknown> }[]): void {
+		if (!this.collectionFile) return;
+		for (const { data } of metadata) this.collected.push(data);
 	}
 
 	async finalize(): Promise<void> {
+		if (this.collectionFile) {
+			addStreamingFile(this.collectionFile.path, this.collectionFile.combine(this.collected));
+		}
 		this.onProgress({ message: 'Finalizing ZIP...' });
 		await finalizeStreamingZip(this.projectName, (progress) => {
 			this.onProgress({ message: progress.message });
@@ -65,17 +99,26 @@ class ZipStreamer implements ResultStreamer {
 		cancelStreamingZip();
 		this.active = false;
 	}
+
+	/** A half-written ZIP cannot be resumed */
+	close(): void {
+		this.cancel();
+	}
 }
 
 class StorageStreamer implements ResultStreamer {
 	readonly mode = 'storage-stream' as const;
 	readonly sessionId: string;
 	private readonly projectName: string;
+	private readonly manifest?: Record<string, unknown>;
+	private readonly collectionFile?: CollectionMetadataFile;
 	private readonly onProgress: (event: StreamerProgressEvent) => void;
 
 	constructor(opts: ResultStreamerOptions) {
 		this.sessionId = opts.sessionId;
 		this.projectName = opts.projectName;
+		this.manifest = opts.manifest;
+		this.collectionFile = opts.collectionFile;
 		this.onProgress = opts.onProgress;
 	}
 
@@ -83,15 +126,30 @@ class StorageStreamer implements ResultStreamer {
 		void cleanupStaleGenerationSessions({ activeSessionIds: [this.sessionId] });
 	}
 
+	/** Stored metadata is read back on finalize, resumed tokens included */
+	collectMetadata(): void {}
+
 	async finalize(): Promise<void> {
 		this.onProgress({ message: 'Packaging from storage...' });
+		const rootFiles: { path: string; data: object }[] = [];
+		if (this.manifest) {
+			rootFiles.push({ path: GENERATION_MANIFEST_FILENAME, data: this.manifest });
+		}
+		if (this.collectionFile) {
+			const metadata = await readSessionMetadata(this.sessionId);
+			rootFiles.push({
+				path: this.collectionFile.path,
+				data: this.collectionFile.combine(metadata)
+			});
+		}
 		await packageFromStorageBySize(
 			this.sessionId,
 			this.projectName,
 			500 * 1024 * 1024,
 			async (progress) => {
 				this.onProgress({ message: progress.message });
-			}
+			},
+			rootFiles
 		);
 		await clearSession(this.sessionId).catch(() => {});
 	}
@@ -99,6 +157,9 @@ class StorageStreamer implements ResultStreamer {
 	cancel(): void {
 		clearSession(this.sessionId).catch(() => {});
 	}
+
+	/** Tokens are already in storage; nothing is held open */
+	close(): void {}
 }
 
 export function createResultStreamer(opts: ResultStreamerOptions): ResultStreamer {
@@ -0,0 +1,144 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vite-plus/test';
+import type {
+	SolveMessage,
+	SolverWorkerResponse,
+	TransferrableLayer,
+	TransferrableTrait
+} from '$lib/types/worker-messages';
+import { postSolvedBatches } from './csp/solve-collection';
+import { streamSolutions } from './solver-worker-client';
+import type { Solution } from './trait-batch-scheduler';
+
+/** Runs the real solve and delivers its messages one per tick, like a worker */
+class FakeSolverWorker {
+	static instances: FakeSolverWorker[] = [];
+	onmessage: ((e: MessageEvent<SolverWorkerResponse>) => void) | null = null;
+	onerror: ((e: ErrorEvent) => void) | null = null;
+	posted: SolveMessage[] = [];
+	terminated = false;
+
+	constructor() {
+		FakeSolverWorker.instances.push(this);
+	}
+
+	postMessage(message: SolveMessage) {
+		this.posted.push(message);
+		const responses: SolverWorkerResponse[] = [];
+		postSolvedBatches(message.payload, (response) => responses.push(response));
+		responses.forEach((data, i) =>
+			setTimeout(() => {
+				if (!this.terminated) this.onmessage?.({ data } as MessageEvent<SolverWorkerResponse>);
+			}, i)
+		);
+	}
+
+	terminate() {
+		this.terminated = true;
+	}
+}
+
+function makeTrait(id: string): TransferrableTrait {
+	return {
+		id: id as TransferrableTrait['id'],
+		name: id,
+		imageData: new ArrayBuffer(4),
+		rarityWeight: 1
+	};
+}
+
+function makeLayer(id: string, order: number, traitIds: string[]): TransferrableLayer {
+	return {
+		id: id as TransferrableLayer['id'],
+		name: id,
+		order,
+		traits: traitIds.map(makeTrait)
+	};
+}
+
+const layers = [
+	makeLayer('eyes', 1, ['blue', 'gold', 'red']),
+	makeLayer('head', 0, ['cap', 'crown'])
+];
+
+async function collect(stream: AsyncIterable<Solution[]>): Promise<Solution[][]> {
+	const batches: Solution[][] = [];
+	for await (const batch of stream) batches.push(batch);
+	return batches;
+}
+
+function tokenKeys(batches: Solution[][]): string[] {
+	return batches.flat().map((s) => `${s.index}:${s.traits.map((t) => t.trait.id).join('+')}`);
+}
+
+describe('streamSolutions', () => {
+	beforeEach(() => {
+		FakeSolverWorker.instances = [];
+		vi.stubGlobal('Worker', FakeSolverWorker);
+	});
+
+	afterEach(() => {
+		vi.unstubAllGlobals();
+	});
+
+	it('streams batches from the worker without sending trait images', async () => {
+		const onProgress = vi.fn();
+		const batches = await collect(
+			streamSolutions({ layers, collectionSize: 5, seed: 7 }, { batchSize: 2, onProgress })
+		);
+
+		expect(batches.map((b) => b.length)).toEqual([2, 2, 1]);
+		expect(batches.flat().map((s) => s.index)).toEqual([0, 1, 2, 3, 4]);
+		expect(onProgress).toHaveBeenLastCalledWith(5, 5);
+
+		// Traits come back in layer order, with this thread's images
+		const [first] = batches[0];
+		expect(first.traits.map((t) => t.layerId)).toEqual(['head', 'eyes']);
+		expect(first.traits[0].trait.imageData.byteLength).toBe(4);
+
+		const [worker] = FakeSolverWorker.instances;
+		expect(worker.posted[0].payload.layers[0].traits[0]).not.toHaveProperty('imageData');
+		expect(worker.terminated).toBe(true);
+	});
+
+	it('solves the same tokens on the main thread for the same seed', async () => {
+		const request = { layers, collectionSize: 6, seed: 42 };
+		const inWorker = await collect(streamSolutions(request));
+		const inThread = await collect(streamSolutions(request, { useWorker: false }));
+
+		expect(tokenKeys(inWorker)).toEqual(tokenKeys(inThread));
+		expect(new Set(tokenKeys(inWorker).map((k) => k.split(':')[1])).size).toBe(6);
+	});
+
+	it("keeps the trait's metadata fields on solved traits", async () => {
+		const head = makeLayer('head', 0, ['crown']);
+		head.traits[0] = {
+			...head.traits[0],
+			metadataValue: 'Royal Crown',
+			attributes: [{ trait_type: 'Material', value: 'Gold' }]
+		};
+		const [[solution]] = await collect(streamSolutions({ layers: [head], collectionSize: 1 }));
+
+		expect(solution.traits[0].trait).toMatchObject({
+			metadataValue: 'Royal Crown',
+			attributes: [{ trait_type: 'Material', value: 'Gold' }]
+		});
+	});
+
+	it('throws when the worker runs out of unique combinations', async () => {
+		await expect(collect(streamSolutions({ layers, collectionSize: 7 }))).rejects.toThrow(
+			'Exhausted all possible valid unique combinations at item 7.'
+		);
+	});
+
+	it('stops the worker when cancelled mid-solve', async () => {
+		const stream = streamSolutions({ layers, collectionSize: 6 }, { batchSize: 1 });
+		const received: Solution[][] = [];
+		for await (const batch of stream) {
+			received.push(batch);
+			stream.cancel();
+		}
+
+		expect(received).toHaveLength(1);
+		expect(FakeSolverWorker.instances[0].terminated).toBe(true);
+	});
+});
@@ -0,0 +1,229 @@
+/**
+ * Solver worker client — streams solved tokens for a generation.
+ *
+ * Solving runs in a dedicated worker so large, rule-heavy collections don't
+ * freeze the UI. Batches are yielded as soon as the worker posts them, so
+ * rendering can start while the rest of the collection is still being
+ * solved. Where workers are unavailable, the same solve runs on the main
+ * thread and yields to the UI between batches.
+ */
+
+import { cloneColorVariant } from '$lib/domain/color-variants';
+import type {
+	SolveMessage,
+	SolvedBatchMessage,
+	SolverWorkerResponse,
+	TransferrableLayer,
+	TransferrableTrait
+} from '$lib/types/worker-messages';
+import { performanceMonitor } from '$lib/utils/performance-monitor';
+import {
+	solveCollection,
+	type SolveCollectionOptions,
+	type SolvedTokenRef
+} from './csp/solve-collection';
+import { safeStructuredClone } from './pool/sanitize';
+import { stripImageDataFromLayers, type Solution } from './trait-batch-scheduler';
+
+export interface SolveRequest extends SolveCollectionOptions {
+	layers: TransferrableLayer[];
+	collectionSize: number;
+}
+
+export interface StreamSolutionsOptions {
+	/** Most tokens per batch */
+	batchSize?: number;
+	/** Solve in a worker; defaults to whether the environment has workers */
+	useWorker?: boolean;
+	/** Called before each batch is yielded */
+	onProgress?: (solvedCount: number, totalCount: number) => void;
+}
+
+/** Solved batches in token order. Iteration throws if solving fails. */
+export interface SolutionStream extends AsyncIterable<Solution[]> {
+	/** Stop solving; iteration ends without further batches */
+	cancel(): void;
+}
+
+type SolvedBatch = SolvedBatchMessage['payload'];
+
+interface BatchSource {
+	batches: AsyncIterable<SolvedBatch>;
+	stop(): void;
+}
+
+const DEFAULT_BATCH_SIZE = 50;
+
+/**
+ * Start solving a collection and stream the solved tokens.
+ * Nothing is solved until iteration starts on the main thread; the worker
+ * starts right away.
+ */
+export function streamSolutions(
+	request: SolveRequest,
+	options: StreamSolutionsOptions = {}
+): SolutionStream {
+	const batchSize = options.batchSize ?? DEFAULT_BATCH_SIZE;
+	const useWorker = options.useWorker ?? typeof Worker !== 'undefined';
+	const source = useWorker ? solveInWorker(request, batchSize) : solveInThread(request, batchSize);
+	const resolve = createSolutionResolver(request.layers);
+	let cancelled = false;
+
+	return {
+		cancel() {
+			cancelled = true;
+			source.stop();
+		},
+
+		async *[Symbol.asyncIterator]() {
+			const timerId = performanceMonitor.startTimer('generation.preSolve');
+			let outcome: Record<string, unknown> | undefined = { cancelled: true };
+			try {
+				for await (const batch of source.batches) {
+					if (cancelled) break;
+					options.onProgress?.(batch.solvedCount, batch.totalCount);
+					yield batch.solutions.map(resolve);
+				}
+				outcome = cancelled ? { cancelled: true } : undefined;
+			} catch (error) {
+				outcome = { error: String(error) };
+				throw error;
+			} finally {
+				source.stop();
+				performanceMonitor.stopTimer(timerId, outcome);
+			}
+		}
+	};
+}
+
+function solveInWorker(request: SolveRequest, batchSize: number): BatchSource {
+	const worker = new Worker(new URL('./solver.worker.ts', import.meta.url), { type: 'module' });
+	const queue: SolverWorkerResponse[] = [];
+	let wake: (() => void) | null = null;
+	let stopped = false;
+
+	const receive = (message: SolverWorkerResponse) => {
+		queue.push(message);
+		wake?.();
+		wake = null;
+	};
+
+	worker.onmessage = (e: MessageEvent<SolverWorkerResponse>) => receive(e.data);
+	worker.onerror = (e: ErrorEvent) =>
+		receive({ type: 'solve-error', payload: { message: e.message || 'Solver worker failed' } });
+
+	const message: SolveMessage = {
+		type: 'solve',
+		payload: safeStructuredClone({
+			...request,
+			// The solver never reads trait images
+			layers: stripImageDataFromLayers(request.layers),
+			batchSize
+		})
+	};
+	worker.postMessage(message);
+
+	async function* batches(): AsyncGenerator<SolvedBatch> {
+		while (!stopped) {
+			const next = queue.shift();
+			if (!next) {
+				await new Promise<void>((r) => (wake = r));
+				continue;
+			}
+			if (next.type === 'solve-error') throw new Error(next.payload.message);
+			if (next.type === 'solve-complete') return;
+			yield next.payload;
+		}
+	}
+
+	return {
+		batches: batches(),
+		stop() {
+			if (stopped) return;
+			stopped = true;
+			worker.terminate();
+			wake?.();
+			wake = null;
+		}
+	};
+}
+
+function solveInThread(request: SolveRequest, batchSize: number): BatchSource {
+	const { layers, collectionSize, ...options } = request;
+	let stopped = false;
+
+	async function* batches(): AsyncGenerator<SolvedBatch> {
+		let solutions: SolvedTokenRef[] = [];
+		let solvedCount = 0;
+		for (const token of solveCollection(layers, collectionSize, options)) {
+			if (stopped) return;
+			solutions.push(token);
+			solvedCount++;
+			if (solutions.length === batchSize || solvedCount === collectionSize) {
+				yield { solutions, solvedCount, totalCount: collectionSize };
+				solutions = [];
+				// Let the UI breathe between batches of larger collections
+				if (collectionSize >= 200) {
+					await new Promise((r) => setTimeout(r, 0));
+				}
+			}
+		}
+	}
+
+	return {
+		batches: batches(),
+		stop() {
+			stopped = true;
+		}
+	};
+}
+
+/** Map trait references back to this thread's traits (with their images) */
+function createSolutionResolver(layers: TransferrableLayer[]): (token: SolvedTokenRef) => Solution {
+	const traits = new Map<string, TransferrableTrait>();
+	for (const layer of layers) {
+		for (const trait of layer.traits) {
+			traits.set(`${layer.id}:${trait.id}`, trait);
+		}
+	}
+
+	return (token) => ({
+		index: token.index,
+		traits: token.traitRefs.map(({ layerId, traitId }) => {
+			const trait = traits.get(`${layerId}:${traitId}`);
+			if (!trait) {
+				throw new Error(`Solved trait ${traitId} is not in layer ${layerId}.`);
+			}
+			return { layerId, trait: cloneTraitForSolution(trait) };
+		})
+	});
+}
+
+function cloneTraitForSolution(trait: TransferrableTrait): TransferrableTrait {
+	return {
+		id: trait.id,
+		name: trait.name,
+		imageData: trait.imageData,
+		rarityWeight: trait.rarityWeight,
+		metadataValue: trait.metadataValue,
+		attributes: trait.attributes?.map((a) => ({ trait_type: a.trait_type, value: a.value })),
+		width: trait.width,
+		height: trait.height,
+		type: trait.type,
+		rulerRules: trait.rulerRules
+			? trait.rulerRules.map((r) => ({
+					layerId: r.layerId,
+					allowedTraitIds: [...r.allowedTraitIds],
+					forbiddenTraitIds: [...r.forbiddenTraitIds]
+				}))
+			: undefined,
+		exactCount: trait.exactCount,
+		maxCount: trait.maxCount,
+		renderOverride: trait.renderOverride ? { ...trait.renderOverride } : undefined,
+		blendMode: trait.blendMode,
+		opacity: trait.opacity,
+		placement: trait.placement ? { ...trait.placement } : undefined,
+		variant: trait.variant ? cloneColorVariant(trait.variant) : undefined,
+		links: trait.links ? trait.links.map((link) => ({ ...link })) : undefined
+	};
+}
@@ -0,0 +1,13 @@
+/**
+ * Solver worker — runs the CSP solve for one generation off the main thread
+ * and streams the solved tokens back in batches. The client terminates the
+ * worker to cancel, which stops the solve wherever it is.
+ */
+
+import type { SolveMessage } from '$lib/types/worker-messages';
+import { postSolvedBatches } from './csp/solve-collection';
+
+self.addEventListener('message', (e: MessageEvent<SolveMessage>) => {
+	if (e.data.type !== 'solve') return;
+	postSolvedBatches(e.data.payload, (message) => self.postMessage(message));
+});
@@ -1,6 +1,7 @@
 /**
- * Trait batch scheduler — dispatches pre-solved trait combinations
- * to the worker pool for image rendering.
+ * Trait batch scheduler — dispatches solved trait combinations
+ * to the worker pool for image rendering, either all at once or as
+ * they stream in from the solver.
  *
  * Extracted from generation.worker.client.ts to separate orchestration concern.
  */
@@ -38,7 +39,14 @@ export interface BatchConfig {
 	projectName: string;
 	projectDescription: string;
 	metadataStandard?: import('$lib/domain/metadata/metadata.strategy').MetadataStandard;
+	imageEncoding?: import('$lib/domain/image-encoding').ImageEncoding;
+	renditions?: import('$lib/domain/renditions').RenditionSpec[];
+	pixelArtScale?: number;
+	tokenTemplates?: import('$lib/domain/token-templates').TokenTemplates;
+	extraAttributes?: import('$lib/types/project').ExtraAttribute[];
 	extraData?: Record<string, unknown>;
+	/** Stops dispatching further batches once it returns true */
+	shouldCancel?: () => boolean;
 }
 
 export interface Solution {
@@ -47,10 +55,14 @@ export interface Solution {
 		layerId: string;
 		trait: import('$lib/types/worker-messages').TransferrableTrait;
 	}[];
+	/** Set for hand-made tokens, which are rendered from their own image */
+	oneOfOne?: import('$lib/types/worker-messages').TransferrableOneOfOne;
+	/** 1 for the rarest token; only set when an attribute needs it */
+	rarityRank?: number;
 }
 
 /** Strip imageData from layers payload — workers only need layer names for metadata, never access trait buffers from the layers array. */
-function stripImageDataFromLayers(
+export function stripImageDataFromLayers(
 	layers: import('$lib/types/worker-messages').TransferrableLayer[]
 ): import('$lib/types/worker-messages').TransferrableLayer[] {
 	return layers.map((layer) => ({
@@ -83,8 +95,33 @@ function calculateAdaptiveBatchSize(
 	return size;
 }
 
+/** Re-chunk solutions, arriving all at once or streamed, into batches */
+async function* chunkSolutions(
+	source: Solution[] | AsyncIterable<Solution[]>,
+	size: number
+): AsyncGenerator<Solution[]> {
+	if (Array.isArray(source)) {
+		for (let i = 0; i < source.length; i += size) {
+			yield source.slice(i, i + size);
+		}
+		return;
+	}
+
+	let pending: Solution[] = [];
+	for await (const solutions of source) {
+		pending = pending.concat(solutions);
+		while (pending.length >= size) {
+			yield pending.slice(0, size);
+			pending = pending.slice(size);
+		}
+	}
+	if (pending.length > 0) {
+		yield pending;
+	}
+}
+
 /**
- * Schedules pre-computed trait solutions as batches dispatched to the worker pool.
+ * Schedules trait solutions as batches dispatched to the worker pool.
  */
 export class TraitBatchScheduler {
 	private config: BatchConfig;
@@ -95,21 +132,14 @@ export class TraitBatchScheduler {
 
 	/**
 	 * Chunk solutions into batches and dispatch them to the worker pool.
-	 * Resolves when all batches complete.
+	 * A stream of solutions is dispatched as each batch fills up, so rendering
+	 * starts before solving finishes. Resolves when all batches complete.
 	 */
 	async scheduleBatches(
-		solutions: Solution[],
+		solutions: Solution[] | AsyncIterable<Solution[]>,
 		batchSize = BATCH_CONFIG.DEFAULT_BATCH_SIZE
 	): Promise<void> {
-		const {
-			layers,
-			collectionSize,
-			outputSize,
-			projectName,
-			projectDescription,
-			metadataStandard,
-			extraData
-		} = this.config;
+		const { layers, collectionSize, outputSize, shouldCancel } = this.config;
 
 		const effectiveBatchSize = isFlagEnabled('enableAdaptiveBatchSize')
 			? calculateAdaptiveBatchSize(
@@ -137,7 +167,9 @@ export class TraitBatchScheduler {
 			await Promise.all(Array.from({ length: workerCount }, () => postMessageToPool(initMessage)));
 		}
 
-		const totalBatches = Math.ceil(solutions.length / effectiveBatchSize);
+		const totalBatches = Math.ceil(
+			(Array.isArray(solutions) ? solutions.length : collectionSize) / effectiveBatchSize
+		);
 		const windowSize = getWorkerPoolStatus()?.totalWorkers || BATCH_CONFIG.WINDOW_SIZE;
 
 		if (import.meta.env.DEV)
@@ -148,55 +180,88 @@ export class TraitBatchScheduler {
 		// FIND-3: Process batches in windows to prevent unbounded queue growth.
 		// Each window awaits completion before dispatching the next window,
 		// allowing solution data from processed batches to be GC'd.
-		for (let b = 0; b < totalBatches; b += windowSize) {
-			const windowPromises: Promise<unknown>[] = [];
-			const windowEnd = Math.min(b + windowSize, totalBatches);
-
-			for (let w = b; w < windowEnd; w++) {
-				const batchSolutions = solutions.slice(
-					w * effectiveBatchSize,
-					(w + 1) * effectiveBatchSize
-				);
-
-				if (useLayerRef) {
-					const message: BatchRefMessage = {
-						type: 'batch-ref',
-						payload: {
-							solutions: batchSolutions.map((s) => ({
-								index: s.index,
-								traitRefs: s.traits.map((t) => ({
-									layerId: t.layerId,
-									traitId: t.trait.id
-								}))
-							})),
-							collectionSize,
-							outputSize,
-							projectName,
-							projectDescription,
-							metadataStandard,
-							extraData
-						}
-					};
-					windowPromises.push(postMessageToPool(message));
-				} else {
-					const message: BatchMessage = {
-						type: 'batch',
-						payload: {
-							solutions: batchSolutions,
-							layers: stripImageDataFromLayers(layers),
-							collectionSize,
-							outputSize,
-							projectName,
-							projectDescription,
-							metadataStandard,
-							extraData
-						}
-					};
-					windowPromises.push(postMessageToPool(message));
-				}
+		let windowPromises: Promise<unknown>[] = [];
+		for await (const batchSolutions of chunkSolutions(solutions, effectiveBatchSize)) {
+			if (shouldCancel?.()) return;
+
+			const promise = postMessageToPool(this.createBatchMessage(batchSolutions, useLayerRef));
+			// A streamed window can wait on the solver before it is awaited;
+			// the rejection is still surfaced by Promise.all below
+			promise.catch(() => {});
+			windowPromises.push(promise);
+
+			if (windowPromises.length >= windowSize) {
+				await Promise.all(windowPromises);
+				windowPromises = [];
 			}
+		}
+		await Promise.all(windowPromises);
+	}
 
-			await Promise.all(windowPromises);
+	private createBatchMessage(
+		batchSolutions: Solution[],
+		useLayerRef: boolean
+	): BatchRefMessage | BatchMessage {
+		const {
+			layers,
+			collectionSize,
+			outputSize,
+			projectName,
+			projectDescription,
+			metadataStandard,
+			imageEncoding,
+			renditions,
+			pixelArtScale,
+			tokenTemplates,
+			extraAttributes,
+			extraData
+		} = this.config;
+
+		if (useLayerRef) {
+			return {
+				type: 'batch-ref',
+				payload: {
+					solutions: batchSolutions.map((s) => ({
+						index: s.index,
+						traitRefs: s.traits.map((t) => ({
+							layerId: t.layerId,
+							traitId: t.trait.id
+						})),
+						oneOfOne: s.oneOfOne,
+						rarityRank: s.rarityRank
+					})),
+					collectionSize,
+					outputSize,
+					projectName,
+					projectDescription,
+					metadataStandard,
+					imageEncoding,
+					renditions,
+					pixelArtScale,
+					tokenTemplates,
+					extraAttributes,
+					extraData
+				}
+			};
 		}
+
+		return {
+			type: 'batch',
+			payload: {
+				solutions: batchSolutions,
+				layers: stripImageDataFromLayers(layers),
+				collectionSize,
+				outputSize,
+				projectName,
+				projectDescription,
+				metadataStandard,
+				imageEncoding,
+				renditions,
+				pixelArtScale,
+				tokenTemplates,
+				extraAttributes,
+				extraData
+			}
+		};
 	}
 }